@@ -0,0 +1,103 @@
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { Knex } from 'knex';
+import { CaregiverRepository } from './caregiver/repositories/CaregiverRepository';
+import { CaregiverService } from './caregiver/services/CaregiverService';
+import { CaregiverController } from './caregiver/controllers/CaregiverController';
+import { CaregiverMergeRepository } from './caregiver/repositories/CaregiverMergeRepository';
+import { CaregiverMergeService } from './caregiver/services/CaregiverMergeService';
+import { CaregiverMergeController } from './caregiver/controllers/CaregiverMergeController';
+import { createCaregiverRouter } from './caregiver/routes/caregiverRoutes';
+import { CarelogsRepository } from './carelogs/repositories/CarelogsRepository';
+import { CarelogsService } from './carelogs/services/CarelogsService';
+import { CarelogsController } from './carelogs/controllers/CarelogsController';
+import { createCarelogsRouter } from './carelogs/routes/carelogsRoutes';
+import { ETLRunRepository } from './etl/repositories/ETLRunRepository';
+import { ETLRunService } from './etl/services/ETLRunService';
+import { ETLRunController } from './etl/controllers/ETLRunController';
+import { ETLQuarantineRepository } from './etl/repositories/ETLQuarantineRepository';
+import { ETLWatermarkRepository } from './etl/repositories/ETLWatermarkRepository';
+import { ETLQuarantineService } from './etl/services/ETLQuarantineService';
+import { ETLQuarantineController } from './etl/controllers/ETLQuarantineController';
+import { createETLRouter } from './etl/routes/etlRoutes';
+import { JobQueueRepository } from './jobs/repositories/JobQueueRepository';
+import { JobQueueService } from './jobs/services/JobQueueService';
+import { JobController } from './jobs/controllers/JobController';
+import { createJobRouter } from './jobs/routes/jobRoutes';
+import { DataQualityRepository } from './quality/repositories/DataQualityRepository';
+import { DataQualityService } from './quality/services/DataQualityService';
+import { DataQualityController } from './quality/controllers/DataQualityController';
+import { createDataQualityRouter } from './quality/routes/dataQualityRoutes';
+import { createDocsRouter } from './docs/routes/docsRoutes';
+import { sendData, sendError } from './shared/utils/apiResponse';
+import { HealthStatus } from './shared/types/api-types';
+import { errorMessage } from './shared/utils/errors';
+
+/**
+ * Build the Express application
+ * Wires repositories -> services -> controllers for each module and mounts their routers
+ */
+export function createApp(knex: Knex): Express {
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+
+  // ETL run history, quarantine and watermarks (shared by the entity repositories)
+  const etlRunRepository = new ETLRunRepository(knex);
+  const etlRunService = new ETLRunService(etlRunRepository);
+  const etlRunController = new ETLRunController(etlRunService);
+  const quarantineRepository = new ETLQuarantineRepository(knex);
+  const watermarkRepository = new ETLWatermarkRepository(knex);
+
+  // Background jobs (bulk uploads and exports are queued here and run by `npm run worker`)
+  const jobQueueService = new JobQueueService(new JobQueueRepository(knex));
+  const jobController = new JobController(jobQueueService);
+
+  // Caregivers
+  const caregiverRepository = new CaregiverRepository(knex, etlRunRepository, quarantineRepository, watermarkRepository);
+  const caregiverService = new CaregiverService(caregiverRepository, jobQueueService);
+  const caregiverController = new CaregiverController(caregiverService);
+  const caregiverMergeService = new CaregiverMergeService(new CaregiverMergeRepository(knex), jobQueueService);
+  const caregiverMergeController = new CaregiverMergeController(caregiverMergeService);
+
+  // Carelogs
+  const carelogsRepository = new CarelogsRepository(knex, etlRunRepository, quarantineRepository, watermarkRepository);
+  const carelogsService = new CarelogsService(carelogsRepository, jobQueueService);
+  const carelogsController = new CarelogsController(carelogsService);
+
+  // Quarantine replays go back through the entity repositories
+  const quarantineService = new ETLQuarantineService(quarantineRepository, caregiverRepository, carelogsRepository);
+  const quarantineController = new ETLQuarantineController(quarantineService);
+
+  // Data quality (profiles are queued after successful ETL runs, or on demand)
+  const dataQualityService = new DataQualityService(new DataQualityRepository(knex), jobQueueService);
+  const dataQualityController = new DataQualityController(dataQualityService);
+
+  app.get('/health', async (req: Request, res: Response) => {
+    try {
+      await knex.raw('SELECT 1');
+      sendData<HealthStatus>(res, { status: 'ok' });
+    } catch (error) {
+      sendError(res, 503, `Database unavailable: ${errorMessage(error)}`);
+    }
+  });
+
+  app.use('/api/caregivers', createCaregiverRouter(caregiverController, caregiverMergeController));
+  app.use('/api/carelogs', createCarelogsRouter(carelogsController));
+  app.use('/api/etl', createETLRouter(etlRunController, quarantineController));
+  app.use('/api/jobs', createJobRouter(jobController));
+  app.use('/api/data-quality', createDataQualityRouter(dataQualityController));
+
+  // OpenAPI document at /openapi.json, rendered at /docs
+  app.use(createDocsRouter());
+
+  app.use((req: Request, res: Response) => {
+    sendError(res, 404, `Route not found: ${req.method} ${req.path}`);
+  });
+
+  // Malformed JSON bodies (body-parser sets the status) and anything a controller did not catch
+  app.use((error: Error & { status?: number; statusCode?: number }, req: Request, res: Response, _next: NextFunction) => {
+    const status = error.status || error.statusCode || 500;
+    sendError(res, status, error.message || 'Internal server error');
+  });
+
+  return app;
+}
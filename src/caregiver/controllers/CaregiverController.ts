@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { CaregiverService } from '../services/CaregiverService';
+import { ReceivedUpload, receiveCSVUpload, UploadError } from '../../shared/utils/upload';
+import { sendAccepted, sendData, sendError, sendMessage, sendPage } from '../../shared/utils/apiResponse';
+import { errorMessage } from '../../shared/utils/errors';
 
 export class CaregiverController {
   constructor(private caregiverService: CaregiverService) {}
@@ -7,18 +10,56 @@ export class CaregiverController {
   async getAllCaregivers(req: Request, res: Response): Promise<void> {
     try {
       const caregivers = await this.caregiverService.getAllCaregivers();
-      res.json({ success: true, data: caregivers });
+      sendData(res, caregivers);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 500, errorMessage(error));
     }
   }
 
   async getActiveCaregivers(req: Request, res: Response): Promise<void> {
     try {
       const caregivers = await this.caregiverService.getActiveCaregivers();
-      res.json({ success: true, data: caregivers });
+      sendData(res, caregivers);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  /**
+   * Search caregivers (`q` plus filters), paged by limit and offset; `include_total=true` adds the number of matches
+   */
+  async searchCaregivers(req: Request, res: Response): Promise<void> {
+    const {
+      q, limit, offset, agency_id, franchisor_id, location_id, status, applicant_status, sstatus, certification_level,
+      onboarding_from, onboarding_to
+    } = req.query;
+    const options = {
+      q: q as string | undefined,
+      limit: parseInt(limit as string) || 50,
+      offset: parseInt(offset as string) || 0,
+      agency_id: agency_id ? parseInt(agency_id as string) : undefined,
+      franchisor_id: franchisor_id ? parseInt(franchisor_id as string) : undefined,
+      location_id: location_id ? parseInt(location_id as string) : undefined,
+      status: status as string | undefined,
+      applicant_status: applicant_status as string | undefined,
+      sstatus: sstatus as string | undefined,
+      certification_level: certification_level as string | undefined,
+      onboarding_from: onboarding_from as string | undefined,
+      onboarding_to: onboarding_to as string | undefined
+    };
+    if (options.onboarding_from && options.onboarding_to && options.onboarding_from > options.onboarding_to) {
+      sendError(res, 400, 'onboarding_from must not be after onboarding_to');
+      return;
+    }
+
+    try {
+      const { caregivers, total } = await this.caregiverService.searchCaregivers({
+        ...options,
+        includeTotal: req.query.include_total === 'true'
+      });
+      sendPage(res, caregivers, { ...options, total });
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
     }
   }
 
@@ -26,28 +67,28 @@ export class CaregiverController {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        res.status(400).json({ success: false, error: 'Invalid caregiver ID' });
+        sendError(res, 400, 'Invalid caregiver ID');
         return;
       }
 
       const caregiver = await this.caregiverService.getCaregiverById(id);
       if (!caregiver) {
-        res.status(404).json({ success: false, error: 'Caregiver not found' });
+        sendError(res, 404, 'Caregiver not found');
         return;
       }
 
-      res.json({ success: true, data: caregiver });
+      sendData(res, caregiver);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 500, errorMessage(error));
     }
   }
 
   async createCaregiver(req: Request, res: Response): Promise<void> {
     try {
       const caregiver = await this.caregiverService.createCaregiver(req.body);
-      res.status(201).json({ success: true, data: caregiver });
+      sendData(res, caregiver, 201);
     } catch (error) {
-      res.status(400).json({ success: false, error: error.message });
+      sendError(res, 400, errorMessage(error));
     }
   }
 
@@ -55,19 +96,19 @@ export class CaregiverController {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        res.status(400).json({ success: false, error: 'Invalid caregiver ID' });
+        sendError(res, 400, 'Invalid caregiver ID');
         return;
       }
 
       const caregiver = await this.caregiverService.updateCaregiver(id, req.body);
       if (!caregiver) {
-        res.status(404).json({ success: false, error: 'Caregiver not found' });
+        sendError(res, 404, 'Caregiver not found');
         return;
       }
 
-      res.json({ success: true, data: caregiver });
+      sendData(res, caregiver);
     } catch (error) {
-      res.status(400).json({ success: false, error: error.message });
+      sendError(res, 400, errorMessage(error));
     }
   }
 
@@ -75,28 +116,68 @@ export class CaregiverController {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        res.status(400).json({ success: false, error: 'Invalid caregiver ID' });
+        sendError(res, 400, 'Invalid caregiver ID');
         return;
       }
 
       const deleted = await this.caregiverService.deleteCaregiver(id);
       if (!deleted) {
-        res.status(404).json({ success: false, error: 'Caregiver not found' });
+        sendError(res, 404, 'Caregiver not found');
         return;
       }
 
-      res.json({ success: true, message: 'Caregiver deleted successfully' });
+      sendMessage(res, 'Caregiver deleted successfully');
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 500, errorMessage(error));
     }
   }
 
+  /**
+   * Queue the CSV load and return 202 with the job to poll at GET /api/jobs/:id
+   */
   async bulkUploadFromCsv(req: Request, res: Response): Promise<void> {
     try {
-      await this.caregiverService.bulkUploadFromCsv();
-      res.json({ success: true, message: 'CSV data uploaded successfully' });
+      const { mode, batchSize } = req.body || {};
+      const job = await this.caregiverService.bulkUploadFromCsv({ mode, batchSize });
+      sendAccepted(res, job);
+    } catch (error) {
+      sendError(res, 400, errorMessage(error));
+    }
+  }
+
+  /**
+   * Multipart CSV upload (field `file`, plus optional `mode`, `batchSize` and `async` fields)
+   * Answers 202 with a job by default, or the ETL summary when `async` is `false`
+   */
+  async uploadCsv(req: Request, res: Response): Promise<void> {
+    let upload: ReceivedUpload;
+    try {
+      upload = await receiveCSVUpload(req);
+    } catch (error) {
+      sendError(res, error instanceof UploadError ? error.status : 500, errorMessage(error));
+      return;
+    }
+
+    try {
+      const { mode, batchSize, async } = upload.fields;
+      const outcome = await this.caregiverService.uploadCsv(upload, {
+        mode,
+        batchSize: batchSize ? Number(batchSize) : undefined,
+        async: async !== 'false'
+      });
+
+      if (outcome.job) {
+        sendAccepted(res, outcome.job);
+        return;
+      }
+
+      if (!outcome.summary!.success) {
+        sendError(res, 422, outcome.summary!.error, outcome.summary);
+        return;
+      }
+      sendData(res, outcome.summary);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 400, errorMessage(error));
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import { CaregiverMergeService } from '../services/CaregiverMergeService';
+import { CaregiverMergeError } from '../repositories/CaregiverMergeRepository';
+import { sendAccepted, sendData, sendError, sendPage } from '../../shared/utils/apiResponse';
+import { errorMessage } from '../../shared/utils/errors';
+
+export class CaregiverMergeController {
+  constructor(private mergeService: CaregiverMergeService) { }
+
+  /**
+   * Queue a duplicate scan and return 202 with the job to poll at GET /api/jobs/:id
+   */
+  async scanDuplicates(req: Request, res: Response): Promise<void> {
+    try {
+      const { minScore, agencyId, limit } = req.body || {};
+      const job = await this.mergeService.enqueueDuplicateScan({ minScore, agencyId, limit });
+      sendAccepted(res, job);
+    } catch (error) {
+      sendError(res, 400, errorMessage(error));
+    }
+  }
+
+  async getMerges(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit = 50, offset = 0, caregiver_id, status } = req.query;
+      const options = {
+        limit: parseInt(limit as string) || 50,
+        offset: parseInt(offset as string) || 0,
+        caregiver_id: caregiver_id ? parseInt(caregiver_id as string) : undefined,
+        status: status as string
+      };
+      const merges = await this.mergeService.getMerges(options);
+      sendPage(res, merges, options);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async getMergeById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid merge ID');
+        return;
+      }
+
+      const merge = await this.mergeService.getMergeById(id);
+      if (!merge) {
+        sendError(res, 404, 'Merge not found');
+        return;
+      }
+
+      sendData(res, merge);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  /**
+   * Merge `duplicate_id` into `survivor_id`; 404 for an unknown caregiver, 409 when either was already merged
+   */
+  async mergeCaregivers(req: Request, res: Response): Promise<void> {
+    try {
+      const { survivor_id, duplicate_id, score, reason } = req.body || {};
+      const merge = await this.mergeService.mergeCaregivers({ survivor_id, duplicate_id, score, reason });
+      sendData(res, merge, 201);
+    } catch (error) {
+      sendError(res, error instanceof CaregiverMergeError ? error.status : 400, errorMessage(error));
+    }
+  }
+
+  /**
+   * Undo a merge; 409 when it was already undone or the survivor has since been merged itself
+   */
+  async undoMerge(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid merge ID');
+        return;
+      }
+
+      const merge = await this.mergeService.undoMerge(id);
+      if (!merge) {
+        sendError(res, 404, 'Merge not found');
+        return;
+      }
+
+      sendData(res, merge);
+    } catch (error) {
+      sendError(res, error instanceof CaregiverMergeError ? error.status : 500, errorMessage(error));
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { CaregiverRepository } from '../repositories/CaregiverRepository';
-import { knex } from '../../infrastructure/database/connection';
+import { knexInstance as knex } from '../../infrastructure/database/knexConnection';
+import { errorMessage } from '../../shared/utils/errors';
 
 /**
  * This file demonstrates how to use the ETL pipeline for the caregivers table.
@@ -31,7 +32,7 @@ async function runCaregiverETLExamples() {
       console.log(`- Load errors: ${csvResult.loadResult.errorCount}`);
     }
   } catch (error) {
-    console.error('CSV ETL failed:', error.message);
+    console.error('CSV ETL failed:', errorMessage(error));
   }
   
   // Example 2: Extract from API
@@ -49,7 +50,7 @@ async function runCaregiverETLExamples() {
     console.log(`- Records that would be extracted: ${apiResult.extractedCount}`);
     console.log(`- Records that would be transformed: ${apiResult.transformedCount}`);
   } catch (error) {
-    console.error('API ETL failed:', error.message);
+    console.error('API ETL failed:', errorMessage(error));
   }
   
   // Example 3: Extract from Database
@@ -71,25 +72,23 @@ async function runCaregiverETLExamples() {
       console.log(`- Load errors: ${dbResult.loadResult.errorCount}`);
     }
   } catch (error) {
-    console.error('Database ETL failed:', error.message);
+    console.error('Database ETL failed:', errorMessage(error));
   }
   
   // Example 4: Using individual ETL methods
   try {
     console.log('\n4. Using individual ETL methods');
     
-    // Extract
-    const rawData = await caregiverRepo.extractFromCSV('./data/caregivers_sample.csv');
-    console.log(`- Extracted ${rawData.length} records`);
-    
-    // Transform
-    const transformedData = caregiverRepo.transformCaregiverData(rawData);
-    console.log(`- Transformed ${transformedData.length} records`);
+    // Extract and transform one batch at a time
+    for await (const rawBatch of caregiverRepo.extractFromCSV('./data/caregivers_sample.csv')) {
+      const transformedData = caregiverRepo.transformCaregiverData(rawBatch);
+      console.log(`- Transformed ${transformedData.length} of ${rawBatch.length} records`);
+    }
     
     // Load (validate only)
     console.log('- Skipping load phase for this example');
   } catch (error) {
-    console.error('Individual ETL methods failed:', error.message);
+    console.error('Individual ETL methods failed:', errorMessage(error));
   }
   
   console.log('\n=== ETL EXAMPLES COMPLETED ===');
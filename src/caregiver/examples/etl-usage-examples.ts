@@ -6,7 +6,7 @@
  */
 
 import { CaregiverRepository } from '../repositories/CaregiverRepository';
-import { knex } from '../../infrastructure/database/connection';
+import { knexInstance as knex } from '../../infrastructure/database/knexConnection';
 
 // Initialize repository
 const caregiverRepo = new CaregiverRepository(knex);
@@ -106,27 +106,25 @@ export async function validateDataOnly() {
  */
 export async function customETLWorkflow() {
   try {
-    // EXTRACT
+    // EXTRACT: the file is read one batch at a time
     console.log('Extracting data...');
-    const rawData = await caregiverRepo.extractFromCSV('./data/caregivers.csv');
-    
-    // Custom filtering before transformation
-    const filteredData = rawData.filter(record => 
-      record.status === 'active' && record.email && record.first_name
-    );
-    
-    // TRANSFORM
-    console.log('Transforming data...');
-    const transformedData = caregiverRepo.transformCaregiverData(filteredData);
-    
-    // Custom validation or additional transformations
-    const validatedData = transformedData.filter(record => 
-      record.email && record.first_name && record.last_name
-    );
-    
-    // LOAD
-    console.log('Loading data...');
-    await caregiverRepo.loadCaregiverData(validatedData, 25);
+    for await (const rawBatch of caregiverRepo.extractFromCSV('./data/caregivers.csv', 25)) {
+      // Custom filtering before transformation
+      const filteredData = rawBatch.filter(record =>
+        record.status === 'active' && record.email && record.first_name
+      );
+
+      // TRANSFORM
+      const transformedData = caregiverRepo.transformCaregiverData(filteredData);
+
+      // Custom validation or additional transformations
+      const validatedData = transformedData.filter(record =>
+        record.email && record.first_name && record.last_name
+      );
+
+      // LOAD
+      await caregiverRepo.loadCaregiverData(validatedData, 25);
+    }
     
     console.log('Custom ETL workflow completed successfully!');
   } catch (error) {
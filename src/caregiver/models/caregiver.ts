@@ -6,6 +6,8 @@ export interface Caregiver {
   external_id?: number;
   applicant_status?: string;
   status?: string;
+  /** Surviving caregiver, when this caregiver was merged into it as a duplicate */
+  merged_into_id?: number | null;
   created_at?: Date | string;
   updated_at?: Date | string;
 
@@ -21,6 +23,7 @@ export interface Caregiver {
   birthday_date?: Date | string;
   onboarding_date?: Date | string;
   sstatus?: string;
+  certification_level?: string | null;
 
   // Fields from external table
   external_system_id?: string;
@@ -28,4 +31,38 @@ export interface Caregiver {
 
   // Fields from location join
   location_name?: string;
-}
\ No newline at end of file
+}
+
+/** Values of caregivers.status */
+export const CAREGIVER_STATUSES = ['active', 'deactivated'] as const;
+
+/** Values of profile.sstatus */
+export const PROFILE_STATUSES = ['active', 'inactive', 'pending', 'suspended', 'terminated'] as const;
+
+export const GENDERS = ['male', 'female', 'other', 'prefer_not_to_say'] as const;
+
+/** Largest page of a caregiver search */
+export const CAREGIVER_SEARCH_MAX_LIMIT = 100;
+
+/**
+ * Filters of a caregiver search; all given filters must match
+ */
+export interface CaregiverSearchFilters {
+  /** Free text matched against the name (full-text prefix or trigram similarity), the email and the phone digits */
+  q?: string;
+  agency_id?: number;
+  franchisor_id?: number;
+  location_id?: number;
+  status?: string;
+  applicant_status?: string;
+  sstatus?: string;
+  certification_level?: string;
+  /** Onboarding date range, inclusive (YYYY-MM-DD) */
+  onboarding_from?: string;
+  onboarding_to?: string;
+}
+
+export interface CaregiverSearchOptions extends CaregiverSearchFilters {
+  limit?: number;
+  offset?: number;
+}
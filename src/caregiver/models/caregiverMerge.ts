@@ -0,0 +1,101 @@
+/**
+ * Caregiver merge model - one duplicate caregiver merged into a surviving caregiver (caregiver_merges table)
+ * Holds what the merge moved, so it can be undone
+ */
+export interface CaregiverMerge {
+  /** Primary key - unique identifier for the merge */
+  id: number;
+
+  /** Foreign key to caregivers table - the caregiver that is kept */
+  survivor_id: number;
+
+  /** Foreign key to caregivers table - the duplicate, which now points at the survivor through merged_into_id */
+  duplicate_id: number;
+
+  status: CaregiverMergeStatus;
+
+  /** Duplicate score of the pair, when the merge came from a scan */
+  score?: number | null;
+
+  /** Why the caregivers were merged */
+  reason?: string | null;
+
+  /** Status of the duplicate before the merge, restored by an undo */
+  previous_status?: string | null;
+
+  /** Carelogs moved from the duplicate to the survivor */
+  carelog_ids: number[];
+
+  /** Parent visits whose primary caregiver was moved from the duplicate to the survivor */
+  parent_ids: number[];
+
+  /** Caregivers merged into the duplicate earlier, re-pointed at the survivor */
+  redirected_caregiver_ids: number[];
+
+  merged_at: Date | string;
+  undone_at?: Date | string | null;
+}
+
+/**
+ * Enum for caregiver merge status values
+ */
+export enum CaregiverMergeStatus {
+  MERGED = 'merged',
+  UNDONE = 'undone'
+}
+
+/**
+ * Caregiver fields compared by the duplicate scan
+ */
+export interface DuplicateScanRecord {
+  id: number;
+  agency_id?: number | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string | null;
+  phone_number?: string | null;
+  birthday_date?: string | null;
+}
+
+/**
+ * A pair of caregivers that are likely the same person
+ */
+export interface DuplicateCandidate {
+  caregiver_id: number;
+  duplicate_id: number;
+
+  /** Weighted similarity of the compared fields, 0-1 */
+  score: number;
+
+  /** Similarity (0-1) of each field present on both caregivers */
+  field_scores: Partial<Record<DuplicateField, number>>;
+
+  caregiver: DuplicateScanRecord;
+  duplicate: DuplicateScanRecord;
+}
+
+export type DuplicateField = 'name' | 'email' | 'phone' | 'birthday';
+
+/**
+ * Options of a duplicate scan
+ */
+export interface DuplicateScanOptions {
+  /** Lowest score reported (default 0.8) */
+  minScore?: number;
+
+  /** Only compare caregivers of this agency */
+  agencyId?: number;
+
+  /** Most pairs reported, highest scores first (default 1000) */
+  limit?: number;
+}
+
+/**
+ * Interface for merging two caregivers
+ */
+export interface CreateCaregiverMergeData {
+  survivor_id: number;
+  duplicate_id: number;
+  score?: number | null;
+  reason?: string | null;
+}
@@ -0,0 +1,247 @@
+import { Knex } from 'knex';
+import {
+  CaregiverMerge, CaregiverMergeStatus, CreateCaregiverMergeData, DuplicateScanRecord
+} from '../models/caregiverMerge';
+import { errorMessage } from '../../shared/utils/errors';
+
+/**
+ * Rejected merge or undo, with the HTTP status to answer with (404 or 409)
+ */
+export class CaregiverMergeError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+/**
+ * Repository for caregiver deduplication: the caregivers compared by a duplicate scan,
+ * and merges of a duplicate into a surviving caregiver (caregiver_merges)
+ */
+export class CaregiverMergeRepository {
+  constructor(private readonly knex: Knex) { }
+
+  /**
+   * Caregivers that have not been merged, with the profile fields the duplicate scan compares
+   */
+  async findDuplicateScanRecords(agencyId?: number): Promise<DuplicateScanRecord[]> {
+    try {
+      let query = this.knex('caregivers')
+        .innerJoin('profile', 'caregivers.profile_id', 'profile.id')
+        .whereNull('caregivers.merged_into_id')
+        .select(
+          'caregivers.id',
+          'caregivers.agency_id',
+          'profile.first_name',
+          'profile.last_name',
+          'profile.email',
+          'profile.phone_number',
+          'profile.birthday_date'
+        )
+        .orderBy('caregivers.id', 'asc');
+
+      if (agencyId) {
+        query = query.where('caregivers.agency_id', agencyId);
+      }
+
+      return await query;
+    } catch (error) {
+      console.error('Error in CaregiverMergeRepository.findDuplicateScanRecords:', error);
+      throw new Error(`Failed to fetch caregivers for the duplicate scan: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Merge a duplicate caregiver into a survivor, in one transaction:
+   * carelogs and parent visits of the duplicate move to the survivor, caregivers merged into the duplicate earlier
+   * are re-pointed at the survivor, and the duplicate is deactivated with merged_into_id set, so its external IDs
+   * resolve to the survivor. What moved is recorded on the merge for undo
+   */
+  async merge(data: CreateCaregiverMergeData): Promise<CaregiverMerge> {
+    try {
+      return await this.knex.transaction(async (trx) => {
+        const { survivor, duplicate } = await this.lockPair(trx, data.survivor_id, data.duplicate_id);
+
+        if (survivor.merged_into_id) {
+          throw new CaregiverMergeError(
+            `Caregiver ${survivor.id} was merged into caregiver ${survivor.merged_into_id}; merge into that caregiver instead`, 409
+          );
+        }
+        if (duplicate.merged_into_id) {
+          throw new CaregiverMergeError(`Caregiver ${duplicate.id} was already merged into caregiver ${duplicate.merged_into_id}`, 409);
+        }
+
+        const now = new Date();
+        const carelogIds = await trx('carelogs')
+          .where('caregiver_id', duplicate.id)
+          .update({ caregiver_id: survivor.id, updated_at: now })
+          .returning('id');
+        const parentIds = await trx('parent')
+          .where('primary_caregiver_id', duplicate.id)
+          .update({ primary_caregiver_id: survivor.id, updated_at: now })
+          .returning('id');
+        const redirectedIds = await trx('caregivers')
+          .where('merged_into_id', duplicate.id)
+          .update({ merged_into_id: survivor.id, updated_at: now })
+          .returning('id');
+
+        await trx('caregivers')
+          .where('id', duplicate.id)
+          .update({ merged_into_id: survivor.id, status: 'deactivated', updated_at: now });
+
+        const [merge] = await trx('caregiver_merges')
+          .insert({
+            survivor_id: survivor.id,
+            duplicate_id: duplicate.id,
+            status: CaregiverMergeStatus.MERGED,
+            score: data.score ?? null,
+            reason: data.reason ?? null,
+            previous_status: duplicate.status,
+            carelog_ids: JSON.stringify(carelogIds.map((row: any) => row.id)),
+            parent_ids: JSON.stringify(parentIds.map((row: any) => row.id)),
+            redirected_caregiver_ids: JSON.stringify(redirectedIds.map((row: any) => row.id)),
+            merged_at: now
+          })
+          .returning('*');
+
+        return merge;
+      });
+    } catch (error) {
+      if (error instanceof CaregiverMergeError) throw error;
+      console.error('Error in CaregiverMergeRepository.merge:', error);
+      throw new Error(`Failed to merge caregivers: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Undo a merge: move back the carelogs and parent visits it moved (those still on the survivor),
+   * re-point the caregivers it redirected, and restore the duplicate's status
+   * Only possible while the survivor has not been merged itself; returns null for an unknown merge
+   */
+  async undo(id: number): Promise<CaregiverMerge | null> {
+    try {
+      return await this.knex.transaction(async (trx) => {
+        const merge: CaregiverMerge | undefined = await trx('caregiver_merges').where('id', id).forUpdate().first();
+        if (!merge) return null;
+        if (merge.status === CaregiverMergeStatus.UNDONE) {
+          throw new CaregiverMergeError(`Merge ${id} was already undone`, 409);
+        }
+
+        const { survivor, duplicate } = await this.lockPair(trx, merge.survivor_id, merge.duplicate_id);
+        if (survivor.merged_into_id) {
+          const later = await trx('caregiver_merges')
+            .where({ duplicate_id: survivor.id, status: CaregiverMergeStatus.MERGED })
+            .first('id');
+          throw new CaregiverMergeError(
+            `Caregiver ${survivor.id} has since been merged into caregiver ${survivor.merged_into_id}; undo merge ${later?.id ?? 'of that caregiver'} first`, 409
+          );
+        }
+        if (duplicate.merged_into_id !== survivor.id) {
+          throw new CaregiverMergeError(`Caregiver ${duplicate.id} is no longer merged into caregiver ${survivor.id}`, 409);
+        }
+
+        // The moved IDs are read from the merge row itself, so large merges do not become large bindings
+        const movedIds = (table: string, column: string): [string, any[]] => [
+          '??.id IN (SELECT jsonb_array_elements_text(??)::integer FROM caregiver_merges WHERE caregiver_merges.id = ?)',
+          [table, column, id]
+        ];
+        const now = new Date();
+
+        await trx('carelogs')
+          .whereRaw(...movedIds('carelogs', 'carelog_ids'))
+          .where('caregiver_id', survivor.id)
+          .update({ caregiver_id: duplicate.id, updated_at: now });
+        await trx('parent')
+          .whereRaw(...movedIds('parent', 'parent_ids'))
+          .where('primary_caregiver_id', survivor.id)
+          .update({ primary_caregiver_id: duplicate.id, updated_at: now });
+        await trx('caregivers')
+          .whereRaw(...movedIds('caregivers', 'redirected_caregiver_ids'))
+          .where('merged_into_id', survivor.id)
+          .update({ merged_into_id: duplicate.id, updated_at: now });
+
+        await trx('caregivers')
+          .where('id', duplicate.id)
+          .update({ merged_into_id: null, status: merge.previous_status ?? duplicate.status, updated_at: now });
+
+        const [undone] = await trx('caregiver_merges')
+          .where('id', id)
+          .update({ status: CaregiverMergeStatus.UNDONE, undone_at: now })
+          .returning('*');
+
+        return undone;
+      });
+    } catch (error) {
+      if (error instanceof CaregiverMergeError) throw error;
+      console.error('Error in CaregiverMergeRepository.undo:', error);
+      throw new Error(`Failed to undo merge: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find merges, newest first
+   */
+  async findAll(options: {
+    limit?: number;
+    offset?: number;
+    caregiver_id?: number;
+    status?: string;
+  } = {}): Promise<CaregiverMerge[]> {
+    try {
+      const { limit = 50, offset = 0, caregiver_id, status } = options;
+
+      let query = this.knex('caregiver_merges')
+        .select('*')
+        .orderBy('merged_at', 'desc')
+        .orderBy('id', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      if (caregiver_id) {
+        query = query.where(builder => builder.where('survivor_id', caregiver_id).orWhere('duplicate_id', caregiver_id));
+      }
+      if (status) {
+        query = query.where('status', status);
+      }
+
+      return await query;
+    } catch (error) {
+      console.error('Error in CaregiverMergeRepository.findAll:', error);
+      throw new Error(`Failed to fetch caregiver merges: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find a merge by ID
+   */
+  async findById(id: number): Promise<CaregiverMerge | null> {
+    try {
+      const merge = await this.knex('caregiver_merges').where('id', id).first();
+      return merge || null;
+    } catch (error) {
+      console.error('Error in CaregiverMergeRepository.findById:', error);
+      throw new Error(`Failed to fetch caregiver merge: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Lock both caregivers of a merge for the rest of the transaction
+   */
+  private async lockPair(
+    trx: Knex.Transaction,
+    survivorId: number,
+    duplicateId: number
+  ): Promise<{ survivor: Record<string, any>; duplicate: Record<string, any> }> {
+    const rows = await trx('caregivers')
+      .whereIn('id', [survivorId, duplicateId])
+      .orderBy('id', 'asc')
+      .forUpdate()
+      .select('id', 'status', 'merged_into_id');
+
+    const survivor = rows.find(row => row.id === survivorId);
+    const duplicate = rows.find(row => row.id === duplicateId);
+    if (!survivor || !duplicate) {
+      throw new CaregiverMergeError(`Caregiver ${!survivor ? survivorId : duplicateId} not found`, 404);
+    }
+    return { survivor, duplicate };
+  }
+}
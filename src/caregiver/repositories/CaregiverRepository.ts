@@ -1,76 +1,126 @@
 import { Knex } from 'knex';
-import { Caregiver } from '../models/caregiver';
+import { Caregiver, CAREGIVER_SEARCH_MAX_LIMIT, CaregiverSearchFilters, CaregiverSearchOptions } from '../models/caregiver';
+import { ETLRunRepository } from '../../etl/repositories/ETLRunRepository';
+import { ETLQuarantineRepository } from '../../etl/repositories/ETLQuarantineRepository';
+import { ETLWatermarkRepository } from '../../etl/repositories/ETLWatermarkRepository';
+import { IncrementalSourceOptions, WatermarkResult, WatermarkState } from '../../etl/models/etlWatermark';
+import { highestWatermark, initialWatermark } from '../../etl/utils/watermark';
+import { ColumnMappingConfig } from '../../etl/models/columnMapping';
+import { applyColumnMapping, loadColumnMapping, replayColumnMapping, resolveColumnMapping } from '../../etl/utils/columnMapping';
+import { CreateETLRowErrorData, ETLRunStatus } from '../../etl/models/etlRun';
+import { DiffAction, ETLDryRunDiff } from '../../etl/models/etlDiff';
+import { addDiffEntry, createDryRunDiff, toFieldChanges } from '../../etl/utils/diffReport';
+import { ETLProgressCallback, reportProgress } from '../../etl/utils/progress';
+import { parseCalendarDate } from '../../shared/utils/timeZone';
 import * as fs from 'fs';
-import csv from 'csv-parser';
-import axios from 'axios';
+import { APIExtractOptions, extractAllAPIPages } from '../../etl/utils/apiExtractor';
+import { batchRows, streamCSVRows } from '../../etl/utils/rowStream';
 import { Transform } from 'stream';
+import { errorMessage } from '../../shared/utils/errors';
+
+/** CSV export read by the legacy bulk upload, relative to the working directory */
+export const LEGACY_CAREGIVER_CSV_PATH = 'caregiver_data_20250415_sanitized.csv';
+
+/** Full name as indexed for search (migration 013); both columns are NOT NULL */
+const PROFILE_FULL_NAME = `(profile.first_name || ' ' || profile.last_name)`;
+
+/** Shorter digit runs would match most phone numbers */
+const MIN_PHONE_SEARCH_DIGITS = 3;
+
+/**
+ * Prefix full-text query of the words in a search (`ann smi` -> `ann:* & smi:*`); null when it has no words
+ */
+function toPrefixTSQuery(text: string): string | null {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return words.length > 0 ? words.map(word => `${word}:*`).join(' & ') : null;
+}
+
+/** Escape LIKE wildcards in user input */
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * A source row rejected by transformCaregiverData
+ * `raw` is the row as extracted; `mapped` is the row after column mapping (used for quarantine and replay)
+ */
+type RejectedRow = { rowIndex: number; error: string; raw: any; mapped?: any };
 
 export class CaregiverRepository {
-  constructor(private knex: Knex) { }
+  constructor(
+    private knex: Knex,
+    private etlRunRepository: ETLRunRepository = new ETLRunRepository(knex),
+    private quarantineRepository: ETLQuarantineRepository = new ETLQuarantineRepository(knex),
+    private watermarkRepository: ETLWatermarkRepository = new ETLWatermarkRepository(knex)
+  ) { }
 
   // =============================================================================
   // ETL PIPELINE METHODS
   // =============================================================================
 
   /**
-   * EXTRACT: Get data from various sources
+   * EXTRACT: Stream a CSV file in batches of `batchSize` rows, each tagged with its `_rowIndex`
+   * Rows are read as the batches are consumed, so memory use does not depend on the size of the file
    */
-  async extractFromCSV(filePath: string): Promise<any[]> {
-    const data: any[] = [];
-    
-    return new Promise((resolve, reject) => {
-      fs.createReadStream(filePath)
-        .pipe(csv())
-        .on('data', (row) => {
-          data.push(row);
-        })
-        .on('end', () => {
-          console.log(`Extracted ${data.length} records from CSV: ${filePath}`);
-          resolve(data);
-        })
-        .on('error', (error) => {
-          console.error('Error extracting from CSV:', error);
-          reject(error);
-        });
-    });
+  async *extractFromCSV(filePath: string, batchSize: number = 50): AsyncGenerator<Record<string, any>[]> {
+    let rowCount = 0;
+    for await (const batch of batchRows(streamCSVRows(filePath), batchSize)) {
+      rowCount += batch.length;
+      yield batch;
+    }
+    console.log(`Extracted ${rowCount} records from CSV: ${filePath}`);
   }
 
-  async extractFromAPI(apiUrl: string, headers?: Record<string, string>): Promise<any[]> {
+  async extractFromAPI(apiUrl: string, options: APIExtractOptions = {}): Promise<any[]> {
     try {
-      const response = await axios.get(apiUrl, { headers });
-      const data = Array.isArray(response.data) ? response.data : response.data.data || [];
+      const data = await extractAllAPIPages(apiUrl, options);
       console.log(`Extracted ${data.length} records from API: ${apiUrl}`);
       return data;
     } catch (error) {
       console.error('Error extracting from API:', error);
-      throw new Error(`Failed to extract data from API: ${error.message}`);
+      throw new Error(`Failed to extract data from API: ${errorMessage(error)}`);
     }
   }
 
-  async extractFromDatabase(query: string, sourceKnex?: Knex): Promise<any[]> {
+  async extractFromDatabase(query: string, sourceKnex?: Knex, bindings?: Record<string, any>): Promise<any[]> {
     try {
       const db = sourceKnex || this.knex;
-      const data = await db.raw(query);
+      const data = bindings ? await db.raw(query, bindings) : await db.raw(query);
       const records = data.rows || data;
       console.log(`Extracted ${records.length} records from database`);
       return records;
     } catch (error) {
       console.error('Error extracting from database:', error);
-      throw new Error(`Failed to extract data from database: ${error.message}`);
+      throw new Error(`Failed to extract data from database: ${errorMessage(error)}`);
     }
   }
 
   /**
    * TRANSFORM: Clean, reformat, and validate data
+   * Records that fail validation are skipped and collected in `rejected` with their raw fields
+   * Source columns are first mapped onto caregiver fields with `mapping` (see etl/utils/columnMapping)
    */
-  transformCaregiverData(rawData: any[]): any[] {
-    return rawData.map((record, index) => {
+  transformCaregiverData(
+    rawData: any[],
+    rejected: RejectedRow[] = [],
+    mapping: ColumnMappingConfig = resolveColumnMapping('caregivers')
+  ): any[] {
+    const transformedRecords: any[] = [];
+
+    rawData.forEach((source, index) => {
+      const rowNumber = source._rowIndex || index + 1;
+      const { record, errors: mappingErrors } = applyColumnMapping(source, mapping, 'caregivers');
       try {
+        // Required fields and date formats are checked by the column mapping
+        if (mappingErrors.length > 0) {
+          throw new Error(`${mappingErrors.join('; ')} (row ${rowNumber})`);
+        }
+
         const transformed = {
           // Profile data
           franchisor_id: this.parseInteger(record.franchisor_id),
           agency_id: this.parseInteger(record.agency_id),
-          location_id: this.parseInteger(record.locations_id || record.location_id),
+          location_id: this.parseInteger(record.location_id),
           subdomain: this.cleanString(record.subdomain),
           first_name: this.cleanString(record.first_name, true),
           last_name: this.cleanString(record.last_name, true),
@@ -85,29 +135,39 @@ export class CaregiverRepository {
           // Status data
           applicant: this.parseBoolean(record.applicant),
           applicant_status: this.cleanString(record.applicant_status),
-          sstatus: this.normalizeStatus(record.status || record.sstatus),
+          sstatus: this.normalizeStatus(record.sstatus),
           
           // External data
-          external_system_id: this.cleanString(record.external_id || record.external_system_id),
+          external_system_id: this.cleanString(record.external_id),
           system_name: this.cleanString(record.system_name) || 'legacy_csv',
           
           // Caregiver status
           status: this.normalizeCaregiverStatus(record.status),
           
           // Metadata
-          source_row: index + 1,
+          source_row: rowNumber,
           extracted_at: new Date()
         };
 
         // Validate required fields
-        this.validateRequiredFields(transformed, index + 1);
+        this.validateRequiredFields(transformed, rowNumber);
         
-        return transformed;
+        transformedRecords.push(transformed);
       } catch (error) {
-        console.error(`Error transforming record ${index + 1}:`, error);
-        throw new Error(`Transformation failed at record ${index + 1}: ${error.message}`);
+        console.error(`Error transforming record ${rowNumber}: ${errorMessage(error)}`);
+        rejected.push({ rowIndex: rowNumber, error: errorMessage(error), raw: this.stripRowMetadata(source), mapped: record });
       }
     });
+
+    return transformedRecords;
+  }
+
+  /**
+   * Remove pipeline bookkeeping fields so only the source columns are stored
+   */
+  private stripRowMetadata(record: any): any {
+    const { _rowIndex, ...raw } = record;
+    return raw;
   }
 
   /**
@@ -153,10 +213,11 @@ export class CaregiverRepository {
     return isNaN(parsed) ? null : parsed;
   }
 
-  private parseDate(value: any): Date | null {
-    if (!value) return null;
-    const date = new Date(value);
-    return isNaN(date.getTime()) ? null : date;
+  /**
+   * Birthdays and onboarding dates are calendar dates (YYYY-MM-DD), not instants in a time zone
+   */
+  private parseDate(value: any): string | null {
+    return parseCalendarDate(value);
   }
 
   private parseBoolean(value: any): boolean {
@@ -217,25 +278,37 @@ export class CaregiverRepository {
 
   /**
    * LOAD: Insert transformed data with error handling and batch processing
+   * In 'upsert' mode, records matching an existing external_id + system_name are updated in place
+   * Pass verbose = false to skip the per-call progress and summary logging (used by the batched pipeline)
    */
-  async loadCaregiverData(transformedData: any[], batchSize: number = 50): Promise<{
+  async loadCaregiverData(transformedData: any[], batchSize: number = 50, mode: 'insert' | 'upsert' = 'insert', verbose: boolean = true): Promise<{
     totalProcessed: number;
     successCount: number;
     errorCount: number;
+    insertedCount: number;
+    updatedCount: number;
+    unchangedCount: number;
     errors: any[];
+    errorsByType: Record<string, number>;
   }> {
     if (!transformedData || transformedData.length === 0) {
-      console.log('No data to load');
+      if (verbose) console.log('No data to load');
       return {
         totalProcessed: 0,
         successCount: 0,
         errorCount: 0,
-        errors: []
+        insertedCount: 0,
+        updatedCount: 0,
+        unchangedCount: 0,
+        errors: [],
+        errorsByType: {}
       };
     }
 
     const errors: any[] = [];
+    const errorsByType: Record<string, number> = {};
     let successCount = 0;
+    const outcomeCounts = { inserted: 0, updated: 0, unchanged: 0 };
     const startTime = Date.now();
 
     try {
@@ -244,7 +317,9 @@ export class CaregiverRepository {
         throw new Error('Batch size must be between 1 and 1000');
       }
 
-      console.log(`Starting data load: ${transformedData.length} records in batches of ${batchSize}`);
+      if (verbose) {
+        console.log(`Starting data load (${mode}): ${transformedData.length} records in batches of ${batchSize}`);
+      }
 
       await this.knex.transaction(async (trx) => {
         const totalBatches = Math.ceil(transformedData.length / batchSize);
@@ -253,18 +328,23 @@ export class CaregiverRepository {
           const batch = transformedData.slice(i, i + batchSize);
           const batchNumber = Math.floor(i / batchSize) + 1;
           
-          console.log(`Processing batch ${batchNumber}/${totalBatches} (records ${i + 1}-${Math.min(i + batchSize, transformedData.length)})`);
+          if (verbose) {
+            console.log(`Processing batch ${batchNumber}/${totalBatches} (records ${i + 1}-${Math.min(i + batchSize, transformedData.length)})`);
+          }
 
           // Process each record in the batch
           for (const record of batch) {
             try {
               // Add timeout protection for individual record processing
-              const insertPromise = this.insertSingleCaregiver(record, trx);
-              const timeoutPromise = new Promise((_, reject) => {
+              const loadPromise = mode === 'upsert'
+                ? this.upsertSingleCaregiver(record, trx)
+                : this.insertSingleCaregiver(record, trx).then(() => 'inserted' as const);
+              const timeoutPromise = new Promise<never>((_, reject) => {
                 setTimeout(() => reject(new Error('Insert operation timed out after 30 seconds')), 30000);
               });
               
-              await Promise.race([insertPromise, timeoutPromise]);
+              const outcome = await Promise.race([loadPromise, timeoutPromise]);
+              outcomeCounts[outcome]++;
               successCount++;
               
               // Log progress for large batches
@@ -280,14 +360,16 @@ export class CaregiverRepository {
                   email: record.email,
                   external_system_id: record.external_system_id
                 },
-                error: error.message,
+                error: errorMessage(error),
                 row: record.source_row,
                 timestamp: new Date().toISOString(),
                 batch_number: batchNumber
               };
               
               errors.push(errorDetails);
-              console.error(`Error inserting record ${record.source_row}:`, error.message);
+              const errorType = this.categorizeError(errorMessage(error));
+              errorsByType[errorType] = (errorsByType[errorType] || 0) + 1;
+              console.error(`Error inserting record ${record.source_row}:`, errorMessage(error));
               
               // If too many errors in a batch, consider stopping
               if (errors.length > transformedData.length * 0.5) {
@@ -307,47 +389,49 @@ export class CaregiverRepository {
       const endTime = Date.now();
       const duration = (endTime - startTime) / 1000;
 
-      console.log(`\n=== ETL LOAD SUMMARY ===`);
-      console.log(`- Total records processed: ${transformedData.length}`);
-      console.log(`- Successfully loaded: ${successCount}`);
-      console.log(`- Errors: ${errors.length}`);
-      console.log(`- Success rate: ${((successCount / transformedData.length) * 100).toFixed(2)}%`);
-      console.log(`- Processing time: ${duration.toFixed(2)} seconds`);
-      console.log(`- Records per second: ${(transformedData.length / duration).toFixed(2)}`);
-
-      if (errors.length > 0) {
-        console.log('\n=== ERROR DETAILS ===');
-        console.log(`First ${Math.min(5, errors.length)} errors:`);
-        errors.slice(0, 5).forEach((err, index) => {
-          console.log(`${index + 1}. Row ${err.row}: ${err.error}`);
-        });
-        
-        if (errors.length > 5) {
-          console.log(`... and ${errors.length - 5} more errors`);
-        }
+      if (verbose) {
+        console.log(`\n=== ETL LOAD SUMMARY ===`);
+        console.log(`- Total records processed: ${transformedData.length}`);
+        console.log(`- Successfully loaded: ${successCount}`);
+        console.log(`  - Inserted: ${outcomeCounts.inserted}`);
+        console.log(`  - Updated: ${outcomeCounts.updated}`);
+        console.log(`  - Unchanged: ${outcomeCounts.unchanged}`);
+        console.log(`- Errors: ${errors.length}`);
+        console.log(`- Success rate: ${((successCount / transformedData.length) * 100).toFixed(2)}%`);
+        console.log(`- Processing time: ${duration.toFixed(2)} seconds`);
+        console.log(`- Records per second: ${(transformedData.length / duration).toFixed(2)}`);
+
+        if (errors.length > 0) {
+          console.log('\n=== ERROR DETAILS ===');
+          console.log(`First ${Math.min(5, errors.length)} errors:`);
+          errors.slice(0, 5).forEach((err, index) => {
+            console.log(`${index + 1}. Row ${err.row}: ${err.error}`);
+          });
         
-        // Group errors by type for better analysis
-        const errorTypes = errors.reduce((acc, err) => {
-          const errorType = err.error.split(':')[0];
-          acc[errorType] = (acc[errorType] || 0) + 1;
-          return acc;
-        }, {});
+          if (errors.length > 5) {
+            console.log(`... and ${errors.length - 5} more errors`);
+          }
         
-        console.log('\nError types summary:');
-        Object.entries(errorTypes).forEach(([type, count]) => {
-          console.log(`- ${type}: ${count} occurrences`);
-        });
+          console.log('\nError types summary:');
+          Object.entries(errorsByType).forEach(([type, count]) => {
+            console.log(`- ${type}: ${count} occurrences`);
+          });
+        }
       }
 
       return {
         totalProcessed: transformedData.length,
         successCount,
         errorCount: errors.length,
-        errors
+        insertedCount: outcomeCounts.inserted,
+        updatedCount: outcomeCounts.updated,
+        unchangedCount: outcomeCounts.unchanged,
+        errors,
+        errorsByType
       };
     } catch (error) {
       console.error('Transaction failed:', error);
-      throw new Error(`ETL load failed: ${error.message}`);
+      throw new Error(`ETL load failed: ${errorMessage(error)}`);
     }
   }
 
@@ -359,26 +443,7 @@ export class CaregiverRepository {
       }
 
       // Validate foreign key references if provided
-      if (record.franchisor_id) {
-        const franchisoreExists = await trx('franchisors').where('id', record.franchisor_id).first();
-        if (!franchisoreExists) {
-          throw new Error(`Franchisor with ID ${record.franchisor_id} does not exist`);
-        }
-      }
-
-      if (record.agency_id) {
-        const agencyExists = await trx('agencies').where('id', record.agency_id).first();
-        if (!agencyExists) {
-          throw new Error(`Agency with ID ${record.agency_id} does not exist`);
-        }
-      }
-
-      if (record.location_id) {
-        const locationExists = await trx('locations').where('id', record.location_id).first();
-        if (!locationExists) {
-          throw new Error(`Location with ID ${record.location_id} does not exist`);
-        }
-      }
+      await this.validateCaregiverReferences(record, trx);
 
       // Check for duplicate email if provided
       if (record.email) {
@@ -413,12 +478,12 @@ export class CaregiverRepository {
       let profileId;
       try {
         const result = await trx('profile').insert(profileData).returning('id');
-        profileId = result[0];
+        profileId = result[0]?.id;
         if (!profileId) {
           throw new Error('Failed to get profile ID after insertion');
         }
       } catch (error) {
-        throw new Error(`Failed to insert profile: ${error.message}`);
+        throw new Error(`Failed to insert profile: ${errorMessage(error)}`);
       }
 
       // Insert into external table if external_system_id exists
@@ -443,10 +508,10 @@ export class CaregiverRepository {
             };
 
             const result = await trx('external').insert(externalData).returning('id');
-            externalId = result[0];
+            externalId = result[0]?.id;
           }
         } catch (error) {
-          throw new Error(`Failed to insert external record: ${error.message}`);
+          throw new Error(`Failed to insert external record: ${errorMessage(error)}`);
         }
       }
 
@@ -465,42 +530,360 @@ export class CaregiverRepository {
       try {
         await trx('caregivers').insert(caregiverData);
       } catch (error) {
-        throw new Error(`Failed to insert caregiver: ${error.message}`);
+        throw new Error(`Failed to insert caregiver: ${errorMessage(error)}`);
       }
     } catch (error) {
       // Re-throw with additional context
-      throw new Error(`insertSingleCaregiver failed for record ${record.source_row || 'unknown'}: ${error.message}`);
+      throw new Error(`insertSingleCaregiver failed for record ${record.source_row || 'unknown'}: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Insert or update a single caregiver, matched on external.external_id + system_name.
+   * Records without an external ID, or with no match, go through insertSingleCaregiver.
+   */
+  private async upsertSingleCaregiver(record: any, trx: Knex.Transaction): Promise<'inserted' | 'updated' | 'unchanged'> {
+    try {
+      const systemName = record.system_name || 'legacy_csv';
+      const existing = record.external_system_id
+        ? await trx('caregivers')
+          .select('caregivers.*')
+          .innerJoin('external', 'caregivers.external_id', 'external.id')
+          .where('external.external_id', record.external_system_id)
+          .where('external.system_name', systemName)
+          .first()
+        : null;
+
+      if (!existing) {
+        await this.insertSingleCaregiver(record, trx);
+        return 'inserted';
+      }
+
+      // A merged duplicate is kept as an alias of its survivor; reloading its source row must not revive it
+      if (existing.merged_into_id) {
+        return 'unchanged';
+      }
+
+      if (!record.first_name || !record.last_name) {
+        throw new Error(`Missing required fields: first_name=${record.first_name}, last_name=${record.last_name}`);
+      }
+
+      await this.validateCaregiverReferences(record, trx);
+
+      const profile = existing.profile_id
+        ? await trx('profile').where('id', existing.profile_id).first()
+        : null;
+      const profileChanges = profile ? this.diffFields(profile, record, this.getUpsertProfileFields()) : {};
+      const caregiverChanges = this.diffFields(existing, record, this.getUpsertCaregiverFields());
+
+      if (Object.keys(profileChanges).length === 0 && Object.keys(caregiverChanges).length === 0) {
+        return 'unchanged';
+      }
+
+      // Email is unique across profiles, so a changed email must not belong to someone else
+      if (profileChanges.email) {
+        const emailOwner = await trx('profile')
+          .where('email', profileChanges.email)
+          .whereNot('id', existing.profile_id)
+          .first();
+        if (emailOwner) {
+          throw new Error(`Email ${profileChanges.email} already exists in the system`);
+        }
+      }
+
+      if (Object.keys(profileChanges).length > 0) {
+        await trx('profile').where('id', existing.profile_id).update({ ...profileChanges, updated_at: new Date() });
+      }
+      if (Object.keys(caregiverChanges).length > 0) {
+        await trx('caregivers').where('id', existing.id).update({ ...caregiverChanges, updated_at: new Date() });
+      }
+
+      return 'updated';
+    } catch (error) {
+      throw new Error(`upsertSingleCaregiver failed for record ${record.source_row || 'unknown'}: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Categorize load errors for reporting
+   */
+  private categorizeError(errorMessage: string): string {
+    if (errorMessage.includes('does not exist')) return 'Foreign Key Error';
+    if (errorMessage.includes('already exists')) return 'Duplicate Error';
+    if (errorMessage.includes('Missing required')) return 'Validation Error';
+    if (errorMessage.includes('timed out')) return 'Timeout Error';
+    if (errorMessage.includes('Failed to insert')) return 'Database Error';
+    return 'Unknown Error';
+  }
+
+  private async validateCaregiverReferences(record: any, trx: Knex.Transaction): Promise<void> {
+    if (record.franchisor_id) {
+      const franchisoreExists = await trx('franchisors').where('id', record.franchisor_id).first();
+      if (!franchisoreExists) {
+        throw new Error(`Franchisor with ID ${record.franchisor_id} does not exist`);
+      }
+    }
+
+    if (record.agency_id) {
+      const agencyExists = await trx('agencies').where('id', record.agency_id).first();
+      if (!agencyExists) {
+        throw new Error(`Agency with ID ${record.agency_id} does not exist`);
+      }
+    }
+
+    if (record.location_id) {
+      const locationExists = await trx('locations').where('id', record.location_id).first();
+      if (!locationExists) {
+        throw new Error(`Location with ID ${record.location_id} does not exist`);
+      }
+    }
+  }
+
+  /**
+   * Columns compared and updated in upsert mode
+   */
+  private getUpsertProfileFields(): string[] {
+    return [
+      'franchisor_id',
+      'agency_id',
+      'location_id',
+      'subdomain',
+      'first_name',
+      'last_name',
+      'email',
+      'phone_number',
+      'gender',
+      'birthday_date',
+      'onboarding_date',
+      'certification_level',
+      'hourly_rate',
+      'applicant',
+      'applicant_status',
+      'sstatus'
+    ];
+  }
+
+  private getUpsertCaregiverFields(): string[] {
+    return ['franchisor_id', 'agency_id', 'applicant_status', 'status'];
+  }
+
+  /**
+   * Return the subset of `fields` whose incoming value differs from the stored row
+   */
+  private diffFields(current: Record<string, any>, incoming: Record<string, any>, fields: string[]): Record<string, any> {
+    const changes: Record<string, any> = {};
+    for (const field of fields) {
+      if (!(field in current)) continue;
+      const next = incoming[field] === undefined ? null : incoming[field];
+      if (!this.isSameValue(current[field], next)) {
+        changes[field] = next;
+      }
+    }
+    return changes;
+  }
+
+  private isSameValue(a: any, b: any): boolean {
+    if (a === null || a === undefined) return b === null || b === undefined;
+    if (b === null || b === undefined) return false;
+    if (a instanceof Date || b instanceof Date) {
+      return new Date(a).getTime() === new Date(b).getTime();
+    }
+    // DECIMAL columns come back from pg as strings
+    if (typeof a === 'number' || typeof b === 'number') {
+      return Number(a) === Number(b);
+    }
+    return String(a) === String(b);
+  }
+
+  /**
+   * Compare a transformed batch with the database without writing anything
+   * Mirrors the checks of insertSingleCaregiver / upsertSingleCaregiver; `seen` holds the emails and
+   * external IDs of earlier rows so duplicates within the source are reported as well
+   */
+  private async diffCaregiverBatch(
+    records: any[],
+    mode: 'insert' | 'upsert',
+    diff: ETLDryRunDiff,
+    seen: Map<string, number>
+  ): Promise<void> {
+    if (records.length === 0) return;
+
+    const valuesOf = (field: string) => Array.from(new Set(
+      records.map(record => record[field]).filter(value => value !== null && value !== undefined && value !== '')
+    ));
+    const existingIds = async (table: string, ids: any[]) => new Set<number>(
+      ids.length > 0 ? (await this.knex(table).whereIn('id', ids).pluck('id')).map(Number) : []
+    );
+
+    const franchisorIds = await existingIds('franchisors', valuesOf('franchisor_id'));
+    const agencyIds = await existingIds('agencies', valuesOf('agency_id'));
+    const locationIds = await existingIds('locations', valuesOf('location_id'));
+
+    // Caregivers already holding one of the batch's emails
+    const emails = valuesOf('email');
+    const emailOwners = new Map<string, { profile_id: number; caregiver_id: number | null }>();
+    if (emails.length > 0) {
+      const owners = await this.knex('profile')
+        .leftJoin('caregivers', 'caregivers.profile_id', 'profile.id')
+        .whereIn('profile.email', emails)
+        .select('profile.id as profile_id', 'profile.email', 'caregivers.id as caregiver_id');
+      owners.forEach(owner => emailOwners.set(owner.email, owner));
+    }
+
+    // Caregivers matched on external ID + system name, with their profiles
+    const externalIds = valuesOf('external_system_id');
+    const caregiversByKey = new Map<string, any>();
+    const profilesById = new Map<number, any>();
+    if (externalIds.length > 0) {
+      const matches = await this.knex('caregivers')
+        .innerJoin('external', 'caregivers.external_id', 'external.id')
+        .whereIn('external.external_id', externalIds)
+        .select('caregivers.*', 'external.external_id as external_key', 'external.system_name as external_system');
+      matches.forEach(match => caregiversByKey.set(`${match.external_system}:${match.external_key}`, match));
+
+      const profileIds = matches.map(match => match.profile_id).filter(Boolean);
+      if (profileIds.length > 0) {
+        const profiles = await this.knex('profile').whereIn('id', profileIds);
+        profiles.forEach(profile => profilesById.set(profile.id, profile));
+      }
+    }
+
+    for (const record of records) {
+      const externalKey = record.external_system_id
+        ? `${record.system_name || 'legacy_csv'}:${record.external_system_id}`
+        : null;
+      const entry = {
+        row_index: record.source_row ?? null,
+        match_key: record.external_system_id || record.email || null
+      };
+
+      const referenceError = [
+        record.franchisor_id && !franchisorIds.has(Number(record.franchisor_id)) && `Franchisor with ID ${record.franchisor_id} does not exist`,
+        record.agency_id && !agencyIds.has(Number(record.agency_id)) && `Agency with ID ${record.agency_id} does not exist`,
+        record.location_id && !locationIds.has(Number(record.location_id)) && `Location with ID ${record.location_id} does not exist`
+      ].find(Boolean);
+      if (referenceError) {
+        addDiffEntry(diff, { ...entry, action: DiffAction.FK_FAILURE, message: referenceError });
+        continue;
+      }
+
+      const earlierRow = (externalKey && seen.get(`external:${externalKey}`)) || (record.email && seen.get(`email:${record.email}`));
+      if (earlierRow) {
+        addDiffEntry(diff, { ...entry, action: DiffAction.DUPLICATE, message: `Duplicates row ${earlierRow} of this source` });
+        continue;
+      }
+
+      const existing = externalKey ? caregiversByKey.get(externalKey) : undefined;
+      const emailOwner = record.email ? emailOwners.get(record.email) : undefined;
+
+      if (existing && mode === 'upsert' && existing.merged_into_id) {
+        addDiffEntry(diff, {
+          ...entry,
+          action: DiffAction.UNCHANGED,
+          existing_id: existing.id,
+          message: `Caregiver ${existing.id} was merged into caregiver ${existing.merged_into_id}`
+        });
+      } else if (existing && mode === 'upsert') {
+        const profile = profilesById.get(existing.profile_id);
+        const profileChanges = profile ? this.diffFields(profile, record, this.getUpsertProfileFields()) : {};
+        const caregiverChanges = this.diffFields(existing, record, this.getUpsertCaregiverFields());
+
+        if (profileChanges.email && emailOwner && emailOwner.profile_id !== existing.profile_id) {
+          addDiffEntry(diff, {
+            ...entry,
+            action: DiffAction.DUPLICATE,
+            existing_id: emailOwner.caregiver_id,
+            message: `Email ${profileChanges.email} already exists in the system`
+          });
+          continue;
+        }
+
+        const changes = [
+          ...toFieldChanges(profile || {}, profileChanges, 'profile'),
+          ...toFieldChanges(existing, caregiverChanges, 'caregivers')
+        ];
+        addDiffEntry(diff, {
+          ...entry,
+          action: changes.length > 0 ? DiffAction.UPDATE : DiffAction.UNCHANGED,
+          existing_id: existing.id,
+          changes: changes.length > 0 ? changes : null
+        });
+      } else if (emailOwner) {
+        addDiffEntry(diff, {
+          ...entry,
+          action: DiffAction.DUPLICATE,
+          existing_id: emailOwner.caregiver_id,
+          message: `Email ${record.email} already exists in the system`
+        });
+        continue;
+      } else if (existing) {
+        // Insert mode reuses the external record, so the load would add a second caregiver for it
+        addDiffEntry(diff, {
+          ...entry,
+          action: DiffAction.DUPLICATE,
+          existing_id: existing.id,
+          message: `External ID ${record.external_system_id} already belongs to caregiver ${existing.id}`
+        });
+        continue;
+      } else {
+        addDiffEntry(diff, { ...entry, action: DiffAction.NEW });
+      }
+
+      if (externalKey) seen.set(`external:${externalKey}`, record.source_row);
+      if (record.email) seen.set(`email:${record.email}`, record.source_row);
     }
   }
 
   /**
    * Complete ETL Pipeline - Extract, Transform, Load
+   * Rows are transformed and loaded `batchSize` at a time; CSV files are streamed,
+   * so memory stays flat regardless of file size
    */
   async runETLPipeline(source: {
-    type: 'csv' | 'api' | 'database';
+    type: 'csv' | 'api' | 'database' | 'records';
     path?: string;
     url?: string;
     query?: string;
     headers?: Record<string, string>;
     sourceKnex?: Knex;
+    records?: any[];
+    apiOptions?: Omit<APIExtractOptions, 'headers' | 'params'>;
+    incremental?: IncrementalSourceOptions;
   }, options: {
     batchSize?: number;
     validateOnly?: boolean;
     continueOnError?: boolean;
     maxRetries?: number;
+    mode?: 'insert' | 'upsert';
+    quarantineRejects?: boolean;
+    parentRunId?: number | null;
+    /** Column mapping config, or a path to a .json / .yaml mapping file */
+    mapping?: ColumnMappingConfig | string;
+    /** Compare validate-only runs with the database (default true); false only checks the transform */
+    diff?: boolean;
+    /** Called after every batch with the running counts */
+    onProgress?: ETLProgressCallback;
   } = {}): Promise<{
     success: boolean;
     extractedCount: number;
     transformedCount: number;
     loadResult?: any;
+    transformErrors: Array<{ rowIndex: number; error: string }>;
     errors: any[];
     duration: number;
+    runId: number | null;
+    watermark?: WatermarkResult;
+    diff?: ETLDryRunDiff;
   }> {
     const { 
       batchSize = 50, 
       validateOnly = false, 
       continueOnError = true,
-      maxRetries = 3
+      maxRetries = 3,
+      mode = 'insert',
+      quarantineRejects = true,
+      parentRunId = null,
+      diff = true
     } = options;
     
     const startTime = Date.now();
@@ -508,6 +891,21 @@ export class CaregiverRepository {
     let extractedCount = 0;
     let transformedCount = 0;
     let loadResult: any = null;
+    const rejectedRows: RejectedRow[] = [];
+    // Raw rows are only kept for records that fail to load, for the error ledger
+    const failedRawByRow = new Map<number, any>();
+    let watermark: WatermarkState | null = null;
+    let nextWatermark: string | null = null;
+    // Validate-only runs report what each row would change; `seenKeys` catches duplicates within the source
+    const dryRunDiff = validateOnly && diff ? createDryRunDiff('caregivers', mode) : null;
+    const seenKeys = new Map<string, number>();
+    const runId = await this.startRunRecord(source, { validateOnly, mode, parentRunId });
+
+    // Every exit path records the run (and quarantines rejected rows unless validating only)
+    const complete = <T extends { success: boolean; extractedCount: number; transformedCount: number; loadResult?: any; errors: any[] }>(result: T) => {
+      const transformErrors = rejectedRows.map(({ rowIndex, error }) => ({ rowIndex, error }));
+      return this.completeRunRecord(runId, { ...result, transformErrors }, failedRawByRow, rejectedRows, quarantineRejects && !validateOnly, dryRunDiff);
+    };
     
     try {
       console.log('=== STARTING ETL PIPELINE ===');
@@ -515,133 +913,212 @@ export class CaregiverRepository {
       console.log(`Batch size: ${batchSize}`);
       console.log(`Validate only: ${validateOnly}`);
       console.log(`Continue on error: ${continueOnError}`);
+      console.log(`Load mode: ${mode}`);
       
+      // A mapping file is validated before anything is extracted
+      const columnMapping = resolveColumnMapping(
+        'caregivers',
+        options.mapping ? loadColumnMapping(options.mapping, 'caregivers') : undefined
+      );
+
+      // Incremental sources only extract records newer than the stored watermark
+      watermark = await this.resolveWatermark(source);
+      nextWatermark = watermark?.previous ?? null;
+
       // EXTRACT PHASE
+      // CSV files are streamed row by row; the other sources are fetched up front (with retries)
       console.log('\n1. EXTRACTING data...');
-      let rawData: any[];
-      let retryCount = 0;
+      let rows: Iterable<any> | AsyncIterable<any>;
+
+      if (source.type === 'csv') {
+        if (!source.path) throw new Error('CSV path is required');
+        if (!fs.existsSync(source.path)) {
+          throw new Error(`CSV file not found: ${source.path}`);
+        }
+        rows = streamCSVRows(source.path);
+        console.log(`✓ Streaming records from CSV: ${source.path}`);
+      } else {
+        let rawData: any[] = [];
+        let retryCount = 0;
+        
+        while (retryCount <= maxRetries) {
+          try {
+            switch (source.type) {
+              case 'api':
+                if (!source.url) throw new Error('API URL is required');
+                rawData = await this.extractFromAPI(source.url, {
+                  ...source.apiOptions,
+                  headers: source.headers,
+                  params: watermark?.previous ? { [watermark.param]: watermark.previous } : undefined
+                });
+                break;
+              case 'database':
+                if (!source.query) throw new Error('Database query is required');
+                rawData = await this.extractFromDatabase(
+                  source.query,
+                  source.sourceKnex,
+                  watermark ? { watermark: watermark.previous ?? initialWatermark(watermark.type) } : undefined
+                );
+                break;
+              case 'records':
+                if (!source.records) throw new Error('Records are required');
+                rawData = source.records;
+                break;
+              default:
+                throw new Error(`Unsupported source type: ${source.type}`);
+            }
+            break; // Success, exit retry loop
+          } catch (error) {
+            retryCount++;
+            const errorMsg = `Extract attempt ${retryCount} failed: ${errorMessage(error)}`;
+            console.error(errorMsg);
+            pipelineErrors.push({
+              phase: 'extract',
+              attempt: retryCount,
+              error: errorMessage(error),
+              timestamp: new Date().toISOString()
+            });
+            
+            if (retryCount > maxRetries) {
+              throw new Error(`Extract failed after ${maxRetries} retries: ${errorMessage(error)}`);
+            }
+            
+            console.log(`Retrying in ${retryCount * 2} seconds...`);
+            await new Promise(resolve => setTimeout(resolve, retryCount * 2000));
+          }
+        }
+
+        rows = rawData;
+        console.log(`✓ Extracted ${rawData.length} records`);
+      }
       
-      while (retryCount <= maxRetries) {
+      // TRANSFORM + LOAD PHASES, one batch at a time
+      console.log(`\n2. TRANSFORMING${validateOnly ? '' : ' and LOADING'} data in batches of ${batchSize}...`);
+      let batchNumber = 0;
+      const batchDone = () => reportProgress(options.onProgress, {
+        runId,
+        batchNumber,
+        extractedCount,
+        transformedCount,
+        loadedCount: loadResult?.successCount ?? 0,
+        errorCount: rejectedRows.length + (loadResult?.errorCount ?? 0)
+      });
+
+      for await (const batch of batchRows(rows, batchSize)) {
+        batchNumber++;
+        extractedCount += batch.length;
+        if (watermark) {
+          nextWatermark = highestWatermark(batch, watermark.column, watermark.type, nextWatermark);
+        }
+
+        let transformedBatch: any[];
+        const rejectedBefore = rejectedRows.length;
         try {
-          switch (source.type) {
-            case 'csv':
-              if (!source.path) throw new Error('CSV path is required');
-              if (!fs.existsSync(source.path)) {
-                throw new Error(`CSV file not found: ${source.path}`);
-              }
-              rawData = await this.extractFromCSV(source.path);
-              break;
-            case 'api':
-              if (!source.url) throw new Error('API URL is required');
-              rawData = await this.extractFromAPI(source.url, source.headers);
-              break;
-            case 'database':
-              if (!source.query) throw new Error('Database query is required');
-              rawData = await this.extractFromDatabase(source.query, source.sourceKnex);
-              break;
-            default:
-              throw new Error(`Unsupported source type: ${source.type}`);
-          }
-          break; // Success, exit retry loop
+          transformedBatch = this.transformCaregiverData(batch, rejectedRows, columnMapping);
+          transformedCount += transformedBatch.length;
         } catch (error) {
-          retryCount++;
-          const errorMsg = `Extract attempt ${retryCount} failed: ${error.message}`;
+          const errorMsg = `Transform phase failed: ${errorMessage(error)}`;
           console.error(errorMsg);
           pipelineErrors.push({
-            phase: 'extract',
-            attempt: retryCount,
-            error: error.message,
+            phase: 'transform',
+            batch_number: batchNumber,
+            error: errorMessage(error),
             timestamp: new Date().toISOString()
           });
           
-          if (retryCount > maxRetries) {
-            throw new Error(`Extract failed after ${maxRetries} retries: ${error.message}`);
+          if (!continueOnError) {
+            throw new Error(errorMsg);
+          }
+          
+          // Skip this batch and continue with the rest of the source
+          transformedBatch = [];
+        }
+
+        if (dryRunDiff) {
+          rejectedRows.slice(rejectedBefore).forEach(rejected => addDiffEntry(dryRunDiff, {
+            row_index: rejected.rowIndex,
+            action: DiffAction.INVALID,
+            message: rejected.error
+          }));
+          try {
+            await this.diffCaregiverBatch(transformedBatch, mode, dryRunDiff, seenKeys);
+          } catch (error) {
+            throw new Error(`Dry-run diff failed: ${errorMessage(error)}`);
           }
+        }
+
+        if (validateOnly || transformedBatch.length === 0) {
+          await batchDone();
+          continue;
+        }
+
+        try {
+          const batchResult = await this.loadCaregiverData(transformedBatch, batchSize, mode, false);
+          loadResult = this.mergeLoadResults(loadResult, batchResult);
+
+          const failedRows = new Set(batchResult.errors.map(err => err.row));
+          batch
+            .filter(row => failedRows.has(row._rowIndex))
+            .forEach(row => failedRawByRow.set(row._rowIndex, this.stripRowMetadata(row)));
+
+          console.log(`✓ Batch ${batchNumber}: ${batchResult.successCount} loaded, ${batchResult.errorCount} errors (${extractedCount} records read so far)`);
+        } catch (error) {
+          const errorMsg = `Load phase failed: ${errorMessage(error)}`;
+          console.error(errorMsg);
+          pipelineErrors.push({
+            phase: 'load',
+            batch_number: batchNumber,
+            error: errorMessage(error),
+            timestamp: new Date().toISOString()
+          });
           
-          console.log(`Retrying in ${retryCount * 2} seconds...`);
-          await new Promise(resolve => setTimeout(resolve, retryCount * 2000));
+          if (!continueOnError) {
+            throw new Error(errorMsg);
+          }
         }
+
+        await batchDone();
       }
-      
-      extractedCount = rawData!.length;
-      
+
       if (extractedCount === 0) {
         console.log('No data extracted. Pipeline completed.');
-        return {
+        return complete({
           success: true,
           extractedCount: 0,
           transformedCount: 0,
           errors: pipelineErrors,
           duration: Date.now() - startTime
-        };
-      }
-      
-      console.log(`✓ Extracted ${extractedCount} records`);
-      
-      // TRANSFORM PHASE
-      console.log('\n2. TRANSFORMING data...');
-      let transformedData: any[];
-      
-      try {
-        transformedData = this.transformCaregiverData(rawData!);
-        transformedCount = transformedData.length;
-        console.log(`✓ Transformed ${transformedCount} records`);
-        
-        if (transformedCount < extractedCount) {
-          const skippedCount = extractedCount - transformedCount;
-          console.warn(`⚠ ${skippedCount} records were skipped during transformation`);
-        }
-      } catch (error) {
-        const errorMsg = `Transform phase failed: ${error.message}`;
-        console.error(errorMsg);
-        pipelineErrors.push({
-          phase: 'transform',
-          error: error.message,
-          timestamp: new Date().toISOString()
         });
-        
-        if (!continueOnError) {
-          throw new Error(errorMsg);
-        }
-        
-        // Try to continue with partial data if possible
-        console.log('Attempting to continue with partial transformation...');
-        transformedData = [];
-        transformedCount = 0;
+      }
+
+      console.log(`✓ Extracted ${extractedCount} records, transformed ${transformedCount}`);
+      if (transformedCount < extractedCount) {
+        const skippedCount = extractedCount - transformedCount;
+        console.warn(`⚠ ${skippedCount} records were skipped during transformation${quarantineRejects && !validateOnly ? ' and will be quarantined' : ''}`);
       }
       
       if (validateOnly) {
         console.log('\n=== VALIDATION COMPLETED ===');
-        console.log(`✓ ${transformedCount} records would be loaded`);
+        if (dryRunDiff) {
+          const summary = dryRunDiff.summary;
+          console.log(`✓ ${mode} would add ${summary.new} new, update ${summary.update} and leave ${summary.unchanged} unchanged`);
+          console.log(`- Duplicates: ${summary.duplicate}, FK failures: ${summary.fk_failure}, invalid: ${summary.invalid}`);
+        } else {
+          console.log(`✓ ${transformedCount} records would be loaded`);
+        }
         console.log(`✓ Pipeline validation successful`);
-        return {
+        return complete({
           success: true,
           extractedCount,
           transformedCount,
           errors: pipelineErrors,
-          duration: Date.now() - startTime
-        };
+          duration: Date.now() - startTime,
+          diff: dryRunDiff ?? undefined
+        });
       }
-      
-      // LOAD PHASE
-      if (transformedCount > 0) {
-        console.log('\n3. LOADING data...');
-        try {
-          loadResult = await this.loadCaregiverData(transformedData!, batchSize);
-          console.log(`✓ Load phase completed`);
-        } catch (error) {
-          const errorMsg = `Load phase failed: ${error.message}`;
-          console.error(errorMsg);
-          pipelineErrors.push({
-            phase: 'load',
-            error: error.message,
-            timestamp: new Date().toISOString()
-          });
-          
-          if (!continueOnError) {
-            throw new Error(errorMsg);
-          }
-        }
+
+      if (loadResult) {
+        console.log(`✓ Load phase completed: ${loadResult.successCount} loaded (${loadResult.insertedCount} inserted, ${loadResult.updatedCount} updated, ${loadResult.unchangedCount} unchanged), ${loadResult.errorCount} errors`);
       } else {
         console.log('\n3. SKIPPING load phase - no data to load');
       }
@@ -651,38 +1128,264 @@ export class CaregiverRepository {
       console.log('\n=== ETL PIPELINE COMPLETED ===');
       console.log(`✓ Total duration: ${(duration / 1000).toFixed(2)} seconds`);
       console.log(`✓ Pipeline errors: ${pipelineErrors.length}`);
+
+      const success = pipelineErrors.filter(e => e.phase === 'extract' || e.phase === 'transform').length === 0;
+
+      // Rows that failed individually are kept in the error ledger / quarantine, so the watermark
+      // moves past them; a failed batch leaves it where it was so the next run extracts them again
+      const watermarkResult = watermark
+        ? await this.advanceWatermark(
+          watermark,
+          nextWatermark,
+          runId,
+          success && !pipelineErrors.some(e => e.phase === 'load')
+        )
+        : undefined;
       
-      return {
-        success: pipelineErrors.filter(e => e.phase === 'extract' || e.phase === 'transform').length === 0,
+      return complete({
+        success,
         extractedCount,
         transformedCount,
         loadResult,
         errors: pipelineErrors,
-        duration
-      };
+        duration,
+        watermark: watermarkResult
+      });
     } catch (error) {
       const duration = Date.now() - startTime;
       console.error('\n=== ETL PIPELINE FAILED ===');
-      console.error(`✗ Error: ${error.message}`);
+      console.error(`✗ Error: ${errorMessage(error)}`);
       console.error(`✗ Duration: ${(duration / 1000).toFixed(2)} seconds`);
       
       pipelineErrors.push({
         phase: 'pipeline',
-        error: error.message,
+        error: errorMessage(error),
         timestamp: new Date().toISOString()
       });
       
-      return {
+      return complete({
         success: false,
         extractedCount,
         transformedCount,
         loadResult,
         errors: pipelineErrors,
         duration
-      };
+      });
+    }
+  }
+
+  /**
+   * Add the counts and errors of one loaded batch to the running total
+   */
+  private mergeLoadResults(total: any, batch: any): any {
+    if (!total) {
+      return { ...batch, errors: [...batch.errors], errorsByType: { ...batch.errorsByType } };
+    }
+
+    const errorsByType = { ...total.errorsByType };
+    Object.entries(batch.errorsByType as Record<string, number>).forEach(([type, count]) => {
+      errorsByType[type] = (errorsByType[type] || 0) + count;
+    });
+
+    return {
+      totalProcessed: total.totalProcessed + batch.totalProcessed,
+      successCount: total.successCount + batch.successCount,
+      errorCount: total.errorCount + batch.errorCount,
+      insertedCount: total.insertedCount + batch.insertedCount,
+      updatedCount: total.updatedCount + batch.updatedCount,
+      unchangedCount: total.unchangedCount + batch.unchangedCount,
+      errors: total.errors.concat(batch.errors),
+      errorsByType
+    };
+  }
+
+  /**
+   * Create the etl_runs record for a pipeline run
+   * Returns null if the audit tables are unavailable so the load itself still proceeds
+   */
+  private async startRunRecord(source: {
+    type: 'csv' | 'api' | 'database' | 'records';
+    path?: string;
+    url?: string;
+    query?: string;
+  }, options: { validateOnly: boolean; mode: string; parentRunId: number | null }): Promise<number | null> {
+    try {
+      return await this.etlRunRepository.startRun({
+        entity: 'caregivers',
+        source_type: source.type,
+        source_path: source.path || source.url || source.query || null,
+        load_mode: options.mode,
+        validate_only: options.validateOnly,
+        parent_run_id: options.parentRunId
+      });
+    } catch (error) {
+      console.warn(`⚠ Could not record ETL run: ${errorMessage(error)}`);
+      return null;
     }
   }
 
+  /**
+   * Look up the stored watermark of an incremental API or database source
+   */
+  private async resolveWatermark(source: {
+    type: string;
+    url?: string;
+    query?: string;
+    incremental?: IncrementalSourceOptions;
+  }): Promise<WatermarkState | null> {
+    const incremental = source.incremental;
+    if (!incremental) return null;
+
+    if (source.type !== 'api' && source.type !== 'database') {
+      throw new Error(`Incremental loads are only supported for api and database sources, not ${source.type}`);
+    }
+    if (source.type === 'database' && !source.query?.includes(':watermark')) {
+      throw new Error('Incremental database queries must filter on the :watermark binding');
+    }
+
+    const key = incremental.key || source.url || source.query!;
+    const stored = await this.watermarkRepository.find('caregivers', key);
+    const previous = stored ? stored.watermark_value : null;
+    console.log(`Incremental load on ${incremental.column}: ${previous ? `records after ${previous}` : 'first run, full extract'}`);
+
+    return {
+      key,
+      column: incremental.column,
+      type: incremental.type || 'timestamp',
+      param: incremental.param || incremental.column,
+      previous
+    };
+  }
+
+  /**
+   * Store the highest extracted watermark once the load has succeeded
+   */
+  private async advanceWatermark(
+    watermark: WatermarkState,
+    next: string | null,
+    runId: number | null,
+    loadSucceeded: boolean
+  ): Promise<WatermarkResult> {
+    const unchanged = { key: watermark.key, previous: watermark.previous, current: watermark.previous, advanced: false };
+    if (!loadSucceeded || next === null || next === watermark.previous) {
+      return unchanged;
+    }
+
+    try {
+      await this.watermarkRepository.advance('caregivers', watermark.key, {
+        watermark_column: watermark.column,
+        watermark_type: watermark.type,
+        watermark_value: next,
+        last_run_id: runId
+      });
+      console.log(`✓ Watermark advanced to ${next}`);
+      return { ...unchanged, current: next, advanced: true };
+    } catch (error) {
+      console.warn(`⚠ Could not advance watermark: ${errorMessage(error)}`);
+      return unchanged;
+    }
+  }
+
+  /**
+   * Store the final counts, failing rows and dry-run diff of a run, quarantine rejected rows,
+   * then attach the run ID to the result
+   */
+  private async completeRunRecord<T extends {
+    success: boolean;
+    extractedCount: number;
+    transformedCount: number;
+    loadResult?: any;
+    errors: any[];
+  }>(
+    runId: number | null,
+    result: T,
+    failedRawByRow: Map<number, any>,
+    rejectedRows: RejectedRow[],
+    quarantineRejects: boolean,
+    dryRunDiff: ETLDryRunDiff | null = null
+  ): Promise<T & { runId: number | null }> {
+    if (runId !== null) {
+      try {
+        const loadErrors: any[] = result.loadResult?.errors || [];
+        const errorsByType: Record<string, number> = { ...(result.loadResult?.errorsByType || {}) };
+        if (rejectedRows.length > 0) {
+          errorsByType['Validation Error'] = (errorsByType['Validation Error'] || 0) + rejectedRows.length;
+        }
+
+        const rowErrors: CreateETLRowErrorData[] = [
+          ...rejectedRows.map(rejected => ({
+            phase: 'transform' as const,
+            row_index: rejected.rowIndex,
+            error_type: 'Validation Error',
+            error_message: rejected.error,
+            raw_payload: rejected.raw
+          })),
+          ...loadErrors.map(err => ({
+            phase: 'load' as const,
+            row_index: err.row,
+            error_type: this.categorizeError(err.error),
+            error_message: err.error,
+            raw_payload: failedRawByRow.get(err.row) || err.record
+          }))
+        ];
+
+        await this.etlRunRepository.finishRun(runId, {
+          status: result.success ? ETLRunStatus.SUCCEEDED : ETLRunStatus.FAILED,
+          extracted_count: result.extractedCount,
+          transformed_count: result.transformedCount,
+          loaded_count: result.loadResult?.successCount || 0,
+          error_count: result.errors.length + rowErrors.length,
+          errors_by_type: errorsByType,
+          pipeline_errors: result.errors.map(e => `${e.phase}: ${e.error}`),
+          diff_summary: dryRunDiff?.summary ?? null
+        }, rowErrors, dryRunDiff?.entries);
+        console.log(`✓ ETL run recorded (run ID: ${runId})`);
+
+        if (quarantineRejects && rejectedRows.length > 0) {
+          // Quarantined rows hold the mapped caregiver fields, so replays do not depend on the source format
+          await this.quarantineRepository.quarantineRows(runId, 'caregivers', rejectedRows.map(rejected => ({
+            row_index: rejected.rowIndex,
+            raw_payload: rejected.mapped || rejected.raw,
+            error_message: rejected.error
+          })));
+          console.log(`✓ ${rejectedRows.length} rejected records quarantined`);
+        }
+      } catch (error) {
+        console.warn(`⚠ Could not record results for ETL run ${runId}: ${errorMessage(error)}`);
+      }
+    }
+
+    return { ...result, runId };
+  }
+
+  /**
+   * Re-run a single (corrected) raw record through the transform and load path.
+   * The replay is recorded as its own ETL run, linked to the run the record came from.
+   */
+  async replayRecord(raw: any, options: {
+    parentRunId?: number | null;
+    mode?: 'insert' | 'upsert';
+  } = {}): Promise<{ success: boolean; runId: number | null; error?: string }> {
+    const result = await this.runETLPipeline({ type: 'records', records: [raw] }, {
+      batchSize: 1,
+      maxRetries: 0,
+      mode: options.mode,
+      parentRunId: options.parentRunId,
+      quarantineRejects: false,
+      mapping: replayColumnMapping('caregivers')
+    });
+
+    if (result.loadResult?.successCount === 1) {
+      return { success: true, runId: result.runId };
+    }
+
+    const error = result.transformErrors[0]?.error
+      || result.loadResult?.errors?.[0]?.error
+      || result.errors[0]?.error
+      || 'Record was not loaded';
+    return { success: false, runId: result.runId, error };
+  }
+
   private getCaregiverSelectFields() {
     return [
       'caregivers.id',
@@ -692,6 +1395,7 @@ export class CaregiverRepository {
       'caregivers.agency_id',
       'caregivers.applicant_status',
       'caregivers.status',
+      'caregivers.merged_into_id',
       'caregivers.created_at',
       'caregivers.updated_at',
       // Profile fields
@@ -706,6 +1410,7 @@ export class CaregiverRepository {
       'profile.birthday_date',
       'profile.onboarding_date',
       'profile.sstatus',
+      'profile.certification_level',
       // External fields
       'external.external_id as external_system_id',
       'external.system_name',
@@ -723,6 +1428,114 @@ export class CaregiverRepository {
       .orderBy('profile.last_name', 'asc');
   }
 
+  /**
+   * Search caregivers by free text and filters, best name matches first when searching, else by name
+   */
+  async search(options: CaregiverSearchOptions = {}): Promise<Caregiver[]> {
+    try {
+      const { limit = 50, offset = 0, ...filters } = options;
+      if (limit < 1 || limit > CAREGIVER_SEARCH_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${CAREGIVER_SEARCH_MAX_LIMIT}`);
+      }
+      if (offset < 0) {
+        throw new Error('Offset must be non-negative');
+      }
+
+      const query = this.knex('caregivers')
+        .select(this.getCaregiverSelectFields())
+        .leftJoin('profile', 'caregivers.profile_id', 'profile.id')
+        .leftJoin('external', 'caregivers.external_id', 'external.id')
+        .leftJoin('locations', 'profile.location_id', 'locations.id')
+        .limit(limit)
+        .offset(offset);
+
+      const text = filters.q?.trim();
+      if (text) {
+        query.orderByRaw(`similarity(${PROFILE_FULL_NAME}, ?) DESC`, [text]);
+      }
+      query.orderBy([
+        { column: 'profile.last_name', order: 'asc' },
+        { column: 'profile.first_name', order: 'asc' },
+        { column: 'caregivers.id', order: 'asc' }
+      ]);
+
+      return await this.applySearchFilters(query, filters);
+    } catch (error) {
+      console.error('Error in CaregiverRepository.search:', error);
+      throw new Error(`Failed to search caregivers: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Count the caregivers a search matches across all pages
+   */
+  async countSearch(filters: CaregiverSearchFilters = {}): Promise<number> {
+    try {
+      const query = this.knex('caregivers')
+        .leftJoin('profile', 'caregivers.profile_id', 'profile.id')
+        .count('caregivers.id as count');
+
+      const result = await this.applySearchFilters(query, filters).first();
+      return parseInt(result?.count as string) || 0;
+    } catch (error) {
+      console.error('Error in CaregiverRepository.countSearch:', error);
+      throw new Error(`Failed to count caregivers: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Apply the search filters; the query must join profile
+   * The name conditions use the same expressions as the trigram and full-text indexes of migration 013
+   */
+  private applySearchFilters<T extends Knex.QueryBuilder>(query: T, filters: CaregiverSearchFilters): T {
+    const text = filters.q?.trim();
+    if (text) {
+      const prefixQuery = toPrefixTSQuery(text);
+      const digits = text.replace(/\D/g, '');
+
+      query.where(builder => {
+        builder.whereRaw(`${PROFILE_FULL_NAME} % ?`, [text]);
+        if (prefixQuery) {
+          builder.orWhereRaw(`to_tsvector('simple', ${PROFILE_FULL_NAME}) @@ to_tsquery('simple', ?)`, [prefixQuery]);
+        }
+        builder.orWhere('profile.email', 'ilike', `%${escapeLike(text)}%`);
+        // Phone numbers are stored in mixed formats, so only their digits are compared
+        if (digits.length >= MIN_PHONE_SEARCH_DIGITS) {
+          builder.orWhereRaw(`regexp_replace(profile.phone_number, '[^0-9]', '', 'g') LIKE ?`, [`%${digits}%`]);
+        }
+      });
+    }
+
+    if (filters.agency_id) {
+      query.where('caregivers.agency_id', filters.agency_id);
+    }
+    if (filters.franchisor_id) {
+      query.where('caregivers.franchisor_id', filters.franchisor_id);
+    }
+    if (filters.location_id) {
+      query.where('profile.location_id', filters.location_id);
+    }
+    if (filters.status) {
+      query.where('caregivers.status', filters.status);
+    }
+    if (filters.applicant_status) {
+      query.where('caregivers.applicant_status', filters.applicant_status);
+    }
+    if (filters.sstatus) {
+      query.where('profile.sstatus', filters.sstatus);
+    }
+    if (filters.certification_level) {
+      query.where('profile.certification_level', filters.certification_level);
+    }
+    if (filters.onboarding_from) {
+      query.where('profile.onboarding_date', '>=', filters.onboarding_from);
+    }
+    if (filters.onboarding_to) {
+      query.where('profile.onboarding_date', '<=', filters.onboarding_to);
+    }
+    return query;
+  }
+
   async findAllActive(): Promise<Caregiver[]> {
     return this.knex('caregivers')
       .select(this.getCaregiverSelectFields())
@@ -746,7 +1559,7 @@ export class CaregiverRepository {
   }
 
   async create(caregiverData: Partial<Caregiver>): Promise<Caregiver> {
-    return await this.knex.transaction(async (trx) => {
+    const id = await this.knex.transaction(async (trx) => {
       // Create profile record first
       const profileData = {
         franchisor_id: caregiverData.franchisor_id,
@@ -767,7 +1580,7 @@ export class CaregiverRepository {
         updated_at: new Date()
       };
 
-      const [profileId] = await trx('profile').insert(profileData).returning('id');
+      const [{ id: profileId }] = await trx('profile').insert(profileData).returning('id');
 
       // Create external record if external_system_id is provided
       let externalId = null;
@@ -779,7 +1592,7 @@ export class CaregiverRepository {
           updated_at: new Date()
         };
 
-        const [extId] = await trx('external').insert(externalData).returning('id');
+        const [{ id: extId }] = await trx('external').insert(externalData).returning('id');
         externalId = extId;
       }
 
@@ -795,17 +1608,23 @@ export class CaregiverRepository {
         updated_at: new Date()
       };
 
-      const [id] = await trx('caregivers').insert(caregiverRecord).returning('id');
-
-      return this.findById(id)!;
+      const [{ id: caregiverId }] = await trx('caregivers').insert(caregiverRecord).returning('id');
+      return caregiverId;
     });
+
+    // Read back after the commit: findById runs outside the transaction
+    const created = await this.findById(id);
+    if (!created) {
+      throw new Error('Failed to retrieve created caregiver');
+    }
+    return created;
   }
 
   async update(id: number, caregiverData: Partial<Caregiver>): Promise<Caregiver | null> {
-    return await this.knex.transaction(async (trx) => {
+    const found = await this.knex.transaction(async (trx) => {
       // Get current caregiver to find profile_id and external_id
       const currentCaregiver = await trx('caregivers').where('id', id).first();
-      if (!currentCaregiver) return null;
+      if (!currentCaregiver) return false;
 
       // Update profile if profile data is provided
       if (currentCaregiver.profile_id) {
@@ -849,8 +1668,10 @@ export class CaregiverRepository {
         await trx('caregivers').where('id', id).update(caregiverUpdates);
       }
 
-      return this.findById(id);
+      return true;
     });
+
+    return found ? this.findById(id) : null;
   }
 
   async delete(id: number): Promise<boolean> {
@@ -863,10 +1684,10 @@ export class CaregiverRepository {
 
   /**
    * Legacy method - now uses the new ETL pipeline
-   * @deprecated Use runETLPipeline instead for more flexibility
+   * @deprecated Use runETLPipeline (or `npm run cli -- load caregivers csv <file>`) instead for more flexibility
    */
   async insertData(): Promise<void> {
-    const csvFilePath = 'caregiver_data_20250415_sanitized.csv';
+    const csvFilePath = LEGACY_CAREGIVER_CSV_PATH;
     
     try {
       console.log('=== LEGACY INSERT DATA METHOD ===');
@@ -906,19 +1727,19 @@ export class CaregiverRepository {
       
     } catch (error) {
       console.error('\n=== LEGACY INSERT DATA FAILED ===');
-      console.error(`✗ Error: ${error.message}`);
+      console.error(`✗ Error: ${errorMessage(error)}`);
       
       // Enhanced error context for debugging
-      if (error.message.includes('CSV file not found')) {
+      if (errorMessage(error).includes('CSV file not found')) {
         console.error('💡 Tip: Make sure the CSV file exists in the correct location');
         console.error(`💡 Expected path: ${csvFilePath}`);
-      } else if (error.message.includes('database')) {
+      } else if (errorMessage(error).includes('database')) {
         console.error('💡 Tip: Check database connection and table schemas');
-      } else if (error.message.includes('transform')) {
+      } else if (errorMessage(error).includes('transform')) {
         console.error('💡 Tip: Check CSV data format and required fields');
       }
       
-      throw new Error(`Legacy insertData method failed: ${error.message}`);
+      throw new Error(`Legacy insertData method failed: ${errorMessage(error)}`);
     }
   }
 
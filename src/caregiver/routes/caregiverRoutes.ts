@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { CaregiverController } from '../controllers/CaregiverController';
+import { CaregiverMergeController } from '../controllers/CaregiverMergeController';
+import { validateRequest } from '../../shared/utils/requestValidation';
+import { caregiverSchemas as schemas } from './caregiverSchemas';
+
+/**
+ * Caregiver routes
+ * Static paths are registered before `/:id` so they are not captured as an ID;
+ * every route checks its request against its schema first
+ */
+export function createCaregiverRouter(controller: CaregiverController, mergeController: CaregiverMergeController): Router {
+  const router = Router();
+
+  router.get('/', validateRequest(schemas.list), (req, res) => controller.getAllCaregivers(req, res));
+  router.get('/active', validateRequest(schemas.list), (req, res) => controller.getActiveCaregivers(req, res));
+  router.get('/search', validateRequest(schemas.search), (req, res) => controller.searchCaregivers(req, res));
+  router.post('/bulk-upload', validateRequest(schemas.bulkUpload), (req, res) => controller.bulkUploadFromCsv(req, res));
+  router.post('/upload', validateRequest(schemas.upload), (req, res) => controller.uploadCsv(req, res));
+
+  // Deduplication
+  router.post('/duplicates/scan', validateRequest(schemas.duplicateScan), (req, res) => mergeController.scanDuplicates(req, res));
+  router.get('/merges', validateRequest(schemas.listMerges), (req, res) => mergeController.getMerges(req, res));
+  router.post('/merges', validateRequest(schemas.merge), (req, res) => mergeController.mergeCaregivers(req, res));
+  router.get('/merges/:id', validateRequest(schemas.getMerge), (req, res) => mergeController.getMergeById(req, res));
+  router.post('/merges/:id/undo', validateRequest(schemas.undoMerge), (req, res) => mergeController.undoMerge(req, res));
+
+  router.get('/:id', validateRequest(schemas.getById), (req, res) => controller.getCaregiverById(req, res));
+  router.post('/', validateRequest(schemas.create), (req, res) => controller.createCaregiver(req, res));
+  router.put('/:id', validateRequest(schemas.update), (req, res) => controller.updateCaregiver(req, res));
+  router.delete('/:id', validateRequest(schemas.delete), (req, res) => controller.deleteCaregiver(req, res));
+
+  return router;
+}
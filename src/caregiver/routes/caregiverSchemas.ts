@@ -0,0 +1,94 @@
+import { FieldSchemas, ID_PARAMS, RequestSchema } from '../../shared/utils/requestValidation';
+import { CAREGIVER_SEARCH_MAX_LIMIT, CAREGIVER_STATUSES, GENDERS, PROFILE_STATUSES } from '../models/caregiver';
+import { CaregiverMergeStatus } from '../models/caregiverMerge';
+
+/**
+ * Request schemas of the caregiver routes
+ */
+
+/** Writable caregiver fields; profile and external fields are stored in their own tables */
+const CAREGIVER_FIELDS: FieldSchemas = {
+  franchisor_id: { type: 'integer', min: 1 },
+  agency_id: { type: 'integer', min: 1 },
+  location_id: { type: 'integer', min: 1, nullable: true },
+  subdomain: { type: 'string', max: 100, nullable: true },
+  first_name: { type: 'string', min: 1, max: 100 },
+  last_name: { type: 'string', min: 1, max: 100 },
+  email: { type: 'email', max: 255, nullable: true },
+  phone_number: { type: 'string', max: 20, nullable: true },
+  gender: { type: 'string', enum: GENDERS, nullable: true },
+  applicant: { type: 'boolean' },
+  birthday_date: { type: 'date', nullable: true },
+  onboarding_date: { type: 'date', nullable: true },
+  applicant_status: { type: 'string', max: 50, nullable: true },
+  sstatus: { type: 'string', enum: PROFILE_STATUSES, description: 'Profile status' },
+  status: { type: 'string', enum: CAREGIVER_STATUSES, description: 'Employment status' },
+  external_system_id: { type: 'string', min: 1, max: 255, description: 'ID of the caregiver in the source system' },
+  system_name: { type: 'string', min: 1, max: 100, description: 'Source system of external_system_id (default legacy_csv)' }
+};
+
+const LOAD_MODE = { type: 'string', enum: ['insert', 'upsert'] } as const;
+
+export const caregiverSchemas = {
+  list: {},
+  search: {
+    query: {
+      q: { type: 'string', min: 1, max: 200, description: 'Matches the name (prefix words or similar spelling), email or phone digits' },
+      limit: { type: 'integer', min: 1, max: CAREGIVER_SEARCH_MAX_LIMIT },
+      offset: { type: 'integer', min: 0 },
+      include_total: { type: 'boolean', description: 'Add the number of matches as pagination.total' },
+      agency_id: { type: 'integer', min: 1 },
+      franchisor_id: { type: 'integer', min: 1 },
+      location_id: { type: 'integer', min: 1 },
+      status: { type: 'string', enum: CAREGIVER_STATUSES, description: 'Employment status' },
+      applicant_status: { type: 'string', max: 50 },
+      sstatus: { type: 'string', enum: PROFILE_STATUSES, description: 'Profile status' },
+      certification_level: { type: 'string', max: 50 },
+      onboarding_from: { type: 'date', description: 'Earliest onboarding date, inclusive' },
+      onboarding_to: { type: 'date', description: 'Latest onboarding date, inclusive' }
+    }
+  },
+  getById: { params: ID_PARAMS },
+  create: {
+    body: {
+      ...CAREGIVER_FIELDS,
+      first_name: { ...CAREGIVER_FIELDS.first_name, required: true },
+      last_name: { ...CAREGIVER_FIELDS.last_name, required: true }
+    }
+  },
+  update: { params: ID_PARAMS, body: CAREGIVER_FIELDS, nonEmptyBody: true },
+  delete: { params: ID_PARAMS },
+  bulkUpload: {
+    body: {
+      mode: LOAD_MODE,
+      batchSize: { type: 'integer', min: 1, max: 1000 }
+    }
+  },
+  /** Multipart upload: the form fields are checked by the upload itself */
+  upload: {},
+  duplicateScan: {
+    body: {
+      minScore: { type: 'number', min: 0, max: 1, description: 'Lowest score reported (default 0.8)' },
+      agencyId: { type: 'integer', min: 1, description: 'Only compare caregivers of this agency' },
+      limit: { type: 'integer', min: 1, max: 10000, description: 'Most pairs reported (default 1000)' }
+    }
+  },
+  listMerges: {
+    query: {
+      limit: { type: 'integer', min: 1, max: 100 },
+      offset: { type: 'integer', min: 0 },
+      caregiver_id: { type: 'integer', min: 1, description: 'Merges where the caregiver is the survivor or the duplicate' },
+      status: { type: 'string', enum: Object.values(CaregiverMergeStatus) }
+    }
+  },
+  merge: {
+    body: {
+      survivor_id: { type: 'integer', min: 1, required: true },
+      duplicate_id: { type: 'integer', min: 1, required: true },
+      score: { type: 'number', min: 0, max: 1, nullable: true },
+      reason: { type: 'string', max: 1000, nullable: true }
+    }
+  },
+  getMerge: { params: ID_PARAMS },
+  undoMerge: { params: ID_PARAMS }
+} satisfies Record<string, RequestSchema>;
@@ -0,0 +1,142 @@
+import { CaregiverMergeError, CaregiverMergeRepository } from '../repositories/CaregiverMergeRepository';
+import {
+  CaregiverMerge, CaregiverMergeStatus, CreateCaregiverMergeData, DuplicateCandidate, DuplicateScanOptions
+} from '../models/caregiverMerge';
+import { DEFAULT_MIN_DUPLICATE_SCORE, findDuplicateCandidates } from '../utils/duplicateScoring';
+import { JobQueueService } from '../../jobs/services/JobQueueService';
+import { BackgroundJob, JobType } from '../../jobs/models/backgroundJob';
+import { errorMessage } from '../../shared/utils/errors';
+
+interface MergeListOptions {
+  limit?: number;
+  offset?: number;
+  caregiver_id?: number;
+  status?: string;
+}
+
+const SCAN_DEFAULT_LIMIT = 1000;
+const SCAN_MAX_LIMIT = 10000;
+
+export class CaregiverMergeService {
+  constructor(
+    private readonly mergeRepository: CaregiverMergeRepository,
+    private readonly jobQueueService?: JobQueueService
+  ) {}
+
+  /**
+   * Queue a duplicate scan; the candidate pairs are fetched from GET /api/jobs/:id/result once it succeeds
+   */
+  async enqueueDuplicateScan(options: DuplicateScanOptions = {}): Promise<BackgroundJob> {
+    if (!this.jobQueueService) {
+      throw new Error('Job queue is not configured');
+    }
+    this.validateScanOptions(options);
+
+    return this.jobQueueService.enqueue(JobType.CAREGIVER_DUPLICATE_SCAN, { ...options });
+  }
+
+  /**
+   * Score candidate pairs among caregivers that have not been merged, highest scores first
+   */
+  async scanForDuplicates(options: DuplicateScanOptions = {}): Promise<DuplicateCandidate[]> {
+    try {
+      this.validateScanOptions(options);
+      const { minScore = DEFAULT_MIN_DUPLICATE_SCORE, agencyId, limit = SCAN_DEFAULT_LIMIT } = options;
+
+      const records = await this.mergeRepository.findDuplicateScanRecords(agencyId);
+      return findDuplicateCandidates(records, { minScore, limit });
+    } catch (error) {
+      console.error('Error in CaregiverMergeService.scanForDuplicates:', error);
+      throw new Error(`Failed to scan for duplicate caregivers: ${errorMessage(error)}`);
+    }
+  }
+
+  async mergeCaregivers(data: CreateCaregiverMergeData): Promise<CaregiverMerge> {
+    try {
+      if (!data || !Number.isInteger(data.survivor_id) || !Number.isInteger(data.duplicate_id) || data.survivor_id <= 0 || data.duplicate_id <= 0) {
+        throw new Error('survivor_id and duplicate_id must be caregiver IDs');
+      }
+      if (data.survivor_id === data.duplicate_id) {
+        throw new Error('A caregiver cannot be merged into itself');
+      }
+      if (data.score !== undefined && data.score !== null && (typeof data.score !== 'number' || data.score < 0 || data.score > 1)) {
+        throw new Error('Score must be between 0 and 1');
+      }
+      if (data.reason !== undefined && data.reason !== null && typeof data.reason !== 'string') {
+        throw new Error('Reason must be a string');
+      }
+
+      const merge = await this.mergeRepository.merge(data);
+      console.log(`🔗 Merged caregiver ${data.duplicate_id} into ${data.survivor_id} (merge ${merge.id})`);
+      return merge;
+    } catch (error) {
+      if (error instanceof CaregiverMergeError) throw error;
+      console.error('Error in CaregiverMergeService.mergeCaregivers:', error);
+      throw new Error(`Failed to merge caregivers: ${errorMessage(error)}`);
+    }
+  }
+
+  async undoMerge(id: number): Promise<CaregiverMerge | null> {
+    try {
+      if (!id || id <= 0) {
+        throw new Error('Valid merge ID is required');
+      }
+
+      const merge = await this.mergeRepository.undo(id);
+      if (merge) {
+        console.log(`↩ Undid merge ${id} of caregiver ${merge.duplicate_id} into ${merge.survivor_id}`);
+      }
+      return merge;
+    } catch (error) {
+      if (error instanceof CaregiverMergeError) throw error;
+      console.error('Error in CaregiverMergeService.undoMerge:', error);
+      throw new Error(`Failed to undo merge: ${errorMessage(error)}`);
+    }
+  }
+
+  async getMerges(options: MergeListOptions = {}): Promise<CaregiverMerge[]> {
+    try {
+      const { limit = 50, offset = 0, status } = options;
+
+      if (limit <= 0 || limit > 100) {
+        throw new Error('Limit must be between 1 and 100');
+      }
+      if (offset < 0) {
+        throw new Error('Offset must be non-negative');
+      }
+      if (status && !Object.values(CaregiverMergeStatus).includes(status as CaregiverMergeStatus)) {
+        throw new Error(`Status must be one of: ${Object.values(CaregiverMergeStatus).join(', ')}`);
+      }
+
+      return await this.mergeRepository.findAll({ ...options, limit, offset });
+    } catch (error) {
+      console.error('Error in CaregiverMergeService.getMerges:', error);
+      throw new Error(`Failed to get caregiver merges: ${errorMessage(error)}`);
+    }
+  }
+
+  async getMergeById(id: number): Promise<CaregiverMerge | null> {
+    try {
+      if (!id || id <= 0) {
+        throw new Error('Valid merge ID is required');
+      }
+      return await this.mergeRepository.findById(id);
+    } catch (error) {
+      console.error('Error in CaregiverMergeService.getMergeById:', error);
+      throw new Error(`Failed to get caregiver merge: ${errorMessage(error)}`);
+    }
+  }
+
+  private validateScanOptions(options: DuplicateScanOptions): void {
+    const { minScore, agencyId, limit } = options;
+    if (minScore !== undefined && (typeof minScore !== 'number' || minScore < 0 || minScore > 1)) {
+      throw new Error('minScore must be between 0 and 1');
+    }
+    if (agencyId !== undefined && (!Number.isInteger(agencyId) || agencyId <= 0)) {
+      throw new Error('agencyId must be an agency ID');
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0 || limit > SCAN_MAX_LIMIT)) {
+      throw new Error(`Limit must be between 1 and ${SCAN_MAX_LIMIT}`);
+    }
+  }
+}
@@ -1,9 +1,27 @@
 
-import { CaregiverRepository } from '../repositories/CaregiverRepository';
-import { Caregiver } from '../models/caregiver';
+import * as fs from 'fs';
+import { CaregiverRepository, LEGACY_CAREGIVER_CSV_PATH } from '../repositories/CaregiverRepository';
+import { Caregiver, CaregiverSearchOptions } from '../models/caregiver';
+import { JobQueueService } from '../../jobs/services/JobQueueService';
+import { BackgroundJob, JobType } from '../../jobs/models/backgroundJob';
+import { summarizeETLRun } from '../../etl/utils/runSummary';
+import { knexInstance } from '../../infrastructure/database/knexConnection';
+
+interface BulkUploadOptions {
+  mode?: 'insert' | 'upsert';
+  batchSize?: number;
+}
+
+interface CsvUploadOptions {
+  /** As sent in the multipart form; checked before the load */
+  mode?: string;
+  batchSize?: number;
+  /** Queue the load and return the job (default), or run it and return the summary */
+  async?: boolean;
+}
 
 export class CaregiverService {
-  constructor(private repository: CaregiverRepository) {}
+  constructor(private repository: CaregiverRepository, private jobQueueService?: JobQueueService) {}
 
   async getAllCaregivers(): Promise<Caregiver[]> {
     return this.repository.findAll();
@@ -13,6 +31,20 @@ export class CaregiverService {
     return this.repository.findAllActive();
   }
 
+  /**
+   * One page of a caregiver search, with the number of matches across all pages when asked for
+   */
+  async searchCaregivers(
+    options: CaregiverSearchOptions & { includeTotal?: boolean } = {}
+  ): Promise<{ caregivers: Caregiver[]; total?: number }> {
+    const { includeTotal = false, limit, offset, ...filters } = options;
+    const [caregivers, total] = await Promise.all([
+      this.repository.search({ ...filters, limit, offset }),
+      includeTotal ? this.repository.countSearch(filters) : Promise.resolve(undefined)
+    ]);
+    return total === undefined ? { caregivers } : { caregivers, total };
+  }
+
   async getCaregiverById(id: number): Promise<Caregiver | null> {
     return this.repository.findById(id);
   }
@@ -29,8 +61,62 @@ export class CaregiverService {
     return this.repository.delete(id);
   }
 
-  async bulkUploadFromCsv(): Promise<void> {
-    return this.repository.insertData();
+  /**
+   * Queue an ETL load of the caregiver CSV export; a worker runs it and records the summary on the job
+   */
+  async bulkUploadFromCsv(options: BulkUploadOptions = {}): Promise<BackgroundJob> {
+    if (!this.jobQueueService) {
+      throw new Error('Job queue is not configured');
+    }
+    this.validateUploadOptions(options);
+
+    return this.jobQueueService.enqueue(JobType.CAREGIVER_BULK_UPLOAD, { path: LEGACY_CAREGIVER_CSV_PATH, ...options });
+  }
+
+  /**
+   * Load an uploaded CSV file: queued by default (the worker removes the file when done),
+   * or run in the request with `async: false`, returning the run summary
+   */
+  async uploadCsv(
+    upload: { path: string; originalName: string },
+    options: CsvUploadOptions = {}
+  ): Promise<{ job?: BackgroundJob; summary?: Record<string, any> }> {
+    const { async = true, ...loadOptions } = options;
+    let queued = false;
+
+    try {
+      this.validateUploadOptions(loadOptions);
+
+      if (async) {
+        if (!this.jobQueueService) {
+          throw new Error('Job queue is not configured');
+        }
+        const job = await this.jobQueueService.enqueue(JobType.CAREGIVER_BULK_UPLOAD, {
+          path: upload.path,
+          original_name: upload.originalName,
+          delete_after: true,
+          ...loadOptions
+        });
+        queued = true;
+        return { job };
+      }
+
+      const result = await this.repository.runETLPipeline({ type: 'csv', path: upload.path }, { ...loadOptions, continueOnError: true });
+      return { summary: { file: upload.originalName, ...summarizeETLRun('caregivers', result) } };
+    } finally {
+      if (!queued) {
+        fs.rmSync(upload.path, { force: true });
+      }
+    }
+  }
+
+  private validateUploadOptions(options: { mode?: string; batchSize?: number }): asserts options is BulkUploadOptions {
+    if (options.mode !== undefined && options.mode !== 'insert' && options.mode !== 'upsert') {
+      throw new Error('Mode must be insert or upsert');
+    }
+    if (options.batchSize !== undefined && (!Number.isInteger(options.batchSize) || options.batchSize <= 0 || options.batchSize > 1000)) {
+      throw new Error('Batch size must be between 1 and 1000');
+    }
   }
 }
 
@@ -40,25 +126,13 @@ async function caregiverService() {
   const service = new CaregiverService(repo);
 
   try {
-    console.log('Top Perform Caregivers:');
-    const rankTopCaregivers = await service.rankTopCaregivers();
-    console.log(rankTopCaregivers);
-
-    console.log('\nLow Reliability Performers:');
-    const lowReliabilityPerformers = await service.rankLowReliabilityPerformers();
-    console.log(lowReliabilityPerformers);
+    console.log('All Caregivers:');
+    const caregivers = await service.getAllCaregivers();
+    console.log(`${caregivers.length} caregivers`);
 
-    console.log('\nDetailed Comments:');
-    const detailedComments = await service.listDetailedComments();
-    console.log(detailedComments);
-
-    console.log('\nOvertime Caregivers:');
-    const overtimeCaregivers = await service.rankOvertimeCaregivers();
-    console.log(overtimeCaregivers);
-
-    console.log('\nFranchise Performance Analysis:');
-    const franchisePerformance = await service.analyzeFranchisePerformance();
-    console.log(franchisePerformance);
+    console.log('\nActive Caregivers:');
+    const activeCaregivers = await service.getActiveCaregivers();
+    console.log(`${activeCaregivers.length} active caregivers`);
 
   } catch (error) {
     console.error('Error:', error);
@@ -69,10 +143,9 @@ async function caregiverService() {
 
 async function caregiverInsertData() {
   const repo = new CaregiverRepository(knexInstance);
-  const service = new CaregiverService(repo);
 
   try {
-    await service.insertData();
+    await repo.insertData();
     console.log('Data insertion completed');
   } catch (error) {
     console.error('Error:', error);
@@ -0,0 +1,202 @@
+import { DuplicateCandidate, DuplicateField, DuplicateScanRecord } from '../models/caregiverMerge';
+
+/** Weight of each field in a pair's score; fields missing on either caregiver are left out */
+const FIELD_WEIGHTS: Record<DuplicateField, number> = {
+  name: 0.4,
+  email: 0.25,
+  phone: 0.2,
+  birthday: 0.15
+};
+
+/** Blocks with more caregivers than this (a shared office phone, a placeholder email) are not compared */
+const MAX_BLOCK_SIZE = 200;
+
+export const DEFAULT_MIN_DUPLICATE_SCORE = 0.8;
+
+interface NormalizedRecord {
+  record: DuplicateScanRecord;
+  first: string;
+  last: string;
+  email: string | null;
+  phone: string | null;
+  birthday: string | null;
+}
+
+/**
+ * Find pairs of caregivers that are likely the same person
+ * Only caregivers sharing a blocking key (email, phone, last name + first initial, or birthday + last initial)
+ * are compared, so the scan stays far below comparing every pair
+ */
+export function findDuplicateCandidates(
+  records: DuplicateScanRecord[],
+  options: { minScore?: number; limit?: number } = {}
+): DuplicateCandidate[] {
+  const minScore = options.minScore ?? DEFAULT_MIN_DUPLICATE_SCORE;
+  const normalized = records.map(normalizeRecord).filter(record => record.first && record.last);
+
+  const blocks = new Map<string, NormalizedRecord[]>();
+  const addToBlock = (key: string | null, record: NormalizedRecord) => {
+    if (!key) return;
+    const block = blocks.get(key);
+    if (block) block.push(record); else blocks.set(key, [record]);
+  };
+  normalized.forEach(record => {
+    addToBlock(record.email && `email:${record.email}`, record);
+    addToBlock(record.phone && `phone:${record.phone}`, record);
+    addToBlock(`name:${record.last}:${record.first[0]}`, record);
+    addToBlock(record.birthday && `birthday:${record.birthday}:${record.last[0]}`, record);
+  });
+
+  const compared = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+  blocks.forEach(block => {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) return;
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].record.id < block[j].record.id ? [block[i], block[j]] : [block[j], block[i]];
+        const pairKey = `${a.record.id}:${b.record.id}`;
+        if (a.record.id === b.record.id || compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const scored = scorePair(a, b);
+        if (scored && scored.score >= minScore) {
+          candidates.push({ caregiver_id: a.record.id, duplicate_id: b.record.id, ...scored, caregiver: a.record, duplicate: b.record });
+        }
+      }
+    }
+  });
+
+  candidates.sort((a, b) => b.score - a.score || a.caregiver_id - b.caregiver_id || a.duplicate_id - b.duplicate_id);
+  return options.limit ? candidates.slice(0, options.limit) : candidates;
+}
+
+/**
+ * Score two caregivers on normalized name, email, phone and birthday
+ * Returns null unless the names and at least one other field can be compared, since a name alone is not enough
+ */
+export function scoreDuplicatePair(
+  a: DuplicateScanRecord,
+  b: DuplicateScanRecord
+): Pick<DuplicateCandidate, 'score' | 'field_scores'> | null {
+  return scorePair(normalizeRecord(a), normalizeRecord(b));
+}
+
+function scorePair(a: NormalizedRecord, b: NormalizedRecord): Pick<DuplicateCandidate, 'score' | 'field_scores'> | null {
+  if (!a.first || !a.last || !b.first || !b.last) return null;
+
+  const fieldScores: Partial<Record<DuplicateField, number>> = {
+    // Sources sometimes swap first and last name
+    name: Math.max(
+      jaroWinkler(`${a.first} ${a.last}`, `${b.first} ${b.last}`),
+      jaroWinkler(`${a.first} ${a.last}`, `${b.last} ${b.first}`)
+    )
+  };
+  if (a.email && b.email) {
+    fieldScores.email = a.email === b.email ? 1 : a.email.split('@')[0] === b.email.split('@')[0] ? 0.5 : 0;
+  }
+  if (a.phone && b.phone) {
+    fieldScores.phone = a.phone === b.phone ? 1 : a.phone.slice(-7) === b.phone.slice(-7) ? 0.5 : 0;
+  }
+  if (a.birthday && b.birthday) {
+    fieldScores.birthday = a.birthday === b.birthday ? 1 : isDayMonthSwap(a.birthday, b.birthday) ? 0.5 : 0;
+  }
+
+  const fields = Object.keys(fieldScores) as DuplicateField[];
+  if (fields.length < 2) return null;
+
+  const totalWeight = fields.reduce((sum, field) => sum + FIELD_WEIGHTS[field], 0);
+  const score = fields.reduce((sum, field) => sum + FIELD_WEIGHTS[field] * fieldScores[field]!, 0) / totalWeight;
+
+  Object.keys(fieldScores).forEach(field => {
+    fieldScores[field as DuplicateField] = round(fieldScores[field as DuplicateField]!);
+  });
+  return { score: round(score), field_scores: fieldScores };
+}
+
+function normalizeRecord(record: DuplicateScanRecord): NormalizedRecord {
+  return {
+    record,
+    first: normalizeName(record.first_name),
+    last: normalizeName(record.last_name),
+    email: normalizeEmail(record.email),
+    phone: normalizePhone(record.phone_number),
+    birthday: record.birthday_date ? String(record.birthday_date).slice(0, 10) : null
+  };
+}
+
+/**
+ * Lowercase, without accents, punctuation or spaces ("O'Brien-Díaz" -> "obriendiaz")
+ */
+export function normalizeName(value: any): string {
+  if (!value) return '';
+  return String(value).normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Lowercase, without a +tag in the local part
+ */
+export function normalizeEmail(value: any): string | null {
+  if (!value) return null;
+  const email = String(value).trim().toLowerCase();
+  const at = email.lastIndexOf('@');
+  if (at <= 0) return null;
+  return `${email.slice(0, at).replace(/\+.*$/, '')}${email.slice(at)}`;
+}
+
+/**
+ * Digits only, without a leading US country code; null for anything shorter than 7 digits
+ */
+export function normalizePhone(value: any): string | null {
+  if (!value) return null;
+  const digits = String(value).replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return national.length >= 7 ? national : null;
+}
+
+function isDayMonthSwap(a: string, b: string): boolean {
+  const [yearA, monthA, dayA] = a.split('-');
+  const [yearB, monthB, dayB] = b.split('-');
+  return yearA === yearB && monthA === dayB && dayA === monthB;
+}
+
+/**
+ * Jaro-Winkler similarity (0-1), which favours strings sharing a prefix
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = Math.max(0, i - window); j < end; j++) {
+      if (matchedB[j] || a[i] !== b[j]) continue;
+      matchedA[i] = matchedB[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!matchedA[i]) continue;
+    while (!matchedB[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
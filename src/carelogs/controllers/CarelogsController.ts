@@ -1,25 +1,68 @@
 import { Request, Response } from 'express';
-import { CarelogsService } from '../services/CarelogsService';
+import { CarelogsService, CarelogTransitionError } from '../services/CarelogsService';
+import { AnalyticsQuery, ANALYTICS_QUERIES, Carelogs, CarelogSortColumn, ClockMethodGroup } from '../models/carelogs';
+import { SortDirection } from '../../shared/types/api-types';
+import { ReceivedUpload, receiveCSVUpload, UploadError } from '../../shared/utils/upload';
+import { sendAccepted, sendCursorPage, sendData, sendError, sendMessage, sendPage } from '../../shared/utils/apiResponse';
+import { CursorError } from '../../shared/utils/cursor';
+import { errorMessage } from '../../shared/utils/errors';
 
 export class CarelogsController {
   constructor(private carelogsService: CarelogsService) { }
 
+  /**
+   * List carelogs by offset (default), or by keyset cursor with `pagination=cursor` or a `cursor` from a previous page
+   * `include_total=true` adds the number of carelogs matching the filters
+   */
   async getAllCarelogs(req: Request, res: Response): Promise<void> {
     try {
-      const { limit = 50, offset = 0, status, caregiver_id, franchisor_id, agency_id } = req.query;
-      const options = {
-        limit: parseInt(limit as string) || 50,
-        offset: parseInt(offset as string) || 0,
+      const { limit = 50, offset, orderBy, orderDirection, status, caregiver_id, franchisor_id, agency_id } = req.query;
+      const filters = {
         status: status as string,
         caregiver_id: caregiver_id ? parseInt(caregiver_id as string) : undefined,
         franchisor_id: franchisor_id ? parseInt(franchisor_id as string) : undefined,
         agency_id: agency_id ? parseInt(agency_id as string) : undefined
       };
+      const includeTotal = req.query.include_total === 'true';
+
+      if (req.query.pagination === 'cursor' || req.query.cursor) {
+        if (offset !== undefined || orderBy !== undefined) {
+          sendError(res, 400, 'offset and orderBy cannot be used with cursor pagination, which orders by start_datetime and id');
+          return;
+        }
+
+        const options = {
+          ...filters,
+          limit: parseInt(limit as string) || 50,
+          cursor: req.query.cursor as string | undefined,
+          orderDirection: orderDirection as SortDirection | undefined,
+          includeTotal
+        };
+        const page = await this.carelogsService.getCarelogPage(options);
+        sendCursorPage(res, page.carelogs, {
+          limit: options.limit,
+          next_cursor: page.next_cursor,
+          prev_cursor: page.prev_cursor,
+          total: page.total
+        });
+        return;
+      }
+
+      const options = {
+        ...filters,
+        limit: parseInt(limit as string) || 50,
+        offset: parseInt(offset as string) || 0,
+        orderBy: orderBy as CarelogSortColumn | undefined,
+        orderDirection: orderDirection as SortDirection | undefined
+      };
       
-      const carelogs = await this.carelogsService.getAllCarelogs(options);
-      res.json({ success: true, data: carelogs });
+      const [carelogs, total] = await Promise.all([
+        this.carelogsService.getAllCarelogs(options),
+        includeTotal ? this.carelogsService.getCarelogCount(filters) : Promise.resolve(undefined)
+      ]);
+      sendPage(res, carelogs, { ...options, total });
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, error instanceof CursorError ? error.status : 500, errorMessage(error));
     }
   }
 
@@ -27,28 +70,28 @@ export class CarelogsController {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        res.status(400).json({ success: false, error: 'Invalid carelog ID' });
+        sendError(res, 400, 'Invalid carelog ID');
         return;
       }
 
       const carelog = await this.carelogsService.getCarelogById(id);
       if (!carelog) {
-        res.status(404).json({ success: false, error: 'Carelog not found' });
+        sendError(res, 404, 'Carelog not found');
         return;
       }
 
-      res.json({ success: true, data: carelog });
+      sendData(res, carelog);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 500, errorMessage(error));
     }
   }
 
   async createCarelog(req: Request, res: Response): Promise<void> {
     try {
       const carelog = await this.carelogsService.createCarelog(req.body);
-      res.status(201).json({ success: true, data: carelog });
+      sendData(res, carelog, 201);
     } catch (error) {
-      res.status(400).json({ success: false, error: error.message });
+      sendError(res, 400, errorMessage(error));
     }
   }
 
@@ -56,19 +99,19 @@ export class CarelogsController {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        res.status(400).json({ success: false, error: 'Invalid carelog ID' });
+        sendError(res, 400, 'Invalid carelog ID');
         return;
       }
 
       const updated = await this.carelogsService.updateCarelog(id, req.body);
       if (!updated) {
-        res.status(404).json({ success: false, error: 'Carelog not found' });
+        sendError(res, 404, 'Carelog not found');
         return;
       }
 
-      res.json({ success: true, data: updated });
+      sendData(res, updated);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, error instanceof CarelogTransitionError ? error.status : 500, errorMessage(error));
     }
   }
 
@@ -76,19 +119,57 @@ export class CarelogsController {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        res.status(400).json({ success: false, error: 'Invalid carelog ID' });
+        sendError(res, 400, 'Invalid carelog ID');
         return;
       }
 
       const deleted = await this.carelogsService.deleteCarelog(id);
       if (!deleted) {
-        res.status(404).json({ success: false, error: 'Carelog not found' });
+        sendError(res, 404, 'Carelog not found');
+        return;
+      }
+
+      sendMessage(res, 'Carelog deleted successfully');
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  // Visit lifecycle: 404 for an unknown visit, 409 when the visit's status does not allow the transition
+  async startVisit(req: Request, res: Response): Promise<void> {
+    await this.transitionVisit(req, res, id => {
+      const { clock_in_datetime, clock_in_method } = req.body || {};
+      return this.carelogsService.startVisit(id, { clock_in_datetime, clock_in_method });
+    });
+  }
+
+  async completeVisit(req: Request, res: Response): Promise<void> {
+    await this.transitionVisit(req, res, id => {
+      const { clock_out_datetime, clock_out_method } = req.body || {};
+      return this.carelogsService.completeVisit(id, { clock_out_datetime, clock_out_method });
+    });
+  }
+
+  async cancelVisit(req: Request, res: Response): Promise<void> {
+    await this.transitionVisit(req, res, id => this.carelogsService.cancelVisit(id, (req.body || {}).reason));
+  }
+
+  async markNoShow(req: Request, res: Response): Promise<void> {
+    await this.transitionVisit(req, res, id => this.carelogsService.markNoShow(id));
+  }
+
+  private async transitionVisit(req: Request, res: Response, transition: (id: number) => Promise<Carelogs>): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid carelog ID');
         return;
       }
 
-      res.json({ success: true, message: 'Carelog deleted successfully' });
+      const carelog = await transition(id);
+      sendData(res, carelog);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, error instanceof CarelogTransitionError ? error.status : 500, errorMessage(error));
     }
   }
 
@@ -97,9 +178,9 @@ export class CarelogsController {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
       const result = await this.carelogsService.rankTopCaregivers(limit);
-      res.json({ success: true, data: result });
+      sendData(res, result);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 500, errorMessage(error));
     }
   }
 
@@ -107,9 +188,9 @@ export class CarelogsController {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
       const result = await this.carelogsService.rankLowReliabilityPerformers(limit);
-      res.json({ success: true, data: result });
+      sendData(res, result);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 500, errorMessage(error));
     }
   }
 
@@ -118,9 +199,9 @@ export class CarelogsController {
       const minCharCount = parseInt(req.query.minCharCount as string) || 100;
       const limit = parseInt(req.query.limit as string) || 20;
       const result = await this.carelogsService.listDetailedComments(minCharCount, limit);
-      res.json({ success: true, data: result });
+      sendData(res, result);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 500, errorMessage(error));
     }
   }
 
@@ -128,18 +209,100 @@ export class CarelogsController {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
       const result = await this.carelogsService.rankOvertimeCaregivers(limit);
-      res.json({ success: true, data: result });
+      sendData(res, result);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async summarizeWeeklyHours(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const result = await this.carelogsService.summarizeWeeklyHours(limit);
+      sendData(res, result);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async analyzeClockMethods(req: Request, res: Response): Promise<void> {
+    try {
+      const groupBy = (req.query.groupBy as ClockMethodGroup) || 'caregiver';
+      const limit = parseInt(req.query.limit as string) || 10;
+      const result = await this.carelogsService.analyzeClockMethods(groupBy, limit);
+      sendData(res, result);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
     }
   }
 
   async analyzeFranchisePerformance(req: Request, res: Response): Promise<void> {
     try {
       const result = await this.carelogsService.analyzeFranchisePerformance();
-      res.json({ success: true, data: result });
+      sendData(res, result);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  /**
+   * Queue an analytics export; the rows are fetched from GET /api/jobs/:id/result once it succeeds
+   */
+  async exportAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+      const query = req.params.query as AnalyticsQuery;
+      if (!ANALYTICS_QUERIES.includes(query)) {
+        sendError(res, 404, `Unknown analytics query: ${query}`);
+        return;
+      }
+
+      const { limit, minCharCount, groupBy } = req.body || {};
+      if ((limit !== undefined && !Number.isInteger(limit)) || (minCharCount !== undefined && !Number.isInteger(minCharCount))) {
+        sendError(res, 400, 'limit and minCharCount must be integers');
+        return;
+      }
+
+      const job = await this.carelogsService.enqueueAnalyticsExport(query, { limit, minCharCount, groupBy });
+      sendAccepted(res, job);
+    } catch (error) {
+      sendError(res, 400, errorMessage(error));
+    }
+  }
+
+  /**
+   * Multipart CSV upload (field `file`, plus optional `mode`, `batchSize`, `loadStrategy` and `async` fields)
+   * Answers 202 with a job by default, or the ETL summary when `async` is `false`
+   */
+  async uploadCsv(req: Request, res: Response): Promise<void> {
+    let upload: ReceivedUpload;
+    try {
+      upload = await receiveCSVUpload(req);
+    } catch (error) {
+      sendError(res, error instanceof UploadError ? error.status : 500, errorMessage(error));
+      return;
+    }
+
+    try {
+      const { mode, batchSize, loadStrategy, async } = upload.fields;
+      const outcome = await this.carelogsService.uploadCsv(upload, {
+        mode,
+        batchSize: batchSize ? Number(batchSize) : undefined,
+        loadStrategy,
+        async: async !== 'false'
+      });
+
+      if (outcome.job) {
+        sendAccepted(res, outcome.job);
+        return;
+      }
+
+      if (!outcome.summary!.success) {
+        sendError(res, 422, outcome.summary!.error, outcome.summary);
+        return;
+      }
+      sendData(res, outcome.summary);
     } catch (error) {
-      res.status(500).json({ success: false, error: error.message });
+      sendError(res, 400, errorMessage(error));
     }
   }
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { SortDirection } from '../../shared/types/api-types';
+
 /**
  * Carelog model representing care visit records
  * This interface defines the structure for tracking caregiver visits based on CSV data format
@@ -30,21 +32,21 @@ export interface Carelogs {
   /** Actual clock-out timestamp when caregiver left */
   clock_out_actual_datetime?: Date | string | null;
 
-  /** Method used for clocking in (stored as string to match CSV numeric codes) */
-  clock_in_method?: string;
+  /** Method used for clocking in (a ClockMethod; source codes are mapped during the ETL transform) */
+  clock_in_method?: ClockMethod | string;
+
+  /** Method used for clocking out (a ClockMethod; source codes are mapped during the ETL transform) */
+  clock_out_method?: ClockMethod | string;
 
-  /** Method used for clocking out (stored as string to match CSV numeric codes) */
-  clock_out_method?: string;
+  /** Current status of the visit (a CarelogStatus; changes follow CARELOG_STATUS_TRANSITIONS) */
+  status: CarelogStatus | string;
 
-  /** Current status of the visit */
-  status: string;
+  /** Why the visit was cancelled, recorded by the cancel transition */
+  cancellation_reason?: string | null;
 
   /** Indicates if this visit was split from another visit (renamed from is_split) */
   split?: boolean;
 
-  /** Additional documentation or notes about the visit */
-  documentation?: string;
-
   /** External carelog identifier from CSV */
   external_id?: string;
 
@@ -70,6 +72,28 @@ export enum CarelogStatus {
   DELETED = 'deleted'
 }
 
+/**
+ * Statuses a visit may move to from each status
+ * A visit is started, then completed; it can be cancelled before it ends, or marked a no-show if it never starts.
+ * Completed, cancelled and no-show visits are final. Soft deletes (DELETE) are allowed from any status
+ */
+export const CARELOG_STATUS_TRANSITIONS: Record<CarelogStatus, CarelogStatus[]> = {
+  [CarelogStatus.SCHEDULED]: [CarelogStatus.IN_PROGRESS, CarelogStatus.CANCELLED, CarelogStatus.NO_SHOW],
+  [CarelogStatus.IN_PROGRESS]: [CarelogStatus.COMPLETED, CarelogStatus.CANCELLED],
+  [CarelogStatus.COMPLETED]: [],
+  [CarelogStatus.CANCELLED]: [],
+  [CarelogStatus.NO_SHOW]: [],
+  [CarelogStatus.DELETED]: []
+};
+
+/**
+ * Check whether a visit may move from one status to another
+ */
+export function canTransitionCarelog(from: string, to: string): boolean {
+  const allowed = CARELOG_STATUS_TRANSITIONS[from as CarelogStatus];
+  return Boolean(allowed && allowed.includes(to as CarelogStatus));
+}
+
 /**
  * Enum for visit types
  */
@@ -82,6 +106,7 @@ export enum VisitType {
 
 /**
  * Enum for clock-in/out methods
+ * MANUAL is a time entered or corrected by office staff rather than captured at the visit (an EVV override)
  */
 export enum ClockMethod {
   MOBILE_APP = 'mobile_app',
@@ -90,6 +115,93 @@ export enum ClockMethod {
   GPS = 'gps'
 }
 
+/**
+ * How the clock method analytics group visits
+ */
+export const CLOCK_METHOD_GROUPS = ['caregiver', 'agency'] as const;
+
+export type ClockMethodGroup = typeof CLOCK_METHOD_GROUPS[number];
+
+/**
+ * Analytics queries that can be run through the API, the CLI or an export job
+ */
+export const ANALYTICS_QUERIES = [
+  'top-caregivers', 'low-reliability', 'overtime', 'weekly-hours', 'clock-methods', 'franchise-performance',
+  'detailed-comments'
+] as const;
+
+export type AnalyticsQuery = typeof ANALYTICS_QUERIES[number];
+
+/**
+ * Columns the carelog list can be sorted by; the sort column is interpolated into SQL, so nothing else is accepted
+ */
+export const CARELOG_SORT_COLUMNS = [
+  'id', 'start_datetime', 'end_datetime', 'clock_in_actual_datetime', 'clock_out_actual_datetime', 'status', 'created_at',
+  'updated_at'
+] as const;
+
+export type CarelogSortColumn = typeof CARELOG_SORT_COLUMNS[number];
+
+/** Largest page of the carelog list, with offset or cursor pagination */
+export const CARELOG_PAGE_MAX_LIMIT = 100;
+
+/** Largest batch of a row-by-row load; every row of a batch is its own statement in one transaction */
+export const CARELOG_BATCH_MAX_SIZE = 1000;
+
+/** Largest batch of a COPY load; a batch is one COPY into the staging table and one set-based merge */
+export const CARELOG_COPY_BATCH_MAX_SIZE = 10000;
+
+/**
+ * Position of a carelog in the keyset order (start_datetime, id)
+ * start_datetime is kept as text with microseconds, so the position compares exactly in Postgres
+ */
+export interface CarelogKeysetPosition {
+  start_datetime: string;
+  id: number;
+}
+
+/**
+ * Decoded carelog list cursor: a position, the order it was issued for, and which side of it the page lies
+ */
+export interface CarelogCursor extends CarelogKeysetPosition {
+  order: SortDirection;
+  page: 'next' | 'prev';
+}
+
+/**
+ * Rows of one keyset page, in list order
+ * `hasMore` tells whether more rows follow in the direction the page was read (past the last row, or before the first for `prev`)
+ */
+export interface CarelogKeysetPage {
+  carelogs: Carelogs[];
+  first: CarelogKeysetPosition | null;
+  last: CarelogKeysetPosition | null;
+  hasMore: boolean;
+}
+
+/**
+ * A keyset page as answered by the API, with opaque cursors to the neighbouring pages (null at either end)
+ */
+export interface CarelogPage {
+  carelogs: Carelogs[];
+  next_cursor: string | null;
+  prev_cursor: string | null;
+  /** Rows matching the filters, when asked for */
+  total?: number;
+}
+
+/**
+ * Filters shared by the carelog list and its count
+ */
+export interface CarelogListFilters {
+  status?: string;
+  caregiver_id?: number;
+  franchisor_id?: number;
+  agency_id?: number;
+  date_from?: Date;
+  date_to?: Date;
+}
+
 /**
  * Interface for carelog creation (excludes auto-generated fields)
  */
@@ -100,7 +212,6 @@ export interface CreateCarelogData {
   start_datetime: Date | string;
   end_datetime: Date | string;
   status?: CarelogStatus;
-  documentation?: string;
 }
 
 /**
@@ -117,7 +228,6 @@ export interface UpdateCarelogData {
   clock_in_method?: ClockMethod;
   clock_out_method?: ClockMethod;
   status?: CarelogStatus;
-  documentation?: string;
   split?: boolean;
   parent_id?: number;
 }
\ No newline at end of file
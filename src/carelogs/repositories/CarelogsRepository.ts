@@ -1,9 +1,33 @@
 import { Knex } from 'knex';
-import { Carelogs } from '../models/carelogs';
+import {
+  CARELOG_PAGE_MAX_LIMIT, CARELOG_SORT_COLUMNS, CarelogCursor, CarelogKeysetPage, CarelogKeysetPosition, CarelogListFilters,
+  CarelogSortColumn, CarelogStatus, Carelogs, ClockMethod, ClockMethodGroup, canTransitionCarelog
+} from '../models/carelogs';
 import * as fs from 'fs';
-import csv from 'csv-parser';
 import * as path from 'path';
-import axios from 'axios';
+import { APIExtractOptions, extractAllAPIPages } from '../../etl/utils/apiExtractor';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DatabaseError, PoolClient } from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import { batchRows, streamCSVRows } from '../../etl/utils/rowStream';
+import { ETLRunRepository } from '../../etl/repositories/ETLRunRepository';
+import { CreateETLRowErrorData, ETLRunStatus } from '../../etl/models/etlRun';
+import { DiffAction, ETLDryRunDiff } from '../../etl/models/etlDiff';
+import { addDiffEntry, createDryRunDiff, toFieldChanges } from '../../etl/utils/diffReport';
+import { ETLProgressCallback, reportProgress } from '../../etl/utils/progress';
+import { ETLQuarantineRepository } from '../../etl/repositories/ETLQuarantineRepository';
+import { ETLWatermarkRepository } from '../../etl/repositories/ETLWatermarkRepository';
+import { IncrementalSourceOptions, WatermarkResult, WatermarkState } from '../../etl/models/etlWatermark';
+import { highestWatermark, initialWatermark } from '../../etl/utils/watermark';
+import { ColumnMappingConfig } from '../../etl/models/columnMapping';
+import { applyColumnMapping, loadColumnMapping, replayColumnMapping, resolveColumnMapping } from '../../etl/utils/columnMapping';
+import { defaultTimeZone, isValidTimeZone, parseDateTimeInZone } from '../../shared/utils/timeZone';
+import {
+  ClockMethodBreakdown, DetailedCommentRow, FranchisePerformanceRow, LowReliabilityRank, OvertimeCaregiverRank, SORT_DIRECTIONS,
+  SortDirection, TopCaregiverRank, WeeklyHoursRow
+} from '../../shared/types/api-types';
+import { errorMessage } from '../../shared/utils/errors';
 
 // Transform interfaces for ETL pipeline
 interface Transform {
@@ -11,8 +35,36 @@ interface Transform {
   data?: any;
   error?: string;
   rowIndex?: number;
+  /** Row after column mapping, kept for rejected rows so they can be corrected and replayed */
+  raw?: any;
+  /** Error category of a rejected row (default 'Validation Error') */
+  errorType?: string;
+  /** Source-system caregiver reference, resolved to caregiver_id through the external table */
+  caregiverRef?: { externalId: string; systemName: string };
 }
 
+/** Reference lookups of the transform step, kept across the batches of a run */
+interface TransformLookups {
+  /** Caregiver IDs per `system_name:external_id` */
+  caregivers: Map<string, number[]>;
+  /** Time zone per agency, and per parent visit (from its location) */
+  agencyTimeZones: Map<number, string | null>;
+  parentTimeZones: Map<number, string | null>;
+}
+
+function createTransformLookups(): TransformLookups {
+  return { caregivers: new Map(), agencyTimeZones: new Map(), parentTimeZones: new Map() };
+}
+
+/** Error category of rows whose source caregiver ID matches no caregiver */
+const UNRESOLVED_CAREGIVER_ERROR = 'Unresolved Caregiver';
+
+/** Weekly hours above which a caregiver's time counts as overtime */
+const WEEKLY_OVERTIME_HOURS = 40;
+
+/** Caregiver references per lookup query, keeping the bind parameters under the Postgres limit */
+const CAREGIVER_LOOKUP_CHUNK = 10000;
+
 interface ETLResult {
   success: boolean;
   extractedCount: number;
@@ -22,12 +74,28 @@ interface ETLResult {
   errors: string[];
   loadResults?: LoadResult;
   duration: number;
+  runId?: number | null;
+  watermark?: WatermarkResult;
+  diff?: ETLDryRunDiff;
 }
 
+/** Row limit of the analytics queries; the API allows 100, analytics export jobs up to this */
+const ANALYTICS_MAX_LIMIT = 10000;
+
+type LoadMode = 'insert' | 'upsert';
+
+type LoadOutcome = 'inserted' | 'updated' | 'unchanged';
+
+/** 'row' loads one row at a time; 'copy' stages each batch with COPY and merges it set-based */
+type LoadStrategy = 'row' | 'copy';
+
 interface LoadResult {
   totalProcessed: number;
   successCount: number;
   errorCount: number;
+  insertedCount: number;
+  updatedCount: number;
+  unchangedCount: number;
   errors: Array<{
     rowIndex: number;
     error: string;
@@ -46,108 +114,119 @@ interface LoadResult {
  * Handles CRUD operations and analytics for care visit logs
  */
 export class CarelogsRepository {
-  constructor(private readonly knex: Knex) { }
+  constructor(
+    private readonly knex: Knex,
+    private readonly etlRunRepository: ETLRunRepository = new ETLRunRepository(knex),
+    private readonly quarantineRepository: ETLQuarantineRepository = new ETLQuarantineRepository(knex),
+    private readonly watermarkRepository: ETLWatermarkRepository = new ETLWatermarkRepository(knex)
+  ) { }
 
   // ===== ETL PIPELINE METHODS =====
 
   /**
-   * EXTRACT: Read raw data from CSV file
+   * EXTRACT: Stream a CSV file in batches of `batchSize` rows, each tagged with its `_rowIndex`
+   * Rows are read as the batches are consumed, so memory use does not depend on the size of the file
    */
-  async extractFromCSV(filePath: string): Promise<any[]> {
-    return new Promise((resolve, reject) => {
-      const results: any[] = [];
-      let rowCount = 0;
-
-      if (!fs.existsSync(filePath)) {
-        reject(new Error(`CSV file not found: ${filePath}`));
-        return;
-      }
+  async *extractFromCSV(filePath: string, batchSize: number = 50): AsyncGenerator<Record<string, any>[]> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`CSV file not found: ${filePath}`);
+    }
 
-      fs.createReadStream(filePath)
-        .pipe(csv())
-        .on('data', (data) => {
-          rowCount++;
-          results.push({ ...data, _rowIndex: rowCount });
-        })
-        .on('end', () => {
-          console.log(`✓ Extracted ${results.length} rows from CSV`);
-          resolve(results);
-        })
-        .on('error', (error) => {
-          reject(new Error(`CSV extraction failed: ${error.message}`));
-        });
-    });
+    let rowCount = 0;
+    for await (const batch of batchRows(streamCSVRows(filePath), batchSize)) {
+      rowCount += batch.length;
+      yield batch;
+    }
+    console.log(`✓ Extracted ${rowCount} rows from CSV`);
   }
 
   /**
-   * EXTRACT: Fetch data from API endpoint
+   * EXTRACT: Fetch data from API endpoint, following pagination and retrying on 429/5xx
+   * `options.params` are sent as query parameters (e.g. the incremental watermark)
    */
-  async extractFromAPI(apiUrl: string, headers?: Record<string, string>): Promise<any[]> {
+  async extractFromAPI(apiUrl: string, options: APIExtractOptions = {}): Promise<any[]> {
     try {
-      const response = await axios.get(apiUrl, { headers });
-      const data = Array.isArray(response.data) ? response.data : [response.data];
+      const data = await extractAllAPIPages(apiUrl, options);
       console.log(`✓ Extracted ${data.length} records from API`);
       return data.map((item, index) => ({ ...item, _rowIndex: index + 1 }));
     } catch (error) {
-      throw new Error(`API extraction failed: ${error.message}`);
+      throw new Error(`API extraction failed: ${errorMessage(error)}`);
     }
   }
 
   /**
    * EXTRACT: Query data from database
+   * `bindings` are passed to knex.raw as named bindings (e.g. `:watermark`)
    */
-  async extractFromDatabase(query: string, sourceKnex?: Knex): Promise<any[]> {
+  async extractFromDatabase(query: string, sourceKnex?: Knex, bindings?: Record<string, any>): Promise<any[]> {
     try {
       const db = sourceKnex || this.knex;
-      const results = await db.raw(query);
+      const results = bindings ? await db.raw(query, bindings) : await db.raw(query);
       const data = results.rows || results;
       console.log(`✓ Extracted ${data.length} records from database`);
-      return data.map((item, index) => ({ ...item, _rowIndex: index + 1 }));
+      return data.map((item: any, index: number) => ({ ...item, _rowIndex: index + 1 }));
     } catch (error) {
-      throw new Error(`Database extraction failed: ${error.message}`);
+      throw new Error(`Database extraction failed: ${errorMessage(error)}`);
     }
   }
 
   /**
    * TRANSFORM: Clean, validate and format carelog data
+   * Source columns are first mapped onto carelog fields with `mapping` (see etl/utils/columnMapping).
+   * Rows that name their caregiver by source-system ID (caregiver_external_id + caregiver_system_name)
+   * are resolved to caregivers.id in one lookup. Date-times without an offset are wall-clock times in
+   * the visit's time zone: the row's time_zone field, else its location's (via parent), else its
+   * agency's, else DEFAULT_TIME_ZONE. `lookups` keeps caregiver and time zone matches across batches
    */
-  async transformCarelogData(rawData: any[]): Promise<Transform[]> {
+  async transformCarelogData(
+    rawData: any[],
+    verbose: boolean = true,
+    mapping: ColumnMappingConfig = resolveColumnMapping('carelogs'),
+    lookups: TransformLookups = createTransformLookups()
+  ): Promise<Transform[]> {
     const results: Transform[] = [];
     let successCount = 0;
     let errorCount = 0;
 
+    const mapped = rawData.map(raw => applyColumnMapping(raw, mapping, 'carelogs'));
+    await this.resolveTimeZones(mapped.map(({ record }) => record), lookups);
+
     for (let i = 0; i < rawData.length; i++) {
-      const row = rawData[i];
-      const rowIndex = row._rowIndex || i + 1;
+      const rowIndex = rawData[i]._rowIndex || i + 1;
+      const { record: row, errors: mappingErrors } = mapped[i];
 
       try {
-        // Validate required fields
-        if (!row.caregiver_id || !row.start_datetime || !row.end_datetime) {
-          throw new Error('Missing required fields: caregiver_id, start_datetime, end_datetime');
+        // Required fields and date formats are checked by the column mapping
+        if (mappingErrors.length > 0) {
+          throw new Error(mappingErrors.join('; '));
         }
 
-        const transformedData: Partial<Carelogs> = {
+        // An internal caregiver_id (explicit mapping or replayed row) takes precedence over the source reference
+        const caregiverId = this.parseInteger(row.caregiver_id);
+        const caregiverExternalId = caregiverId ? null : this.cleanString(row.caregiver_external_id);
+        const timeZone = this.rowTimeZone(row, lookups);
+
+        const transformedData = {
           franchisor_id: this.parseInteger(row.franchisor_id),
           agency_id: this.parseInteger(row.agency_id),
-          external_id: this.cleanString(row.id || row.external_id),
-          caregiver_id: this.parseInteger(row.caregiver_id),
+          external_id: this.cleanString(row.external_id),
+          caregiver_id: caregiverId,
           parent_id: this.parseInteger(row.parent_id),
-          start_datetime: this.parseDate(row.start_datetime),
-          end_datetime: this.parseDate(row.end_datetime),
-          clock_in_actual_datetime: this.parseDate(row.clock_in_actual_datetime),
-          clock_out_actual_datetime: this.parseDate(row.clock_out_actual_datetime),
-          clock_in_method: this.cleanString(row.clock_in_method),
-          clock_out_method: this.cleanString(row.clock_out_method),
+          start_datetime: this.parseDate(row.start_datetime, timeZone),
+          end_datetime: this.parseDate(row.end_datetime, timeZone),
+          clock_in_actual_datetime: this.parseDate(row.clock_in_actual_datetime, timeZone),
+          clock_out_actual_datetime: this.parseDate(row.clock_out_actual_datetime, timeZone),
+          clock_in_method: this.normalizeClockMethod(row.clock_in_method, 'clock_in_method'),
+          clock_out_method: this.normalizeClockMethod(row.clock_out_method, 'clock_out_method'),
           status: this.normalizeCarelogStatus(row.status),
           split: this.parseBoolean(row.split),
-          documentation: this.cleanString(row.documentation) || '',
           general_comment_char_count: this.parseInteger(row.general_comment_char_count) || 0,
           created_at: new Date(),
           updated_at: new Date()
-        };
+        } as Partial<Carelogs>;
 
         // Business rule validations
-        const validation = this.validateCarelogRecord(transformedData);
+        const validation = this.validateCarelogRecord(transformedData, caregiverExternalId !== null);
         if (!validation.isValid) {
           throw new Error(validation.errors.join('; '));
         }
@@ -155,24 +234,144 @@ export class CarelogsRepository {
         results.push({
           success: true,
           data: transformedData,
-          rowIndex
+          rowIndex,
+          raw: row,
+          ...(caregiverExternalId !== null ? {
+            caregiverRef: {
+              externalId: caregiverExternalId,
+              systemName: this.cleanString(row.caregiver_system_name) || 'legacy_csv'
+            }
+          } : {})
         });
         successCount++;
       } catch (error) {
         results.push({
           success: false,
-          error: error.message,
-          rowIndex
+          error: errorMessage(error),
+          rowIndex,
+          raw: row
         });
         errorCount++;
-        console.warn(`Row ${rowIndex}: ${error.message}`);
+        console.warn(`Row ${rowIndex}: ${errorMessage(error)}`);
       }
     }
 
-    console.log(`✓ Transform completed: ${successCount} success, ${errorCount} errors`);
+    const unresolvedCount = await this.resolveCaregiverReferences(results, lookups.caregivers);
+    successCount -= unresolvedCount;
+    errorCount += unresolvedCount;
+
+    // Mapped rows are only kept for rejects
+    results.forEach(result => {
+      if (result.success) delete result.raw;
+    });
+
+    if (verbose) {
+      console.log(`✓ Transform completed: ${successCount} success, ${errorCount} errors`);
+    }
     return results;
   }
 
+  /**
+   * Helper: Load the time zones of the agencies and parent visits referenced by mapped rows
+   * Rows that carry their own time_zone are skipped; IDs already in `lookups` are not queried again
+   */
+  private async resolveTimeZones(records: Record<string, any>[], lookups: TransformLookups): Promise<void> {
+    const agencyIds = new Set<number>();
+    const parentIds = new Set<number>();
+    records
+      .filter(record => !this.cleanString(record.time_zone))
+      .forEach(record => {
+        const agencyId = this.parseInteger(record.agency_id);
+        const parentId = this.parseInteger(record.parent_id);
+        if (agencyId && !lookups.agencyTimeZones.has(agencyId)) agencyIds.add(agencyId);
+        if (parentId && !lookups.parentTimeZones.has(parentId)) parentIds.add(parentId);
+      });
+
+    if (agencyIds.size > 0) {
+      const agencies = await this.knex('agencies').whereIn('id', Array.from(agencyIds)).select('id', 'time_zone');
+      agencyIds.forEach(id => lookups.agencyTimeZones.set(id, null));
+      agencies.forEach(agency => lookups.agencyTimeZones.set(Number(agency.id), agency.time_zone || null));
+    }
+
+    if (parentIds.size > 0) {
+      const parents = await this.knex('parent')
+        .leftJoin('locations', 'parent.location_id', 'locations.id')
+        .whereIn('parent.id', Array.from(parentIds))
+        .select('parent.id', 'locations.time_zone');
+      parentIds.forEach(id => lookups.parentTimeZones.set(id, null));
+      parents.forEach(parent => lookups.parentTimeZones.set(Number(parent.id), parent.time_zone || null));
+    }
+  }
+
+  /**
+   * Helper: Time zone a mapped row's wall-clock times are read in
+   */
+  private rowTimeZone(row: Record<string, any>, lookups: TransformLookups): string {
+    const parentId = this.parseInteger(row.parent_id);
+    const agencyId = this.parseInteger(row.agency_id);
+    const timeZone = this.cleanString(row.time_zone)
+      || (parentId ? lookups.parentTimeZones.get(parentId) : null)
+      || (agencyId ? lookups.agencyTimeZones.get(agencyId) : null)
+      || defaultTimeZone();
+
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone '${timeZone}'`);
+    }
+    return timeZone;
+  }
+
+  /**
+   * Helper: Resolve the source caregiver references of transformed rows to caregivers.id
+   * References missing from `cache` are looked up together, matching external.external_id and
+   * external.system_name; a merged duplicate resolves to its surviving caregiver. A reference matching
+   * no caregiver, or several, rejects its row with an 'Unresolved Caregiver' error. Returns the number of rows rejected
+   */
+  private async resolveCaregiverReferences(results: Transform[], cache: Map<string, number[]>): Promise<number> {
+    const keyOf = (systemName: string, externalId: string) => `${systemName}:${externalId}`;
+    const pending = results.filter(t => t.success && t.caregiverRef);
+
+    const lookups = new Map<string, [string, string]>();
+    pending.forEach(t => {
+      const { systemName, externalId } = t.caregiverRef!;
+      const key = keyOf(systemName, externalId);
+      if (!cache.has(key)) lookups.set(key, [systemName, externalId]);
+    });
+
+    const pairs = Array.from(lookups.values());
+    for (let i = 0; i < pairs.length; i += CAREGIVER_LOOKUP_CHUNK) {
+      const chunk = pairs.slice(i, i + CAREGIVER_LOOKUP_CHUNK);
+      const matches = await this.knex('external')
+        .innerJoin('caregivers', 'caregivers.external_id', 'external.id')
+        .whereIn(['external.system_name', 'external.external_id'], chunk)
+        .distinct('external.system_name', 'external.external_id', this.knex.raw('COALESCE(caregivers.merged_into_id, caregivers.id) AS id'));
+
+      chunk.forEach(([systemName, externalId]) => cache.set(keyOf(systemName, externalId), []));
+      matches.forEach(match => cache.get(keyOf(match.system_name, match.external_id))?.push(Number(match.id)));
+    }
+
+    let unresolvedCount = 0;
+    pending.forEach(t => {
+      const { systemName, externalId } = t.caregiverRef!;
+      const caregiverIds = cache.get(keyOf(systemName, externalId)) || [];
+
+      if (caregiverIds.length === 1) {
+        t.data.caregiver_id = caregiverIds[0];
+        return;
+      }
+
+      t.success = false;
+      t.errorType = UNRESOLVED_CAREGIVER_ERROR;
+      t.error = caregiverIds.length === 0
+        ? `No caregiver found for ${systemName} caregiver ID '${externalId}'`
+        : `${systemName} caregiver ID '${externalId}' matches ${caregiverIds.length} caregivers (${caregiverIds.join(', ')})`;
+      delete t.data;
+      unresolvedCount++;
+      console.warn(`Row ${t.rowIndex}: ${t.error}`);
+    });
+
+    return unresolvedCount;
+  }
+
   /**
    * Helper: Clean and trim string values
    */
@@ -192,12 +391,10 @@ export class CarelogsRepository {
   }
 
   /**
-   * Helper: Parse date values safely
+   * Helper: Parse date-time values safely, reading values without an offset in `timeZone`
    */
-  private parseDate(value: any): Date | null {
-    if (!value || String(value).trim() === '') return null;
-    const parsed = new Date(String(value).trim());
-    return isNaN(parsed.getTime()) ? null : parsed;
+  private parseDate(value: any, timeZone: string): Date | null {
+    return parseDateTimeInZone(value, timeZone);
   }
 
   /**
@@ -210,23 +407,48 @@ export class CarelogsRepository {
   }
 
   /**
-   * Helper: Normalize carelog status values
+   * Helper: Check a visit status after the mapping's code table (valueMaps.status) has been applied
+   * A missing status means scheduled; unmapped codes reject the row instead of silently becoming scheduled
+   */
+  private normalizeCarelogStatus(status: any): CarelogStatus {
+    const cleaned = this.cleanString(status);
+    if (cleaned === null) return CarelogStatus.SCHEDULED;
+
+    const normalized = cleaned.toLowerCase();
+    const statuses = Object.values(CarelogStatus) as string[];
+    if (!statuses.includes(normalized)) {
+      throw new Error(`status '${cleaned}' is not a known visit status (${statuses.join(', ')}); map the code with valueMaps.status`);
+    }
+    return normalized as CarelogStatus;
+  }
+
+  /**
+   * Helper: Check a clock method after the mapping's code table (valueMaps) has been applied
+   * Unmapped codes reject the row, so they are quarantined instead of loaded as unknown methods
    */
-  private normalizeCarelogStatus(status: any): string {
-    if (!status) return 'scheduled';
-    const normalized = String(status).toLowerCase().trim();
-    const validStatuses = ['scheduled', 'in_progress', 'completed', 'cancelled', 'no_show', 'deleted'];
-    return validStatuses.includes(normalized) ? normalized : 'scheduled';
+  private normalizeClockMethod(value: any, field: 'clock_in_method' | 'clock_out_method'): ClockMethod | null {
+    const cleaned = this.cleanString(value);
+    if (cleaned === null) return null;
+
+    const method = cleaned.toLowerCase();
+    const methods = Object.values(ClockMethod) as string[];
+    if (!methods.includes(method)) {
+      throw new Error(`${field} '${cleaned}' is not a known clock method (${methods.join(', ')}); map the code with valueMaps.${field}`);
+    }
+    return method as ClockMethod;
   }
 
   /**
    * Helper: Validate carelog record business rules
    */
-  private validateCarelogRecord(carelog: Partial<Carelogs>): { isValid: boolean; errors: string[] } {
+  private validateCarelogRecord(
+    carelog: Partial<Carelogs>,
+    hasCaregiverReference: boolean = false
+  ): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    // Required field validation
-    if (!carelog.caregiver_id) errors.push('caregiver_id is required');
+    // Required field validation; a source caregiver reference is resolved to caregiver_id afterwards
+    if (!carelog.caregiver_id && !hasCaregiverReference) errors.push('caregiver_id or caregiver_external_id is required');
     if (!carelog.start_datetime) errors.push('start_datetime is required');
     if (!carelog.end_datetime) errors.push('end_datetime is required');
 
@@ -257,43 +479,52 @@ export class CarelogsRepository {
 
   /**
    * LOAD: Insert transformed carelog data with comprehensive error handling
+   * In 'upsert' mode, rows whose external_id already exists are updated instead of rejected
    */
-  async loadCarelogData(transformedData: Transform[], batchSize: number = 50): Promise<LoadResult> {
+  async loadCarelogData(transformedData: Transform[], batchSize: number = 50, mode: LoadMode = 'insert', verbose: boolean = true): Promise<LoadResult> {
     const startTime = Date.now();
     const errors: Array<{ rowIndex: number; error: string; data?: any }> = [];
     let successCount = 0;
+    const outcomeCounts: Record<LoadOutcome, number> = { inserted: 0, updated: 0, unchanged: 0 };
     const errorsByType: Record<string, number> = {};
 
     // Filter successful transformations
     const validData = transformedData.filter(t => t.success && t.data);
-    269: console.log(`Loading ${validData.length} valid records in batches of ${batchSize}`);
+    if (verbose) {
+      console.log(`Loading ${validData.length} valid records in batches of ${batchSize}`);
+    }
 
     try {
       await this.knex.transaction(async (trx) => {
         for (let i = 0; i < validData.length; i += batchSize) {
           const batch = validData.slice(i, i + batchSize);
-          275: console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(validData.length / batchSize)}`);
+          if (verbose) {
+            console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(validData.length / batchSize)}`);
+          }
 
           for (const transform of batch) {
             try {
               // Add timeout protection
-              const insertPromise = this.insertSingleCarelog(transform.data!, trx);
-              const timeoutPromise = new Promise((_, reject) =>
+              const loadPromise = mode === 'upsert'
+                ? this.upsertSingleCarelog(transform.data!, trx)
+                : this.insertSingleCarelog(transform.data!, trx).then((): LoadOutcome => 'inserted');
+              const timeoutPromise = new Promise<never>((_, reject) =>
                 setTimeout(() => reject(new Error('Insert timeout')), 10000)
               );
 
-              await Promise.race([insertPromise, timeoutPromise]);
+              const outcome = await Promise.race([loadPromise, timeoutPromise]);
+              outcomeCounts[outcome]++;
               successCount++;
             } catch (error) {
-              const errorType = this.categorizeError(error.message);
+              const errorType = this.categorizeError(errorMessage(error));
               errorsByType[errorType] = (errorsByType[errorType] || 0) + 1;
 
               errors.push({
                 rowIndex: transform.rowIndex || 0,
-                error: error.message,
+                error: errorMessage(error),
                 data: transform.data
               });
-              console.warn(`❌ Row ${transform.rowIndex}: ${error.message}`);
+              console.warn(`❌ Row ${transform.rowIndex}: ${errorMessage(error)}`);
             }
           }
 
@@ -304,7 +535,7 @@ export class CarelogsRepository {
         }
       });
     } catch (transactionError) {
-      throw new Error(`Transaction failed: ${transactionError.message}`);
+      throw new Error(`Transaction failed: ${errorMessage(transactionError)}`);
     }
 
     const endTime = Date.now();
@@ -316,6 +547,197 @@ export class CarelogsRepository {
       totalProcessed,
       successCount,
       errorCount,
+      insertedCount: outcomeCounts.inserted,
+      updatedCount: outcomeCounts.updated,
+      unchangedCount: outcomeCounts.unchanged,
+      errors,
+      summary: {
+        insertionRate: totalProcessed > 0 ? (successCount / totalProcessed) * 100 : 0,
+        errorRate: totalProcessed > 0 ? (errorCount / totalProcessed) * 100 : 0,
+        avgProcessingTime: totalProcessed > 0 ? duration / totalProcessed : 0,
+        errorsByType
+      }
+    };
+
+    if (verbose) {
+      console.log(`✅ Load completed: ${successCount}/${totalProcessed} successful (${result.summary.insertionRate.toFixed(1)}%)`);
+      console.log(`   ${outcomeCounts.inserted} inserted, ${outcomeCounts.updated} updated, ${outcomeCounts.unchanged} unchanged`);
+      if (errorCount > 0) {
+        console.log(`⚠️  ${errorCount} errors occurred during loading`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * LOAD (bulk): Stage valid rows with COPY FROM STDIN into a temp table, check foreign keys
+   * with one set-based join, then merge the remaining rows into carelogs.
+   * Reports per-row errors in the same LoadResult shape as loadCarelogData.
+   */
+  async bulkLoadCarelogData(transformedData: Transform[], mode: LoadMode = 'insert', verbose: boolean = true): Promise<LoadResult> {
+    const startTime = Date.now();
+    const errors: Array<{ rowIndex: number; error: string; data?: any }> = [];
+    const outcomeCounts: Record<LoadOutcome, number> = { inserted: 0, updated: 0, unchanged: 0 };
+    const errorsByType: Record<string, number> = {};
+
+    const validData = transformedData.filter(t => t.success && t.data);
+    const rowsByIndex = new Map<number, Transform>();
+    validData.forEach((transform, index) => rowsByIndex.set(transform.rowIndex || index + 1, transform));
+
+    const rejectRow = (rowIndex: number, message: string) => {
+      const errorType = this.categorizeError(message);
+      errorsByType[errorType] = (errorsByType[errorType] || 0) + 1;
+      errors.push({ rowIndex, error: message, data: rowsByIndex.get(rowIndex)?.data });
+      rowsByIndex.delete(rowIndex);
+    };
+
+    // A repeated external_id within the load would make the merge ambiguous; the first occurrence wins
+    const seenExternalIds = new Set<string>();
+    for (const [rowIndex, transform] of rowsByIndex) {
+      const externalId = transform.data.external_id;
+      if (!externalId) continue;
+      if (seenExternalIds.has(externalId)) {
+        rejectRow(rowIndex, `Carelog with external_id '${externalId}' already exists earlier in this load`);
+      } else {
+        seenExternalIds.add(externalId);
+      }
+    }
+
+    if (verbose) {
+      console.log(`Bulk loading ${rowsByIndex.size} valid records with COPY (${mode} mode)`);
+    }
+
+    const columns = this.getBulkLoadColumns();
+    const columnNames = columns.map(column => column.name);
+
+    try {
+      // Nothing to stage when every row was rejected above
+      if (rowsByIndex.size > 0) await this.knex.transaction(async (trx) => {
+        await trx.raw(`
+          CREATE TEMP TABLE carelogs_staging (
+            row_index INTEGER PRIMARY KEY,
+            ${columns.map(column => `${column.name} ${column.type}`).join(',\n            ')}
+          ) ON COMMIT DROP
+        `);
+
+        // STAGE: stream the rows through COPY on the transaction's connection
+        // A transaction client hands back the connection it holds, not a new one from the pool, so the temp table is visible
+        const connection: PoolClient = await trx.client.acquireConnection();
+        const copyStream = connection.query(copyFrom(
+          `COPY carelogs_staging (row_index, ${columnNames.join(', ')}) FROM STDIN WITH (FORMAT csv)`
+        ));
+        await pipeline(Readable.from(this.toCopyLines(rowsByIndex, columnNames)), copyStream);
+
+        // CHECK: one set-based join for every foreign key the carelogs table enforces
+        const fkResult = await trx.raw(`
+          SELECT s.row_index, s.caregiver_id, s.parent_id, s.franchisor_id, s.agency_id,
+                 c.id IS NULL AS missing_caregiver,
+                 s.parent_id IS NOT NULL AND p.id IS NULL AS missing_parent,
+                 s.franchisor_id IS NOT NULL AND f.id IS NULL AS missing_franchisor,
+                 s.agency_id IS NOT NULL AND a.id IS NULL AS missing_agency
+          FROM carelogs_staging s
+          LEFT JOIN caregivers c ON c.id = s.caregiver_id
+          LEFT JOIN parent p ON p.id = s.parent_id
+          LEFT JOIN franchisors f ON f.id = s.franchisor_id
+          LEFT JOIN agencies a ON a.id = s.agency_id
+          WHERE c.id IS NULL
+             OR (s.parent_id IS NOT NULL AND p.id IS NULL)
+             OR (s.franchisor_id IS NOT NULL AND f.id IS NULL)
+             OR (s.agency_id IS NOT NULL AND a.id IS NULL)
+        `);
+        const invalidRows: number[] = [];
+        fkResult.rows.forEach((row: any) => {
+          const problems: string[] = [];
+          if (row.missing_caregiver) problems.push(`Caregiver with ID ${row.caregiver_id} does not exist`);
+          if (row.missing_parent) problems.push(`Parent with ID ${row.parent_id} does not exist`);
+          if (row.missing_franchisor) problems.push(`Franchisor with ID ${row.franchisor_id} does not exist`);
+          if (row.missing_agency) problems.push(`Agency with ID ${row.agency_id} does not exist`);
+          rejectRow(row.row_index, problems.join('; '));
+          invalidRows.push(row.row_index);
+        });
+
+        // In insert mode an external_id that is already loaded is a duplicate, as in insertSingleCarelog
+        if (mode === 'insert') {
+          const duplicateResult = await trx.raw(`
+            SELECT s.row_index, s.external_id
+            FROM carelogs_staging s
+            INNER JOIN carelogs c ON c.external_id = s.external_id
+          `);
+          duplicateResult.rows.forEach((row: any) => {
+            if (!rowsByIndex.has(row.row_index)) return;
+            rejectRow(row.row_index, `Carelog with external_id '${row.external_id}' already exists`);
+            invalidRows.push(row.row_index);
+          });
+        }
+
+        // In upsert mode a status change must follow CARELOG_STATUS_TRANSITIONS, as in upsertSingleCarelog
+        if (mode === 'upsert') {
+          const statusResult = await trx.raw(`
+            SELECT s.row_index, c.status AS from_status, s.status AS to_status
+            FROM carelogs_staging s
+            INNER JOIN carelogs c ON c.external_id = s.external_id
+            WHERE c.status IS DISTINCT FROM s.status
+          `);
+          statusResult.rows.forEach((row: any) => {
+            const transitionError = this.statusTransitionError(row.from_status, row.to_status);
+            if (!transitionError || !rowsByIndex.has(row.row_index)) return;
+            rejectRow(row.row_index, transitionError);
+            invalidRows.push(row.row_index);
+          });
+        }
+
+        if (invalidRows.length > 0) {
+          await trx('carelogs_staging').whereIn('row_index', invalidRows).delete();
+        }
+
+        // MERGE: update changed rows matched on external_id (upsert), then insert the rest
+        if (mode === 'upsert') {
+          const matchedResult = await trx.raw(`
+            SELECT COUNT(*)::int AS count
+            FROM carelogs_staging s
+            INNER JOIN carelogs c ON c.external_id = s.external_id
+          `);
+          const updatedResult = await trx.raw(`
+            UPDATE carelogs c
+            SET ${columnNames.filter(name => name !== 'external_id').map(name => `${name} = s.${name}`).join(', ')},
+                updated_at = NOW()
+            FROM carelogs_staging s
+            WHERE c.external_id = s.external_id
+              AND (${columnNames.map(name => `c.${name} IS DISTINCT FROM s.${name}`).join(' OR ')})
+            RETURNING s.row_index
+          `);
+          outcomeCounts.updated = updatedResult.rows.length;
+          outcomeCounts.unchanged = matchedResult.rows[0].count - outcomeCounts.updated;
+        }
+
+        const insertedResult = await trx.raw(`
+          INSERT INTO carelogs (${columnNames.join(', ')}, created_at, updated_at)
+          SELECT ${columnNames.map(name => `s.${name}`).join(', ')}, NOW(), NOW()
+          FROM carelogs_staging s
+          WHERE s.external_id IS NULL
+             OR NOT EXISTS (SELECT 1 FROM carelogs c WHERE c.external_id = s.external_id)
+          ORDER BY s.row_index
+          RETURNING id
+        `);
+        outcomeCounts.inserted = insertedResult.rows.length;
+      });
+    } catch (transactionError) {
+      throw new Error(`Transaction failed: ${errorMessage(transactionError)}`);
+    }
+
+    const duration = Date.now() - startTime;
+    const totalProcessed = validData.length;
+    const successCount = outcomeCounts.inserted + outcomeCounts.updated + outcomeCounts.unchanged;
+    const errorCount = errors.length;
+
+    const result: LoadResult = {
+      totalProcessed,
+      successCount,
+      errorCount,
+      insertedCount: outcomeCounts.inserted,
+      updatedCount: outcomeCounts.updated,
+      unchangedCount: outcomeCounts.unchanged,
       errors,
       summary: {
         insertionRate: totalProcessed > 0 ? (successCount / totalProcessed) * 100 : 0,
@@ -325,14 +747,57 @@ export class CarelogsRepository {
       }
     };
 
-    console.log(`✅ Load completed: ${successCount}/${totalProcessed} successful (${result.summary.insertionRate.toFixed(1)}%)`);
-    if (errorCount > 0) {
-      console.log(`⚠️  ${errorCount} errors occurred during loading`);
+    if (verbose) {
+      console.log(`✅ Bulk load completed: ${successCount}/${totalProcessed} successful (${result.summary.insertionRate.toFixed(1)}%)`);
+      console.log(`   ${outcomeCounts.inserted} inserted, ${outcomeCounts.updated} updated, ${outcomeCounts.unchanged} unchanged`);
+      if (errorCount > 0) {
+        console.log(`⚠️  ${errorCount} errors occurred during loading`);
+      }
     }
 
     return result;
   }
 
+  /**
+   * Helper: Carelog columns staged and merged by the bulk load, with their staging types
+   */
+  private getBulkLoadColumns(): Array<{ name: string; type: string }> {
+    return [
+      { name: 'franchisor_id', type: 'INTEGER' },
+      { name: 'agency_id', type: 'INTEGER' },
+      { name: 'external_id', type: 'VARCHAR(50)' },
+      { name: 'caregiver_id', type: 'INTEGER' },
+      { name: 'parent_id', type: 'INTEGER' },
+      { name: 'start_datetime', type: 'TIMESTAMPTZ' },
+      { name: 'end_datetime', type: 'TIMESTAMPTZ' },
+      { name: 'clock_in_actual_datetime', type: 'TIMESTAMPTZ' },
+      { name: 'clock_out_actual_datetime', type: 'TIMESTAMPTZ' },
+      { name: 'clock_in_method', type: 'VARCHAR(20)' },
+      { name: 'clock_out_method', type: 'VARCHAR(20)' },
+      { name: 'status', type: 'VARCHAR(20)' },
+      { name: 'split', type: 'BOOLEAN' },
+      { name: 'general_comment_char_count', type: 'INTEGER' }
+    ];
+  }
+
+  /**
+   * Helper: Serialize staged rows as COPY csv lines (unquoted empty = NULL)
+   */
+  private *toCopyLines(rowsByIndex: Map<number, Transform>, columnNames: string[]): Generator<string> {
+    for (const [rowIndex, transform] of rowsByIndex) {
+      const values = columnNames.map(name => this.toCopyValue(transform.data[name]));
+      yield `${rowIndex},${values.join(',')}\n`;
+    }
+  }
+
+  private toCopyValue(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return `"${String(value).replace(/"/g, '""')}"`;
+  }
+
   /**
    * Helper: Insert single carelog with validation
    */
@@ -349,6 +814,88 @@ export class CarelogsRepository {
     }
 
     // Validate foreign key references
+    await this.validateCarelogReferences(carelogData, trx);
+
+    // Check for duplicate external_id if provided
+    if (carelogData.external_id) {
+      const existingCarelog = await trx('carelogs')
+        .where('external_id', carelogData.external_id)
+        .first();
+      if (existingCarelog) {
+        throw new Error(`Carelog with external_id '${carelogData.external_id}' already exists`);
+      }
+    }
+
+    try {
+      await trx('carelogs').insert(carelogData);
+    } catch (error) {
+      const code = error instanceof DatabaseError ? error.code : undefined;
+      if (code === '23505') { // Unique constraint violation
+        throw new Error('Duplicate carelog record');
+      } else if (code === '23503') { // Foreign key constraint violation
+        throw new Error('Invalid foreign key reference');
+      } else {
+        throw new Error(`Database insertion failed: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Helper: Insert or update a single carelog matched on carelogs.external_id
+   * Rows without an external_id, or with no match, go through insertSingleCarelog
+   */
+  private async upsertSingleCarelog(carelogData: Partial<Carelogs>, trx: Knex.Transaction): Promise<LoadOutcome> {
+    const existing = carelogData.external_id
+      ? await trx('carelogs').where('external_id', carelogData.external_id).first()
+      : null;
+
+    if (!existing) {
+      await this.insertSingleCarelog(carelogData, trx);
+      return 'inserted';
+    }
+
+    if (!carelogData.caregiver_id) {
+      throw new Error('Missing required field: caregiver_id');
+    }
+    if (!carelogData.start_datetime) {
+      throw new Error('Missing required field: start_datetime');
+    }
+    if (!carelogData.end_datetime) {
+      throw new Error('Missing required field: end_datetime');
+    }
+
+    const changes = this.diffCarelogFields(existing, carelogData);
+    if (Object.keys(changes).length === 0) {
+      return 'unchanged';
+    }
+
+    const transitionError = changes.status !== undefined ? this.statusTransitionError(existing.status, changes.status) : null;
+    if (transitionError) {
+      throw new Error(transitionError);
+    }
+
+    if (changes.caregiver_id !== undefined || changes.parent_id !== undefined) {
+      await this.validateCarelogReferences(changes, trx);
+    }
+
+    try {
+      await trx('carelogs')
+        .where('id', existing.id)
+        .update({ ...changes, updated_at: new Date() });
+    } catch (error) {
+      if (error instanceof DatabaseError && error.code === '23503') { // Foreign key constraint violation
+        throw new Error('Invalid foreign key reference');
+      }
+      throw new Error(`Database update failed: ${errorMessage(error)}`);
+    }
+
+    return 'updated';
+  }
+
+  /**
+   * Helper: Validate caregiver and parent references for a carelog
+   */
+  private async validateCarelogReferences(carelogData: Partial<Carelogs>, trx: Knex.Transaction): Promise<void> {
     if (carelogData.caregiver_id) {
       const caregiverExists = await trx('caregivers')
         .where('id', carelogData.caregiver_id)
@@ -359,34 +906,151 @@ export class CarelogsRepository {
     }
 
     if (carelogData.parent_id) {
-      const parentExists = await trx('profile')
+      const parentExists = await trx('parent')
         .where('id', carelogData.parent_id)
         .first();
       if (!parentExists) {
         throw new Error(`Parent with ID ${carelogData.parent_id} does not exist`);
       }
     }
+  }
 
-    // Check for duplicate external_id if provided
-    if (carelogData.external_id) {
-      const existingCarelog = await trx('carelogs')
-        .where('external_id', carelogData.external_id)
-        .first();
-      if (existingCarelog) {
-        throw new Error(`Carelog with external_id '${carelogData.external_id}' already exists`);
+  /**
+   * Helper: Return the columns whose incoming value differs from the stored carelog
+   * Audit columns and the match key are ignored, as are fields the table does not have
+   */
+  private diffCarelogFields(existing: Record<string, any>, incoming: Partial<Carelogs>): Record<string, any> {
+    const ignored = ['id', 'external_id', 'created_at', 'updated_at'];
+    const changes: Record<string, any> = {};
+
+    for (const [field, value] of Object.entries(incoming)) {
+      if (ignored.includes(field) || !(field in existing)) continue;
+      const next = value === undefined ? null : value;
+      if (!this.isSameValue(existing[field], next)) {
+        changes[field] = next;
       }
     }
 
-    try {
-      await trx('carelogs').insert(carelogData);
-    } catch (error) {
-      if (error.code === '23505') { // Unique constraint violation
-        throw new Error('Duplicate carelog record');
-      } else if (error.code === '23503') { // Foreign key constraint violation
-        throw new Error('Invalid foreign key reference');
+    return changes;
+  }
+
+  /**
+   * Helper: Describe a status change that CARELOG_STATUS_TRANSITIONS forbids, or null when it is allowed
+   * Stored values that are not a CarelogStatus (raw codes of loads before the status mapping) may still be normalized
+   */
+  private statusTransitionError(from: any, to: any): string | null {
+    if (from === null || from === undefined || String(from) === String(to)) return null;
+    if (!(Object.values(CarelogStatus) as string[]).includes(String(from))) return null;
+    return canTransitionCarelog(String(from), String(to)) ? null : `Invalid status transition from '${from}' to '${to}'`;
+  }
+
+  /**
+   * Helper: Compare a stored column value with an incoming one
+   */
+  private isSameValue(a: any, b: any): boolean {
+    if (a === null || a === undefined) return b === null || b === undefined;
+    if (b === null || b === undefined) return false;
+    if (a instanceof Date || b instanceof Date) {
+      return new Date(a).getTime() === new Date(b).getTime();
+    }
+    if (typeof a === 'number' || typeof b === 'number') {
+      return Number(a) === Number(b);
+    }
+    return String(a) === String(b);
+  }
+
+  /**
+   * Helper: Compare a transformed batch with the database without writing anything
+   * Mirrors the checks of insertSingleCarelog / upsertSingleCarelog; `seen` holds the external IDs
+   * of earlier rows so duplicates within the source are reported as well
+   */
+  private async diffCarelogBatch(
+    transformedData: Transform[],
+    mode: LoadMode,
+    diff: ETLDryRunDiff,
+    seen: Map<string, number>
+  ): Promise<void> {
+    const records = transformedData.filter(t => t.success && t.data);
+    const valuesOf = (field: string) => Array.from(new Set(
+      records.map(t => t.data[field]).filter(value => value !== null && value !== undefined && value !== '')
+    ));
+    const existingIds = async (table: string, ids: any[]) => new Set<number>(
+      ids.length > 0 ? (await this.knex(table).whereIn('id', ids).pluck('id')).map(Number) : []
+    );
+
+    const caregiverIds = await existingIds('caregivers', valuesOf('caregiver_id'));
+    const parentIds = await existingIds('parent', valuesOf('parent_id'));
+    const franchisorIds = await existingIds('franchisors', valuesOf('franchisor_id'));
+    const agencyIds = await existingIds('agencies', valuesOf('agency_id'));
+
+    const externalIds = valuesOf('external_id');
+    const existingByExternalId = new Map<string, any>();
+    if (externalIds.length > 0) {
+      const matches = await this.knex('carelogs').whereIn('external_id', externalIds);
+      matches.forEach(carelog => existingByExternalId.set(String(carelog.external_id), carelog));
+    }
+
+    for (const t of transformedData) {
+      if (!t.success || !t.data) {
+        addDiffEntry(diff, {
+          row_index: t.rowIndex ?? null,
+          action: t.errorType === UNRESOLVED_CAREGIVER_ERROR ? DiffAction.FK_FAILURE : DiffAction.INVALID,
+          message: t.error || 'Unknown transform error'
+        });
+        continue;
+      }
+
+      const carelog = t.data;
+      const externalId = carelog.external_id ? String(carelog.external_id) : null;
+      const entry = { row_index: t.rowIndex ?? null, match_key: externalId };
+
+      const referenceError = [
+        carelog.caregiver_id && !caregiverIds.has(Number(carelog.caregiver_id)) && `Caregiver with ID ${carelog.caregiver_id} does not exist`,
+        carelog.parent_id && !parentIds.has(Number(carelog.parent_id)) && `Parent with ID ${carelog.parent_id} does not exist`,
+        carelog.franchisor_id && !franchisorIds.has(Number(carelog.franchisor_id)) && `Franchisor with ID ${carelog.franchisor_id} does not exist`,
+        carelog.agency_id && !agencyIds.has(Number(carelog.agency_id)) && `Agency with ID ${carelog.agency_id} does not exist`
+      ].find(Boolean);
+      if (referenceError) {
+        addDiffEntry(diff, { ...entry, action: DiffAction.FK_FAILURE, message: referenceError });
+        continue;
+      }
+
+      const earlierRow = externalId ? seen.get(externalId) : undefined;
+      if (earlierRow) {
+        addDiffEntry(diff, { ...entry, action: DiffAction.DUPLICATE, message: `Duplicates row ${earlierRow} of this source` });
+        continue;
+      }
+
+      const existing = externalId ? existingByExternalId.get(externalId) : undefined;
+      if (existing && mode === 'insert') {
+        addDiffEntry(diff, {
+          ...entry,
+          action: DiffAction.DUPLICATE,
+          existing_id: existing.id,
+          message: `Carelog with external_id '${externalId}' already exists`
+        });
+        continue;
+      }
+
+      const transitionError = existing ? this.statusTransitionError(existing.status, carelog.status) : null;
+      if (transitionError) {
+        addDiffEntry(diff, { ...entry, action: DiffAction.INVALID, existing_id: existing.id, message: transitionError });
+        continue;
+      }
+
+      if (existing) {
+        const changes = toFieldChanges(existing, this.diffCarelogFields(existing, carelog));
+        addDiffEntry(diff, {
+          ...entry,
+          action: changes.length > 0 ? DiffAction.UPDATE : DiffAction.UNCHANGED,
+          existing_id: existing.id,
+          changes: changes.length > 0 ? changes : null
+        });
       } else {
-        throw new Error(`Database insertion failed: ${error.message}`);
+        addDiffEntry(diff, { ...entry, action: DiffAction.NEW });
       }
+
+      if (externalId && t.rowIndex) seen.set(externalId, t.rowIndex);
     }
   }
 
@@ -394,6 +1058,7 @@ export class CarelogsRepository {
    * Helper: Categorize errors for reporting
    */
   private categorizeError(errorMessage: string): string {
+    if (errorMessage.includes('Invalid status transition')) return 'Invalid Status Transition';
     if (errorMessage.includes('does not exist')) return 'Foreign Key Error';
     if (errorMessage.includes('already exists')) return 'Duplicate Error';
     if (errorMessage.includes('Missing required')) return 'Validation Error';
@@ -404,73 +1069,180 @@ export class CarelogsRepository {
 
   /**
    * ETL PIPELINE ORCHESTRATOR: Run complete Extract-Transform-Load process
+   * Rows are transformed and loaded `batchSize` at a time; CSV files are streamed,
+   * so memory stays flat regardless of file size
    */
   async runETLPipeline(source: {
-    type: 'csv' | 'api' | 'database';
+    type: 'csv' | 'api' | 'database' | 'records';
     path?: string;
     url?: string;
     headers?: Record<string, string>;
     query?: string;
     sourceKnex?: Knex;
+    records?: any[];
+    apiOptions?: Omit<APIExtractOptions, 'headers' | 'params'>;
+    incremental?: IncrementalSourceOptions;
   }, options: {
     batchSize?: number;
     validateOnly?: boolean;
+    mode?: LoadMode;
+    loadStrategy?: LoadStrategy;
+    /** Column mapping config, or a path to a .json / .yaml mapping file */
+    mapping?: ColumnMappingConfig | string;
+    maxExtractAttempts?: number;
+    quarantineRejects?: boolean;
+    parentRunId?: number | null;
+    /** Compare validate-only runs with the database (default true); false only checks the transform */
+    diff?: boolean;
+    /** Called after every batch with the running counts */
+    onProgress?: ETLProgressCallback;
   } = {}): Promise<ETLResult> {
     const startTime = Date.now();
-    const { batchSize = 50, validateOnly = false } = options;
-    let rawData: any[] = [];
-    let transformResults: Transform[] = [];
+    const {
+      batchSize = 50,
+      validateOnly = false,
+      mode = 'insert',
+      loadStrategy = 'row',
+      maxExtractAttempts = 3,
+      quarantineRejects = true,
+      parentRunId = null,
+      diff = true
+    } = options;
+    let extractedCount = 0;
+    let transformedCount = 0;
+    const transformFailures: Transform[] = [];
+    // Raw rows are only kept for rows that fail, for the error ledger
+    const failedRawByRow = new Map<number, any>();
     let loadResults: LoadResult | undefined;
     const errors: string[] = [];
+    const quarantine = quarantineRejects && !validateOnly;
+    let watermark: WatermarkState | null = null;
+    let nextWatermark: string | null = null;
+    // Validate-only runs report what each row would change; `seenExternalIds` catches duplicates within the source
+    const dryRunDiff = validateOnly && diff ? createDryRunDiff('carelogs', mode) : null;
+    const seenExternalIds = new Map<string, number>();
+    // Source caregiver IDs already resolved by earlier batches
+    const transformLookups = createTransformLookups();
+    const runId = await this.startRunRecord(source, validateOnly, mode, parentRunId);
 
     try {
-      console.log(`🚀 Starting ETL pipeline for carelogs (${source.type} source)`);
-
-      // EXTRACT with retry logic
-      let extractAttempts = 0;
-      const maxExtractAttempts = 3;
-
-      while (extractAttempts < maxExtractAttempts) {
-        try {
-          switch (source.type) {
-            case 'csv':
-              if (!source.path) throw new Error('CSV path is required');
-              rawData = await this.extractFromCSV(source.path);
-              break;
-            case 'api':
-              if (!source.url) throw new Error('API URL is required');
-              rawData = await this.extractFromAPI(source.url, source.headers);
-              break;
-            case 'database':
-              if (!source.query) throw new Error('Database query is required');
-              rawData = await this.extractFromDatabase(source.query, source.sourceKnex);
-              break;
-            default:
-              throw new Error(`Unsupported source type: ${source.type}`);
-          }
-          break; // Success, exit retry loop
-        } catch (error) {
-          extractAttempts++;
-          if (extractAttempts >= maxExtractAttempts) {
-            throw new Error(`Extract failed after ${maxExtractAttempts} attempts: ${error.message}`);
+      console.log(`🚀 Starting ETL pipeline for carelogs (${source.type} source, ${mode} mode, ${loadStrategy} load, batches of ${batchSize})`);
+
+      // A mapping file is validated before anything is extracted
+      const columnMapping = resolveColumnMapping(
+        'carelogs',
+        options.mapping ? loadColumnMapping(options.mapping, 'carelogs') : undefined
+      );
+
+      // Incremental sources only extract records newer than the stored watermark
+      watermark = await this.resolveWatermark(source);
+      nextWatermark = watermark?.previous ?? null;
+
+      // EXTRACT: CSV files are streamed; other sources are fetched up front with retry logic
+      let rows: Iterable<any> | AsyncIterable<any>;
+
+      if (source.type === 'csv') {
+        if (!source.path) throw new Error('CSV path is required');
+        if (!fs.existsSync(source.path)) throw new Error(`CSV file not found: ${source.path}`);
+        rows = streamCSVRows(source.path);
+      } else {
+        let rawData: any[] = [];
+        let extractAttempts = 0;
+
+        while (extractAttempts < maxExtractAttempts) {
+          try {
+            switch (source.type) {
+              case 'api':
+                if (!source.url) throw new Error('API URL is required');
+                rawData = await this.extractFromAPI(source.url, {
+                  ...source.apiOptions,
+                  headers: source.headers,
+                  params: watermark?.previous ? { [watermark.param]: watermark.previous } : undefined
+                });
+                break;
+              case 'database':
+                if (!source.query) throw new Error('Database query is required');
+                rawData = await this.extractFromDatabase(
+                  source.query,
+                  source.sourceKnex,
+                  watermark ? { watermark: watermark.previous ?? initialWatermark(watermark.type) } : undefined
+                );
+                break;
+              case 'records':
+                if (!source.records) throw new Error('Records are required');
+                rawData = source.records;
+                break;
+              default:
+                throw new Error(`Unsupported source type: ${source.type}`);
+            }
+            break; // Success, exit retry loop
+          } catch (error) {
+            extractAttempts++;
+            if (extractAttempts >= maxExtractAttempts) {
+              throw new Error(`Extract failed after ${maxExtractAttempts} attempts: ${errorMessage(error)}`);
+            }
+            console.warn(`Extract attempt ${extractAttempts} failed, retrying...`);
+            await new Promise(resolve => setTimeout(resolve, 1000 * extractAttempts));
           }
-          console.warn(`Extract attempt ${extractAttempts} failed, retrying...`);
-          await new Promise(resolve => setTimeout(resolve, 1000 * extractAttempts));
         }
+
+        rows = rawData;
       }
 
-      // TRANSFORM
-      transformResults = await this.transformCarelogData(rawData);
-      const transformErrors = transformResults.filter(r => !r.success);
-      transformErrors.forEach(error => {
-        errors.push(`Row ${error.rowIndex}: ${error.error}`);
-      });
+      // TRANSFORM + LOAD, one batch at a time
+      let batchNumber = 0;
+      for await (const batch of batchRows(rows, batchSize)) {
+        batchNumber++;
+        extractedCount += batch.length;
+        if (watermark) {
+          nextWatermark = highestWatermark(batch, watermark.column, watermark.type, nextWatermark);
+        }
 
-      // LOAD (unless validation only)
-      if (!validateOnly) {
-        loadResults = await this.loadCarelogData(transformResults, batchSize);
-        loadResults.errors.forEach(error => {
-          errors.push(`Load error row ${error.rowIndex}: ${error.error}`);
+        const transformResults = await this.transformCarelogData(batch, false, columnMapping, transformLookups);
+        const failedRows = new Set<number>();
+        transformResults.forEach(result => {
+          if (result.success) {
+            transformedCount++;
+            return;
+          }
+          transformFailures.push(result);
+          failedRows.add(result.rowIndex!);
+          errors.push(`Row ${result.rowIndex}: ${result.error}`);
+        });
+
+        // LOAD (unless validation only)
+        if (!validateOnly) {
+          const batchResults = loadStrategy === 'copy'
+            ? await this.bulkLoadCarelogData(transformResults, mode, false)
+            : await this.loadCarelogData(transformResults, batchSize, mode, false);
+          loadResults = this.mergeLoadResults(loadResults, batchResults);
+          batchResults.errors.forEach(error => {
+            failedRows.add(error.rowIndex);
+            errors.push(`Load error row ${error.rowIndex}: ${error.error}`);
+          });
+          console.log(`📊 Batch ${batchNumber}: ${batchResults.successCount}/${batch.length} loaded (${extractedCount} rows read so far)`);
+        } else if (dryRunDiff) {
+          try {
+            await this.diffCarelogBatch(transformResults, mode, dryRunDiff, seenExternalIds);
+          } catch (error) {
+            throw new Error(`Dry-run diff failed: ${errorMessage(error)}`);
+          }
+        }
+
+        batch
+          .filter(row => failedRows.has(row._rowIndex))
+          .forEach(row => {
+            const { _rowIndex, ...raw } = row;
+            failedRawByRow.set(_rowIndex, raw);
+          });
+
+        await reportProgress(options.onProgress, {
+          runId,
+          batchNumber,
+          extractedCount,
+          transformedCount,
+          loadedCount: loadResults?.successCount ?? 0,
+          errorCount: errors.length
         });
       }
 
@@ -478,40 +1250,275 @@ export class CarelogsRepository {
       const duration = endTime - startTime;
 
       const result: ETLResult = {
-        success: errors.length === 0 || (loadResults ? loadResults.successCount > 0 : transformResults.some(r => r.success)),
-        extractedCount: rawData.length,
-        transformedCount: transformResults.filter(r => r.success).length,
+        success: errors.length === 0 || (loadResults ? loadResults.successCount > 0 : transformedCount > 0),
+        extractedCount,
+        transformedCount,
         loadedCount: loadResults ? loadResults.successCount : 0,
         errorCount: errors.length,
         errors,
         loadResults,
-        duration
+        duration,
+        diff: dryRunDiff ?? undefined
       };
 
       console.log(`🎯 ETL Pipeline completed in ${duration}ms`);
       console.log(`📊 Results: ${result.extractedCount} extracted, ${result.transformedCount} transformed, ${result.loadedCount} loaded`);
+      if (loadResults) {
+        console.log(`📊 Load: ${loadResults.insertedCount} inserted, ${loadResults.updatedCount} updated, ${loadResults.unchangedCount} unchanged`);
+      }
+      if (dryRunDiff) {
+        const summary = dryRunDiff.summary;
+        console.log(`📊 Dry run (${mode}): ${summary.new} new, ${summary.update} updated, ${summary.unchanged} unchanged, ${summary.duplicate} duplicates, ${summary.fk_failure} FK failures, ${summary.invalid} invalid`);
+      }
 
       if (result.errorCount > 0) {
         console.log(`⚠️  ${result.errorCount} errors encountered`);
       }
 
-      return result;
+      if (watermark) {
+        // Rows that failed individually are kept in the error ledger / quarantine, so a successful
+        // run moves past them; a failed or validate-only run leaves the watermark where it was
+        result.watermark = await this.advanceWatermark(watermark, nextWatermark, runId, result.success && !validateOnly);
+      }
+
+      return this.completeRunRecord(runId, result, failedRawByRow, transformFailures, quarantine, undefined, dryRunDiff);
     } catch (error) {
       const endTime = Date.now();
       const duration = endTime - startTime;
 
-      console.error(`❌ ETL Pipeline failed: ${error.message}`);
+      console.error(`❌ ETL Pipeline failed: ${errorMessage(error)}`);
 
-      return {
+      return this.completeRunRecord(runId, {
         success: false,
-        extractedCount: rawData.length,
-        transformedCount: transformResults.filter(r => r.success).length,
-        loadedCount: 0,
+        extractedCount,
+        transformedCount,
+        loadedCount: loadResults ? loadResults.successCount : 0,
         errorCount: errors.length + 1,
-        errors: [...errors, error.message],
-        duration
-      };
+        errors: [...errors, errorMessage(error)],
+        loadResults,
+        duration,
+        watermark: watermark
+          ? { key: watermark.key, previous: watermark.previous, current: watermark.previous, advanced: false }
+          : undefined
+      }, failedRawByRow, transformFailures, quarantine, errorMessage(error), dryRunDiff);
+    }
+  }
+
+  /**
+   * Helper: Look up the stored watermark of an incremental API or database source
+   */
+  private async resolveWatermark(source: {
+    type: string;
+    url?: string;
+    query?: string;
+    incremental?: IncrementalSourceOptions;
+  }): Promise<WatermarkState | null> {
+    const incremental = source.incremental;
+    if (!incremental) return null;
+
+    if (source.type !== 'api' && source.type !== 'database') {
+      throw new Error(`Incremental loads are only supported for api and database sources, not ${source.type}`);
+    }
+    if (source.type === 'database' && !source.query?.includes(':watermark')) {
+      throw new Error('Incremental database queries must filter on the :watermark binding');
+    }
+
+    const key = incremental.key || source.url || source.query!;
+    const stored = await this.watermarkRepository.find('carelogs', key);
+    const previous = stored ? stored.watermark_value : null;
+    console.log(`📊 Incremental load on ${incremental.column}: ${previous ? `records after ${previous}` : 'first run, full extract'}`);
+
+    return {
+      key,
+      column: incremental.column,
+      type: incremental.type || 'timestamp',
+      param: incremental.param || incremental.column,
+      previous
+    };
+  }
+
+  /**
+   * Helper: Store the highest extracted watermark once the load has succeeded
+   */
+  private async advanceWatermark(
+    watermark: WatermarkState,
+    next: string | null,
+    runId: number | null,
+    loadSucceeded: boolean
+  ): Promise<WatermarkResult> {
+    const unchanged = { key: watermark.key, previous: watermark.previous, current: watermark.previous, advanced: false };
+    if (!loadSucceeded || next === null || next === watermark.previous) {
+      return unchanged;
+    }
+
+    try {
+      await this.watermarkRepository.advance('carelogs', watermark.key, {
+        watermark_column: watermark.column,
+        watermark_type: watermark.type,
+        watermark_value: next,
+        last_run_id: runId
+      });
+      console.log(`📝 Watermark advanced to ${next}`);
+      return { ...unchanged, current: next, advanced: true };
+    } catch (error) {
+      console.warn(`⚠️  Could not advance watermark: ${errorMessage(error)}`);
+      return unchanged;
+    }
+  }
+
+  /**
+   * Helper: Add the counts and errors of one loaded batch to the running total
+   */
+  private mergeLoadResults(total: LoadResult | undefined, batch: LoadResult): LoadResult {
+    if (!total) {
+      return batch;
+    }
+
+    const totalProcessed = total.totalProcessed + batch.totalProcessed;
+    const successCount = total.successCount + batch.successCount;
+    const errorCount = total.errorCount + batch.errorCount;
+    const errorsByType = { ...total.summary.errorsByType };
+    Object.entries(batch.summary.errorsByType).forEach(([type, count]) => {
+      errorsByType[type] = (errorsByType[type] || 0) + count;
+    });
+    const processingTime = total.summary.avgProcessingTime * total.totalProcessed
+      + batch.summary.avgProcessingTime * batch.totalProcessed;
+
+    return {
+      totalProcessed,
+      successCount,
+      errorCount,
+      insertedCount: total.insertedCount + batch.insertedCount,
+      updatedCount: total.updatedCount + batch.updatedCount,
+      unchangedCount: total.unchangedCount + batch.unchangedCount,
+      errors: total.errors.concat(batch.errors),
+      summary: {
+        insertionRate: totalProcessed > 0 ? (successCount / totalProcessed) * 100 : 0,
+        errorRate: totalProcessed > 0 ? (errorCount / totalProcessed) * 100 : 0,
+        avgProcessingTime: totalProcessed > 0 ? processingTime / totalProcessed : 0,
+        errorsByType
+      }
+    };
+  }
+
+  /**
+   * Helper: Create the etl_runs record for a pipeline run
+   * Returns null if the audit tables are unavailable so the load itself still proceeds
+   */
+  private async startRunRecord(source: {
+    type: 'csv' | 'api' | 'database' | 'records';
+    path?: string;
+    url?: string;
+    query?: string;
+  }, validateOnly: boolean, mode: LoadMode, parentRunId: number | null): Promise<number | null> {
+    try {
+      return await this.etlRunRepository.startRun({
+        entity: 'carelogs',
+        source_type: source.type,
+        source_path: source.path || source.url || source.query || null,
+        load_mode: mode,
+        validate_only: validateOnly,
+        parent_run_id: parentRunId
+      });
+    } catch (error) {
+      console.warn(`⚠️  Could not record ETL run: ${errorMessage(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Helper: Store the final counts, failing rows (transform and load) and dry-run diff of a run,
+   * and quarantine rows rejected by the transform step
+   */
+  private async completeRunRecord(
+    runId: number | null,
+    result: ETLResult,
+    failedRawByRow: Map<number, any>,
+    transformFailures: Transform[],
+    quarantineRejects: boolean,
+    pipelineError?: string,
+    dryRunDiff: ETLDryRunDiff | null = null
+  ): Promise<ETLResult> {
+    if (runId === null) {
+      return { ...result, runId };
+    }
+
+    try {
+      const rowErrors: CreateETLRowErrorData[] = [];
+      const errorsByType: Record<string, number> = { ...(result.loadResults?.summary.errorsByType || {}) };
+
+      transformFailures.forEach(t => {
+        const errorType = t.errorType || 'Validation Error';
+        errorsByType[errorType] = (errorsByType[errorType] || 0) + 1;
+        rowErrors.push({
+          phase: 'transform',
+          row_index: t.rowIndex ?? null,
+          error_type: errorType,
+          error_message: t.error || 'Unknown transform error',
+          raw_payload: t.rowIndex ? failedRawByRow.get(t.rowIndex) : null
+        });
+      });
+
+      (result.loadResults?.errors || []).forEach(e => {
+        rowErrors.push({
+          phase: 'load',
+          row_index: e.rowIndex,
+          error_type: this.categorizeError(e.error),
+          error_message: e.error,
+          raw_payload: failedRawByRow.get(e.rowIndex) || e.data
+        });
+      });
+
+      await this.etlRunRepository.finishRun(runId, {
+        status: result.success ? ETLRunStatus.SUCCEEDED : ETLRunStatus.FAILED,
+        extracted_count: result.extractedCount,
+        transformed_count: result.transformedCount,
+        loaded_count: result.loadedCount,
+        error_count: result.errorCount,
+        errors_by_type: errorsByType,
+        pipeline_errors: pipelineError ? [pipelineError] : [],
+        diff_summary: dryRunDiff?.summary ?? null
+      }, rowErrors, dryRunDiff?.entries);
+      console.log(`📝 ETL run recorded (run ID: ${runId})`);
+
+      // Quarantined rows hold the mapped carelog fields, so replays do not depend on the source format
+      if (quarantineRejects && transformFailures.length > 0) {
+        await this.quarantineRepository.quarantineRows(runId, 'carelogs', transformFailures.map(t => ({
+          row_index: t.rowIndex ?? null,
+          raw_payload: t.raw || (t.rowIndex ? failedRawByRow.get(t.rowIndex) : null) || {},
+          error_message: t.error || 'Unknown transform error'
+        })));
+        console.log(`📝 ${transformFailures.length} rejected rows quarantined`);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Could not record results for ETL run ${runId}: ${errorMessage(error)}`);
     }
+
+    return { ...result, runId };
+  }
+
+  /**
+   * Re-run a single (corrected) raw row through the transform and load path.
+   * The replay is recorded as its own ETL run, linked to the run the row came from.
+   */
+  async replayRecord(raw: any, options: {
+    parentRunId?: number | null;
+    mode?: LoadMode;
+  } = {}): Promise<{ success: boolean; runId: number | null; error?: string }> {
+    const result = await this.runETLPipeline({ type: 'records', records: [raw] }, {
+      batchSize: 1,
+      mode: options.mode,
+      maxExtractAttempts: 1,
+      quarantineRejects: false,
+      parentRunId: options.parentRunId,
+      mapping: replayColumnMapping('carelogs')
+    });
+
+    if (result.loadedCount === 1) {
+      return { success: true, runId: result.runId ?? null };
+    }
+
+    return { success: false, runId: result.runId ?? null, error: result.errors[0] || 'Row was not loaded' };
   }
 
   /**
@@ -532,8 +1539,8 @@ export class CarelogsRepository {
       'carelogs.clock_in_method',
       'carelogs.clock_out_method',
       'carelogs.status',
+      'carelogs.cancellation_reason',
       'carelogs.split',
-      'carelogs.documentation',
       'carelogs.general_comment_char_count',
       'carelogs.created_at',
       'carelogs.updated_at',
@@ -550,7 +1557,7 @@ export class CarelogsRepository {
 
   /**
    * Insert carelog data from CSV file (legacy-style ETL entrypoint)
-   * @deprecated Use runETLPipeline for more flexibility
+   * @deprecated Use runETLPipeline (or `npm run cli -- load carelogs csv <file>`) for more flexibility
    * This method provides a simple interface for legacy compatibility
    */
   async insertData(): Promise<void> {
@@ -582,56 +1589,22 @@ export class CarelogsRepository {
       }
     } catch (error) {
       console.error('\n=== LEGACY INSERT DATA FAILED ===');
-      console.error(`✗ Error: ${error.message}`);
-      if (error.message.includes('CSV file not found')) {
+      console.error(`✗ Error: ${errorMessage(error)}`);
+      if (errorMessage(error).includes('CSV file not found')) {
         console.error('💡 Tip: Make sure the CSV file exists in the correct location');
         console.error(`💡 Expected path: ${csvFilePath}`);
-      } else if (error.message.includes('database')) {
+      } else if (errorMessage(error).includes('database')) {
         console.error('💡 Tip: Check database connection and table schemas');
-      } else if (error.message.includes('transform')) {
+      } else if (errorMessage(error).includes('transform')) {
         console.error('💡 Tip: Check CSV data format and required fields');
       }
-      throw new Error(`Legacy insertData method failed: ${error.message}`);
+      throw new Error(`Legacy insertData method failed: ${errorMessage(error)}`);
     }
   }
 
-  /**
-   * Get standardized select fields for carelogs with proper joins
-   */
-  private getCarelogSelectFields() {
-    return [
-      'carelogs.id',
-      'carelogs.franchisor_id',
-      'carelogs.agency_id',
-      'carelogs.external_id',
-      'carelogs.caregiver_id',
-      'carelogs.parent_id',
-      'carelogs.start_datetime',
-      'carelogs.end_datetime',
-      'carelogs.clock_in_actual_datetime',
-      'carelogs.clock_out_actual_datetime',
-      'carelogs.clock_in_method',
-      'carelogs.clock_out_method',
-      'carelogs.status',
-      'carelogs.split',
-      'carelogs.documentation',
-      'carelogs.general_comment_char_count',
-      'carelogs.created_at',
-      'carelogs.updated_at',
-      // Join related data from profile table through caregivers
-      this.knex.raw("CONCAT(profile.first_name, ' ', profile.last_name) AS caregiver_name"),
-      'profile.email as caregiver_email',
-      'profile.phone_number as caregiver_phone',
-      'profile.certification_level',
-      'external.external_id as caregiver_external_id',
-      'franchisors.name as franchisor_name',
-      'agencies.name as agency_name'
-    ];
-  }
-
   /**
    * Insert carelog data from CSV file
-   * @deprecated Use runETLPipeline instead for more flexibility
+   * @deprecated Use runETLPipeline (or `npm run cli -- load carelogs csv <file>`) instead for more flexibility
    * This method specifically handles carelog data, not caregiver data
    */
   async insertCarelogData(csvFilePath?: string): Promise<void> {
@@ -681,7 +1654,7 @@ export class CarelogsRepository {
           console.log('\n💡 Tip: Check your CSV for missing required fields (caregiver_id, start_datetime, end_datetime)');
         }
         if (hasForeignKeyErrors) {
-          console.log('💡 Tip: Ensure all caregiver_id and parent_id values exist in their respective tables');
+          console.log('💡 Tip: Load caregivers before their carelogs, and ensure all parent_id values exist');
         }
         if (hasDuplicateErrors) {
           console.log('💡 Tip: Check for duplicate external_id values in your data');
@@ -698,7 +1671,7 @@ export class CarelogsRepository {
       }
 
     } catch (error) {
-      console.error('❌ Critical error in carelog data insertion:', error.message);
+      console.error('❌ Critical error in carelog data insertion:', errorMessage(error));
       throw error;
     }
   }
@@ -706,15 +1679,11 @@ export class CarelogsRepository {
   /**
    * Find all carelogs with pagination and filtering
    */
-  async findAll(options: {
+  async findAll(options: CarelogListFilters & {
     limit?: number;
     offset?: number;
-    orderBy?: string;
-    orderDirection?: 'asc' | 'desc';
-    status?: string;
-    caregiver_id?: number;
-    franchisor_id?: number;
-    agency_id?: number;
+    orderBy?: CarelogSortColumn;
+    orderDirection?: SortDirection;
   } = {}): Promise<Carelogs[]> {
     try {
       const {
@@ -722,21 +1691,25 @@ export class CarelogsRepository {
         offset = 0,
         orderBy = 'start_datetime',
         orderDirection = 'desc',
-        status,
-        caregiver_id,
-        franchisor_id,
-        agency_id
+        ...filters
       } = options;
 
       // Validate parameters
-      if (limit < 1 || limit > 1000) {
-        throw new Error('Limit must be between 1 and 1000');
+      if (limit < 1 || limit > CARELOG_PAGE_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${CARELOG_PAGE_MAX_LIMIT}`);
       }
       if (offset < 0) {
         throw new Error('Offset must be non-negative');
       }
+      // The sort column is interpolated below, so only allow-listed columns get through
+      if (!CARELOG_SORT_COLUMNS.includes(orderBy)) {
+        throw new Error(`orderBy must be one of: ${CARELOG_SORT_COLUMNS.join(', ')}`);
+      }
+      if (!SORT_DIRECTIONS.includes(orderDirection)) {
+        throw new Error(`orderDirection must be one of: ${SORT_DIRECTIONS.join(', ')}`);
+      }
 
-      let query = this.knex('carelogs')
+      const query = this.knex('carelogs')
         .select(this.getCarelogSelectFields())
         .leftJoin('caregivers', 'carelogs.caregiver_id', 'caregivers.id')
         .leftJoin('profile', 'caregivers.profile_id', 'profile.id')
@@ -747,27 +1720,106 @@ export class CarelogsRepository {
         .limit(limit)
         .offset(offset);
 
-      // Apply filters
-      if (status) {
-        query = query.where('carelogs.status', status);
+      return await this.applyListFilters(query, filters);
+    } catch (error) {
+      console.error('Error in CarelogsRepository.findAll:', error);
+      throw new Error(`Failed to fetch carelogs: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find one page of carelogs in keyset order (start_datetime, id)
+   * Without a cursor the page starts at the beginning of the order; a `next` cursor reads the rows after its position,
+   * a `prev` cursor the rows before it. Deep pages cost the same as the first, unlike an offset
+   */
+  async findPage(options: CarelogListFilters & {
+    limit?: number;
+    orderDirection?: SortDirection;
+    cursor?: CarelogCursor;
+  } = {}): Promise<CarelogKeysetPage> {
+    try {
+      const { limit = 50, orderDirection = 'desc', cursor, ...filters } = options;
+
+      if (limit < 1 || limit > CARELOG_PAGE_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${CARELOG_PAGE_MAX_LIMIT}`);
       }
-      if (caregiver_id) {
-        query = query.where('carelogs.caregiver_id', caregiver_id);
+      if (!SORT_DIRECTIONS.includes(orderDirection)) {
+        throw new Error(`orderDirection must be one of: ${SORT_DIRECTIONS.join(', ')}`);
       }
-      if (franchisor_id) {
-        query = query.where('carelogs.franchisor_id', franchisor_id);
+
+      // A prev page is read backwards from the cursor, then put back in list order
+      const backwards = cursor?.page === 'prev';
+      const scanDirection: SortDirection = backwards ? (orderDirection === 'desc' ? 'asc' : 'desc') : orderDirection;
+
+      const query = this.knex('carelogs')
+        .select(this.getCarelogSelectFields())
+        .select(this.knex.raw(
+          `to_char(carelogs.start_datetime AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS keyset_start_datetime`
+        ))
+        .leftJoin('caregivers', 'carelogs.caregiver_id', 'caregivers.id')
+        .leftJoin('profile', 'caregivers.profile_id', 'profile.id')
+        .leftJoin('external', 'caregivers.external_id', 'external.id')
+        .leftJoin('franchisors', 'carelogs.franchisor_id', 'franchisors.id')
+        .leftJoin('agencies', 'carelogs.agency_id', 'agencies.id')
+        .orderBy([
+          { column: 'carelogs.start_datetime', order: scanDirection },
+          { column: 'carelogs.id', order: scanDirection }
+        ])
+        .limit(limit + 1);
+
+      if (cursor) {
+        // Row comparison, so the (start_datetime, id) index serves the seek
+        const operator = scanDirection === 'desc' ? '<' : '>';
+        query.whereRaw(`(carelogs.start_datetime, carelogs.id) ${operator} (?::timestamptz, ?)`, [cursor.start_datetime, cursor.id]);
       }
-      if (agency_id) {
-        query = query.where('carelogs.agency_id', agency_id);
+
+      const rows = await this.applyListFilters(query, filters);
+      const hasMore = rows.length > limit;
+      const pageRows = rows.slice(0, limit);
+      if (backwards) {
+        pageRows.reverse();
       }
 
-      return await query;
+      const positions: CarelogKeysetPosition[] = pageRows.map((row: any) => ({ start_datetime: row.keyset_start_datetime, id: row.id }));
+      const carelogs = pageRows.map(({ keyset_start_datetime, ...carelog }: any) => carelog as Carelogs);
+
+      return {
+        carelogs,
+        first: positions[0] || null,
+        last: positions[positions.length - 1] || null,
+        hasMore
+      };
     } catch (error) {
-      console.error('Error in CarelogsRepository.findAll:', error);
-      throw new Error(`Failed to fetch carelogs: ${error.message}`);
+      console.error('Error in CarelogsRepository.findPage:', error);
+      throw new Error(`Failed to fetch carelog page: ${errorMessage(error)}`);
     }
   }
 
+  /**
+   * Apply the list filters; shared by findAll, findPage and getCount so a total always matches its list
+   */
+  private applyListFilters<T extends Knex.QueryBuilder>(query: T, filters: CarelogListFilters): T {
+    if (filters.status) {
+      query.where('carelogs.status', filters.status);
+    }
+    if (filters.caregiver_id) {
+      query.where('carelogs.caregiver_id', filters.caregiver_id);
+    }
+    if (filters.franchisor_id) {
+      query.where('carelogs.franchisor_id', filters.franchisor_id);
+    }
+    if (filters.agency_id) {
+      query.where('carelogs.agency_id', filters.agency_id);
+    }
+    if (filters.date_from) {
+      query.where('carelogs.start_datetime', '>=', filters.date_from);
+    }
+    if (filters.date_to) {
+      query.where('carelogs.start_datetime', '<=', filters.date_to);
+    }
+    return query;
+  }
+
   /**
    * Find carelog by ID with related data
    */
@@ -790,7 +1842,7 @@ export class CarelogsRepository {
       return carelog || null;
     } catch (error) {
       console.error('Error in CarelogsRepository.findById:', error);
-      throw new Error(`Failed to fetch carelog by ID: ${error.message}`);
+      throw new Error(`Failed to fetch carelog by ID: ${errorMessage(error)}`);
     }
   }
 
@@ -822,12 +1874,12 @@ export class CarelogsRepository {
         updated_at: now
       };
 
-      const [insertedId] = await this.knex('carelogs')
+      const [{ id }] = await this.knex('carelogs')
         .insert(dataToInsert)
         .returning('id');
 
       // Fetch and return the created carelog with related data
-      const createdCarelog = await this.findById(insertedId);
+      const createdCarelog = await this.findById(id);
       if (!createdCarelog) {
         throw new Error('Failed to retrieve created carelog');
       }
@@ -835,7 +1887,7 @@ export class CarelogsRepository {
       return createdCarelog;
     } catch (error) {
       console.error('Error in CarelogsRepository.create:', error);
-      throw new Error(`Failed to create carelog: ${error.message}`);
+      throw new Error(`Failed to create carelog: ${errorMessage(error)}`);
     }
   }
 
@@ -864,7 +1916,7 @@ export class CarelogsRepository {
         }
       }
 
-      const dataToUpdate = {
+      const dataToUpdate: Record<string, any> = {
         ...carelogData,
         updated_at: new Date()
       };
@@ -889,7 +1941,48 @@ export class CarelogsRepository {
       return updatedCarelog;
     } catch (error) {
       console.error('Error in CarelogsRepository.update:', error);
-      throw new Error(`Failed to update carelog: ${error.message}`);
+      throw new Error(`Failed to update carelog: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Move a carelog from one status to another, applying the changes that go with the transition
+   * The update only matches while the carelog still has `fromStatus`, so concurrent transitions cannot both apply;
+   * returns null when the carelog no longer has that status
+   */
+  async transitionStatus(
+    id: number,
+    fromStatus: CarelogStatus,
+    changes: Partial<Carelogs> & { status: CarelogStatus }
+  ): Promise<Carelogs | null> {
+    try {
+      if (!id || id <= 0) {
+        throw new Error('Invalid ID provided');
+      }
+
+      if (changes.caregiver_id) {
+        const caregiverExists = await this.knex('caregivers')
+          .where('id', changes.caregiver_id)
+          .first();
+        if (!caregiverExists) {
+          throw new Error(`Caregiver with ID ${changes.caregiver_id} does not exist`);
+        }
+      }
+
+      const updatedRows = await this.knex('carelogs')
+        .where({ id, status: fromStatus })
+        .update({
+          ...changes,
+          updated_at: new Date()
+        });
+      if (updatedRows === 0) {
+        return null;
+      }
+
+      return await this.findById(id);
+    } catch (error) {
+      console.error('Error in CarelogsRepository.transitionStatus:', error);
+      throw new Error(`Failed to change carelog status: ${errorMessage(error)}`);
     }
   }
 
@@ -919,49 +2012,22 @@ export class CarelogsRepository {
       return updatedRows > 0;
     } catch (error) {
       console.error('Error in CarelogsRepository.delete:', error);
-      throw new Error(`Failed to delete carelog: ${error.message}`);
+      throw new Error(`Failed to delete carelog: ${errorMessage(error)}`);
     }
   }
 
   /**
    * Get count of carelogs with optional filters
    */
-  async getCount(filters: {
-    status?: string;
-    caregiver_id?: number;
-    franchisor_id?: number;
-    agency_id?: number;
-    date_from?: Date;
-    date_to?: Date;
-  } = {}): Promise<number> {
+  async getCount(filters: CarelogListFilters = {}): Promise<number> {
     try {
-      let query = this.knex('carelogs').count('* as count');
-
-      // Apply filters
-      if (filters.status) {
-        query = query.where('status', filters.status);
-      }
-      if (filters.caregiver_id) {
-        query = query.where('caregiver_id', filters.caregiver_id);
-      }
-      if (filters.franchisor_id) {
-        query = query.where('franchisor_id', filters.franchisor_id);
-      }
-      if (filters.agency_id) {
-        query = query.where('agency_id', filters.agency_id);
-      }
-      if (filters.date_from) {
-        query = query.where('start_datetime', '>=', filters.date_from);
-      }
-      if (filters.date_to) {
-        query = query.where('start_datetime', '<=', filters.date_to);
-      }
+      const query = this.applyListFilters(this.knex('carelogs').count('* as count'), filters);
 
       const result = await query.first();
       return parseInt(result?.count as string) || 0;
     } catch (error) {
       console.error('Error in CarelogsRepository.getCount:', error);
-      throw new Error(`Failed to get carelog count: ${error.message}`);
+      throw new Error(`Failed to get carelog count: ${errorMessage(error)}`);
     }
   }
 
@@ -969,11 +2035,11 @@ export class CarelogsRepository {
   /**
    * Rank top performing caregivers based on completed visits and performance metrics
    */
-  async rankTopCaregivers(limit: number = 10): Promise<any[]> {
+  async rankTopCaregivers(limit: number = 10): Promise<TopCaregiverRank[]> {
     try {
       // Validate limit parameter
-      if (!limit || limit <= 0 || limit > 100) {
-        throw new Error('Limit must be between 1 and 100');
+      if (!limit || limit <= 0 || limit > ANALYTICS_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${ANALYTICS_MAX_LIMIT}`);
       }
 
       return await this.knex('carelogs')
@@ -1028,18 +2094,18 @@ export class CarelogsRepository {
         .limit(limit);
     } catch (error) {
       console.error('Error in CarelogsRepository.rankTopCaregivers:', error);
-      throw new Error(`Failed to rank top caregivers: ${error.message}`);
+      throw new Error(`Failed to rank top caregivers: ${errorMessage(error)}`);
     }
   }
 
   /**
    * Rank caregivers with reliability issues (late arrivals, cancellations, early departures)
    */
-  async rankLowReliabilityPerformers(limit: number = 10): Promise<any[]> {
+  async rankLowReliabilityPerformers(limit: number = 10): Promise<LowReliabilityRank[]> {
     try {
       // Validate limit parameter
-      if (!limit || limit <= 0 || limit > 100) {
-        throw new Error('Limit must be between 1 and 100');
+      if (!limit || limit <= 0 || limit > ANALYTICS_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${ANALYTICS_MAX_LIMIT}`);
       }
 
       return await this.knex('carelogs')
@@ -1087,27 +2153,27 @@ export class CarelogsRepository {
         .limit(limit);
     } catch (error) {
       console.error('Error in CarelogsRepository.rankLowReliabilityPerformers:', error);
-      throw new Error(`Failed to rank low reliability performers: ${error.message}`);
+      throw new Error(`Failed to rank low reliability performers: ${errorMessage(error)}`);
     }
   }
 
   /**
    * List carelogs with detailed comments (longer than specified character count)
    */
-  async listDetailedComments(minCharCount: number = 100, limit: number = 20): Promise<any[]> {
+  async listDetailedComments(minCharCount: number = 100, limit: number = 20): Promise<DetailedCommentRow[]> {
     try {
       // Validate parameters
       if (!minCharCount || minCharCount <= 0) {
         throw new Error('Minimum character count must be greater than 0');
       }
-      if (!limit || limit <= 0 || limit > 100) {
-        throw new Error('Limit must be between 1 and 100');
+      if (!limit || limit <= 0 || limit > ANALYTICS_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${ANALYTICS_MAX_LIMIT}`);
       }
 
       return await this.knex('carelogs')
         .select(
           'carelogs.id',
-          'carelogs.documentation',
+          'carelogs.general_comment_char_count',
           'carelogs.start_datetime',
           'carelogs.end_datetime',
           'carelogs.status',
@@ -1119,25 +2185,24 @@ export class CarelogsRepository {
         .innerJoin('profile', 'caregivers.profile_id', 'profile.id')
         .leftJoin('franchisors', 'carelogs.franchisor_id', 'franchisors.id')
         .leftJoin('agencies', 'carelogs.agency_id', 'agencies.id')
-        .whereNotNull('carelogs.documentation')
-        .where('carelogs.documentation', '!=', '')
-        .orderBy('carelogs.documentation', 'desc')
+        .where('carelogs.general_comment_char_count', '>=', minCharCount)
+        .orderBy('carelogs.general_comment_char_count', 'desc')
         .orderBy('carelogs.start_datetime', 'desc')
         .limit(limit);
     } catch (error) {
       console.error('Error in CarelogsRepository.listDetailedComments:', error);
-      throw new Error(`Failed to list detailed comments: ${error.message}`);
+      throw new Error(`Failed to list detailed comments: ${errorMessage(error)}`);
     }
   }
 
   /**
    * Rank caregivers by overtime hours worked
    */
-  async rankOvertimeCaregivers(limit: number = 10): Promise<any[]> {
+  async rankOvertimeCaregivers(limit: number = 10): Promise<OvertimeCaregiverRank[]> {
     try {
       // Validate limit parameter
-      if (!limit || limit <= 0 || limit > 100) {
-        throw new Error('Limit must be between 1 and 100');
+      if (!limit || limit <= 0 || limit > ANALYTICS_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${ANALYTICS_MAX_LIMIT}`);
       }
 
       return await this.knex('carelogs')
@@ -1180,13 +2245,119 @@ export class CarelogsRepository {
         .limit(limit);
     } catch (error) {
       console.error('Error in CarelogsRepository.rankOvertimeCaregivers:', error);
-      throw new Error(`Failed to rank overtime caregivers: ${error.message}`);
+      throw new Error(`Failed to rank overtime caregivers: ${errorMessage(error)}`);
+    }
+  }
+  /**
+   * Hours worked per caregiver and local week, most recent week first
+   * A visit counts towards the week of its clock-in in the visit's time zone (location, then agency,
+   * then DEFAULT_TIME_ZONE); weeks start on Monday. Hours above 40 in a week are overtime
+   */
+  async summarizeWeeklyHours(limit: number = 20): Promise<WeeklyHoursRow[]> {
+    try {
+      // Validate limit parameter
+      if (!limit || limit <= 0 || limit > ANALYTICS_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${ANALYTICS_MAX_LIMIT}`);
+      }
+
+      return await this.knex
+        .with('visits', (query) => query
+          .from('carelogs')
+          .select(
+            'carelogs.caregiver_id',
+            this.knex.raw('COALESCE(locations.time_zone, agencies.time_zone, ?) AS time_zone', [defaultTimeZone()]),
+            'carelogs.clock_in_actual_datetime',
+            this.knex.raw('EXTRACT(EPOCH FROM (carelogs.clock_out_actual_datetime - carelogs.clock_in_actual_datetime)) / 3600 AS hours')
+          )
+          .leftJoin('parent', 'carelogs.parent_id', 'parent.id')
+          .leftJoin('locations', 'parent.location_id', 'locations.id')
+          .leftJoin('agencies', 'carelogs.agency_id', 'agencies.id')
+          .where('carelogs.status', 'completed')
+          .whereNotNull('carelogs.clock_in_actual_datetime')
+          .whereNotNull('carelogs.clock_out_actual_datetime'))
+        .from('visits')
+        .select(
+          'caregivers.id',
+          this.knex.raw("CONCAT(profile.first_name, ' ', profile.last_name) AS caregiver_name"),
+          'visits.time_zone',
+          this.knex.raw("date_trunc('week', visits.clock_in_actual_datetime AT TIME ZONE visits.time_zone)::date AS week_start"),
+          this.knex.raw('COUNT(*) AS total_visits'),
+          this.knex.raw('SUM(visits.hours)::numeric(10,2) AS total_hours'),
+          this.knex.raw('GREATEST(SUM(visits.hours) - ?, 0)::numeric(10,2) AS overtime_hours', [WEEKLY_OVERTIME_HOURS])
+        )
+        .innerJoin('caregivers', 'visits.caregiver_id', 'caregivers.id')
+        .innerJoin('profile', 'caregivers.profile_id', 'profile.id')
+        .groupBy('caregivers.id', 'profile.first_name', 'profile.last_name', 'visits.time_zone', 'week_start')
+        .orderBy('week_start', 'desc')
+        .orderBy('total_hours', 'desc')
+        .limit(limit);
+    } catch (error) {
+      console.error('Error in CarelogsRepository.summarizeWeeklyHours:', error);
+      throw new Error(`Failed to summarize weekly hours: ${errorMessage(error)}`);
     }
   }
+
+  /**
+   * Break down clocked visits by clock-in and clock-out method, per caregiver or per agency
+   * A visit clocked in or out manually counts as a manual override (the EVV exception auditors review);
+   * groups with the highest share of manual overrides come first. Codes loaded before clock methods
+   * were mapped are counted as unmapped
+   */
+  async analyzeClockMethods(groupBy: ClockMethodGroup = 'caregiver', limit: number = 10): Promise<ClockMethodBreakdown[]> {
+    try {
+      // Validate parameters
+      if (groupBy !== 'caregiver' && groupBy !== 'agency') {
+        throw new Error('Group by must be caregiver or agency');
+      }
+      if (!limit || limit <= 0 || limit > ANALYTICS_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${ANALYTICS_MAX_LIMIT}`);
+      }
+
+      const methods = Object.values(ClockMethod) as string[];
+      const methodCounts = (['clock_in', 'clock_out'] as const).flatMap(prefix => [
+        ...methods.map(method => this.knex.raw(
+          `COUNT(CASE WHEN carelogs.${prefix}_method = ? THEN 1 END) AS ??`,
+          [method, `${prefix}_${method}`]
+        )),
+        this.knex.raw(
+          `COUNT(CASE WHEN carelogs.${prefix}_method NOT IN (${methods.map(() => '?').join(', ')}) THEN 1 END) AS ??`,
+          [...methods, `${prefix}_unmapped`]
+        )
+      ]);
+      const manualVisits = `COUNT(CASE WHEN carelogs.clock_in_method = '${ClockMethod.MANUAL}' OR carelogs.clock_out_method = '${ClockMethod.MANUAL}' THEN 1 END)`;
+
+      const query = groupBy === 'caregiver'
+        ? this.knex('carelogs')
+          .select('caregivers.id AS caregiver_id', this.knex.raw("CONCAT(profile.first_name, ' ', profile.last_name) AS caregiver_name"))
+          .innerJoin('caregivers', 'carelogs.caregiver_id', 'caregivers.id')
+          .innerJoin('profile', 'caregivers.profile_id', 'profile.id')
+          .groupBy('caregivers.id', 'profile.first_name', 'profile.last_name')
+        : this.knex('carelogs')
+          .select('carelogs.agency_id', 'agencies.name AS agency_name')
+          .leftJoin('agencies', 'carelogs.agency_id', 'agencies.id')
+          .groupBy('carelogs.agency_id', 'agencies.name');
+
+      return await query
+        .select(
+          this.knex.raw('COUNT(carelogs.id) AS total_visits'),
+          ...methodCounts,
+          this.knex.raw(`${manualVisits} AS manual_override_visits`),
+          this.knex.raw(`(${manualVisits} * 100.0 / NULLIF(COUNT(carelogs.id), 0))::numeric(5,2) AS manual_override_percentage`)
+        )
+        .where(clocked => clocked.whereNotNull('carelogs.clock_in_method').orWhereNotNull('carelogs.clock_out_method'))
+        .orderBy('manual_override_percentage', 'desc')
+        .orderBy('total_visits', 'desc')
+        .limit(limit);
+    } catch (error) {
+      console.error('Error in CarelogsRepository.analyzeClockMethods:', error);
+      throw new Error(`Failed to analyze clock methods: ${errorMessage(error)}`);
+    }
+  }
+
   /**
    * Analyze franchise performance metrics
    */
-  async analyzeFranchisePerformance(): Promise<any[]> {
+  async analyzeFranchisePerformance(): Promise<FranchisePerformanceRow[]> {
     try {
       return await this.knex('franchisors')
         .select(
@@ -1217,7 +2388,7 @@ export class CarelogsRepository {
         .orderBy('completed_visits', 'desc');
     } catch (error) {
       console.error('Error in CarelogsRepository.analyzeFranchisePerformance:', error);
-      throw new Error(`Failed to analyze franchise performance: ${error.message}`);
+      throw new Error(`Failed to analyze franchise performance: ${errorMessage(error)}`);
     }
   }
 }
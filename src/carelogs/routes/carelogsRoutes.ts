@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { CarelogsController } from '../controllers/CarelogsController';
+import { validateRequest } from '../../shared/utils/requestValidation';
+import { carelogsSchemas as schemas } from './carelogsSchemas';
+
+/**
+ * Carelog routes
+ * Analytics paths are registered before `/:id` so they are not captured as an ID;
+ * every route checks its request against its schema first
+ */
+export function createCarelogsRouter(controller: CarelogsController): Router {
+  const router = Router();
+
+  // Analytics
+  router.get('/analytics/top-caregivers', validateRequest(schemas.topCaregivers), (req, res) => controller.rankTopCaregivers(req, res));
+  router.get('/analytics/low-reliability', validateRequest(schemas.lowReliability), (req, res) => controller.rankLowReliabilityPerformers(req, res));
+  router.get('/analytics/overtime', validateRequest(schemas.overtime), (req, res) => controller.rankOvertimeCaregivers(req, res));
+  router.get('/analytics/weekly-hours', validateRequest(schemas.weeklyHours), (req, res) => controller.summarizeWeeklyHours(req, res));
+  router.get('/analytics/clock-methods', validateRequest(schemas.clockMethods), (req, res) => controller.analyzeClockMethods(req, res));
+  router.get('/analytics/franchise-performance', validateRequest(schemas.franchisePerformance), (req, res) => controller.analyzeFranchisePerformance(req, res));
+  router.get('/analytics/detailed-comments', validateRequest(schemas.detailedComments), (req, res) => controller.listDetailedComments(req, res));
+  router.post('/analytics/:query/export', validateRequest(schemas.exportAnalytics), (req, res) => controller.exportAnalytics(req, res));
+
+  // CSV upload
+  router.post('/upload', validateRequest(schemas.upload), (req, res) => controller.uploadCsv(req, res));
+
+  // CRUD
+  router.get('/', validateRequest(schemas.list), (req, res) => controller.getAllCarelogs(req, res));
+  router.get('/:id', validateRequest(schemas.getById), (req, res) => controller.getCarelogById(req, res));
+  router.post('/', validateRequest(schemas.create), (req, res) => controller.createCarelog(req, res));
+  router.put('/:id', validateRequest(schemas.update), (req, res) => controller.updateCarelog(req, res));
+  router.delete('/:id', validateRequest(schemas.delete), (req, res) => controller.deleteCarelog(req, res));
+
+  // Visit lifecycle
+  router.post('/:id/start', validateRequest(schemas.start), (req, res) => controller.startVisit(req, res));
+  router.post('/:id/complete', validateRequest(schemas.complete), (req, res) => controller.completeVisit(req, res));
+  router.post('/:id/cancel', validateRequest(schemas.cancel), (req, res) => controller.cancelVisit(req, res));
+  router.post('/:id/no-show', validateRequest(schemas.noShow), (req, res) => controller.markNoShow(req, res));
+
+  return router;
+}
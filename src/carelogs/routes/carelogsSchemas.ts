@@ -0,0 +1,122 @@
+import { FieldSchemas, ID_PARAMS, RequestSchema } from '../../shared/utils/requestValidation';
+import { SORT_DIRECTIONS } from '../../shared/types/api-types';
+import { CARELOG_SORT_COLUMNS, CarelogStatus, CLOCK_METHOD_GROUPS, ClockMethod } from '../models/carelogs';
+
+/**
+ * Request schemas of the carelog routes
+ */
+
+const CLOCK_METHODS = Object.values(ClockMethod);
+
+/** Writable carelog fields; status changes are checked against CARELOG_STATUS_TRANSITIONS by the service */
+const CARELOG_FIELDS: FieldSchemas = {
+  caregiver_id: { type: 'integer', min: 1 },
+  franchisor_id: { type: 'integer', min: 1, nullable: true },
+  agency_id: { type: 'integer', min: 1, nullable: true },
+  parent_id: { type: 'integer', min: 1, nullable: true },
+  external_id: { type: 'string', min: 1, max: 50, nullable: true },
+  start_datetime: { type: 'datetime' },
+  end_datetime: { type: 'datetime' },
+  clock_in_actual_datetime: { type: 'datetime', nullable: true },
+  clock_out_actual_datetime: { type: 'datetime', nullable: true },
+  clock_in_method: { type: 'string', enum: CLOCK_METHODS, nullable: true },
+  clock_out_method: { type: 'string', enum: CLOCK_METHODS, nullable: true },
+  status: { type: 'string', enum: Object.values(CarelogStatus) },
+  split: { type: 'boolean' },
+  general_comment_char_count: { type: 'integer', min: 0 }
+};
+
+const ANALYTICS_LIMIT = { type: 'integer', min: 1, max: 100 } as const;
+const MIN_CHAR_COUNT = { type: 'integer', min: 1 } as const;
+
+export const carelogsSchemas = {
+  list: {
+    query: {
+      limit: { type: 'integer', min: 1, max: 100 },
+      offset: { type: 'integer', min: 0 },
+      orderBy: { type: 'string', enum: CARELOG_SORT_COLUMNS, description: 'Sort column (default created_at)' },
+      orderDirection: { type: 'string', enum: SORT_DIRECTIONS, description: 'Sort direction (default desc)' },
+      pagination: {
+        type: 'string',
+        enum: ['offset', 'cursor'],
+        description: 'cursor pages by (start_datetime, id) and cannot be combined with offset or orderBy (default offset)'
+      },
+      cursor: { type: 'string', min: 1, max: 500, description: 'next_cursor or prev_cursor of a previous page; implies pagination=cursor' },
+      include_total: { type: 'boolean', description: 'Add the number of carelogs matching the filters as pagination.total' },
+      status: { type: 'string', enum: Object.values(CarelogStatus) },
+      caregiver_id: { type: 'integer', min: 1 },
+      franchisor_id: { type: 'integer', min: 1 },
+      agency_id: { type: 'integer', min: 1 }
+    }
+  },
+  getById: { params: ID_PARAMS },
+  create: {
+    body: {
+      ...CARELOG_FIELDS,
+      status: {
+        type: 'string',
+        enum: [CarelogStatus.SCHEDULED],
+        description: 'New visits start as scheduled (the default) and move on through the lifecycle routes'
+      },
+      caregiver_id: { ...CARELOG_FIELDS.caregiver_id, required: true },
+      start_datetime: { ...CARELOG_FIELDS.start_datetime, required: true },
+      end_datetime: { ...CARELOG_FIELDS.end_datetime, required: true }
+    }
+  },
+  update: { params: ID_PARAMS, body: CARELOG_FIELDS, nonEmptyBody: true },
+  delete: { params: ID_PARAMS },
+  /** Multipart upload: the form fields are checked by the upload itself */
+  upload: {},
+
+  // Visit lifecycle
+  start: {
+    params: ID_PARAMS,
+    body: {
+      clock_in_datetime: { type: 'datetime', description: 'Defaults to now; needs an offset' },
+      clock_in_method: { type: 'string', enum: CLOCK_METHODS }
+    }
+  },
+  complete: {
+    params: ID_PARAMS,
+    body: {
+      clock_out_datetime: { type: 'datetime', description: 'Defaults to now; needs an offset' },
+      clock_out_method: { type: 'string', enum: CLOCK_METHODS }
+    }
+  },
+  cancel: {
+    params: ID_PARAMS,
+    body: {
+      reason: { type: 'string', min: 1, max: 1000, required: true }
+    }
+  },
+  noShow: { params: ID_PARAMS, body: {} },
+
+  // Analytics
+  topCaregivers: { query: { limit: ANALYTICS_LIMIT } },
+  lowReliability: { query: { limit: ANALYTICS_LIMIT } },
+  overtime: { query: { limit: ANALYTICS_LIMIT } },
+  weeklyHours: { query: { limit: ANALYTICS_LIMIT } },
+  clockMethods: {
+    query: {
+      groupBy: { type: 'string', enum: CLOCK_METHOD_GROUPS },
+      limit: ANALYTICS_LIMIT
+    }
+  },
+  franchisePerformance: {},
+  detailedComments: {
+    query: {
+      minCharCount: MIN_CHAR_COUNT,
+      limit: ANALYTICS_LIMIT
+    }
+  },
+  exportAnalytics: {
+    params: {
+      query: { type: 'string', required: true, description: 'One of ANALYTICS_QUERIES; unknown queries answer 404' }
+    },
+    body: {
+      limit: { type: 'integer', min: 1, max: 10000 },
+      minCharCount: MIN_CHAR_COUNT,
+      groupBy: { type: 'string', enum: CLOCK_METHOD_GROUPS }
+    }
+  }
+} satisfies Record<string, RequestSchema>;
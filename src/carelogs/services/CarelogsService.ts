@@ -1,21 +1,93 @@
+import * as fs from 'fs';
 import csv from 'csv-parser';
 import { Readable } from 'stream';
 import { CarelogsRepository } from '../repositories/CarelogsRepository';
-import { Carelogs } from '../models/carelogs';
+import {
+  AnalyticsQuery, ANALYTICS_QUERIES, canTransitionCarelog, CARELOG_BATCH_MAX_SIZE, CARELOG_COPY_BATCH_MAX_SIZE,
+  CARELOG_PAGE_MAX_LIMIT, CarelogCursor, CarelogListFilters, CarelogPage,
+  CarelogSortColumn, CarelogStatus, Carelogs, CLOCK_METHOD_GROUPS, ClockMethod, ClockMethodGroup
+} from '../models/carelogs';
+import { JobQueueService } from '../../jobs/services/JobQueueService';
+import { BackgroundJob, JobType } from '../../jobs/models/backgroundJob';
+import { summarizeETLRun } from '../../etl/utils/runSummary';
+import {
+  AnalyticsRow, ClockMethodBreakdown, DetailedCommentRow, FranchisePerformanceRow, LowReliabilityRank, OvertimeCaregiverRank,
+  SORT_DIRECTIONS, SortDirection, TopCaregiverRank, WeeklyHoursRow
+} from '../../shared/types/api-types';
+import { CursorError, decodeCursor, encodeCursor } from '../../shared/utils/cursor';
+import { errorMessage } from '../../shared/utils/errors';
 
-interface PaginationOptions {
+interface PaginationOptions extends CarelogListFilters {
   limit?: number;
   offset?: number;
-  orderBy?: string;
-  orderDirection?: string;
-  status?: string;
-  caregiver_id?: number;
-  franchisor_id?: number;
-  agency_id?: number;
+  orderBy?: CarelogSortColumn;
+  orderDirection?: SortDirection;
 }
 
+interface CursorPaginationOptions extends CarelogListFilters {
+  limit?: number;
+  /** Cursor from a previous page; omitted for the first page */
+  cursor?: string;
+  orderDirection?: SortDirection;
+  /** Count the rows matching the filters as well */
+  includeTotal?: boolean;
+}
+
+interface CsvLoadOptions {
+  mode?: 'insert' | 'upsert';
+  batchSize?: number;
+  loadStrategy?: 'row' | 'copy';
+}
+
+interface CsvUploadOptions {
+  /** As sent in the multipart form; checked before the load */
+  mode?: string;
+  batchSize?: number;
+  loadStrategy?: string;
+  /** Queue the load and return the job (default), or run it and return the summary */
+  async?: boolean;
+}
+
+interface AnalyticsExportOptions {
+  limit?: number;
+  minCharCount?: number;
+  /** clock-methods only */
+  groupBy?: ClockMethodGroup;
+}
+
+interface StartVisitInput {
+  /** Defaults to now */
+  clock_in_datetime?: string;
+  clock_in_method?: ClockMethod;
+}
+
+interface CompleteVisitInput {
+  /** Defaults to now */
+  clock_out_datetime?: string;
+  clock_out_method?: ClockMethod;
+}
+
+/**
+ * Rejected status change, with the HTTP status to answer with (400, 404 or 409)
+ */
+export class CarelogTransitionError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+/** Client-supplied clock times must carry an offset, since the visit's zone is not known here */
+const OFFSET_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+
+/** Exports run in the job queue, so they may return far more rows than the API's limit of 100 */
+const EXPORT_MAX_LIMIT = 10000;
+const EXPORT_DEFAULT_LIMIT = 1000;
+
 export class CarelogsService {
-  constructor(private readonly carelogsRepository: CarelogsRepository) {}
+  constructor(
+    private readonly carelogsRepository: CarelogsRepository,
+    private readonly jobQueueService?: JobQueueService
+  ) {}
 
   async getAllCarelogs(options: PaginationOptions = {}): Promise<Carelogs[]> {
     try {
@@ -30,8 +102,8 @@ export class CarelogsService {
         agency_id
       } = options;
       
-      if (limit <= 0 || limit > 100) {
-        throw new Error('Limit must be between 1 and 100');
+      if (limit <= 0 || limit > CARELOG_PAGE_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${CARELOG_PAGE_MAX_LIMIT}`);
       }
       
       if (offset < 0) {
@@ -42,7 +114,7 @@ export class CarelogsService {
         limit, 
         offset, 
         orderBy, 
-        orderDirection: orderDirection as 'asc' | 'desc',
+        orderDirection,
         status,
         caregiver_id,
         franchisor_id,
@@ -50,10 +122,71 @@ export class CarelogsService {
       });
     } catch (error) {
       console.error('Error in CarelogsService.getAllCarelogs:', error);
-      throw new Error(`Failed to get all carelogs: ${error.message}`);
+      throw new Error(`Failed to get all carelogs: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Page through carelogs in keyset order (start_datetime, id), newest first unless orderDirection is asc
+   * A cursor is bound to the order it was issued for; an invalid or mismatched cursor is a CursorError (400)
+   */
+  async getCarelogPage(options: CursorPaginationOptions = {}): Promise<CarelogPage> {
+    try {
+      const { limit = 50, cursor: encodedCursor, orderDirection: requestedDirection, includeTotal = false, ...filters } = options;
+
+      if (limit <= 0 || limit > CARELOG_PAGE_MAX_LIMIT) {
+        throw new Error(`Limit must be between 1 and ${CARELOG_PAGE_MAX_LIMIT}`);
+      }
+
+      const cursor = encodedCursor ? this.parseCarelogCursor(encodedCursor) : undefined;
+      if (cursor && requestedDirection && requestedDirection !== cursor.order) {
+        throw new CursorError(`Cursor was issued for orderDirection=${cursor.order}`);
+      }
+      const orderDirection = cursor?.order || requestedDirection || 'desc';
+
+      const [page, total] = await Promise.all([
+        this.carelogsRepository.findPage({ ...filters, limit, orderDirection, cursor }),
+        includeTotal ? this.carelogsRepository.getCount(filters) : Promise.resolve(undefined)
+      ]);
+
+      // Reading forwards there is a previous page whenever we started from a cursor, and a next page if rows were left;
+      // reading a prev page the other way round
+      const hasNext = cursor?.page === 'prev' ? page.last !== null : page.hasMore;
+      const hasPrev = cursor?.page === 'prev' ? page.hasMore : cursor !== undefined && page.first !== null;
+      const toCursor = (position: { start_datetime: string; id: number }, side: CarelogCursor['page']) =>
+        encodeCursor({ s: position.start_datetime, i: position.id, o: orderDirection, p: side });
+
+      const result: CarelogPage = {
+        carelogs: page.carelogs,
+        next_cursor: hasNext && page.last ? toCursor(page.last, 'next') : null,
+        prev_cursor: hasPrev && page.first ? toCursor(page.first, 'prev') : null
+      };
+      if (total !== undefined) {
+        result.total = total;
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof CursorError) {
+        throw error;
+      }
+      console.error('Error in CarelogsService.getCarelogPage:', error);
+      throw new Error(`Failed to get carelog page: ${errorMessage(error)}`);
     }
   }
 
+  private parseCarelogCursor(encoded: string): CarelogCursor {
+    const { s, i, o, p } = decodeCursor(encoded);
+    if (
+      typeof s !== 'string' || isNaN(Date.parse(s)) ||
+      typeof i !== 'number' || !Number.isInteger(i) || i <= 0 ||
+      !SORT_DIRECTIONS.includes(o as SortDirection) ||
+      (p !== 'next' && p !== 'prev')
+    ) {
+      throw new CursorError('Invalid cursor');
+    }
+    return { start_datetime: s, id: i, order: o as SortDirection, page: p };
+  }
+
   async getCarelogById(id: number): Promise<Carelogs | null> {
     try {
       if (!id || id <= 0) {
@@ -62,7 +195,7 @@ export class CarelogsService {
       return await this.carelogsRepository.findById(id);
     } catch (error) {
       console.error('Error in CarelogsService.getCarelogById:', error);
-      throw new Error(`Failed to get carelog: ${error.message}`);
+      throw new Error(`Failed to get carelog: ${errorMessage(error)}`);
     }
   }
 
@@ -76,11 +209,16 @@ export class CarelogsService {
       if (!carelogData.caregiver_id) {
         throw new Error('Caregiver ID is required');
       }
+
+      // A visit created in a later status would skip the clock times its transitions record
+      if (carelogData.status !== undefined && carelogData.status !== CarelogStatus.SCHEDULED) {
+        throw new Error('A new carelog starts as scheduled; change its status through the start, complete, cancel and no-show routes');
+      }
       
       return await this.carelogsRepository.create(carelogData);
     } catch (error) {
       console.error('Error in CarelogsService.createCarelog:', error);
-      throw new Error(`Failed to create carelog: ${error.message}`);
+      throw new Error(`Failed to create carelog: ${errorMessage(error)}`);
     }
   }
 
@@ -92,10 +230,31 @@ export class CarelogsService {
       if (!carelogData) {
         throw new Error('Carelog data is required');
       }
-      return await this.carelogsRepository.update(id, carelogData);
+
+      const existing = await this.carelogsRepository.findById(id);
+      if (!existing) {
+        return null;
+      }
+
+      // Resending the current status changes nothing
+      const { status, ...fields } = carelogData;
+      if (status === undefined || status === existing.status) {
+        return await this.carelogsRepository.update(id, fields);
+      }
+
+      // A status change is conditional on the status it was checked against, as in transitionVisit
+      this.assertTransition(existing, status);
+      const updated = await this.carelogsRepository.transitionStatus(
+        id, existing.status as CarelogStatus, { ...fields, status: status as CarelogStatus }
+      );
+      if (!updated) {
+        throw new CarelogTransitionError(`Visit ${id} changed status while it was being updated; reload it and retry`, 409);
+      }
+      return updated;
     } catch (error) {
+      if (error instanceof CarelogTransitionError) throw error;
       console.error('Error in CarelogsService.updateCarelog:', error);
-      throw new Error(`Failed to update carelog: ${error.message}`);
+      throw new Error(`Failed to update carelog: ${errorMessage(error)}`);
     }
   }
 
@@ -107,21 +266,152 @@ export class CarelogsService {
       return await this.carelogsRepository.delete(id);
     } catch (error) {
       console.error('Error in CarelogsService.deleteCarelog:', error);
-      throw new Error(`Failed to delete carelog: ${error.message}`);
+      throw new Error(`Failed to delete carelog: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Start a scheduled visit: clock in (now, unless a time is given) and move it to in_progress
+   */
+  async startVisit(id: number, input: StartVisitInput = {}): Promise<Carelogs> {
+    const clockIn = input.clock_in_datetime !== undefined
+      ? this.parseClockTime(input.clock_in_datetime, 'clock_in_datetime')
+      : new Date();
+
+    return this.transitionVisit(id, CarelogStatus.IN_PROGRESS, () => ({
+      clock_in_actual_datetime: clockIn,
+      clock_out_actual_datetime: null,
+      ...(input.clock_in_method !== undefined
+        ? { clock_in_method: this.parseClockMethod(input.clock_in_method, 'clock_in_method') }
+        : {})
+    }));
+  }
+
+  /**
+   * Complete a visit in progress: clock out (now, unless a time is given) after its clock-in
+   */
+  async completeVisit(id: number, input: CompleteVisitInput = {}): Promise<Carelogs> {
+    const clockOut = input.clock_out_datetime !== undefined
+      ? this.parseClockTime(input.clock_out_datetime, 'clock_out_datetime')
+      : new Date();
+
+    return this.transitionVisit(id, CarelogStatus.COMPLETED, carelog => {
+      const clockIn = carelog.clock_in_actual_datetime ? new Date(carelog.clock_in_actual_datetime) : null;
+      if (clockIn && clockOut <= clockIn) {
+        throw new CarelogTransitionError(`clock_out_datetime must be after the visit's clock-in (${clockIn.toISOString()})`, 400);
+      }
+      return {
+        clock_out_actual_datetime: clockOut,
+        ...(input.clock_out_method !== undefined
+          ? { clock_out_method: this.parseClockMethod(input.clock_out_method, 'clock_out_method') }
+          : {})
+      };
+    });
+  }
+
+  /**
+   * Cancel a scheduled visit or one in progress, recording why
+   * A visit in progress is clocked out now, so its worked time ends at the cancellation
+   */
+  async cancelVisit(id: number, reason: string): Promise<Carelogs> {
+    const cancellationReason = typeof reason === 'string' ? reason.trim() : '';
+    if (!cancellationReason) {
+      throw new CarelogTransitionError('A cancellation reason is required', 400);
     }
+
+    return this.transitionVisit(id, CarelogStatus.CANCELLED, carelog => {
+      const now = new Date();
+      const clockIn = carelog.clock_in_actual_datetime ? new Date(carelog.clock_in_actual_datetime) : null;
+      const clockOut = carelog.status === CarelogStatus.IN_PROGRESS && clockIn && now > clockIn ? now : null;
+      return {
+        cancellation_reason: cancellationReason,
+        ...(clockOut ? { clock_out_actual_datetime: clockOut } : {})
+      };
+    });
+  }
+
+  /**
+   * Mark a scheduled visit that never started as a no-show, once its scheduled start has passed
+   */
+  async markNoShow(id: number): Promise<Carelogs> {
+    return this.transitionVisit(id, CarelogStatus.NO_SHOW, carelog => {
+      const start = new Date(carelog.start_datetime);
+      if (start > new Date()) {
+        throw new CarelogTransitionError(`Visit ${id} cannot be marked a no-show before its scheduled start (${start.toISOString()})`, 409);
+      }
+      return {
+        clock_in_actual_datetime: null,
+        clock_out_actual_datetime: null
+      };
+    });
   }
 
-  async getCarelogCount(): Promise<number> {
+  /**
+   * Load a carelog, check that it may move to `to`, and apply the changes built for it
+   * The repository only applies the update while the status is unchanged; a concurrent change answers 409
+   */
+  private async transitionVisit(
+    id: number,
+    to: CarelogStatus,
+    buildChanges: (carelog: Carelogs) => Partial<Carelogs>
+  ): Promise<Carelogs> {
     try {
-      return await this.carelogsRepository.getCount();
+      if (!id || id <= 0) {
+        throw new CarelogTransitionError('Valid carelog ID is required', 400);
+      }
+
+      const carelog = await this.carelogsRepository.findById(id);
+      if (!carelog) {
+        throw new CarelogTransitionError('Carelog not found', 404);
+      }
+      this.assertTransition(carelog, to);
+
+      const changes = buildChanges(carelog);
+      const updated = await this.carelogsRepository.transitionStatus(id, carelog.status as CarelogStatus, { ...changes, status: to });
+      if (!updated) {
+        throw new CarelogTransitionError(`Visit ${id} changed status while it was being updated; reload it and retry`, 409);
+      }
+      return updated;
+    } catch (error) {
+      if (error instanceof CarelogTransitionError) throw error;
+      console.error('Error in CarelogsService.transitionVisit:', error);
+      throw new Error(`Failed to change carelog status: ${errorMessage(error)}`);
+    }
+  }
+
+  private assertTransition(carelog: Carelogs, to: string): void {
+    if (!canTransitionCarelog(carelog.status, to)) {
+      throw new CarelogTransitionError(`Visit ${carelog.id} cannot move from ${carelog.status} to ${to}`, 409);
+    }
+  }
+
+  private parseClockTime(value: any, field: string): Date {
+    const date = typeof value === 'string' && OFFSET_DATE_TIME.test(value) ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+      throw new CarelogTransitionError(`${field} must be an ISO 8601 date-time with an offset, e.g. 2025-04-15T09:00:00-05:00`, 400);
+    }
+    return date;
+  }
+
+  private parseClockMethod(value: any, field: string): ClockMethod {
+    const methods = Object.values(ClockMethod) as string[];
+    if (!methods.includes(value)) {
+      throw new CarelogTransitionError(`${field} must be one of: ${methods.join(', ')}`, 400);
+    }
+    return value as ClockMethod;
+  }
+
+  async getCarelogCount(filters: CarelogListFilters = {}): Promise<number> {
+    try {
+      return await this.carelogsRepository.getCount(filters);
     } catch (error) {
       console.error('Error in CarelogsService.getCarelogCount:', error);
-      throw new Error(`Failed to get carelog count: ${error.message}`);
+      throw new Error(`Failed to get carelog count: ${errorMessage(error)}`);
     }
   }
 
   // Performance Analytics Methods
-  async rankTopCaregivers(limit: number = 10): Promise<any[]> {
+  async rankTopCaregivers(limit: number = 10): Promise<TopCaregiverRank[]> {
     if (!limit || limit <= 0 || limit > 100) {
       throw new Error('Limit must be between 1 and 100');
     }
@@ -130,11 +420,11 @@ export class CarelogsService {
       return await this.carelogsRepository.rankTopCaregivers(limit);
     } catch (error) {
       console.error('Error in CarelogsService.rankTopCaregivers:', error);
-      throw new Error(`Failed to rank top caregivers: ${error.message}`);
+      throw new Error(`Failed to rank top caregivers: ${errorMessage(error)}`);
     }
   }
 
-  async rankLowReliabilityPerformers(limit: number = 10): Promise<any[]> {
+  async rankLowReliabilityPerformers(limit: number = 10): Promise<LowReliabilityRank[]> {
     if (!limit || limit <= 0 || limit > 100) {
       throw new Error('Limit must be between 1 and 100');
     }
@@ -143,11 +433,11 @@ export class CarelogsService {
       return await this.carelogsRepository.rankLowReliabilityPerformers(limit);
     } catch (error) {
       console.error('Error in CarelogsService.rankLowReliabilityPerformers:', error);
-      throw new Error(`Failed to rank low reliability performers: ${error.message}`);
+      throw new Error(`Failed to rank low reliability performers: ${errorMessage(error)}`);
     }
   }
 
-  async listDetailedComments(minCharCount: number = 100, limit: number = 20): Promise<any[]> {
+  async listDetailedComments(minCharCount: number = 100, limit: number = 20): Promise<DetailedCommentRow[]> {
     if (!minCharCount || minCharCount <= 0) {
       throw new Error('Minimum character count must be greater than 0');
     }
@@ -159,11 +449,11 @@ export class CarelogsService {
       return await this.carelogsRepository.listDetailedComments(minCharCount, limit);
     } catch (error) {
       console.error('Error in CarelogsService.listDetailedComments:', error);
-      throw new Error(`Failed to list detailed comments: ${error.message}`);
+      throw new Error(`Failed to list detailed comments: ${errorMessage(error)}`);
     }
   }
 
-  async rankOvertimeCaregivers(limit: number = 10): Promise<any[]> {
+  async rankOvertimeCaregivers(limit: number = 10): Promise<OvertimeCaregiverRank[]> {
     if (!limit || limit <= 0 || limit > 100) {
       throw new Error('Limit must be between 1 and 100');
     }
@@ -172,16 +462,152 @@ export class CarelogsService {
       return await this.carelogsRepository.rankOvertimeCaregivers(limit);
     } catch (error) {
       console.error('Error in CarelogsService.rankOvertimeCaregivers:', error);
-      throw new Error(`Failed to rank overtime caregivers: ${error.message}`);
+      throw new Error(`Failed to rank overtime caregivers: ${errorMessage(error)}`);
+    }
+  }
+
+  async summarizeWeeklyHours(limit: number = 20): Promise<WeeklyHoursRow[]> {
+    if (!limit || limit <= 0 || limit > 100) {
+      throw new Error('Limit must be between 1 and 100');
+    }
+
+    try {
+      return await this.carelogsRepository.summarizeWeeklyHours(limit);
+    } catch (error) {
+      console.error('Error in CarelogsService.summarizeWeeklyHours:', error);
+      throw new Error(`Failed to summarize weekly hours: ${errorMessage(error)}`);
+    }
+  }
+
+  async analyzeClockMethods(groupBy: ClockMethodGroup = 'caregiver', limit: number = 10): Promise<ClockMethodBreakdown[]> {
+    if (!CLOCK_METHOD_GROUPS.includes(groupBy)) {
+      throw new Error(`Group by must be one of: ${CLOCK_METHOD_GROUPS.join(', ')}`);
+    }
+    if (!limit || limit <= 0 || limit > 100) {
+      throw new Error('Limit must be between 1 and 100');
+    }
+
+    try {
+      return await this.carelogsRepository.analyzeClockMethods(groupBy, limit);
+    } catch (error) {
+      console.error('Error in CarelogsService.analyzeClockMethods:', error);
+      throw new Error(`Failed to analyze clock methods: ${errorMessage(error)}`);
     }
   }
 
-  async analyzeFranchisePerformance(): Promise<any[]> {
+  async analyzeFranchisePerformance(): Promise<FranchisePerformanceRow[]> {
     try {
       return await this.carelogsRepository.analyzeFranchisePerformance();
     } catch (error) {
       console.error('Error in CarelogsService.analyzeFranchisePerformance:', error);
-      throw new Error(`Failed to analyze franchise performance: ${error.message}`);
+      throw new Error(`Failed to analyze franchise performance: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Load an uploaded CSV file: queued by default (the worker removes the file when done),
+   * or run in the request with `async: false`, returning the run summary
+   */
+  async uploadCsv(
+    upload: { path: string; originalName: string },
+    options: CsvUploadOptions = {}
+  ): Promise<{ job?: BackgroundJob; summary?: Record<string, any> }> {
+    const { async = true, ...loadOptions } = options;
+    let queued = false;
+
+    try {
+      this.validateUploadOptions(loadOptions);
+
+      if (async) {
+        if (!this.jobQueueService) {
+          throw new Error('Job queue is not configured');
+        }
+        const job = await this.jobQueueService.enqueue(JobType.CARELOG_BULK_UPLOAD, {
+          path: upload.path,
+          original_name: upload.originalName,
+          delete_after: true,
+          ...loadOptions
+        });
+        queued = true;
+        return { job };
+      }
+
+      const result = await this.carelogsRepository.runETLPipeline({ type: 'csv', path: upload.path }, loadOptions);
+      return { summary: { file: upload.originalName, ...summarizeETLRun('carelogs', result) } };
+    } finally {
+      if (!queued) {
+        fs.rmSync(upload.path, { force: true });
+      }
+    }
+  }
+
+  private validateUploadOptions(
+    options: { mode?: string; batchSize?: number; loadStrategy?: string }
+  ): asserts options is CsvLoadOptions {
+    if (options.mode !== undefined && options.mode !== 'insert' && options.mode !== 'upsert') {
+      throw new Error('Mode must be insert or upsert');
+    }
+    if (options.loadStrategy !== undefined && options.loadStrategy !== 'row' && options.loadStrategy !== 'copy') {
+      throw new Error('Load strategy must be row or copy');
+    }
+    const maxBatchSize = options.loadStrategy === 'copy' ? CARELOG_COPY_BATCH_MAX_SIZE : CARELOG_BATCH_MAX_SIZE;
+    if (options.batchSize !== undefined && (!Number.isInteger(options.batchSize) || options.batchSize <= 0 || options.batchSize > maxBatchSize)) {
+      throw new Error(`Batch size must be between 1 and ${maxBatchSize}`);
+    }
+  }
+
+  // Analytics exports
+  async enqueueAnalyticsExport(query: AnalyticsQuery, options: AnalyticsExportOptions = {}): Promise<BackgroundJob> {
+    if (!this.jobQueueService) {
+      throw new Error('Job queue is not configured');
+    }
+    this.validateAnalyticsExport(query, options);
+
+    return this.jobQueueService.enqueue(JobType.CARELOG_ANALYTICS_EXPORT, { query, ...options });
+  }
+
+  /**
+   * Run an analytics query for an export job, without the 100-row limit of the API
+   */
+  async exportAnalytics(query: AnalyticsQuery, options: AnalyticsExportOptions = {}): Promise<AnalyticsRow[]> {
+    this.validateAnalyticsExport(query, options);
+    const { limit = EXPORT_DEFAULT_LIMIT, minCharCount = 100, groupBy = 'caregiver' } = options;
+
+    try {
+      switch (query) {
+        case 'top-caregivers':
+          return await this.carelogsRepository.rankTopCaregivers(limit);
+        case 'low-reliability':
+          return await this.carelogsRepository.rankLowReliabilityPerformers(limit);
+        case 'overtime':
+          return await this.carelogsRepository.rankOvertimeCaregivers(limit);
+        case 'weekly-hours':
+          return await this.carelogsRepository.summarizeWeeklyHours(limit);
+        case 'clock-methods':
+          return await this.carelogsRepository.analyzeClockMethods(groupBy, limit);
+        case 'franchise-performance':
+          return await this.carelogsRepository.analyzeFranchisePerformance();
+        case 'detailed-comments':
+          return await this.carelogsRepository.listDetailedComments(minCharCount, limit);
+      }
+    } catch (error) {
+      console.error('Error in CarelogsService.exportAnalytics:', error);
+      throw new Error(`Failed to export ${query}: ${errorMessage(error)}`);
+    }
+  }
+
+  private validateAnalyticsExport(query: AnalyticsQuery, options: AnalyticsExportOptions): void {
+    if (!ANALYTICS_QUERIES.includes(query)) {
+      throw new Error(`Query must be one of: ${ANALYTICS_QUERIES.join(', ')}`);
+    }
+    if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit <= 0 || options.limit > EXPORT_MAX_LIMIT)) {
+      throw new Error(`Limit must be between 1 and ${EXPORT_MAX_LIMIT}`);
+    }
+    if (options.minCharCount !== undefined && (!Number.isInteger(options.minCharCount) || options.minCharCount <= 0)) {
+      throw new Error('Minimum character count must be greater than 0');
+    }
+    if (options.groupBy !== undefined && !CLOCK_METHOD_GROUPS.includes(options.groupBy)) {
+      throw new Error(`Group by must be one of: ${CLOCK_METHOD_GROUPS.join(', ')}`);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { parseArgs } from 'util';
+import { UsageError } from './exitCodes';
+import { errorMessage } from '../shared/utils/errors';
+
+export type OptionSpec = Record<string, { type: 'string' | 'boolean'; multiple?: boolean; short?: string }>;
+
+export interface ParsedArgs {
+  positionals: string[];
+  values: Record<string, any>;
+}
+
+/**
+ * Parse the arguments of one subcommand; unknown options are usage errors
+ */
+export function parseCommandArgs(args: string[], options: OptionSpec): ParsedArgs {
+  try {
+    const { positionals, values } = parseArgs({ args, options, allowPositionals: true, strict: true });
+    return { positionals, values: values as Record<string, any> };
+  } catch (error) {
+    throw new UsageError(errorMessage(error));
+  }
+}
+
+/**
+ * Read an integer option, checking it is within [min, max]
+ */
+export function intOption(values: Record<string, any>, name: string, range: { min?: number; max?: number } = {}): number | undefined {
+  const raw = values[name];
+  if (raw === undefined) return undefined;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value)) {
+    throw new UsageError(`--${name} must be an integer, got '${raw}'`);
+  }
+  if ((range.min !== undefined && value < range.min) || (range.max !== undefined && value > range.max)) {
+    throw new UsageError(`--${name} must be between ${range.min ?? '-∞'} and ${range.max ?? '∞'}`);
+  }
+  return value;
+}
+
+/**
+ * Read an option that must be one of `choices`
+ */
+export function choiceOption<T extends string>(values: Record<string, any>, name: string, choices: readonly T[]): T | undefined {
+  const value = values[name];
+  if (value === undefined) return undefined;
+  if (!choices.includes(value)) {
+    throw new UsageError(`--${name} must be one of: ${choices.join(', ')}`);
+  }
+  return value;
+}
+
+/**
+ * Read a required positional argument
+ */
+export function requirePositional(positionals: string[], index: number, name: string): string {
+  const value = positionals[index];
+  if (value === undefined) {
+    throw new UsageError(`Missing ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Read a required positional argument that must be one of `choices`
+ */
+export function choicePositional<T extends string>(positionals: string[], index: number, name: string, choices: readonly T[]): T {
+  const value = requirePositional(positionals, index, `${name} (${choices.join(', ')})`);
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`Unknown ${name} '${value}', expected one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Reject options that only apply to another entity, source or subcommand
+ */
+export function rejectOptions(values: Record<string, any>, names: string[], reason: string): void {
+  const given = names.filter(name => values[name] !== undefined);
+  if (given.length > 0) {
+    throw new UsageError(`${given.map(name => `--${name}`).join(', ')} ${given.length > 1 ? 'are' : 'is'} not supported ${reason}`);
+  }
+}
@@ -0,0 +1,63 @@
+import { CLIContext } from '../context';
+import { ExitCode } from '../exitCodes';
+import { choiceOption, choicePositional, intOption, OptionSpec, parseCommandArgs, rejectOptions } from '../args';
+import { formatRows, OUTPUT_FORMATS, writeOutput } from '../output';
+import { ANALYTICS_QUERIES, CLOCK_METHOD_GROUPS } from '../../carelogs/models/carelogs';
+import { AnalyticsRow } from '../../shared/types/api-types';
+
+const ANALYTICS_OPTIONS: OptionSpec = {
+  limit: { type: 'string' },
+  'min-chars': { type: 'string' },
+  'group-by': { type: 'string' },
+  format: { type: 'string' },
+  output: { type: 'string' }
+};
+
+/**
+ * `analytics`: run one of the carelog analytics queries
+ */
+export async function runAnalyticsCommand(args: string[], context: CLIContext): Promise<ExitCode> {
+  const { positionals, values } = parseCommandArgs(args, ANALYTICS_OPTIONS);
+  const query = choicePositional(positionals, 0, 'analytics query', ANALYTICS_QUERIES);
+  const format = choiceOption(values, 'format', OUTPUT_FORMATS) || 'table';
+  const limit = intOption(values, 'limit', { min: 1, max: 100 });
+  const service = context.carelogsService;
+
+  if (query !== 'detailed-comments') {
+    rejectOptions(values, ['min-chars'], `by ${query}`);
+  }
+  if (query !== 'clock-methods') {
+    rejectOptions(values, ['group-by'], `by ${query}`);
+  }
+  if (query === 'franchise-performance') {
+    rejectOptions(values, ['limit'], `by ${query}`);
+  }
+
+  let rows: AnalyticsRow[];
+  switch (query) {
+    case 'top-caregivers':
+      rows = await service.rankTopCaregivers(limit);
+      break;
+    case 'low-reliability':
+      rows = await service.rankLowReliabilityPerformers(limit);
+      break;
+    case 'overtime':
+      rows = await service.rankOvertimeCaregivers(limit);
+      break;
+    case 'weekly-hours':
+      rows = await service.summarizeWeeklyHours(limit);
+      break;
+    case 'clock-methods':
+      rows = await service.analyzeClockMethods(choiceOption(values, 'group-by', CLOCK_METHOD_GROUPS), limit);
+      break;
+    case 'franchise-performance':
+      rows = await service.analyzeFranchisePerformance();
+      break;
+    case 'detailed-comments':
+      rows = await service.listDetailedComments(intOption(values, 'min-chars', { min: 1 }), limit);
+      break;
+  }
+
+  writeOutput(formatRows(rows, format), values.output);
+  return ExitCode.SUCCESS;
+}
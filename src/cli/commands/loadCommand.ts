@@ -0,0 +1,243 @@
+import knex, { Knex } from 'knex';
+import { CLIContext } from '../context';
+import { ExitCode, UsageError } from '../exitCodes';
+import { choiceOption, choicePositional, intOption, OptionSpec, parseCommandArgs, rejectOptions, requirePositional } from '../args';
+import { formatRecord, OUTPUT_FORMATS, writeOutput } from '../output';
+import { APIAuthConfig } from '../../etl/utils/apiAuth';
+import { APIExtractOptions, APIPagination } from '../../etl/utils/apiExtractor';
+import { IncrementalSourceOptions } from '../../etl/models/etlWatermark';
+import { writeDiffReport } from '../../etl/utils/diffReport';
+import { ETLDryRunDiff } from '../../etl/models/etlDiff';
+import { summarizeETLRun } from '../../etl/utils/runSummary';
+import { CARELOG_BATCH_MAX_SIZE, CARELOG_COPY_BATCH_MAX_SIZE } from '../../carelogs/models/carelogs';
+
+const ENTITIES = ['caregivers', 'carelogs'] as const;
+const SOURCE_TYPES = ['csv', 'api', 'db'] as const;
+
+const API_OPTIONS = [
+  'header', 'auth-token', 'oauth-token-url', 'client-id', 'client-secret', 'scope', 'audience',
+  'pagination', 'cursor-param', 'cursor-path', 'page-param', 'page-size', 'records-path',
+  'timeout-ms', 'max-pages', 'api-retries'
+];
+const INCREMENTAL_OPTIONS = ['incremental-column', 'incremental-type', 'incremental-param', 'incremental-key'];
+
+export const LOAD_OPTIONS: OptionSpec = {
+  // Pipeline
+  'batch-size': { type: 'string' },
+  mode: { type: 'string' },
+  mapping: { type: 'string' },
+  'no-quarantine': { type: 'boolean' },
+  'parent-run-id': { type: 'string' },
+  'load-strategy': { type: 'string' },
+  'max-extract-attempts': { type: 'string' },
+  'max-retries': { type: 'string' },
+  'stop-on-error': { type: 'boolean' },
+  // Validate only
+  'no-diff': { type: 'boolean' },
+  'diff-out': { type: 'string' },
+  // API source
+  header: { type: 'string', multiple: true },
+  'auth-token': { type: 'string' },
+  'oauth-token-url': { type: 'string' },
+  'client-id': { type: 'string' },
+  'client-secret': { type: 'string' },
+  scope: { type: 'string' },
+  audience: { type: 'string' },
+  pagination: { type: 'string' },
+  'cursor-param': { type: 'string' },
+  'cursor-path': { type: 'string' },
+  'page-param': { type: 'string' },
+  'page-size': { type: 'string' },
+  'records-path': { type: 'string' },
+  'timeout-ms': { type: 'string' },
+  'max-pages': { type: 'string' },
+  'api-retries': { type: 'string' },
+  // Database source
+  'source-url': { type: 'string' },
+  // Incremental API / database sources
+  'incremental-column': { type: 'string' },
+  'incremental-type': { type: 'string' },
+  'incremental-param': { type: 'string' },
+  'incremental-key': { type: 'string' },
+  // Output
+  format: { type: 'string' },
+  output: { type: 'string' }
+};
+
+/**
+ * `load` and `validate`: run the ETL pipeline of one entity from a CSV file, API or database query
+ */
+export async function runLoadCommand(args: string[], context: CLIContext, validateOnly: boolean): Promise<ExitCode> {
+  const { positionals, values } = parseCommandArgs(args, LOAD_OPTIONS);
+  const entity = choicePositional(positionals, 0, 'entity', ENTITIES);
+  const sourceType = choicePositional(positionals, 1, 'source', SOURCE_TYPES);
+  const target = requirePositional(positionals, 2, sourceType === 'csv' ? 'CSV file path' : sourceType === 'api' ? 'API URL' : 'SQL query');
+  if (positionals.length > 3) {
+    throw new UsageError(`Unexpected argument: ${positionals[3]}`);
+  }
+
+  if (!validateOnly) {
+    rejectOptions(values, ['no-diff', 'diff-out'], 'by load (use validate)');
+  }
+  if (entity === 'caregivers') {
+    rejectOptions(values, ['load-strategy', 'max-extract-attempts'], 'for caregivers');
+  } else {
+    rejectOptions(values, ['max-retries', 'stop-on-error'], 'for carelogs');
+  }
+  if (sourceType !== 'api') {
+    rejectOptions(values, API_OPTIONS, `for ${sourceType} sources`);
+  }
+  if (sourceType !== 'db') {
+    rejectOptions(values, ['source-url'], `for ${sourceType} sources`);
+  }
+  if (sourceType === 'csv') {
+    rejectOptions(values, INCREMENTAL_OPTIONS, 'for csv sources');
+  }
+
+  const format = choiceOption(values, 'format', OUTPUT_FORMATS) || 'table';
+  const loadStrategy = choiceOption(values, 'load-strategy', ['row', 'copy'] as const);
+  const options = {
+    batchSize: intOption(values, 'batch-size', {
+      min: 1,
+      max: loadStrategy === 'copy' ? CARELOG_COPY_BATCH_MAX_SIZE : CARELOG_BATCH_MAX_SIZE
+    }),
+    validateOnly,
+    mode: choiceOption(values, 'mode', ['insert', 'upsert'] as const),
+    mapping: values.mapping,
+    quarantineRejects: !values['no-quarantine'],
+    parentRunId: intOption(values, 'parent-run-id', { min: 1 }),
+    diff: !values['no-diff']
+  };
+
+  const sourceKnex: Knex | undefined = values['source-url']
+    ? knex({ client: 'pg', connection: values['source-url'] })
+    : undefined;
+
+  try {
+    const source = {
+      type: sourceType === 'db' ? 'database' as const : sourceType,
+      path: sourceType === 'csv' ? target : undefined,
+      url: sourceType === 'api' ? target : undefined,
+      query: sourceType === 'db' ? target : undefined,
+      headers: sourceType === 'api' ? parseHeaders(values.header) : undefined,
+      apiOptions: sourceType === 'api' ? buildAPIOptions(values) : undefined,
+      sourceKnex,
+      incremental: buildIncrementalOptions(values)
+    };
+
+    const result: any = entity === 'caregivers'
+      ? await context.caregiverRepository.runETLPipeline(source, {
+        ...options,
+        maxRetries: intOption(values, 'max-retries', { min: 0 }),
+        continueOnError: !values['stop-on-error']
+      })
+      : await context.carelogsRepository.runETLPipeline(source, {
+        ...options,
+        loadStrategy,
+        maxExtractAttempts: intOption(values, 'max-extract-attempts', { min: 1 })
+      });
+
+    const summary = summarizeETLRun(entity, result);
+    if (values['diff-out'] && result.diff) {
+      writeDiffReport(result.diff, values['diff-out']);
+      console.error(`✓ Dry-run diff written to ${values['diff-out']}`);
+    }
+
+    writeOutput(format === 'json' ? JSON.stringify(result, null, 2) + '\n' : formatRecord(summary, format), values.output);
+    return runExitCode(summary, result.diff);
+  } finally {
+    if (sourceKnex) {
+      await sourceKnex.destroy();
+    }
+  }
+}
+
+function runExitCode(summary: Record<string, any>, diff?: ETLDryRunDiff): ExitCode {
+  if (!summary.success || summary.pipeline_errors > 0) {
+    return ExitCode.PIPELINE_FAILED;
+  }
+  if (summary.row_errors > 0) {
+    return ExitCode.ROW_ERRORS;
+  }
+  if (diff && diff.summary.duplicate + diff.summary.fk_failure + diff.summary.invalid > 0) {
+    return ExitCode.ROW_ERRORS;
+  }
+  return ExitCode.SUCCESS;
+}
+
+function parseHeaders(headers: string[] | undefined): Record<string, string> | undefined {
+  if (!headers) return undefined;
+
+  const parsed: Record<string, string> = {};
+  for (const header of headers) {
+    const separator = header.indexOf(':');
+    if (separator <= 0) {
+      throw new UsageError(`--header must look like 'Name: value', got '${header}'`);
+    }
+    parsed[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+  }
+  return parsed;
+}
+
+/**
+ * Pagination, auth and retry settings of an API source
+ * Secrets can come from ETL_API_TOKEN / ETL_API_CLIENT_SECRET instead of the command line
+ */
+function buildAPIOptions(values: Record<string, any>): Omit<APIExtractOptions, 'headers' | 'params'> {
+  const paginationType = choiceOption(values, 'pagination', ['none', 'cursor', 'page', 'link'] as const) || 'none';
+  let pagination: APIPagination;
+  switch (paginationType) {
+    case 'cursor':
+      pagination = { type: 'cursor', cursorParam: values['cursor-param'], cursorPath: values['cursor-path'] };
+      break;
+    case 'page':
+      pagination = { type: 'page', pageParam: values['page-param'], pageSize: intOption(values, 'page-size', { min: 1 }) };
+      break;
+    default:
+      pagination = { type: paginationType };
+  }
+
+  let auth: APIAuthConfig | undefined;
+  const token = values['auth-token'] || process.env.ETL_API_TOKEN;
+  if (values['oauth-token-url']) {
+    const clientSecret = values['client-secret'] || process.env.ETL_API_CLIENT_SECRET;
+    if (!values['client-id'] || !clientSecret) {
+      throw new UsageError('--oauth-token-url requires --client-id and --client-secret (or ETL_API_CLIENT_SECRET)');
+    }
+    auth = {
+      type: 'oauth2_client_credentials',
+      tokenUrl: values['oauth-token-url'],
+      clientId: values['client-id'],
+      clientSecret,
+      scope: values.scope,
+      audience: values.audience
+    };
+  } else if (token) {
+    auth = { type: 'bearer', token };
+  }
+
+  const maxRetries = intOption(values, 'api-retries', { min: 0 });
+  return {
+    pagination,
+    auth,
+    retry: maxRetries !== undefined ? { maxRetries } : undefined,
+    recordsPath: values['records-path'],
+    timeoutMs: intOption(values, 'timeout-ms', { min: 1 }),
+    maxPages: intOption(values, 'max-pages', { min: 1 })
+  };
+}
+
+function buildIncrementalOptions(values: Record<string, any>): IncrementalSourceOptions | undefined {
+  const column = values['incremental-column'];
+  if (!column) {
+    rejectOptions(values, INCREMENTAL_OPTIONS, 'without --incremental-column');
+    return undefined;
+  }
+
+  return {
+    column,
+    type: choiceOption(values, 'incremental-type', ['timestamp', 'id'] as const),
+    param: values['incremental-param'],
+    key: values['incremental-key']
+  };
+}
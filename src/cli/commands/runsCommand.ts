@@ -0,0 +1,119 @@
+import { CLIContext } from '../context';
+import { ExitCode, UsageError } from '../exitCodes';
+import { choiceOption, choicePositional, intOption, OptionSpec, parseCommandArgs, rejectOptions, requirePositional } from '../args';
+import { formatRecord, formatRows, OUTPUT_FORMATS, writeOutput } from '../output';
+import { formatDiffAsCSV } from '../../etl/utils/diffReport';
+
+const SUBCOMMANDS = ['list', 'show', 'errors', 'diff'] as const;
+
+const RUNS_OPTIONS: OptionSpec = {
+  entity: { type: 'string' },
+  status: { type: 'string' },
+  phase: { type: 'string' },
+  'error-type': { type: 'string' },
+  action: { type: 'string' },
+  limit: { type: 'string' },
+  offset: { type: 'string' },
+  format: { type: 'string' },
+  output: { type: 'string' }
+};
+
+/**
+ * `runs`: ETL run history, the failing rows of a run and the dry-run diff of a validate-only run
+ */
+export async function runRunsCommand(args: string[], context: CLIContext): Promise<ExitCode> {
+  const { positionals, values } = parseCommandArgs(args, RUNS_OPTIONS);
+  const subcommand = choicePositional(positionals, 0, 'runs subcommand', SUBCOMMANDS);
+  const format = choiceOption(values, 'format', OUTPUT_FORMATS) || 'table';
+  const limit = intOption(values, 'limit', { min: 1 });
+  const offset = intOption(values, 'offset', { min: 0 });
+
+  if (subcommand === 'list') {
+    rejectOptions(values, ['phase', 'error-type', 'action'], 'by runs list');
+    const runs = await context.etlRunService.getRuns({
+      limit,
+      offset,
+      entity: choiceOption(values, 'entity', ['caregivers', 'carelogs'] as const),
+      status: choiceOption(values, 'status', ['running', 'succeeded', 'failed'] as const)
+    });
+    writeOutput(formatRows(format === 'table' ? runs.map(toRunListRow) : runs, format), values.output);
+    return ExitCode.SUCCESS;
+  }
+
+  rejectOptions(values, ['entity', 'status'], `by runs ${subcommand}`);
+  const id = Number(requirePositional(positionals, 1, 'run ID'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new UsageError(`Invalid run ID: ${positionals[1]}`);
+  }
+
+  const run = await context.etlRunService.getRunById(id);
+  if (!run) {
+    console.error(`✗ ETL run ${id} not found`);
+    return ExitCode.NOT_FOUND;
+  }
+
+  switch (subcommand) {
+    case 'show':
+      rejectOptions(values, ['phase', 'error-type', 'action', 'limit', 'offset'], 'by runs show');
+      writeOutput(formatRecord(run, format), values.output);
+      return ExitCode.SUCCESS;
+
+    case 'errors': {
+      rejectOptions(values, ['action'], 'by runs errors');
+      const errors = await context.etlRunService.getRunErrors(id, {
+        limit: limit ?? 500,
+        offset,
+        phase: choiceOption(values, 'phase', ['transform', 'load'] as const),
+        error_type: values['error-type']
+      });
+      writeOutput(formatRows(errors, format), values.output);
+      return ExitCode.SUCCESS;
+    }
+
+    case 'diff': {
+      rejectOptions(values, ['phase', 'error-type'], 'by runs diff');
+      if (!run.diff_summary) {
+        console.error(`✗ ETL run ${id} has no dry-run diff (only validate-only runs record one)`);
+        return ExitCode.NOT_FOUND;
+      }
+
+      // Without --limit the whole diff is returned
+      const entries = await context.etlRunService.getRunDiff(id, { limit, offset, action: values.action });
+      if (format === 'json') {
+        const diff = { run_id: run.id, entity: run.entity, mode: run.load_mode, summary: run.diff_summary, entries };
+        writeOutput(JSON.stringify(diff, null, 2) + '\n', values.output);
+      } else if (format === 'csv') {
+        writeOutput(formatDiffAsCSV(entries), values.output);
+      } else {
+        writeOutput(formatRecord(run.diff_summary, 'table') + '\n' + formatRows(entries.map(entry => ({
+          row: entry.row_index,
+          action: entry.action,
+          match_key: entry.match_key,
+          existing_id: entry.existing_id,
+          details: entry.changes
+            ? entry.changes.map(change => `${change.field}: ${change.before ?? '∅'} → ${change.after ?? '∅'}`).join('; ')
+            : entry.message
+        })), 'table'), values.output);
+      }
+      return ExitCode.SUCCESS;
+    }
+  }
+}
+
+/**
+ * Columns shown by `runs list` in table format
+ */
+function toRunListRow(run: any): Record<string, any> {
+  return {
+    id: run.id,
+    entity: run.entity,
+    source: run.source_type,
+    status: run.status,
+    mode: run.load_mode,
+    validate_only: run.validate_only,
+    started_at: run.started_at,
+    extracted: run.extracted_count,
+    loaded: run.loaded_count,
+    errors: run.error_count
+  };
+}
@@ -0,0 +1,34 @@
+import { Knex } from 'knex';
+import { CaregiverRepository } from '../caregiver/repositories/CaregiverRepository';
+import { CarelogsRepository } from '../carelogs/repositories/CarelogsRepository';
+import { CarelogsService } from '../carelogs/services/CarelogsService';
+import { ETLRunRepository } from '../etl/repositories/ETLRunRepository';
+import { ETLRunService } from '../etl/services/ETLRunService';
+import { ETLQuarantineRepository } from '../etl/repositories/ETLQuarantineRepository';
+import { ETLWatermarkRepository } from '../etl/repositories/ETLWatermarkRepository';
+
+/**
+ * Repositories and services used by the CLI commands, wired the same way as createApp
+ */
+export interface CLIContext {
+  knex: Knex;
+  caregiverRepository: CaregiverRepository;
+  carelogsRepository: CarelogsRepository;
+  carelogsService: CarelogsService;
+  etlRunService: ETLRunService;
+}
+
+export function createCLIContext(knex: Knex): CLIContext {
+  const etlRunRepository = new ETLRunRepository(knex);
+  const quarantineRepository = new ETLQuarantineRepository(knex);
+  const watermarkRepository = new ETLWatermarkRepository(knex);
+  const carelogsRepository = new CarelogsRepository(knex, etlRunRepository, quarantineRepository, watermarkRepository);
+
+  return {
+    knex,
+    caregiverRepository: new CaregiverRepository(knex, etlRunRepository, quarantineRepository, watermarkRepository),
+    carelogsRepository,
+    carelogsService: new CarelogsService(carelogsRepository),
+    etlRunService: new ETLRunService(etlRunRepository)
+  };
+}
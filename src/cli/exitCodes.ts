@@ -0,0 +1,21 @@
+/**
+ * Process exit codes of the CLI, kept stable for CI scripts
+ */
+export enum ExitCode {
+  SUCCESS = 0,
+  /** Unexpected failure, e.g. the database is unreachable */
+  ERROR = 1,
+  /** Unknown command or option, or an invalid option value */
+  USAGE = 2,
+  /** The ETL pipeline failed (extract, mapping, transform or load phase) */
+  PIPELINE_FAILED = 3,
+  /** The pipeline completed but rejected rows, or a dry run found duplicates, FK failures or invalid rows */
+  ROW_ERRORS = 4,
+  /** The requested run does not exist or has no dry-run diff */
+  NOT_FOUND = 5
+}
+
+/**
+ * Raised for invalid command lines; reported with the usage text and ExitCode.USAGE
+ */
+export class UsageError extends Error {}
@@ -0,0 +1,116 @@
+import { createCLIContext } from './context';
+import { ExitCode, UsageError } from './exitCodes';
+import { routeLogsToStderr } from './output';
+import { runLoadCommand } from './commands/loadCommand';
+import { runRunsCommand } from './commands/runsCommand';
+import { runAnalyticsCommand } from './commands/analyticsCommand';
+import { errorMessage } from '../shared/utils/errors';
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  load <caregivers|carelogs> csv <file>       Load a CSV file
+  load <caregivers|carelogs> api <url>        Load from an HTTP API
+  load <caregivers|carelogs> db <query>       Load from a SQL query (target database unless --source-url)
+  validate <caregivers|carelogs> <source> ... Same sources as load; reports what a load would change
+  runs list                                   ETL run history, most recent first
+  runs show <id>                              A single run with counts and errors by type
+  runs errors <id>                            Failing rows of a run
+  runs diff <id>                              Dry-run diff of a validate-only run
+  analytics <query>                           top-caregivers, low-reliability, overtime, weekly-hours,
+                                              clock-methods, franchise-performance, detailed-comments
+  help                                        Show this message
+
+Pipeline options (load, validate):
+  --batch-size <n>              Rows per batch (1-1000, 1-10000 with --load-strategy copy; default 50)
+  --mode <insert|upsert>        Load mode (default insert)
+  --mapping <file>              JSON/YAML column mapping
+  --no-quarantine               Do not quarantine rows rejected by the transform step
+  --parent-run-id <id>          Link the run to an earlier run
+  --load-strategy <row|copy>    carelogs: row-by-row or COPY bulk load (default row)
+  --max-extract-attempts <n>    carelogs: extract attempts for api/db sources (default 3)
+  --max-retries <n>             caregivers: extract retries for api/db sources (default 3)
+  --stop-on-error               caregivers: stop at the first failing batch
+  --no-diff                     validate: only check the transform, without comparing to the database
+  --diff-out <file>             validate: write the dry-run diff to a .csv or .json file
+
+API source options:
+  --header 'Name: value'        Request header (repeatable)
+  --auth-token <token>          Bearer token (or ETL_API_TOKEN)
+  --oauth-token-url <url>       OAuth2 client credentials, with --client-id, --client-secret
+                                (or ETL_API_CLIENT_SECRET), --scope, --audience
+  --pagination <type>           none, cursor (--cursor-param, --cursor-path),
+                                page (--page-param, --page-size) or link
+  --records-path <path>         Dot path of the records array in the response
+  --timeout-ms <ms>  --max-pages <n>  --api-retries <n>
+
+Database source options:
+  --source-url <url>            Connection string of the source database
+
+Incremental options (api, db):
+  --incremental-column <column> --incremental-type <timestamp|id>
+  --incremental-param <name>    --incremental-key <key>
+
+Listing options:
+  runs list:    --entity, --status, --limit, --offset
+  runs errors:  --phase, --error-type, --limit, --offset
+  runs diff:    --action, --limit, --offset
+  analytics:    --limit, --min-chars (detailed-comments), --group-by <caregiver|agency> (clock-methods)
+
+Output options:
+  --format <table|json|csv>     Output format (default table)
+  --output <file>               Write the output to a file instead of stdout
+
+Exit codes:
+  0 success, 1 unexpected error, 2 usage error, 3 pipeline failed,
+  4 rows rejected (or duplicates / FK failures / invalid rows in a dry run), 5 not found
+`;
+
+/**
+ * Run one CLI command and return its exit code
+ */
+export async function runCLI(argv: string[]): Promise<ExitCode> {
+  const [command, ...args] = argv;
+
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    process.stdout.write(USAGE);
+    return command ? ExitCode.SUCCESS : ExitCode.USAGE;
+  }
+
+  // Results go to stdout; pipeline and service logs to stderr. The connection module (which
+  // loads .env) is imported afterwards so its log line does not end up in the output either
+  routeLogsToStderr();
+  const { knexInstance } = await import('../infrastructure/database/knexConnection');
+  const context = createCLIContext(knexInstance);
+
+  try {
+    switch (command) {
+      case 'load':
+        return await runLoadCommand(args, context, false);
+      case 'validate':
+        return await runLoadCommand(args, context, true);
+      case 'runs':
+        return await runRunsCommand(args, context);
+      case 'analytics':
+        return await runAnalyticsCommand(args, context);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`✗ ${error.message}\n`);
+      console.error(USAGE);
+      return ExitCode.USAGE;
+    }
+    console.error(`✗ ${errorMessage(error)}`);
+    return ExitCode.ERROR;
+  } finally {
+    await knexInstance.destroy();
+  }
+}
+
+if (require.main === module) {
+  runCLI(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import { formatCSV } from '../shared/utils/csv';
+
+export const OUTPUT_FORMATS = ['table', 'json', 'csv'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+const MAX_CELL_WIDTH = 60;
+
+/**
+ * Pipeline and service logs go to stderr so stdout only carries the command's result
+ */
+export function routeLogsToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+/**
+ * Render a list of rows in the requested format
+ */
+export function formatRows(rows: Array<Record<string, any>>, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(rows, null, 2) + '\n';
+    case 'csv':
+      return formatCSV(rows);
+    case 'table':
+      return formatTable(rows);
+  }
+}
+
+/**
+ * Render a single record: JSON as-is, CSV as one row, table as field/value pairs
+ */
+export function formatRecord(record: Record<string, any>, format: OutputFormat): string {
+  if (format === 'table') {
+    return formatTable(Object.entries(record).map(([field, value]) => ({ field, value })));
+  }
+  return format === 'json' ? JSON.stringify(record, null, 2) + '\n' : formatCSV([record]);
+}
+
+/**
+ * Plain-text table with aligned columns; long values are truncated
+ */
+export function formatTable(rows: Array<Record<string, any>>): string {
+  if (rows.length === 0) return '(no rows)\n';
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const cells = rows.map(row => columns.map(column => toCell(row[column])));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map(line => line[i].length)));
+  const render = (line: string[]) => line.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [
+    render(columns),
+    render(widths.map(width => '-'.repeat(width))),
+    ...cells.map(render)
+  ].join('\n') + '\n';
+}
+
+/**
+ * Write command output to `outputPath`, or to stdout
+ */
+export function writeOutput(content: string, outputPath?: string): void {
+  if (outputPath) {
+    fs.writeFileSync(outputPath, content);
+    console.error(`✓ Wrote ${outputPath}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+function toCell(value: any): string {
+  if (value === null || value === undefined) return '';
+  const text = (value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value))
+    .replace(/\s+/g, ' ');
+  return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text;
+}
@@ -0,0 +1,101 @@
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { knexInstance } from '../infrastructure/database/knexConnection';
+import { CaregiverRepository } from '../caregiver/repositories/CaregiverRepository';
+import { CarelogsRepository } from '../carelogs/repositories/CarelogsRepository';
+import { ETLRunRepository } from '../etl/repositories/ETLRunRepository';
+import { ETLQuarantineRepository } from '../etl/repositories/ETLQuarantineRepository';
+import { ETLWatermarkRepository } from '../etl/repositories/ETLWatermarkRepository';
+import { ETLJobRunRepository } from './repositories/ETLJobRunRepository';
+import { ETLSchedulerService } from './services/ETLSchedulerService';
+import { loadJobDefinitions } from './utils/jobDefinitions';
+import { ETLJobRunStatus } from './models/etlJob';
+import { errorMessage } from '../shared/utils/errors';
+
+dotenv.config();
+
+const DEFAULT_JOBS_FILE = 'src/cron/jobs.yaml';
+const SHUTDOWN_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * ETL scheduler: npm run scheduler -- [jobs-file] [--run <job>]
+ * Without --run, schedules every enabled job until SIGINT/SIGTERM; with --run, runs one job
+ * once (still taking its lock and honouring its backoff) and exits
+ */
+async function main(): Promise<number> {
+  const { positionals, values } = parseArgs({
+    args: process.argv.slice(2),
+    options: { run: { type: 'string' } },
+    allowPositionals: true
+  });
+
+  const jobsFile = positionals[0] || process.env.ETL_JOBS_FILE || DEFAULT_JOBS_FILE;
+  const jobs = loadJobDefinitions(jobsFile);
+  console.log(`✓ Loaded ${jobs.length} job(s) from ${jobsFile}`);
+
+  const etlRunRepository = new ETLRunRepository(knexInstance);
+  const quarantineRepository = new ETLQuarantineRepository(knexInstance);
+  const watermarkRepository = new ETLWatermarkRepository(knexInstance);
+  const scheduler = new ETLSchedulerService(
+    jobs,
+    new ETLJobRunRepository(knexInstance),
+    new CaregiverRepository(knexInstance, etlRunRepository, quarantineRepository, watermarkRepository),
+    new CarelogsRepository(knexInstance, etlRunRepository, quarantineRepository, watermarkRepository)
+  );
+
+  if (values.run) {
+    const job = jobs.find(candidate => candidate.name === values.run);
+    if (!job) {
+      throw new Error(`Unknown job: ${values.run}`);
+    }
+
+    const run = await scheduler.runJob(job);
+    await knexInstance.destroy();
+    return run.status === ETLJobRunStatus.FAILED ? 1 : 0;
+  }
+
+  scheduler.start();
+  console.log('🚀 ETL scheduler started');
+
+  let shuttingDown = false;
+
+  /**
+   * Graceful shutdown: stop scheduling, let running jobs finish, then release the knex pool
+   */
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`\n${signal} received, waiting for running jobs...`);
+
+    const forceExit = setTimeout(() => {
+      console.error('✗ Shutdown timed out, forcing exit');
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS);
+    forceExit.unref();
+
+    try {
+      await scheduler.stop();
+      await knexInstance.destroy();
+      console.log('✓ Database pool closed');
+      process.exit(0);
+    } catch (error) {
+      console.error('✗ Error during shutdown:', errorMessage(error));
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  return 0;
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(async error => {
+    console.error(`✗ ${error.message}`);
+    await knexInstance.destroy();
+    process.exitCode = 1;
+  });
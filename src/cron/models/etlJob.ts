@@ -0,0 +1,121 @@
+import { ETLEntity } from '../../etl/models/etlRun';
+import { APIExtractOptions } from '../../etl/utils/apiExtractor';
+import { IncrementalSourceOptions } from '../../etl/models/etlWatermark';
+import { ColumnMappingConfig } from '../../etl/models/columnMapping';
+
+/**
+ * Where a scheduled job extracts its rows from
+ */
+export interface ETLJobSource {
+  type: 'csv' | 'api' | 'database';
+
+  /** CSV file path */
+  path?: string;
+
+  /** API URL */
+  url?: string;
+  headers?: Record<string, string>;
+  apiOptions?: Omit<APIExtractOptions, 'headers' | 'params'>;
+
+  /** SQL query, run against `connection` or the target database */
+  query?: string;
+  connection?: string;
+
+  incremental?: IncrementalSourceOptions;
+}
+
+/**
+ * runETLPipeline options of a job; the last four only apply to one entity
+ */
+export interface ETLJobOptions {
+  batchSize?: number;
+  mode?: 'insert' | 'upsert';
+  mapping?: ColumnMappingConfig | string;
+  quarantineRejects?: boolean;
+  validateOnly?: boolean;
+  /** carelogs only */
+  loadStrategy?: 'row' | 'copy';
+  /** carelogs only */
+  maxExtractAttempts?: number;
+  /** caregivers only */
+  maxRetries?: number;
+  /** caregivers only */
+  continueOnError?: boolean;
+}
+
+/**
+ * Delay before a failing job is attempted again: base * 2^(failures - 1), capped at max
+ */
+export interface ETLJobBackoff {
+  /** Delay after the first failure (default 5 minutes) */
+  baseDelayMinutes?: number;
+  /** Upper bound of the delay (default 24 hours) */
+  maxDelayMinutes?: number;
+}
+
+/**
+ * A scheduled ETL job, as read from the jobs file
+ */
+export interface ETLJobDefinition {
+  /** Unique job name, also used as the advisory lock key */
+  name: string;
+
+  /** Cron expression (5 fields, or 6 with seconds) */
+  schedule: string;
+
+  /** IANA time zone the schedule is evaluated in (default UTC) */
+  timezone?: string;
+
+  entity: ETLEntity;
+  source: ETLJobSource;
+  options?: ETLJobOptions;
+  backoff?: ETLJobBackoff;
+
+  /** Disabled jobs are loaded but never scheduled (default true) */
+  enabled?: boolean;
+}
+
+/**
+ * Enum for the outcome of a scheduled job run
+ */
+export enum ETLJobRunStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  /** Not run: another run held the lock, or the job is backing off */
+  SKIPPED = 'skipped'
+}
+
+/**
+ * One firing of a scheduled job
+ */
+export interface ETLJobRun {
+  /** Primary key - unique identifier for the job run */
+  id: number;
+
+  /** Name of the job definition */
+  job_name: string;
+
+  status: ETLJobRunStatus;
+
+  /** Time the cron schedule fired for */
+  scheduled_for: Date | string;
+
+  started_at: Date | string;
+  finished_at?: Date | string | null;
+
+  /** ETL run recorded by runETLPipeline (null for skipped runs) */
+  etl_run_id?: number | null;
+
+  /** Failures in a row up to and including this run (0 after a success) */
+  consecutive_failures: number;
+
+  /** Pipeline error, or the reason the run was skipped */
+  error_message?: string | null;
+
+  created_at?: Date | string;
+}
+
+/**
+ * Interface for recording a job run (excludes generated fields)
+ */
+export type CreateETLJobRunData = Omit<ETLJobRun, 'id' | 'created_at'>;
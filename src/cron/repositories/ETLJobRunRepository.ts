@@ -0,0 +1,120 @@
+import { Knex } from 'knex';
+import { CreateETLJobRunData, ETLJobRun, ETLJobRunStatus } from '../models/etlJob';
+import { errorMessage } from '../../shared/utils/errors';
+
+/** First key of the two-part advisory lock, so job locks do not collide with other lock users */
+const JOB_LOCK_NAMESPACE = 7301;
+
+/**
+ * Repository for scheduled job outcomes (etl_job_runs) and the advisory locks that keep
+ * runs of the same job from overlapping, across processes as well as within one
+ */
+export class ETLJobRunRepository {
+  constructor(private readonly knex: Knex) { }
+
+  /**
+   * Record the outcome of a job run and return its ID
+   */
+  async record(runData: CreateETLJobRunData): Promise<number> {
+    try {
+      const [{ id }] = await this.knex('etl_job_runs')
+        .insert({
+          job_name: runData.job_name,
+          status: runData.status,
+          scheduled_for: runData.scheduled_for,
+          started_at: runData.started_at,
+          finished_at: runData.finished_at ?? null,
+          etl_run_id: runData.etl_run_id ?? null,
+          consecutive_failures: runData.consecutive_failures,
+          error_message: runData.error_message ?? null,
+          created_at: new Date()
+        })
+        .returning('id');
+
+      return id;
+    } catch (error) {
+      console.error('Error in ETLJobRunRepository.record:', error);
+      throw new Error(`Failed to record job run: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Most recent run of a job that actually executed (skipped runs are ignored)
+   */
+  async findLatestAttempt(jobName: string): Promise<ETLJobRun | null> {
+    try {
+      const run = await this.knex('etl_job_runs')
+        .where('job_name', jobName)
+        .whereNot('status', ETLJobRunStatus.SKIPPED)
+        .orderBy('started_at', 'desc')
+        .orderBy('id', 'desc')
+        .first();
+      return run || null;
+    } catch (error) {
+      console.error('Error in ETLJobRunRepository.findLatestAttempt:', error);
+      throw new Error(`Failed to fetch job run: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find job runs, most recent first
+   */
+  async findAll(options: {
+    limit?: number;
+    offset?: number;
+    job_name?: string;
+    status?: string;
+  } = {}): Promise<ETLJobRun[]> {
+    try {
+      const { limit = 50, offset = 0, job_name, status } = options;
+
+      let query = this.knex('etl_job_runs')
+        .select('*')
+        .orderBy('started_at', 'desc')
+        .orderBy('id', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      if (job_name) {
+        query = query.where('job_name', job_name);
+      }
+      if (status) {
+        query = query.where('status', status);
+      }
+
+      return await query;
+    } catch (error) {
+      console.error('Error in ETLJobRunRepository.findAll:', error);
+      throw new Error(`Failed to fetch job runs: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Run `work` while holding the session advisory lock of a job
+   * The lock lives on one pooled connection that is held until `work` finishes; if another
+   * session holds it, `work` is not called and `acquired` is false
+   */
+  async withJobLock<T>(jobName: string, work: () => Promise<T>): Promise<{ acquired: boolean; result?: T }> {
+    const connection = await this.knex.client.acquireConnection();
+
+    try {
+      const { rows } = await this.knex
+        .raw('SELECT pg_try_advisory_lock(?, hashtext(?)) AS locked', [JOB_LOCK_NAMESPACE, jobName])
+        .connection(connection);
+      if (!rows[0]?.locked) {
+        return { acquired: false };
+      }
+
+      try {
+        return { acquired: true, result: await work() };
+      } finally {
+        await this.knex
+          .raw('SELECT pg_advisory_unlock(?, hashtext(?))', [JOB_LOCK_NAMESPACE, jobName])
+          .connection(connection)
+          .catch(error => console.warn(`⚠ Could not release lock of job ${jobName}: ${error.message}`));
+      }
+    } finally {
+      await this.knex.client.releaseConnection(connection);
+    }
+  }
+}
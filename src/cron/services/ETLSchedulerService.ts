@@ -0,0 +1,229 @@
+import knex, { Knex } from 'knex';
+import { CronExpressionParser } from 'cron-parser';
+import { CaregiverRepository } from '../../caregiver/repositories/CaregiverRepository';
+import { CarelogsRepository } from '../../carelogs/repositories/CarelogsRepository';
+import { ETLJobRunRepository } from '../repositories/ETLJobRunRepository';
+import { ETLJobDefinition, ETLJobRun, ETLJobRunStatus } from '../models/etlJob';
+import { errorMessage } from '../../shared/utils/errors';
+
+const DEFAULT_BASE_DELAY_MINUTES = 5;
+const DEFAULT_MAX_DELAY_MINUTES = 24 * 60;
+// setTimeout overflows above ~24.8 days; longer waits are split
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Runs ETL job definitions on their cron schedules
+ * A run is skipped when the previous run of the same job still holds its advisory lock
+ * (in this or another process) or while the job is backing off after failures.
+ * Every firing, including skipped ones, is recorded in etl_job_runs.
+ */
+export class ETLSchedulerService {
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Map<string, Promise<ETLJobRun>>();
+  private stopped = true;
+
+  constructor(
+    private readonly jobs: ETLJobDefinition[],
+    private readonly jobRunRepository: ETLJobRunRepository,
+    private readonly caregiverRepository: CaregiverRepository,
+    private readonly carelogsRepository: CarelogsRepository
+  ) {}
+
+  /**
+   * Schedule every enabled job
+   */
+  start(): void {
+    this.stopped = false;
+    for (const job of this.jobs) {
+      if (job.enabled === false) {
+        console.log(`- ${job.name}: disabled`);
+        continue;
+      }
+      this.scheduleNext(job);
+    }
+  }
+
+  /**
+   * Stop scheduling and wait for runs in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    await Promise.allSettled(Array.from(this.running.values()));
+  }
+
+  /**
+   * Next time a job's schedule fires after `after`
+   */
+  nextRunAt(job: ETLJobDefinition, after: Date = new Date()): Date {
+    return CronExpressionParser.parse(job.schedule, { currentDate: after, tz: job.timezone || 'UTC' }).next().toDate();
+  }
+
+  /**
+   * Run a job now (or for the time its schedule fired), honouring the lock and backoff
+   */
+  async runJob(job: ETLJobDefinition, scheduledFor: Date = new Date()): Promise<ETLJobRun> {
+    if (this.running.has(job.name)) {
+      return this.recordOutcome(job, scheduledFor, new Date(), {
+        status: ETLJobRunStatus.SKIPPED,
+        error_message: 'Previous run is still in progress'
+      });
+    }
+
+    const run = this.executeJob(job, scheduledFor);
+    this.running.set(job.name, run);
+    try {
+      return await run;
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+
+  private scheduleNext(job: ETLJobDefinition): void {
+    if (this.stopped) return;
+
+    const nextRun = this.nextRunAt(job);
+    const delay = nextRun.getTime() - Date.now();
+    console.log(`- ${job.name}: next run at ${nextRun.toISOString()}`);
+
+    const fire = () => {
+      this.timers.delete(job.name);
+      if (this.stopped) return;
+
+      // Overlapping runs are recorded as skipped by runJob; the schedule continues either way
+      this.runJob(job, nextRun).catch(error => console.error(`✗ Job ${job.name} crashed: ${error.message}`));
+      this.scheduleNext(job);
+    };
+
+    this.timers.set(job.name, delay > MAX_TIMER_MS
+      ? setTimeout(() => this.scheduleNext(job), MAX_TIMER_MS)
+      : setTimeout(fire, Math.max(delay, 0)));
+  }
+
+  private async executeJob(job: ETLJobDefinition, scheduledFor: Date): Promise<ETLJobRun> {
+    const startedAt = new Date();
+
+    let previousFailures = 0;
+    try {
+      const latest = await this.jobRunRepository.findLatestAttempt(job.name);
+      previousFailures = latest?.consecutive_failures || 0;
+
+      const backoffUntil = latest ? this.backoffUntil(job, latest) : null;
+      if (backoffUntil && backoffUntil > startedAt) {
+        console.warn(`⚠ ${job.name}: backing off after ${previousFailures} failures, next attempt after ${backoffUntil.toISOString()}`);
+        return this.recordOutcome(job, scheduledFor, startedAt, {
+          status: ETLJobRunStatus.SKIPPED,
+          error_message: `Backing off after ${previousFailures} consecutive failures until ${backoffUntil.toISOString()}`
+        });
+      }
+    } catch (error) {
+      // Without the job history there is no backoff state; run anyway rather than stall the schedule
+      console.warn(`⚠ ${job.name}: could not read previous runs: ${errorMessage(error)}`);
+    }
+
+    try {
+      const { acquired, result } = await this.jobRunRepository.withJobLock(job.name, () => this.runPipeline(job));
+      if (!acquired) {
+        console.warn(`⚠ ${job.name}: another run holds the lock, skipping`);
+        return this.recordOutcome(job, scheduledFor, startedAt, {
+          status: ETLJobRunStatus.SKIPPED,
+          error_message: 'Another run of this job holds the lock'
+        });
+      }
+
+      const succeeded = result!.success;
+      console.log(`${succeeded ? '✓' : '✗'} ${job.name}: ${succeeded ? 'succeeded' : `failed: ${result!.error}`} (ETL run ${result!.runId ?? 'not recorded'})`);
+      return this.recordOutcome(job, scheduledFor, startedAt, {
+        status: succeeded ? ETLJobRunStatus.SUCCEEDED : ETLJobRunStatus.FAILED,
+        etl_run_id: result!.runId,
+        consecutive_failures: succeeded ? 0 : previousFailures + 1,
+        error_message: succeeded ? null : result!.error
+      });
+    } catch (error) {
+      console.error(`✗ ${job.name}: ${errorMessage(error)}`);
+      return this.recordOutcome(job, scheduledFor, startedAt, {
+        status: ETLJobRunStatus.FAILED,
+        consecutive_failures: previousFailures + 1,
+        error_message: errorMessage(error)
+      });
+    }
+  }
+
+  /**
+   * Run the job's pipeline; a separate connection is opened for external source databases
+   */
+  private async runPipeline(job: ETLJobDefinition): Promise<{ success: boolean; runId: number | null; error?: string }> {
+    const { connection, ...sourceConfig } = job.source;
+    const sourceKnex: Knex | undefined = connection ? knex({ client: 'pg', connection }) : undefined;
+    const source = { ...sourceConfig, sourceKnex };
+    const options = { ...job.options, parentRunId: null };
+
+    console.log(`🚀 ${job.name}: running ${job.entity} ${job.source.type} pipeline`);
+
+    try {
+      if (job.entity === 'caregivers') {
+        const result = await this.caregiverRepository.runETLPipeline(source, options);
+        const failure = result.errors[result.errors.length - 1];
+        return { success: result.success && !failure, runId: result.runId, error: failure?.error };
+      }
+
+      const result = await this.carelogsRepository.runETLPipeline(source, options);
+      return {
+        success: result.success,
+        runId: result.runId ?? null,
+        error: result.success ? undefined : result.errors[result.errors.length - 1]
+      };
+    } finally {
+      if (sourceKnex) {
+        await sourceKnex.destroy();
+      }
+    }
+  }
+
+  /**
+   * End of the backoff window after a failed attempt: base * 2^(failures - 1), capped at max
+   */
+  private backoffUntil(job: ETLJobDefinition, latest: ETLJobRun): Date | null {
+    if (latest.status !== ETLJobRunStatus.FAILED || latest.consecutive_failures <= 0) {
+      return null;
+    }
+
+    const base = job.backoff?.baseDelayMinutes ?? DEFAULT_BASE_DELAY_MINUTES;
+    const max = job.backoff?.maxDelayMinutes ?? DEFAULT_MAX_DELAY_MINUTES;
+    const delayMinutes = Math.min(base * 2 ** (latest.consecutive_failures - 1), max);
+    const failedAt = new Date(latest.finished_at || latest.started_at);
+
+    return new Date(failedAt.getTime() + delayMinutes * 60 * 1000);
+  }
+
+  /**
+   * Record a job outcome; a failure to record is logged but does not stop the scheduler
+   */
+  private async recordOutcome(
+    job: ETLJobDefinition,
+    scheduledFor: Date,
+    startedAt: Date,
+    outcome: Pick<ETLJobRun, 'status'> & Partial<ETLJobRun>
+  ): Promise<ETLJobRun> {
+    const run = {
+      job_name: job.name,
+      scheduled_for: scheduledFor,
+      started_at: startedAt,
+      finished_at: new Date(),
+      etl_run_id: null,
+      consecutive_failures: 0,
+      error_message: null,
+      ...outcome
+    };
+
+    let id = 0;
+    try {
+      id = await this.jobRunRepository.record(run);
+    } catch (error) {
+      console.warn(`⚠ Could not record run of job ${job.name}: ${errorMessage(error)}`);
+    }
+
+    return { ...run, id };
+  }
+}
@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { CronExpressionParser } from 'cron-parser';
+import { ETLJobDefinition } from '../models/etlJob';
+import { loadColumnMapping } from '../../etl/utils/columnMapping';
+import { errorMessage } from '../../shared/utils/errors';
+
+const JOB_KEYS = ['name', 'schedule', 'timezone', 'entity', 'source', 'options', 'backoff', 'enabled'];
+const SOURCE_KEYS = ['type', 'path', 'url', 'headers', 'apiOptions', 'query', 'connection', 'incremental'];
+const COMMON_OPTION_KEYS = ['batchSize', 'mode', 'mapping', 'quarantineRejects', 'validateOnly'];
+const ENTITY_OPTION_KEYS: Record<string, string[]> = {
+  caregivers: ['maxRetries', 'continueOnError'],
+  carelogs: ['loadStrategy', 'maxExtractAttempts']
+};
+
+/**
+ * Read and validate the job definitions of a .json, .yaml or .yml file
+ * The file holds a `jobs` list; every problem is reported at once
+ */
+export function loadJobDefinitions(filePath: string): ETLJobDefinition[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Jobs file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  let parsed: any;
+  try {
+    parsed = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid jobs file ${filePath}: ${errorMessage(error)}`);
+  }
+
+  const jobs = Array.isArray(parsed) ? parsed : parsed?.jobs;
+  if (!Array.isArray(jobs)) {
+    throw new Error(`Invalid jobs file ${filePath}: expected a 'jobs' list`);
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+  jobs.forEach((job, index) => {
+    const label = typeof job?.name === 'string' ? `job '${job.name}'` : `job #${index + 1}`;
+    validateJobDefinition(job).forEach(error => errors.push(`${label}: ${error}`));
+
+    if (typeof job?.name === 'string') {
+      if (names.has(job.name)) errors.push(`${label}: duplicate job name`);
+      names.add(job.name);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid jobs file ${filePath}: ${errors.join('; ')}`);
+  }
+
+  return jobs;
+}
+
+/**
+ * Check one job definition, returning a list of problems (empty when valid)
+ */
+export function validateJobDefinition(job: any): string[] {
+  const errors: string[] = [];
+  if (!job || typeof job !== 'object' || Array.isArray(job)) {
+    return ['must be an object'];
+  }
+
+  Object.keys(job)
+    .filter(key => !JOB_KEYS.includes(key))
+    .forEach(key => errors.push(`unknown key '${key}'`));
+
+  if (typeof job.name !== 'string' || job.name.trim() === '') {
+    errors.push('name is required');
+  }
+  if (job.entity !== 'caregivers' && job.entity !== 'carelogs') {
+    errors.push(`entity must be 'caregivers' or 'carelogs'`);
+  }
+  if (job.enabled !== undefined && typeof job.enabled !== 'boolean') {
+    errors.push('enabled must be true or false');
+  }
+
+  if (job.timezone !== undefined && !isValidTimeZone(job.timezone)) {
+    errors.push(`unknown timezone '${job.timezone}'`);
+  }
+  if (typeof job.schedule !== 'string') {
+    errors.push('schedule (cron expression) is required');
+  } else {
+    try {
+      CronExpressionParser.parse(job.schedule, { tz: job.timezone });
+    } catch (error) {
+      errors.push(`invalid schedule '${job.schedule}': ${errorMessage(error)}`);
+    }
+  }
+
+  errors.push(...validateSource(job.source));
+
+  if (job.options !== undefined && ENTITY_OPTION_KEYS[job.entity]) {
+    const allowed = [...COMMON_OPTION_KEYS, ...ENTITY_OPTION_KEYS[job.entity]];
+    Object.keys(job.options || {})
+      .filter(key => !allowed.includes(key))
+      .forEach(key => errors.push(`option '${key}' is not supported for ${job.entity}`));
+
+    if (job.options?.mapping) {
+      try {
+        loadColumnMapping(job.options.mapping, job.entity);
+      } catch (error) {
+        errors.push(errorMessage(error));
+      }
+    }
+  }
+
+  for (const key of ['baseDelayMinutes', 'maxDelayMinutes']) {
+    const value = job.backoff?.[key];
+    if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+      errors.push(`backoff.${key} must be a positive number`);
+    }
+  }
+
+  return errors;
+}
+
+function validateSource(source: any): string[] {
+  if (!source || typeof source !== 'object') {
+    return ['source is required'];
+  }
+
+  const errors = Object.keys(source)
+    .filter(key => !SOURCE_KEYS.includes(key))
+    .map(key => `unknown source key '${key}'`);
+
+  switch (source.type) {
+    case 'csv':
+      if (!source.path) errors.push('source.path is required for csv sources');
+      break;
+    case 'api':
+      if (!source.url) errors.push('source.url is required for api sources');
+      break;
+    case 'database':
+      if (!source.query) errors.push('source.query is required for database sources');
+      break;
+    default:
+      errors.push(`source.type must be 'csv', 'api' or 'database'`);
+  }
+
+  if (source.incremental && !source.incremental.column) {
+    errors.push('source.incremental.column is required');
+  }
+
+  return errors;
+}
+
+function isValidTimeZone(timeZone: any): boolean {
+  if (typeof timeZone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,50 @@
+import { FieldSchemas, RequestSchema } from '../../shared/utils/requestValidation';
+
+/**
+ * JSON Schema object as used by OpenAPI 3.0 (`nullable` instead of type arrays)
+ */
+export type JSONSchema = Record<string, any>;
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * OpenAPI response object: a description and the content per media type
+ */
+export interface OpenAPIResponse {
+  description: string;
+  headers?: Record<string, any>;
+  content?: Record<string, { schema: JSONSchema }>;
+}
+
+/**
+ * One mounted route as documented in the OpenAPI document
+ * `path` is the full Express path (e.g. `/api/carelogs/:id/start`), so the spec test can match it against the app's routes
+ */
+export interface ApiOperation {
+  method: HttpMethod;
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  /** Params, query and JSON body, usually the schema the route validates against */
+  request?: RequestSchema;
+  /** Form fields of a multipart upload; `file` is documented as the binary part */
+  multipart?: FieldSchemas;
+  /** Answers other than the 400, 404 and 500 errors the builder adds itself */
+  responses: Record<number, OpenAPIResponse>;
+}
+
+/**
+ * The parts of an OpenAPI 3.0 document the builder produces
+ */
+export interface OpenAPIDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  tags: Array<{ name: string; description?: string }>;
+  paths: Record<string, Partial<Record<HttpMethod, Record<string, any>>>>;
+  components: {
+    schemas: Record<string, JSONSchema>;
+    responses: Record<string, OpenAPIResponse>;
+  };
+}
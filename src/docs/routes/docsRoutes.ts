@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { buildOpenAPIDocument } from '../utils/openapiBuilder';
+
+/** Swagger UI is loaded from a CDN, so the API has no front-end dependencies */
+const SWAGGER_UI_VERSION = '5.17.14';
+const SWAGGER_UI_CDN = `https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}`;
+
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>API documentation</title>
+  <link rel="stylesheet" href="${SWAGGER_UI_CDN}/swagger-ui.css" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${SWAGGER_UI_CDN}/swagger-ui-bundle.js" crossorigin></script>
+  <script>
+    window.onload = () => {
+      window.ui = SwaggerUIBundle({ url: './openapi.json', dom_id: '#swagger-ui', deepLinking: true });
+    };
+  </script>
+</body>
+</html>
+`;
+
+/**
+ * API documentation routes: the OpenAPI document and an interactive page rendering it
+ */
+export function createDocsRouter(): Router {
+  const router = Router();
+  // Built once: the document only changes with the code
+  const document = buildOpenAPIDocument();
+
+  router.get('/openapi.json', (req, res) => {
+    res.json(document);
+  });
+  router.get('/docs', (req, res) => {
+    res.type('html').send(DOCS_PAGE);
+  });
+
+  return router;
+}
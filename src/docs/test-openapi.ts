@@ -0,0 +1,186 @@
+import { Express, Router } from 'express';
+import { AddressInfo } from 'net';
+import assert from 'assert';
+import knexFactory from 'knex';
+import { createApp } from '../app';
+import { OpenAPIDocument } from './models/openapi';
+import { buildOpenAPIDocument, toOpenAPIPath } from './utils/openapiBuilder';
+
+// Checks that the OpenAPI document covers every route the app mounts, and nothing else
+// Run with: npm run test:openapi
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * `METHOD /path` of every route mounted on an Express app, with paths in OpenAPI form
+ */
+function listMountedRoutes(app: Express): string[] {
+  const routes: string[] = [];
+
+  const walk = (stack: any[], prefix: string) => {
+    stack.forEach(layer => {
+      if (layer.route) {
+        Object.keys(layer.route.methods)
+          .filter(method => HTTP_METHODS.includes(method))
+          .forEach(method => routes.push(`${method.toUpperCase()} ${toOpenAPIPath(joinPath(prefix, layer.route.path))}`));
+      } else if (layer.name === 'router' && layer.handle.stack) {
+        walk(layer.handle.stack, prefix + mountPath(layer));
+      }
+    });
+  };
+  walk((app as any)._router.stack, '');
+
+  return routes;
+}
+
+/**
+ * Path a router was mounted at, read back from the regexp Express compiled it to (e.g. `^\/api\/jobs\/?(?=\/|$)`)
+ */
+function mountPath(layer: any): string {
+  if (layer.regexp.fast_slash) {
+    return '';
+  }
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+    .replace(/\\\//g, '/');
+}
+
+function joinPath(prefix: string, path: string): string {
+  const joined = `${prefix}${path}`.replace(/\/+$/, '');
+  return joined || '/';
+}
+
+function listDocumentedRoutes(document: OpenAPIDocument): string[] {
+  return Object.entries(document.paths).flatMap(([path, operations]) =>
+    Object.keys(operations).map(method => `${method.toUpperCase()} ${path}`)
+  );
+}
+
+function missingFrom(expected: string[], actual: string[]): string[] {
+  return expected.filter(route => !actual.includes(route));
+}
+
+/**
+ * App with a stub knex: building the routes never touches the database
+ */
+function createTestApp(): { app: Express; destroy: () => Promise<void> } {
+  const knex = knexFactory({ client: 'pg' });
+  return { app: createApp(knex), destroy: () => knex.destroy() };
+}
+
+async function withServer(app: Express, run: (baseUrl: string) => Promise<void>) {
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await run(`http://127.0.0.1:${port}`);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+async function testEveryRouteIsDocumented() {
+  const { app, destroy } = createTestApp();
+  try {
+    const mounted = listMountedRoutes(app);
+    const documented = listDocumentedRoutes(buildOpenAPIDocument());
+
+    assert.ok(mounted.length > 40, `expected the app's routes, found ${mounted.length}`);
+    assert.deepStrictEqual(missingFrom(mounted, documented), [], 'routes missing from the OpenAPI document');
+    assert.deepStrictEqual(missingFrom(documented, mounted), [], 'documented routes the app does not mount');
+  } finally {
+    await destroy();
+  }
+}
+
+async function testUndocumentedRouteIsReported() {
+  const { app, destroy } = createTestApp();
+  try {
+    const router = Router();
+    router.get('/:id/history', (req, res) => res.end());
+    // Listed even though it sits behind the 404 fallback; only the registration matters here
+    app.use('/api/caregivers', router);
+
+    const missing = missingFrom(listMountedRoutes(app), listDocumentedRoutes(buildOpenAPIDocument()));
+    assert.deepStrictEqual(missing, ['GET /api/caregivers/{id}/history']);
+  } finally {
+    await destroy();
+  }
+}
+
+async function testReferencesResolve() {
+  const document = buildOpenAPIDocument();
+  const refs = JSON.stringify(document).match(/"\$ref":"[^"]+"/g) || [];
+
+  refs.map(ref => ref.slice('"$ref":"#/'.length, -1).split('/')).forEach(([root, section, name]) => {
+    assert.strictEqual(root, 'components');
+    assert.ok((document.components as any)[section]?.[name], `unresolved $ref #/components/${section}/${name}`);
+  });
+  assert.ok(refs.length > 0);
+}
+
+async function testPathParametersAreDeclared() {
+  const document = buildOpenAPIDocument();
+
+  Object.entries(document.paths).forEach(([path, operations]) => {
+    const templated = (path.match(/\{(\w+)\}/g) || []).map(param => param.slice(1, -1));
+    Object.entries(operations).forEach(([method, operation]) => {
+      const declared = (operation.parameters || []).filter((p: any) => p.in === 'path').map((p: any) => p.name);
+      assert.deepStrictEqual(declared, templated, `${method.toUpperCase()} ${path} path parameters`);
+    });
+  });
+}
+
+async function testDocumentAndDocsPageAreServed() {
+  const { app, destroy } = createTestApp();
+  try {
+    await withServer(app, async (baseUrl) => {
+      const specResponse = await fetch(`${baseUrl}/openapi.json`);
+      assert.strictEqual(specResponse.status, 200);
+      const spec = await specResponse.json() as OpenAPIDocument;
+      assert.strictEqual(spec.openapi, '3.0.3');
+      assert.ok(spec.paths['/api/carelogs/{id}/start']?.post);
+      assert.deepStrictEqual(
+        spec.paths['/api/carelogs/analytics/top-caregivers'].get!.parameters[0].schema,
+        { type: 'integer', minimum: 1, maximum: 100 }
+      );
+
+      const docsResponse = await fetch(`${baseUrl}/docs`);
+      assert.strictEqual(docsResponse.status, 200);
+      assert.match(docsResponse.headers.get('content-type') || '', /text\/html/);
+      assert.match(await docsResponse.text(), /openapi\.json/);
+    });
+  } finally {
+    await destroy();
+  }
+}
+
+async function runTests() {
+  const tests: Array<[string, () => Promise<void>]> = [
+    ['every mounted route is documented', testEveryRouteIsDocumented],
+    ['an undocumented route is reported', testUndocumentedRouteIsReported],
+    ['every $ref resolves', testReferencesResolve],
+    ['path parameters are declared', testPathParametersAreDeclared],
+    ['/openapi.json and /docs are served', testDocumentAndDocsPageAreServed]
+  ];
+
+  console.log('Testing OpenAPI document...\n');
+  let failed = 0;
+
+  for (const [name, test] of tests) {
+    try {
+      await test();
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${name}:`, error);
+    }
+  }
+
+  console.log(`\n${tests.length - failed}/${tests.length} OpenAPI tests passed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+runTests();
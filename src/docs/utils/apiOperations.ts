@@ -0,0 +1,394 @@
+import { ApiOperation } from '../models/openapi';
+import { FieldSchemas, ID_PARAMS } from '../../shared/utils/requestValidation';
+import { caregiverSchemas } from '../../caregiver/routes/caregiverSchemas';
+import { carelogsSchemas } from '../../carelogs/routes/carelogsSchemas';
+import { ANALYTICS_QUERIES } from '../../carelogs/models/carelogs';
+import { ETLRunStatus } from '../../etl/models/etlRun';
+import { DiffAction } from '../../etl/models/etlDiff';
+import { QuarantineStatus } from '../../etl/models/etlQuarantine';
+import { JobStatus, JobType } from '../../jobs/models/backgroundJob';
+import { DataQualityRunStatus } from '../../quality/models/dataQuality';
+import {
+  acceptedResponse, csvResponse, dataResponse, errorResponse, messageResponse, pageResponse, ref
+} from './componentSchemas';
+
+/**
+ * Every route the app mounts, with the schemas of its request and answers
+ * Caregiver and carelog routes reuse the schemas they validate against; `npm run test:openapi` fails when a
+ * mounted route is missing here or an entry no longer matches a route
+ */
+
+export const API_TAGS = [
+  { name: 'Health', description: 'Liveness check' },
+  { name: 'Caregivers', description: 'Caregiver CRUD, CSV loads and deduplication' },
+  { name: 'Carelogs', description: 'Carelog CRUD, CSV uploads and the visit lifecycle' },
+  { name: 'Analytics', description: 'Visit analytics and their export jobs' },
+  { name: 'ETL', description: 'ETL run history, dry-run diffs and the quarantine' },
+  { name: 'Jobs', description: 'Background job status and results' },
+  { name: 'Data Quality', description: 'Data-quality profiles, trends and thresholds' },
+  { name: 'Docs', description: 'This document' }
+];
+
+const PAGE_QUERY: FieldSchemas = {
+  limit: { type: 'integer', min: 1 },
+  offset: { type: 'integer', min: 0 }
+};
+
+const ETL_ENTITY = { type: 'string', enum: ['caregivers', 'carelogs'] } as const;
+const LOAD_MODE = { type: 'string', enum: ['insert', 'upsert'] } as const;
+
+const UPLOAD_FIELDS: FieldSchemas = {
+  mode: { ...LOAD_MODE, description: 'Default insert' },
+  batchSize: { type: 'integer', min: 1 },
+  async: { type: 'boolean', description: 'false runs the ETL in the request and answers with the run summary' }
+};
+
+const UPLOAD_RESPONSES = {
+  200: dataResponse('Run summary of a synchronous upload (async=false)', ref('ETLSummary')),
+  202: acceptedResponse('Upload stored and load queued'),
+  413: errorResponse('File larger than UPLOAD_MAX_BYTES'),
+  415: errorResponse('Not a UTF-8 CSV file'),
+  422: errorResponse('The synchronous ETL run failed; data holds the run summary')
+};
+
+const TRANSITION_RESPONSES = {
+  200: dataResponse('The visit after the transition', ref('Carelog')),
+  409: errorResponse('The visit status does not allow this transition')
+};
+
+const FORMAT_QUERY = { type: 'string', enum: ['json', 'csv'], description: 'Default json' } as const;
+
+const caregiverOperations: ApiOperation[] = [
+  {
+    method: 'get', path: '/api/caregivers', tag: 'Caregivers', summary: 'List all caregivers',
+    request: caregiverSchemas.list, responses: { 200: dataResponse('Caregivers', { type: 'array', items: ref('Caregiver') }) }
+  },
+  {
+    method: 'get', path: '/api/caregivers/active', tag: 'Caregivers', summary: 'List active caregivers',
+    request: caregiverSchemas.list, responses: { 200: dataResponse('Active caregivers', { type: 'array', items: ref('Caregiver') }) }
+  },
+  {
+    method: 'get', path: '/api/caregivers/search', tag: 'Caregivers', summary: 'Search caregivers',
+    description: '`q` matches names by word prefix or similar spelling (best matches first), emails by substring and ' +
+      'phone numbers by digits; the other parameters narrow the results. `include_total=true` adds `pagination.total`.',
+    request: caregiverSchemas.search, responses: { 200: pageResponse('Matching caregivers', ref('Caregiver')) }
+  },
+  {
+    method: 'post', path: '/api/caregivers/bulk-upload', tag: 'Caregivers', summary: 'Queue the caregiver CSV ETL',
+    request: caregiverSchemas.bulkUpload, responses: { 202: acceptedResponse() }
+  },
+  {
+    method: 'post', path: '/api/caregivers/upload', tag: 'Caregivers', summary: 'Upload a caregiver CSV export',
+    multipart: UPLOAD_FIELDS, responses: UPLOAD_RESPONSES
+  },
+  {
+    method: 'post', path: '/api/caregivers/duplicates/scan', tag: 'Caregivers', summary: 'Queue a duplicate scan',
+    request: caregiverSchemas.duplicateScan, responses: { 202: acceptedResponse() }
+  },
+  {
+    method: 'get', path: '/api/caregivers/merges', tag: 'Caregivers', summary: 'List caregiver merges',
+    request: caregiverSchemas.listMerges, responses: { 200: pageResponse('Merges, most recent first', ref('CaregiverMerge')) }
+  },
+  {
+    method: 'post', path: '/api/caregivers/merges', tag: 'Caregivers', summary: 'Merge a duplicate caregiver into a survivor',
+    request: caregiverSchemas.merge,
+    responses: {
+      201: dataResponse('The merge', ref('CaregiverMerge')),
+      404: errorResponse('Survivor or duplicate not found'),
+      409: errorResponse('A caregiver is already merged')
+    }
+  },
+  {
+    method: 'get', path: '/api/caregivers/merges/:id', tag: 'Caregivers', summary: 'Get a caregiver merge',
+    request: caregiverSchemas.getMerge, responses: { 200: dataResponse('The merge', ref('CaregiverMerge')) }
+  },
+  {
+    method: 'post', path: '/api/caregivers/merges/:id/undo', tag: 'Caregivers', summary: 'Undo a caregiver merge',
+    request: caregiverSchemas.undoMerge,
+    responses: {
+      200: dataResponse('The undone merge', ref('CaregiverMerge')),
+      409: errorResponse('The merge was already undone or the caregivers changed since')
+    }
+  },
+  {
+    method: 'get', path: '/api/caregivers/:id', tag: 'Caregivers', summary: 'Get a caregiver',
+    request: caregiverSchemas.getById, responses: { 200: dataResponse('The caregiver', ref('Caregiver')) }
+  },
+  {
+    method: 'post', path: '/api/caregivers', tag: 'Caregivers', summary: 'Create a caregiver',
+    request: caregiverSchemas.create, responses: { 201: dataResponse('The created caregiver', ref('Caregiver')) }
+  },
+  {
+    method: 'put', path: '/api/caregivers/:id', tag: 'Caregivers', summary: 'Update a caregiver',
+    request: caregiverSchemas.update, responses: { 200: dataResponse('The updated caregiver', ref('Caregiver')) }
+  },
+  {
+    method: 'delete', path: '/api/caregivers/:id', tag: 'Caregivers', summary: 'Delete a caregiver',
+    request: caregiverSchemas.delete, responses: { 200: messageResponse('Caregiver deleted') }
+  }
+];
+
+const carelogOperations: ApiOperation[] = [
+  {
+    method: 'get', path: '/api/carelogs', tag: 'Carelogs', summary: 'List carelogs',
+    request: carelogsSchemas.list,
+    responses: {
+      200: pageResponse('Carelogs', ref('Carelog'), { oneOf: [ref('PaginationMeta'), ref('CursorPaginationMeta')] })
+    }
+  },
+  {
+    method: 'post', path: '/api/carelogs/upload', tag: 'Carelogs', summary: 'Upload a carelog CSV export',
+    multipart: {
+      ...UPLOAD_FIELDS,
+      loadStrategy: { type: 'string', enum: ['row', 'copy'], description: 'copy stages each batch with COPY (default row)' }
+    },
+    responses: UPLOAD_RESPONSES
+  },
+  {
+    method: 'get', path: '/api/carelogs/:id', tag: 'Carelogs', summary: 'Get a carelog',
+    request: carelogsSchemas.getById, responses: { 200: dataResponse('The carelog', ref('Carelog')) }
+  },
+  {
+    method: 'post', path: '/api/carelogs', tag: 'Carelogs', summary: 'Create a carelog',
+    request: carelogsSchemas.create, responses: { 201: dataResponse('The created carelog', ref('Carelog')) }
+  },
+  {
+    method: 'put', path: '/api/carelogs/:id', tag: 'Carelogs', summary: 'Update a carelog',
+    request: carelogsSchemas.update,
+    responses: {
+      200: dataResponse('The updated carelog', ref('Carelog')),
+      409: errorResponse('The status change is not allowed, or the status changed during the update')
+    }
+  },
+  {
+    method: 'delete', path: '/api/carelogs/:id', tag: 'Carelogs', summary: 'Soft delete a carelog',
+    request: carelogsSchemas.delete, responses: { 200: messageResponse('Carelog deleted') }
+  },
+  {
+    method: 'post', path: '/api/carelogs/:id/start', tag: 'Carelogs', summary: 'Start a scheduled visit',
+    request: carelogsSchemas.start, responses: TRANSITION_RESPONSES
+  },
+  {
+    method: 'post', path: '/api/carelogs/:id/complete', tag: 'Carelogs', summary: 'Complete a visit in progress',
+    request: carelogsSchemas.complete, responses: TRANSITION_RESPONSES
+  },
+  {
+    method: 'post', path: '/api/carelogs/:id/cancel', tag: 'Carelogs', summary: 'Cancel a scheduled visit or one in progress',
+    request: carelogsSchemas.cancel, responses: TRANSITION_RESPONSES
+  },
+  {
+    method: 'post', path: '/api/carelogs/:id/no-show', tag: 'Carelogs', summary: 'Mark a scheduled visit as a no-show',
+    request: carelogsSchemas.noShow, responses: TRANSITION_RESPONSES
+  }
+];
+
+const analyticsOperations: ApiOperation[] = [
+  {
+    method: 'get', path: '/api/carelogs/analytics/top-caregivers', tag: 'Analytics', summary: 'Rank caregivers by performance score',
+    request: carelogsSchemas.topCaregivers,
+    responses: { 200: dataResponse('Ranked caregivers', { type: 'array', items: ref('TopCaregiverRank') }) }
+  },
+  {
+    method: 'get', path: '/api/carelogs/analytics/low-reliability', tag: 'Analytics', summary: 'Rank caregivers by reliability issues',
+    request: carelogsSchemas.lowReliability,
+    responses: { 200: dataResponse('Ranked caregivers', { type: 'array', items: ref('LowReliabilityRank') }) }
+  },
+  {
+    method: 'get', path: '/api/carelogs/analytics/overtime', tag: 'Analytics', summary: 'Rank caregivers by overtime',
+    request: carelogsSchemas.overtime,
+    responses: { 200: dataResponse('Ranked caregivers', { type: 'array', items: ref('OvertimeCaregiverRank') }) }
+  },
+  {
+    method: 'get', path: '/api/carelogs/analytics/weekly-hours', tag: 'Analytics', summary: 'Hours and overtime per caregiver and local week',
+    request: carelogsSchemas.weeklyHours,
+    responses: { 200: dataResponse('Weekly hours', { type: 'array', items: ref('WeeklyHoursRow') }) }
+  },
+  {
+    method: 'get', path: '/api/carelogs/analytics/clock-methods', tag: 'Analytics', summary: 'Visits per clock method and manual overrides',
+    request: carelogsSchemas.clockMethods,
+    responses: { 200: dataResponse('Clock method breakdown', { type: 'array', items: ref('ClockMethodBreakdown') }) }
+  },
+  {
+    method: 'get', path: '/api/carelogs/analytics/franchise-performance', tag: 'Analytics', summary: 'Visit completion and punctuality per franchisor',
+    request: carelogsSchemas.franchisePerformance,
+    responses: { 200: dataResponse('Franchisors', { type: 'array', items: ref('FranchisePerformanceRow') }) }
+  },
+  {
+    method: 'get', path: '/api/carelogs/analytics/detailed-comments', tag: 'Analytics', summary: 'Visits with long caregiver comments',
+    request: carelogsSchemas.detailedComments,
+    responses: { 200: dataResponse('Visits', { type: 'array', items: ref('DetailedCommentRow') }) }
+  },
+  {
+    method: 'post', path: '/api/carelogs/analytics/:query/export', tag: 'Analytics', summary: 'Queue an export of an analytics query',
+    description: 'The rows are fetched from GET /api/jobs/{id}/result once the job succeeded',
+    request: {
+      ...carelogsSchemas.exportAnalytics,
+      params: { query: { ...carelogsSchemas.exportAnalytics.params.query, enum: ANALYTICS_QUERIES } }
+    },
+    responses: { 202: acceptedResponse(), 404: errorResponse('Unknown analytics query') }
+  }
+];
+
+const etlOperations: ApiOperation[] = [
+  {
+    method: 'get', path: '/api/etl/runs', tag: 'ETL', summary: 'ETL run history, most recent first',
+    request: { query: { ...PAGE_QUERY, entity: ETL_ENTITY, status: { type: 'string', enum: Object.values(ETLRunStatus) } } },
+    responses: { 200: pageResponse('ETL runs', ref('ETLRun')) }
+  },
+  {
+    method: 'get', path: '/api/etl/runs/:id', tag: 'ETL', summary: 'Get an ETL run',
+    request: { params: ID_PARAMS }, responses: { 200: dataResponse('The run', ref('ETLRun')) }
+  },
+  {
+    method: 'get', path: '/api/etl/runs/:id/errors', tag: 'ETL', summary: 'Failing rows of a run',
+    request: {
+      params: ID_PARAMS,
+      query: { ...PAGE_QUERY, phase: { type: 'string', enum: ['transform', 'load'] }, error_type: { type: 'string' } }
+    },
+    responses: { 200: pageResponse('Row errors', ref('ETLRowError')) }
+  },
+  {
+    method: 'get', path: '/api/etl/runs/:id/diff', tag: 'ETL', summary: 'Dry-run diff of a validate-only run',
+    request: {
+      params: ID_PARAMS,
+      query: { ...PAGE_QUERY, action: { type: 'string', enum: Object.values(DiffAction) }, format: FORMAT_QUERY }
+    },
+    responses: {
+      200: {
+        description: 'The diff; format=csv downloads every entry',
+        content: {
+          ...dataResponse('', ref('ETLRunDiff')).content,
+          ...csvResponse('').content
+        }
+      }
+    }
+  },
+  {
+    method: 'get', path: '/api/etl/quarantine', tag: 'ETL', summary: 'Quarantined rows',
+    request: {
+      query: {
+        ...PAGE_QUERY,
+        entity: ETL_ENTITY,
+        status: { type: 'string', enum: Object.values(QuarantineStatus) },
+        etl_run_id: { type: 'integer', min: 1 }
+      }
+    },
+    responses: { 200: pageResponse('Quarantined rows', ref('QuarantineRow')) }
+  },
+  {
+    method: 'get', path: '/api/etl/quarantine/:id', tag: 'ETL', summary: 'Get a quarantined row',
+    request: { params: ID_PARAMS }, responses: { 200: dataResponse('The row', ref('QuarantineRow')) }
+  },
+  {
+    method: 'patch', path: '/api/etl/quarantine/:id', tag: 'ETL', summary: 'Correct fields of a pending row',
+    request: {
+      params: ID_PARAMS,
+      body: { raw_payload: { type: 'object', required: true, description: 'Fields to set; null removes a field' } }
+    },
+    responses: { 200: dataResponse('The corrected row', ref('QuarantineRow')) }
+  },
+  {
+    method: 'post', path: '/api/etl/quarantine/:id/replay', tag: 'ETL', summary: 'Re-run a pending row through transform and load',
+    request: { params: ID_PARAMS, body: { mode: LOAD_MODE } },
+    responses: {
+      200: dataResponse('The replay result', ref('QuarantineReplayResult')),
+      422: errorResponse('The replay failed; data holds the replay result')
+    }
+  },
+  {
+    method: 'post', path: '/api/etl/quarantine/:id/discard', tag: 'ETL', summary: 'Stop offering a pending row for replay',
+    request: { params: ID_PARAMS }, responses: { 200: dataResponse('The discarded row', ref('QuarantineRow')) }
+  }
+];
+
+const jobOperations: ApiOperation[] = [
+  {
+    method: 'get', path: '/api/jobs', tag: 'Jobs', summary: 'Background jobs, most recent first',
+    request: {
+      query: {
+        ...PAGE_QUERY,
+        type: { type: 'string', enum: Object.values(JobType) },
+        status: { type: 'string', enum: Object.values(JobStatus) }
+      }
+    },
+    responses: { 200: pageResponse('Jobs', ref('BackgroundJob')) }
+  },
+  {
+    method: 'get', path: '/api/jobs/:id', tag: 'Jobs', summary: 'Status, attempts, progress and result summary of a job',
+    request: { params: ID_PARAMS }, responses: { 200: dataResponse('The job', ref('BackgroundJob')) }
+  },
+  {
+    method: 'get', path: '/api/jobs/:id/result', tag: 'Jobs', summary: 'Result of a succeeded job',
+    request: { params: ID_PARAMS, query: { format: { ...FORMAT_QUERY, description: 'csv downloads the rows of an export job' } } },
+    responses: {
+      200: {
+        description: 'The job result',
+        content: {
+          ...dataResponse('', { description: 'Output of the job handler' }).content,
+          ...csvResponse('').content
+        }
+      },
+      409: errorResponse('The job has not succeeded')
+    }
+  }
+];
+
+const dataQualityOperations: ApiOperation[] = [
+  {
+    method: 'post', path: '/api/data-quality/runs', tag: 'Data Quality', summary: 'Queue a data-quality profile',
+    responses: { 202: acceptedResponse() }
+  },
+  {
+    method: 'get', path: '/api/data-quality/runs', tag: 'Data Quality', summary: 'Data-quality runs, most recent first',
+    request: {
+      query: {
+        ...PAGE_QUERY,
+        status: { type: 'string', enum: Object.values(DataQualityRunStatus) },
+        etl_run_id: { type: 'integer', min: 1 }
+      }
+    },
+    responses: { 200: pageResponse('Runs', ref('DataQualityRun')) }
+  },
+  {
+    method: 'get', path: '/api/data-quality/runs/:id', tag: 'Data Quality', summary: 'A run with its metrics',
+    request: { params: ID_PARAMS, query: { flagged: { type: 'boolean', description: 'true keeps only flagged metrics' } } },
+    responses: { 200: dataResponse('The run', ref('DataQualityReport')) }
+  },
+  {
+    method: 'get', path: '/api/data-quality/trends', tag: 'Data Quality', summary: 'One metric across runs, oldest first',
+    request: {
+      query: {
+        table: { type: 'string', required: true },
+        metric: { type: 'string', required: true },
+        column: { type: 'string' },
+        limit: { type: 'integer', min: 1 }
+      }
+    },
+    responses: { 200: dataResponse('Trend points', { type: 'array', items: ref('DataQualityTrendPoint') }) }
+  },
+  {
+    method: 'get', path: '/api/data-quality/thresholds', tag: 'Data Quality', summary: 'Thresholds in effect',
+    responses: { 200: dataResponse('Thresholds', { type: 'array', items: ref('DataQualityThreshold') }) }
+  }
+];
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get', path: '/health', tag: 'Health', summary: 'Liveness check including a database ping',
+    responses: { 200: dataResponse('Database reachable', ref('HealthStatus')), 503: errorResponse('Database unavailable') }
+  },
+  ...caregiverOperations,
+  ...carelogOperations,
+  ...analyticsOperations,
+  ...etlOperations,
+  ...jobOperations,
+  ...dataQualityOperations,
+  {
+    method: 'get', path: '/openapi.json', tag: 'Docs', summary: 'This OpenAPI document',
+    responses: { 200: { description: 'OpenAPI 3 document', content: { 'application/json': { schema: { type: 'object' } } } } }
+  },
+  {
+    method: 'get', path: '/docs', tag: 'Docs', summary: 'Interactive API documentation',
+    responses: { 200: { description: 'Swagger UI page', content: { 'text/html': { schema: { type: 'string' } } } } }
+  }
+];
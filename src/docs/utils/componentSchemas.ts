@@ -0,0 +1,438 @@
+import { JSONSchema, OpenAPIResponse } from '../models/openapi';
+import { ApiErrorCode } from '../../shared/types/api-types';
+import { CAREGIVER_STATUSES, GENDERS, PROFILE_STATUSES } from '../../caregiver/models/caregiver';
+import { CaregiverMergeStatus } from '../../caregiver/models/caregiverMerge';
+import { CarelogStatus, ClockMethod } from '../../carelogs/models/carelogs';
+import { ETLRunStatus } from '../../etl/models/etlRun';
+import { DiffAction } from '../../etl/models/etlDiff';
+import { QuarantineStatus } from '../../etl/models/etlQuarantine';
+import { JobStatus, JobType } from '../../jobs/models/backgroundJob';
+import { DataQualityRunStatus } from '../../quality/models/dataQuality';
+
+/**
+ * Response schemas of the OpenAPI document, one per model or API type
+ * Enums are read from the models, so a new status or job type shows up in the spec without editing this file
+ */
+
+const integer: JSONSchema = { type: 'integer' };
+const number: JSONSchema = { type: 'number' };
+const string: JSONSchema = { type: 'string' };
+const boolean: JSONSchema = { type: 'boolean' };
+const date: JSONSchema = { type: 'string', format: 'date' };
+const dateTime: JSONSchema = { type: 'string', format: 'date-time' };
+const anyObject: JSONSchema = { type: 'object', additionalProperties: true };
+/** COUNT and numeric columns, which Postgres returns as strings */
+const numeric: JSONSchema = { type: 'string', description: 'Numeric value as a string (Postgres bigint/numeric)' };
+
+const nullable = (schema: JSONSchema): JSONSchema =>
+  schema.enum ? { ...schema, enum: [...schema.enum, null], nullable: true } : { ...schema, nullable: true };
+const arrayOf = (items: JSONSchema): JSONSchema => ({ type: 'array', items });
+const enumOf = (values: readonly string[]): JSONSchema => ({ type: 'string', enum: [...values] });
+
+export const ref = (name: string): JSONSchema => ({ $ref: `#/components/schemas/${name}` });
+
+function object(properties: Record<string, JSONSchema>, required: string[] = []): JSONSchema {
+  return required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties };
+}
+
+const ETL_ENTITIES = ['caregivers', 'carelogs'];
+
+export const COMPONENT_SCHEMAS: Record<string, JSONSchema> = {
+  // Envelopes
+  ApiFieldError: object({
+    location: enumOf(['params', 'query', 'body']),
+    field: { type: 'string', description: 'Empty for a problem with the body as a whole' },
+    message: string
+  }, ['location', 'field', 'message']),
+  ApiError: object({
+    success: { type: 'boolean', enum: [false] },
+    error: string,
+    code: enumOf(Object.values(ApiErrorCode)),
+    details: { ...arrayOf(ref('ApiFieldError')), description: 'Every invalid field, with code validation_failed' },
+    data: { description: 'Partial result of a failed operation, e.g. the run summary of a failed upload' }
+  }, ['success', 'error', 'code']),
+  ApiMessage: object({
+    success: { type: 'boolean', enum: [true] },
+    message: string
+  }, ['success', 'message']),
+  PaginationMeta: object({
+    limit: integer,
+    offset: integer,
+    count: { type: 'integer', description: 'Items in this page; fewer than limit means it is the last page' },
+    total: { type: 'integer', description: 'Items matching the filters, when include_total=true' }
+  }, ['limit', 'offset', 'count']),
+  CursorPaginationMeta: object({
+    limit: integer,
+    count: integer,
+    next_cursor: { ...nullable(string), description: 'Pass as cursor for the next page; null on the last page' },
+    prev_cursor: { ...nullable(string), description: 'Pass as cursor for the previous page; null on the first page' },
+    total: { type: 'integer', description: 'Items matching the filters, when include_total=true' }
+  }, ['limit', 'count', 'next_cursor', 'prev_cursor']),
+  JobAccepted: object({
+    job_id: integer,
+    status: enumOf(Object.values(JobStatus)),
+    status_url: { type: 'string', description: 'Poll until status is succeeded or failed' }
+  }, ['job_id', 'status', 'status_url']),
+  HealthStatus: object({ status: { type: 'string', enum: ['ok'] } }, ['status']),
+
+  // Caregivers
+  Caregiver: object({
+    id: integer,
+    franchisor_id: integer,
+    agency_id: integer,
+    profile_id: integer,
+    external_id: integer,
+    applicant_status: nullable(string),
+    status: enumOf(CAREGIVER_STATUSES),
+    merged_into_id: { ...nullable(integer), description: 'Surviving caregiver, when this one was merged into it' },
+    created_at: dateTime,
+    updated_at: dateTime,
+    location_id: nullable(integer),
+    subdomain: nullable(string),
+    first_name: string,
+    last_name: string,
+    email: nullable(string),
+    phone_number: nullable(string),
+    gender: nullable(enumOf(GENDERS)),
+    applicant: boolean,
+    birthday_date: nullable(date),
+    onboarding_date: nullable(date),
+    sstatus: { ...enumOf(PROFILE_STATUSES), description: 'Profile status' },
+    certification_level: nullable(string),
+    external_system_id: nullable(string),
+    system_name: nullable(string),
+    location_name: nullable(string)
+  }, ['id']),
+  CaregiverMerge: object({
+    id: integer,
+    survivor_id: integer,
+    duplicate_id: integer,
+    status: enumOf(Object.values(CaregiverMergeStatus)),
+    score: nullable(number),
+    reason: nullable(string),
+    previous_status: nullable(string),
+    carelog_ids: arrayOf(integer),
+    parent_ids: arrayOf(integer),
+    redirected_caregiver_ids: arrayOf(integer),
+    merged_at: dateTime,
+    undone_at: nullable(dateTime)
+  }, ['id', 'survivor_id', 'duplicate_id', 'status']),
+
+  // Carelogs
+  Carelog: object({
+    id: integer,
+    franchisor_id: nullable(integer),
+    agency_id: nullable(integer),
+    caregiver_id: integer,
+    parent_id: nullable(integer),
+    start_datetime: dateTime,
+    end_datetime: dateTime,
+    clock_in_actual_datetime: nullable(dateTime),
+    clock_out_actual_datetime: nullable(dateTime),
+    clock_in_method: nullable(enumOf(Object.values(ClockMethod))),
+    clock_out_method: nullable(enumOf(Object.values(ClockMethod))),
+    status: enumOf(Object.values(CarelogStatus)),
+    cancellation_reason: nullable(string),
+    split: boolean,
+    external_id: nullable(string),
+    general_comment_char_count: integer,
+    created_at: dateTime,
+    updated_at: dateTime
+  }, ['id', 'caregiver_id', 'start_datetime', 'end_datetime', 'status']),
+
+  // Analytics rows, one per query in ANALYTICS_QUERIES
+  TopCaregiverRank: object({
+    id: integer,
+    caregiver_name: string,
+    email: nullable(string),
+    certification_level: nullable(string),
+    total_visits: numeric,
+    avg_visit_minutes: numeric,
+    total_visit_minutes: numeric,
+    avg_clock_in_deviation_minutes: numeric,
+    on_time_count: numeric,
+    on_time_percentage: numeric,
+    performance_score: numeric
+  }),
+  LowReliabilityRank: object({
+    id: integer,
+    caregiver_name: string,
+    email: nullable(string),
+    phone_number: nullable(string),
+    total_visits: numeric,
+    late_arrivals: numeric,
+    cancellations: numeric,
+    early_departures: numeric,
+    late_arrival_percentage: numeric,
+    cancellation_percentage: numeric,
+    reliability_issues_count: numeric
+  }),
+  OvertimeCaregiverRank: object({
+    id: integer,
+    caregiver_name: string,
+    email: nullable(string),
+    phone_number: nullable(string),
+    total_visits: numeric,
+    total_overtime_minutes: numeric,
+    overtime_visits: numeric,
+    avg_overtime_minutes_per_visit: numeric,
+    overtime_percentage: numeric
+  }),
+  WeeklyHoursRow: object({
+    id: integer,
+    caregiver_name: string,
+    time_zone: string,
+    week_start: date,
+    total_visits: numeric,
+    total_hours: numeric,
+    overtime_hours: numeric
+  }),
+  ClockMethodBreakdown: {
+    ...object({
+      caregiver_id: integer,
+      caregiver_name: string,
+      agency_id: nullable(integer),
+      agency_name: nullable(string),
+      total_visits: numeric,
+      manual_override_visits: numeric,
+      manual_override_percentage: nullable(numeric)
+    }),
+    description: 'caregiver_* or agency_* is set depending on groupBy; clock_in_<method> and clock_out_<method> hold the visit counts',
+    additionalProperties: numeric
+  },
+  FranchisePerformanceRow: object({
+    id: integer,
+    name: string,
+    total_visits: numeric,
+    completed_visits: numeric,
+    completion_percentage: nullable(numeric),
+    total_overtime_minutes: numeric,
+    late_arrivals: numeric,
+    late_arrival_percentage: nullable(numeric)
+  }),
+  DetailedCommentRow: object({
+    id: integer,
+    general_comment_char_count: integer,
+    start_datetime: dateTime,
+    end_datetime: dateTime,
+    status: enumOf(Object.values(CarelogStatus)),
+    caregiver_name: string,
+    franchisor_name: nullable(string),
+    agency_name: nullable(string)
+  }),
+
+  // ETL
+  ETLSummary: object({
+    success: boolean,
+    extractedCount: integer,
+    transformedCount: integer,
+    loadedCount: integer,
+    errorCount: integer,
+    errors: arrayOf(string),
+    loadResults: anyObject,
+    duration: { type: 'integer', description: 'Milliseconds' },
+    runId: nullable(integer),
+    watermark: anyObject,
+    diff: anyObject
+  }, ['success']),
+  ETLRun: object({
+    id: integer,
+    entity: enumOf(ETL_ENTITIES),
+    source_type: enumOf(['csv', 'api', 'database', 'records']),
+    source_path: nullable(string),
+    status: enumOf(Object.values(ETLRunStatus)),
+    load_mode: nullable(string),
+    validate_only: boolean,
+    parent_run_id: nullable(integer),
+    started_at: dateTime,
+    finished_at: nullable(dateTime),
+    extracted_count: integer,
+    transformed_count: integer,
+    loaded_count: integer,
+    error_count: integer,
+    errors_by_type: { type: 'object', additionalProperties: integer },
+    pipeline_errors: arrayOf(string),
+    diff_summary: nullable(ref('DiffSummary')),
+    created_at: dateTime,
+    updated_at: dateTime
+  }, ['id', 'entity', 'source_type', 'status']),
+  ETLRowError: object({
+    id: integer,
+    etl_run_id: integer,
+    phase: enumOf(['transform', 'load']),
+    row_index: nullable(integer),
+    error_type: nullable(string),
+    error_message: string,
+    raw_payload: nullable(anyObject),
+    created_at: dateTime
+  }, ['id', 'etl_run_id', 'phase', 'error_message']),
+  DiffSummary: {
+    ...object(Object.fromEntries(Object.values(DiffAction).map(action => [action, integer]))),
+    description: 'Row count per diff action'
+  },
+  ETLDiffEntry: object({
+    row_index: nullable(integer),
+    action: enumOf(Object.values(DiffAction)),
+    match_key: nullable(string),
+    existing_id: nullable(integer),
+    changes: nullable(arrayOf(object({ field: string, before: {}, after: {} }))),
+    message: nullable(string)
+  }, ['action']),
+  ETLRunDiff: object({
+    run_id: integer,
+    entity: enumOf(ETL_ENTITIES),
+    mode: nullable(string),
+    summary: nullable(ref('DiffSummary')),
+    entries: arrayOf(ref('ETLDiffEntry'))
+  }),
+  QuarantineRow: object({
+    id: integer,
+    etl_run_id: nullable(integer),
+    entity: enumOf(ETL_ENTITIES),
+    row_index: nullable(integer),
+    raw_payload: anyObject,
+    error_message: string,
+    status: enumOf(Object.values(QuarantineStatus)),
+    replay_count: integer,
+    last_replay_run_id: nullable(integer),
+    last_replay_error: nullable(string),
+    resolved_at: nullable(dateTime),
+    created_at: dateTime,
+    updated_at: dateTime
+  }, ['id', 'entity', 'raw_payload', 'error_message', 'status']),
+  QuarantineReplayResult: object({
+    success: boolean,
+    quarantine: ref('QuarantineRow'),
+    original_run_id: nullable(integer),
+    replay_run_id: nullable(integer),
+    error: string
+  }, ['success', 'quarantine']),
+
+  // Background jobs
+  BackgroundJob: object({
+    id: integer,
+    type: enumOf(Object.values(JobType)),
+    status: enumOf(Object.values(JobStatus)),
+    payload: anyObject,
+    result: { description: 'Output of the job handler once it succeeded; GET /api/jobs/{id} shows a summary' },
+    progress: nullable(anyObject),
+    attempts: integer,
+    max_attempts: integer,
+    run_at: dateTime,
+    locked_by: nullable(string),
+    locked_at: nullable(dateTime),
+    last_error: nullable(string),
+    started_at: nullable(dateTime),
+    finished_at: nullable(dateTime),
+    created_at: dateTime,
+    updated_at: dateTime
+  }, ['id', 'type', 'status']),
+
+  // Data quality
+  DataQualityRun: object({
+    id: integer,
+    etl_run_id: nullable(integer),
+    trigger: enumOf(['manual', 'etl']),
+    status: enumOf(Object.values(DataQualityRunStatus)),
+    metric_count: integer,
+    flagged_count: integer,
+    error_message: nullable(string),
+    started_at: dateTime,
+    finished_at: nullable(dateTime)
+  }, ['id', 'trigger', 'status']),
+  DataQualityMetric: object({
+    id: integer,
+    run_id: integer,
+    table_name: string,
+    column_name: nullable(string),
+    category: enumOf(['volume', 'completeness', 'validity', 'integrity', 'visits']),
+    metric: string,
+    row_count: integer,
+    failing_count: integer,
+    rate: number,
+    details: nullable(anyObject),
+    flagged: boolean,
+    flag_reasons: arrayOf(string)
+  }),
+  DataQualityReport: {
+    allOf: [ref('DataQualityRun'), object({ metrics: arrayOf(ref('DataQualityMetric')) }, ['metrics'])]
+  },
+  DataQualityTrendPoint: object({
+    run_id: integer,
+    etl_run_id: nullable(integer),
+    started_at: dateTime,
+    table_name: string,
+    column_name: nullable(string),
+    metric: string,
+    row_count: integer,
+    failing_count: integer,
+    rate: number,
+    flagged: boolean
+  }),
+  DataQualityThreshold: object({
+    table: string,
+    column: string,
+    metric: string,
+    category: string,
+    max_rate: number,
+    max_count: integer,
+    max_increase: number
+  })
+};
+
+// Responses
+
+const JSON_MEDIA_TYPE = 'application/json';
+
+function jsonResponse(description: string, schema: JSONSchema): OpenAPIResponse {
+  return { description, content: { [JSON_MEDIA_TYPE]: { schema } } };
+}
+
+/**
+ * `{ success: true, data }` answer
+ */
+export function dataResponse(description: string, data: JSONSchema): OpenAPIResponse {
+  return jsonResponse(description, object({ success: { type: 'boolean', enum: [true] }, data }, ['success', 'data']));
+}
+
+/**
+ * List answer with `pagination` (offset pagination unless another schema is given)
+ */
+export function pageResponse(description: string, item: JSONSchema, pagination: JSONSchema = ref('PaginationMeta')): OpenAPIResponse {
+  return jsonResponse(description, object({
+    success: { type: 'boolean', enum: [true] },
+    data: arrayOf(item),
+    pagination
+  }, ['success', 'data', 'pagination']));
+}
+
+export function messageResponse(description: string): OpenAPIResponse {
+  return jsonResponse(description, ref('ApiMessage'));
+}
+
+/**
+ * `202` answer of endpoints that queue a background job
+ */
+export function acceptedResponse(description: string = 'Job queued; poll status_url'): OpenAPIResponse {
+  return {
+    ...dataResponse(description, ref('JobAccepted')),
+    headers: { Location: { description: 'Status URL of the job', schema: string } }
+  };
+}
+
+export function errorResponse(description: string): OpenAPIResponse {
+  return jsonResponse(description, ref('ApiError'));
+}
+
+export function csvResponse(description: string): OpenAPIResponse {
+  return { description, content: { 'text/csv': { schema: string } } };
+}
+
+/**
+ * Errors most routes can answer with, referenced by the builder
+ */
+export const COMPONENT_RESPONSES: Record<string, OpenAPIResponse> = {
+  BadRequest: errorResponse('Invalid request; a request not matching the route schema has code validation_failed and details'),
+  NotFound: errorResponse('Not found'),
+  InternalError: errorResponse('Unexpected server or database error')
+};
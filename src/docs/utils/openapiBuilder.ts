@@ -0,0 +1,159 @@
+import { ApiOperation, JSONSchema, OpenAPIDocument } from '../models/openapi';
+import { FieldSchema, FieldSchemas } from '../../shared/utils/requestValidation';
+import { COMPONENT_RESPONSES, COMPONENT_SCHEMAS } from './componentSchemas';
+import { API_OPERATIONS, API_TAGS } from './apiOperations';
+
+const OPENAPI_VERSION = '3.0.3';
+
+/**
+ * Build the OpenAPI document of every operation in the catalog
+ * Request parameters and bodies come from the same schemas the routes validate against
+ */
+export function buildOpenAPIDocument(operations: ApiOperation[] = API_OPERATIONS): OpenAPIDocument {
+  const document: OpenAPIDocument = {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'Caregiver Analytics API',
+      version: '1.0.0',
+      description: 'Caregiver and carelog CRUD, visit analytics, ETL uploads and background jobs. ' +
+        'Every JSON answer uses the `{ success, data | error }` envelope.'
+    },
+    tags: API_TAGS,
+    paths: {},
+    components: { schemas: COMPONENT_SCHEMAS, responses: COMPONENT_RESPONSES }
+  };
+
+  operations.forEach(operation => {
+    const path = toOpenAPIPath(operation.path);
+    document.paths[path] = { ...document.paths[path], [operation.method]: buildOperation(operation) };
+  });
+
+  return document;
+}
+
+/**
+ * Express `/:id` parameters become OpenAPI `/{id}` templates
+ */
+export function toOpenAPIPath(expressPath: string): string {
+  return expressPath.replace(/:(\w+)/g, '{$1}');
+}
+
+function buildOperation(operation: ApiOperation): Record<string, any> {
+  const { request = {}, multipart } = operation;
+  const built: Record<string, any> = { tags: [operation.tag], summary: operation.summary };
+  if (operation.description) {
+    built.description = operation.description;
+  }
+
+  const parameters = [
+    ...toParameters('path', request.params || {}),
+    ...toParameters('query', request.query || {})
+  ];
+  if (parameters.length > 0) {
+    built.parameters = parameters;
+  }
+
+  if (multipart) {
+    const formFields = toObjectSchema({ ...multipart, file: { type: 'string', required: true, description: 'The CSV file' } });
+    formFields.properties.file.format = 'binary';
+    built.requestBody = { required: true, content: { 'multipart/form-data': { schema: formFields } } };
+  } else if (request.body) {
+    const body = toObjectSchema(request.body);
+    if (request.nonEmptyBody) {
+      body.minProperties = 1;
+    }
+    built.requestBody = { required: !!body.required || !!request.nonEmptyBody, content: { 'application/json': { schema: body } } };
+  }
+
+  built.responses = { ...operation.responses };
+  // Errors shared by most routes; the catalog only lists the route-specific ones
+  if (!built.responses[400] && (parameters.length > 0 || built.requestBody)) {
+    built.responses[400] = { $ref: '#/components/responses/BadRequest' };
+  }
+  if (!built.responses[404] && request.params) {
+    built.responses[404] = { $ref: '#/components/responses/NotFound' };
+  }
+  if (!built.responses[500] && operation.path.startsWith('/api/')) {
+    built.responses[500] = { $ref: '#/components/responses/InternalError' };
+  }
+
+  return built;
+}
+
+function toParameters(location: 'path' | 'query', fields: FieldSchemas): Record<string, any>[] {
+  return Object.entries(fields).map(([name, field]) => {
+    const parameter: Record<string, any> = {
+      name,
+      in: location,
+      required: location === 'path' || !!field.required,
+      schema: toJSONSchema({ ...field, nullable: false })
+    };
+    if (field.description) {
+      parameter.description = field.description;
+    }
+    return parameter;
+  });
+}
+
+function toObjectSchema(fields: FieldSchemas): JSONSchema {
+  const required = Object.keys(fields).filter(name => fields[name].required);
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(fields).map(([name, field]) => [name, toJSONSchema(field)])),
+    additionalProperties: false
+  };
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  return schema;
+}
+
+/**
+ * JSON Schema of a request field; string bounds are lengths, number bounds are values
+ */
+export function toJSONSchema(field: FieldSchema): JSONSchema {
+  const schema: JSONSchema = {};
+
+  switch (field.type) {
+    case 'integer':
+    case 'number':
+    case 'boolean':
+      schema.type = field.type;
+      break;
+    case 'object':
+      schema.type = 'object';
+      schema.additionalProperties = true;
+      break;
+    case 'date':
+      Object.assign(schema, { type: 'string', format: 'date' });
+      break;
+    case 'datetime':
+      Object.assign(schema, { type: 'string', format: 'date-time' });
+      break;
+    case 'email':
+      Object.assign(schema, { type: 'string', format: 'email' });
+      break;
+    default:
+      schema.type = 'string';
+  }
+
+  const isNumber = field.type === 'integer' || field.type === 'number';
+  if (field.min !== undefined) {
+    schema[isNumber ? 'minimum' : 'minLength'] = field.min;
+  }
+  if (field.max !== undefined) {
+    schema[isNumber ? 'maximum' : 'maxLength'] = field.max;
+  }
+  if (field.enum) {
+    schema.enum = [...field.enum];
+  }
+  if (field.nullable) {
+    schema.nullable = true;
+    // OpenAPI 3.0 only accepts null for an enum that lists it
+    schema.enum?.push(null);
+  }
+  if (field.description) {
+    schema.description = field.description;
+  }
+  return schema;
+}
@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { ETLQuarantineService } from '../services/ETLQuarantineService';
+import { sendData, sendError, sendPage } from '../../shared/utils/apiResponse';
+import { errorMessage } from '../../shared/utils/errors';
+
+export class ETLQuarantineController {
+  constructor(private quarantineService: ETLQuarantineService) { }
+
+  async getQuarantinedRows(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit = 50, offset = 0, entity, status, etl_run_id } = req.query;
+      const options = {
+        limit: parseInt(limit as string) || 50,
+        offset: parseInt(offset as string) || 0,
+        entity: entity as string,
+        status: status as string,
+        etl_run_id: etl_run_id ? parseInt(etl_run_id as string) : undefined
+      };
+      const rows = await this.quarantineService.getQuarantinedRows(options);
+      sendPage(res, rows, options);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async getQuarantinedRowById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid quarantine ID');
+        return;
+      }
+
+      const row = await this.quarantineService.getQuarantinedRowById(id);
+      if (!row) {
+        sendError(res, 404, 'Quarantined row not found');
+        return;
+      }
+
+      sendData(res, row);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async patchQuarantinedRow(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid quarantine ID');
+        return;
+      }
+
+      const row = await this.quarantineService.patchRawPayload(id, req.body?.raw_payload);
+      if (!row) {
+        sendError(res, 404, 'Quarantined row not found');
+        return;
+      }
+
+      sendData(res, row);
+    } catch (error) {
+      sendError(res, 400, errorMessage(error));
+    }
+  }
+
+  async replayQuarantinedRow(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid quarantine ID');
+        return;
+      }
+
+      const mode = req.body?.mode === 'upsert' ? 'upsert' : 'insert';
+      const result = await this.quarantineService.replay(id, mode);
+      if (!result) {
+        sendError(res, 404, 'Quarantined row not found');
+        return;
+      }
+
+      if (!result.success) {
+        sendError(res, 422, result.error || 'Replay failed', result);
+        return;
+      }
+      sendData(res, result);
+    } catch (error) {
+      sendError(res, 400, errorMessage(error));
+    }
+  }
+
+  async discardQuarantinedRow(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid quarantine ID');
+        return;
+      }
+
+      const row = await this.quarantineService.discard(id);
+      if (!row) {
+        sendError(res, 404, 'Quarantined row not found');
+        return;
+      }
+
+      sendData(res, row);
+    } catch (error) {
+      sendError(res, 400, errorMessage(error));
+    }
+  }
+}
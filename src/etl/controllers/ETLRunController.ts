@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { ETLRunService } from '../services/ETLRunService';
+import { formatDiffAsCSV } from '../utils/diffReport';
+import { sendData, sendError, sendPage } from '../../shared/utils/apiResponse';
+import { errorMessage } from '../../shared/utils/errors';
+
+export class ETLRunController {
+  constructor(private etlRunService: ETLRunService) { }
+
+  async getRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit = 20, offset = 0, entity, status } = req.query;
+      const options = {
+        limit: parseInt(limit as string) || 20,
+        offset: parseInt(offset as string) || 0,
+        entity: entity as string,
+        status: status as string
+      };
+      const runs = await this.etlRunService.getRuns(options);
+      sendPage(res, runs, options);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async getRunById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid ETL run ID');
+        return;
+      }
+
+      const run = await this.etlRunService.getRunById(id);
+      if (!run) {
+        sendError(res, 404, 'ETL run not found');
+        return;
+      }
+
+      sendData(res, run);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async getRunErrors(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid ETL run ID');
+        return;
+      }
+
+      const run = await this.etlRunService.getRunById(id);
+      if (!run) {
+        sendError(res, 404, 'ETL run not found');
+        return;
+      }
+
+      const { limit = 50, offset = 0, phase, error_type } = req.query;
+      const options = {
+        limit: parseInt(limit as string) || 50,
+        offset: parseInt(offset as string) || 0,
+        phase: phase as string,
+        error_type: error_type as string
+      };
+      const errors = await this.etlRunService.getRunErrors(id, options);
+      sendPage(res, errors, options);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async getRunDiff(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid ETL run ID');
+        return;
+      }
+
+      const { format = 'json', limit = 100, offset = 0, action } = req.query;
+      if (format !== 'json' && format !== 'csv') {
+        sendError(res, 400, 'Format must be json or csv');
+        return;
+      }
+
+      const run = await this.etlRunService.getRunById(id);
+      if (!run) {
+        sendError(res, 404, 'ETL run not found');
+        return;
+      }
+      if (!run.diff_summary) {
+        sendError(res, 404, 'No dry-run diff recorded for this ETL run');
+        return;
+      }
+
+      if (format === 'csv') {
+        const entries = await this.etlRunService.getRunDiff(id, { action: action as string });
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="etl-run-${id}-diff.csv"`);
+        res.send(formatDiffAsCSV(entries));
+        return;
+      }
+
+      const entries = await this.etlRunService.getRunDiff(id, {
+        limit: parseInt(limit as string) || 100,
+        offset: parseInt(offset as string) || 0,
+        action: action as string
+      });
+      sendData(res, {
+        run_id: run.id,
+        entity: run.entity,
+        mode: run.load_mode,
+        summary: run.diff_summary,
+        entries
+      });
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { ETLEntity } from './etlRun';
+
+/**
+ * Declarative mapping from a source export format to the fields the ETL transform expects.
+ * Loaded from a JSON or YAML file and merged over the entity's built-in default mapping.
+ */
+export interface ColumnMappingConfig {
+  /** Entity the mapping is written for; checked against the pipeline it is used with */
+  entity?: ETLEntity;
+
+  /** Free-text description of the source format */
+  description?: string;
+
+  /** Target field -> source column, or candidate columns where the first non-empty one wins */
+  columns?: Record<string, string | string[]>;
+
+  /** Target field -> value used when the source leaves it empty */
+  defaults?: Record<string, string | number | boolean | null>;
+
+  /** Target field -> source value -> canonical value (e.g. status codes, gender letters, clock method codes) */
+  valueMaps?: Record<string, Record<string, string | number | boolean | null>>;
+
+  /** Target field -> date format of the source column (tokens: YYYY, YY, MM, M, DD, D, HH, H, mm, ss, SSS) */
+  dateFormats?: Record<string, string>;
+
+  /** Target fields that must be present after defaults are applied */
+  required?: string[];
+}
+
+/**
+ * Outcome of mapping one source row
+ */
+export interface MappedRecord {
+  /** Row keyed by target field names */
+  record: Record<string, any>;
+
+  /** Problems that reject the row (missing required fields, unparseable dates) */
+  errors: string[];
+}
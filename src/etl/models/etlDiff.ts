@@ -0,0 +1,79 @@
+import { ETLEntity } from './etlRun';
+
+/**
+ * What a validate-only run found a source row would do to the database
+ */
+export enum DiffAction {
+  NEW = 'new',
+  UPDATE = 'update',
+  UNCHANGED = 'unchanged',
+  DUPLICATE = 'duplicate',
+  FK_FAILURE = 'fk_failure',
+  INVALID = 'invalid'
+}
+
+/**
+ * Before/after value of one column a row would update
+ */
+export interface DiffFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+/**
+ * A single source row of a validate-only run and the change it would make
+ * Unchanged rows are only counted in the run's diff summary
+ */
+export interface ETLDiffEntry {
+  /** Primary key - unique identifier for the diff entry */
+  id: number;
+
+  /** Foreign key to etl_runs table */
+  etl_run_id: number;
+
+  /** 1-based position of the row in the source */
+  row_index?: number | null;
+
+  /** Change the row would make if the run had loaded it */
+  action: DiffAction;
+
+  /** Natural key the row was matched on (external ID or email) */
+  match_key?: string | null;
+
+  /** ID of the existing row that would be updated or that the row duplicates */
+  existing_id?: number | null;
+
+  /** Field-level before/after values, for updates */
+  changes?: DiffFieldChange[] | null;
+
+  /** Why the row is a duplicate, FK failure or invalid */
+  message?: string | null;
+
+  created_at?: Date | string;
+}
+
+/**
+ * Row counts per diff action
+ */
+export type DiffSummary = Record<DiffAction, number>;
+
+/**
+ * Interface for recording a diff entry (excludes generated fields)
+ */
+export type CreateETLDiffEntryData = Omit<ETLDiffEntry, 'id' | 'etl_run_id' | 'created_at'>;
+
+/**
+ * Structured diff produced by a validate-only run
+ */
+export interface ETLDryRunDiff {
+  entity: ETLEntity;
+
+  /** Load mode the diff was computed for (insert, upsert) */
+  mode: string;
+
+  summary: DiffSummary;
+
+  /** Every row except unchanged ones, in source order */
+  entries: CreateETLDiffEntryData[];
+}
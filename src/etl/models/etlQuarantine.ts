@@ -0,0 +1,81 @@
+import { ETLEntity } from './etlRun';
+
+/**
+ * Quarantined row model - a source row rejected during transformation,
+ * kept with its raw fields so it can be corrected and replayed
+ */
+export interface ETLQuarantineRow {
+  /** Primary key - unique identifier for the quarantined row */
+  id: number;
+
+  /** Foreign key to etl_runs table - the run that rejected the row */
+  etl_run_id?: number | null;
+
+  /** Target entity the row belongs to */
+  entity: ETLEntity;
+
+  /** 1-based position of the row in the original source */
+  row_index?: number | null;
+
+  /** Raw source fields; corrected in place before a replay */
+  raw_payload: Record<string, any>;
+
+  /** Validation error that caused the rejection */
+  error_message: string;
+
+  /** Current status of the row */
+  status: QuarantineStatus;
+
+  /** Number of replay attempts */
+  replay_count: number;
+
+  /** Foreign key to etl_runs table - the most recent replay run */
+  last_replay_run_id?: number | null;
+
+  /** Error reported by the most recent failed replay */
+  last_replay_error?: string | null;
+
+  /** Timestamp when the row was replayed successfully or discarded */
+  resolved_at?: Date | string | null;
+
+  created_at?: Date | string;
+  updated_at?: Date | string;
+}
+
+/**
+ * Enum for quarantine status values
+ */
+export enum QuarantineStatus {
+  PENDING = 'pending',
+  REPLAYED = 'replayed',
+  DISCARDED = 'discarded'
+}
+
+/**
+ * Interface for quarantining a rejected row (excludes generated and replay fields)
+ */
+export interface CreateQuarantineRowData {
+  row_index?: number | null;
+  raw_payload: Record<string, any>;
+  error_message: string;
+}
+
+/**
+ * Result of replaying a quarantined row
+ */
+export interface QuarantineReplayResult {
+  /** Whether the corrected row was loaded */
+  success: boolean;
+
+  /** The quarantined row after the replay */
+  quarantine: ETLQuarantineRow;
+
+  /** Run that rejected the row originally */
+  original_run_id?: number | null;
+
+  /** Run created by the replay */
+  replay_run_id?: number | null;
+
+  /** Error reported by the replay, if it failed */
+  error?: string;
+}
@@ -0,0 +1,145 @@
+import { DiffSummary } from './etlDiff';
+
+/**
+ * ETL run model representing one execution of runETLPipeline
+ * Persisted so loads can be audited after the process exits
+ */
+export interface ETLRun {
+  /** Primary key - unique identifier for the run */
+  id: number;
+
+  /** Target entity loaded by the run (caregivers, carelogs) */
+  entity: ETLEntity;
+
+  /** Source type the data was extracted from ('records' for in-memory rows such as quarantine replays) */
+  source_type: ETLSourceType;
+
+  /** File path, URL or query the data was extracted from */
+  source_path?: string | null;
+
+  /** Current status of the run */
+  status: ETLRunStatus;
+
+  /** Load mode used by the run (insert, upsert); for validate-only runs, the mode the diff was computed for */
+  load_mode?: string | null;
+
+  /** Whether the run only validated data without loading it */
+  validate_only: boolean;
+
+  /** Run this one was derived from (e.g. the original run of a replayed quarantine row) */
+  parent_run_id?: number | null;
+
+  /** Timestamp when the run started */
+  started_at: Date | string;
+
+  /** Timestamp when the run finished (null while running) */
+  finished_at?: Date | string | null;
+
+  /** Number of records read from the source */
+  extracted_count: number;
+
+  /** Number of records that passed transformation */
+  transformed_count: number;
+
+  /** Number of records written to the database */
+  loaded_count: number;
+
+  /** Number of row-level and pipeline-level errors */
+  error_count: number;
+
+  /** Row error counts grouped by category (e.g. "Foreign Key Error") */
+  errors_by_type: Record<string, number>;
+
+  /** Phase-level failures that are not tied to a single row (extract, pipeline) */
+  pipeline_errors: string[];
+
+  /** Row counts per diff action, for validate-only runs */
+  diff_summary?: DiffSummary | null;
+
+  created_at?: Date | string;
+  updated_at?: Date | string;
+}
+
+/**
+ * A single source row that failed transformation or loading during a run
+ */
+export interface ETLRowError {
+  /** Primary key - unique identifier for the row error */
+  id: number;
+
+  /** Foreign key to etl_runs table */
+  etl_run_id: number;
+
+  /** Pipeline phase the row failed in */
+  phase: 'transform' | 'load';
+
+  /** 1-based position of the row in the source */
+  row_index?: number | null;
+
+  /** Error category (e.g. "Validation Error", "Duplicate Error") */
+  error_type?: string | null;
+
+  /** Error message reported by the pipeline */
+  error_message: string;
+
+  /** Raw source row as extracted, before transformation */
+  raw_payload?: Record<string, any> | null;
+
+  created_at?: Date | string;
+}
+
+/**
+ * Enum for ETL run status values
+ */
+export enum ETLRunStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed'
+}
+
+export type ETLEntity = 'caregivers' | 'carelogs';
+
+export type ETLSourceType = 'csv' | 'api' | 'database' | 'records';
+
+/**
+ * Interface for starting a run record (excludes counts and generated fields)
+ */
+export interface StartETLRunData {
+  entity: ETLEntity;
+  source_type: ETLSourceType;
+  source_path?: string | null;
+  load_mode?: string | null;
+  validate_only?: boolean;
+  parent_run_id?: number | null;
+}
+
+/**
+ * Interface for completing a run record
+ */
+export interface FinishETLRunData {
+  status: ETLRunStatus.SUCCEEDED | ETLRunStatus.FAILED;
+  extracted_count: number;
+  transformed_count: number;
+  loaded_count: number;
+  error_count: number;
+  errors_by_type: Record<string, number>;
+  pipeline_errors: string[];
+  diff_summary?: DiffSummary | null;
+}
+
+/**
+ * Running counts passed to a pipeline's `onProgress` callback after each batch
+ */
+export interface ETLProgress {
+  runId: number | null;
+  batchNumber: number;
+  extractedCount: number;
+  transformedCount: number;
+  loadedCount: number;
+  errorCount: number;
+}
+
+/**
+ * Interface for recording a failed row (excludes generated fields)
+ */
+export type CreateETLRowErrorData = Omit<ETLRowError, 'id' | 'etl_run_id' | 'created_at'>;
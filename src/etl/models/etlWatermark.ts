@@ -0,0 +1,87 @@
+import { ETLEntity } from './etlRun';
+
+/**
+ * High-watermark of an incremental ETL source
+ * Each run extracts only records newer than the stored value and advances it after a successful load
+ */
+export interface ETLWatermark {
+  /** Primary key - unique identifier for the watermark */
+  id: number;
+
+  /** Target entity the source feeds */
+  entity: ETLEntity;
+
+  /** Stable name of the source (API URL, SQL query or an explicit key) */
+  source_key: string;
+
+  /** Source column the watermark is taken from (e.g. updated_at, id) */
+  watermark_column: string;
+
+  /** How watermark values are compared */
+  watermark_type: WatermarkType;
+
+  /** Highest value loaded so far, stored as text (ISO timestamp or integer) */
+  watermark_value: string;
+
+  /** Foreign key to etl_runs table - the run that last advanced the watermark */
+  last_run_id?: number | null;
+
+  created_at?: Date | string;
+  updated_at?: Date | string;
+}
+
+/**
+ * Watermark kinds: a timestamp such as updated_at, or a monotonic id
+ */
+export type WatermarkType = 'timestamp' | 'id';
+
+/**
+ * Incremental extraction settings for an API or database source
+ */
+export interface IncrementalSourceOptions {
+  /** Column holding the watermark in the extracted rows (e.g. updated_at, id) */
+  column: string;
+
+  /** How values of the column are compared (default 'timestamp') */
+  type?: WatermarkType;
+
+  /** API query parameter the watermark is sent as (defaults to the column name) */
+  param?: string;
+
+  /** Stable name for the source; defaults to the API URL or the SQL query */
+  key?: string;
+}
+
+/**
+ * Interface for advancing a watermark (excludes generated fields)
+ */
+export interface AdvanceWatermarkData {
+  watermark_column: string;
+  watermark_type: WatermarkType;
+  watermark_value: string;
+  last_run_id?: number | null;
+}
+
+/**
+ * Watermark of a source as resolved at the start of a pipeline run
+ */
+export interface WatermarkState {
+  key: string;
+  column: string;
+  type: WatermarkType;
+  /** API query parameter name */
+  param: string;
+  /** Stored value before the run (null on the first run) */
+  previous: string | null;
+}
+
+/**
+ * Watermark outcome reported in a pipeline result
+ */
+export interface WatermarkResult {
+  key: string;
+  previous: string | null;
+  current: string | null;
+  /** Whether the run stored a new value */
+  advanced: boolean;
+}
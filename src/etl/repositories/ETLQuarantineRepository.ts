@@ -0,0 +1,142 @@
+import { Knex } from 'knex';
+import { ETLEntity } from '../models/etlRun';
+import { CreateQuarantineRowData, ETLQuarantineRow, QuarantineStatus } from '../models/etlQuarantine';
+import { errorMessage } from '../../shared/utils/errors';
+
+/**
+ * Repository for rows rejected during ETL transformation (etl_quarantine)
+ */
+export class ETLQuarantineRepository {
+  constructor(private readonly knex: Knex) { }
+
+  /**
+   * Store rejected rows of a run as pending quarantine entries
+   */
+  async quarantineRows(runId: number | null, entity: ETLEntity, rows: CreateQuarantineRowData[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    try {
+      const now = new Date();
+      await this.knex.batchInsert('etl_quarantine', rows.map(row => ({
+        etl_run_id: runId,
+        entity,
+        row_index: row.row_index ?? null,
+        raw_payload: JSON.stringify(row.raw_payload),
+        error_message: row.error_message,
+        status: QuarantineStatus.PENDING,
+        replay_count: 0,
+        created_at: now,
+        updated_at: now
+      })), 500);
+    } catch (error) {
+      console.error('Error in ETLQuarantineRepository.quarantineRows:', error);
+      throw new Error(`Failed to quarantine rows: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find quarantined rows, oldest first
+   */
+  async findAll(options: {
+    limit?: number;
+    offset?: number;
+    entity?: string;
+    status?: string;
+    etl_run_id?: number;
+  } = {}): Promise<ETLQuarantineRow[]> {
+    try {
+      const { limit = 50, offset = 0, entity, status, etl_run_id } = options;
+
+      let query = this.knex('etl_quarantine')
+        .select('*')
+        .orderBy('id', 'asc')
+        .limit(limit)
+        .offset(offset);
+
+      if (entity) {
+        query = query.where('entity', entity);
+      }
+      if (status) {
+        query = query.where('status', status);
+      }
+      if (etl_run_id) {
+        query = query.where('etl_run_id', etl_run_id);
+      }
+
+      return await query;
+    } catch (error) {
+      console.error('Error in ETLQuarantineRepository.findAll:', error);
+      throw new Error(`Failed to fetch quarantined rows: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find a quarantined row by ID
+   */
+  async findById(id: number): Promise<ETLQuarantineRow | null> {
+    try {
+      const row = await this.knex('etl_quarantine').where('id', id).first();
+      return row || null;
+    } catch (error) {
+      console.error('Error in ETLQuarantineRepository.findById:', error);
+      throw new Error(`Failed to fetch quarantined row: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Replace the raw fields of a quarantined row
+   */
+  async updateRawPayload(id: number, rawPayload: Record<string, any>): Promise<ETLQuarantineRow | null> {
+    try {
+      await this.knex('etl_quarantine')
+        .where('id', id)
+        .update({ raw_payload: JSON.stringify(rawPayload), updated_at: new Date() });
+
+      return this.findById(id);
+    } catch (error) {
+      console.error('Error in ETLQuarantineRepository.updateRawPayload:', error);
+      throw new Error(`Failed to update quarantined row: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Record the outcome of a replay attempt
+   */
+  async recordReplay(id: number, outcome: { success: boolean; runId: number | null; error?: string }): Promise<ETLQuarantineRow | null> {
+    try {
+      const now = new Date();
+      await this.knex('etl_quarantine')
+        .where('id', id)
+        .update({
+          status: outcome.success ? QuarantineStatus.REPLAYED : QuarantineStatus.PENDING,
+          replay_count: this.knex.raw('replay_count + 1'),
+          last_replay_run_id: outcome.runId,
+          last_replay_error: outcome.success ? null : outcome.error || null,
+          resolved_at: outcome.success ? now : null,
+          updated_at: now
+        });
+
+      return this.findById(id);
+    } catch (error) {
+      console.error('Error in ETLQuarantineRepository.recordReplay:', error);
+      throw new Error(`Failed to record replay: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Mark a quarantined row as discarded so it is no longer offered for replay
+   */
+  async discard(id: number): Promise<ETLQuarantineRow | null> {
+    try {
+      const now = new Date();
+      await this.knex('etl_quarantine')
+        .where('id', id)
+        .update({ status: QuarantineStatus.DISCARDED, resolved_at: now, updated_at: now });
+
+      return this.findById(id);
+    } catch (error) {
+      console.error('Error in ETLQuarantineRepository.discard:', error);
+      throw new Error(`Failed to discard quarantined row: ${errorMessage(error)}`);
+    }
+  }
+}
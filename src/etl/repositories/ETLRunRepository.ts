@@ -0,0 +1,248 @@
+import { Knex } from 'knex';
+import {
+  CreateETLRowErrorData,
+  ETLRowError,
+  ETLRun,
+  ETLRunStatus,
+  FinishETLRunData,
+  StartETLRunData
+} from '../models/etlRun';
+import { CreateETLDiffEntryData, DiffAction, ETLDiffEntry } from '../models/etlDiff';
+import { JobQueueRepository } from '../../jobs/repositories/JobQueueRepository';
+import { JobStatus, JobType } from '../../jobs/models/backgroundJob';
+import { errorMessage } from '../../shared/utils/errors';
+
+/**
+ * Repository for the ETL audit tables (etl_runs, etl_row_errors, etl_run_diffs)
+ * Written by the entity repositories on every runETLPipeline call
+ */
+export class ETLRunRepository {
+  constructor(private readonly knex: Knex) { }
+
+  /**
+   * Create a run record in 'running' state and return its ID
+   */
+  async startRun(runData: StartETLRunData): Promise<number> {
+    try {
+      const now = new Date();
+      const [{ id }] = await this.knex('etl_runs')
+        .insert({
+          entity: runData.entity,
+          source_type: runData.source_type,
+          source_path: runData.source_path ?? null,
+          load_mode: runData.load_mode ?? null,
+          validate_only: runData.validate_only ?? false,
+          parent_run_id: runData.parent_run_id ?? null,
+          status: ETLRunStatus.RUNNING,
+          started_at: now,
+          created_at: now,
+          updated_at: now
+        })
+        .returning('id');
+
+      return id;
+    } catch (error) {
+      console.error('Error in ETLRunRepository.startRun:', error);
+      throw new Error(`Failed to start ETL run: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Store final counts for a run together with its failing rows and, for validate-only runs, its diff
+   */
+  async finishRun(
+    id: number,
+    summary: FinishETLRunData,
+    rowErrors: CreateETLRowErrorData[] = [],
+    diffEntries: CreateETLDiffEntryData[] = []
+  ): Promise<void> {
+    try {
+      await this.knex.transaction(async (trx) => {
+        const now = new Date();
+        await trx('etl_runs')
+          .where('id', id)
+          .update({
+            status: summary.status,
+            extracted_count: summary.extracted_count,
+            transformed_count: summary.transformed_count,
+            loaded_count: summary.loaded_count,
+            error_count: summary.error_count,
+            errors_by_type: JSON.stringify(summary.errors_by_type),
+            pipeline_errors: JSON.stringify(summary.pipeline_errors),
+            diff_summary: summary.diff_summary ? JSON.stringify(summary.diff_summary) : null,
+            finished_at: now,
+            updated_at: now
+          });
+
+        if (rowErrors.length > 0) {
+          const rows = rowErrors.map(rowError => ({
+            etl_run_id: id,
+            phase: rowError.phase,
+            row_index: rowError.row_index ?? null,
+            error_type: rowError.error_type ?? null,
+            error_message: rowError.error_message,
+            raw_payload: rowError.raw_payload ? JSON.stringify(rowError.raw_payload) : null,
+            created_at: now
+          }));
+
+          await trx.batchInsert('etl_row_errors', rows, 500);
+        }
+
+        if (diffEntries.length > 0) {
+          const rows = diffEntries.map(entry => ({
+            etl_run_id: id,
+            row_index: entry.row_index ?? null,
+            action: entry.action,
+            match_key: entry.match_key ?? null,
+            existing_id: entry.existing_id ?? null,
+            changes: entry.changes ? JSON.stringify(entry.changes) : null,
+            message: entry.message ?? null,
+            created_at: now
+          }));
+
+          await trx.batchInsert('etl_run_diffs', rows, 500);
+        }
+      });
+    } catch (error) {
+      console.error('Error in ETLRunRepository.finishRun:', error);
+      throw new Error(`Failed to finish ETL run: ${errorMessage(error)}`);
+    }
+
+    if (summary.status === ETLRunStatus.SUCCEEDED && summary.loaded_count > 0 && process.env.DATA_QUALITY_AFTER_ETL !== 'false') {
+      await this.queueDataQualityProfile(id);
+    }
+  }
+
+  /**
+   * Queue a data-quality profile of the loaded tables, unless one is already waiting (it will see this load too)
+   * A failure only warns: the run itself is recorded
+   */
+  private async queueDataQualityProfile(runId: number): Promise<void> {
+    try {
+      const queued = await this.knex('background_jobs')
+        .where({ type: JobType.DATA_QUALITY_PROFILE, status: JobStatus.QUEUED })
+        .first('id');
+      if (!queued) {
+        await new JobQueueRepository(this.knex).enqueue({
+          type: JobType.DATA_QUALITY_PROFILE,
+          payload: { etl_run_id: runId, trigger: 'etl' }
+        });
+      }
+    } catch (error) {
+      console.warn(`⚠️  Could not queue a data quality profile for ETL run ${runId}: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find runs, most recent first
+   */
+  async findAll(options: {
+    limit?: number;
+    offset?: number;
+    entity?: string;
+    status?: string;
+  } = {}): Promise<ETLRun[]> {
+    try {
+      const { limit = 50, offset = 0, entity, status } = options;
+
+      let query = this.knex('etl_runs')
+        .select('*')
+        .orderBy('started_at', 'desc')
+        .orderBy('id', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      if (entity) {
+        query = query.where('entity', entity);
+      }
+      if (status) {
+        query = query.where('status', status);
+      }
+
+      return await query;
+    } catch (error) {
+      console.error('Error in ETLRunRepository.findAll:', error);
+      throw new Error(`Failed to fetch ETL runs: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find a run by ID
+   */
+  async findById(id: number): Promise<ETLRun | null> {
+    try {
+      const run = await this.knex('etl_runs').where('id', id).first();
+      return run || null;
+    } catch (error) {
+      console.error('Error in ETLRunRepository.findById:', error);
+      throw new Error(`Failed to fetch ETL run: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find the failing rows of a run, in source order
+   */
+  async findRowErrors(runId: number, options: {
+    limit?: number;
+    offset?: number;
+    phase?: string;
+    error_type?: string;
+  } = {}): Promise<ETLRowError[]> {
+    try {
+      const { limit = 50, offset = 0, phase, error_type } = options;
+
+      let query = this.knex('etl_row_errors')
+        .select('*')
+        .where('etl_run_id', runId)
+        .orderBy('row_index', 'asc')
+        .orderBy('id', 'asc')
+        .limit(limit)
+        .offset(offset);
+
+      if (phase) {
+        query = query.where('phase', phase);
+      }
+      if (error_type) {
+        query = query.where('error_type', error_type);
+      }
+
+      return await query;
+    } catch (error) {
+      console.error('Error in ETLRunRepository.findRowErrors:', error);
+      throw new Error(`Failed to fetch ETL row errors: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find the dry-run diff entries of a run, in source order
+   * Without a limit every entry is returned (used for CSV exports)
+   */
+  async findDiffEntries(runId: number, options: {
+    limit?: number;
+    offset?: number;
+    action?: DiffAction;
+  } = {}): Promise<ETLDiffEntry[]> {
+    try {
+      const { limit, offset = 0, action } = options;
+
+      let query = this.knex('etl_run_diffs')
+        .select('*')
+        .where('etl_run_id', runId)
+        .orderBy('row_index', 'asc')
+        .orderBy('id', 'asc')
+        .offset(offset);
+
+      if (limit !== undefined) {
+        query = query.limit(limit);
+      }
+      if (action) {
+        query = query.where('action', action);
+      }
+
+      return await query;
+    } catch (error) {
+      console.error('Error in ETLRunRepository.findDiffEntries:', error);
+      throw new Error(`Failed to fetch ETL run diff: ${errorMessage(error)}`);
+    }
+  }
+}
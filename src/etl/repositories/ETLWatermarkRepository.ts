@@ -0,0 +1,51 @@
+import { Knex } from 'knex';
+import { ETLEntity } from '../models/etlRun';
+import { AdvanceWatermarkData, ETLWatermark } from '../models/etlWatermark';
+import { errorMessage } from '../../shared/utils/errors';
+
+/**
+ * Repository for incremental ETL high-watermarks (etl_watermarks)
+ */
+export class ETLWatermarkRepository {
+  constructor(private readonly knex: Knex) { }
+
+  /**
+   * Find the watermark of a source, or null if it has never been loaded
+   */
+  async find(entity: ETLEntity, sourceKey: string): Promise<ETLWatermark | null> {
+    try {
+      const watermark = await this.knex('etl_watermarks')
+        .where({ entity, source_key: sourceKey })
+        .first();
+      return watermark || null;
+    } catch (error) {
+      console.error('Error in ETLWatermarkRepository.find:', error);
+      throw new Error(`Failed to fetch watermark: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Store a new watermark value for a source, creating the record on first use
+   */
+  async advance(entity: ETLEntity, sourceKey: string, data: AdvanceWatermarkData): Promise<void> {
+    try {
+      const now = new Date();
+      await this.knex('etl_watermarks')
+        .insert({
+          entity,
+          source_key: sourceKey,
+          watermark_column: data.watermark_column,
+          watermark_type: data.watermark_type,
+          watermark_value: data.watermark_value,
+          last_run_id: data.last_run_id ?? null,
+          created_at: now,
+          updated_at: now
+        })
+        .onConflict(['entity', 'source_key'])
+        .merge(['watermark_column', 'watermark_type', 'watermark_value', 'last_run_id', 'updated_at']);
+    } catch (error) {
+      console.error('Error in ETLWatermarkRepository.advance:', error);
+      throw new Error(`Failed to advance watermark: ${errorMessage(error)}`);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { ETLRunController } from '../controllers/ETLRunController';
+import { ETLQuarantineController } from '../controllers/ETLQuarantineController';
+
+/**
+ * ETL run history and quarantine routes
+ */
+export function createETLRouter(controller: ETLRunController, quarantineController: ETLQuarantineController): Router {
+  const router = Router();
+
+  router.get('/runs', (req, res) => controller.getRuns(req, res));
+  router.get('/runs/:id', (req, res) => controller.getRunById(req, res));
+  router.get('/runs/:id/errors', (req, res) => controller.getRunErrors(req, res));
+  router.get('/runs/:id/diff', (req, res) => controller.getRunDiff(req, res));
+
+  router.get('/quarantine', (req, res) => quarantineController.getQuarantinedRows(req, res));
+  router.get('/quarantine/:id', (req, res) => quarantineController.getQuarantinedRowById(req, res));
+  router.patch('/quarantine/:id', (req, res) => quarantineController.patchQuarantinedRow(req, res));
+  router.post('/quarantine/:id/replay', (req, res) => quarantineController.replayQuarantinedRow(req, res));
+  router.post('/quarantine/:id/discard', (req, res) => quarantineController.discardQuarantinedRow(req, res));
+
+  return router;
+}
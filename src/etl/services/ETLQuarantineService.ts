@@ -0,0 +1,130 @@
+import { ETLQuarantineRepository } from '../repositories/ETLQuarantineRepository';
+import { ETLQuarantineRow, QuarantineReplayResult, QuarantineStatus } from '../models/etlQuarantine';
+import { CaregiverRepository } from '../../caregiver/repositories/CaregiverRepository';
+import { CarelogsRepository } from '../../carelogs/repositories/CarelogsRepository';
+import { errorMessage } from '../../shared/utils/errors';
+
+interface QuarantineListOptions {
+  limit?: number;
+  offset?: number;
+  entity?: string;
+  status?: string;
+  etl_run_id?: number;
+}
+
+export class ETLQuarantineService {
+  constructor(
+    private readonly quarantineRepository: ETLQuarantineRepository,
+    private readonly caregiverRepository: CaregiverRepository,
+    private readonly carelogsRepository: CarelogsRepository
+  ) {}
+
+  async getQuarantinedRows(options: QuarantineListOptions = {}): Promise<ETLQuarantineRow[]> {
+    try {
+      const { limit = 50, offset = 0 } = options;
+
+      if (limit <= 0 || limit > 500) {
+        throw new Error('Limit must be between 1 and 500');
+      }
+      if (offset < 0) {
+        throw new Error('Offset must be non-negative');
+      }
+
+      return await this.quarantineRepository.findAll({ ...options, limit, offset });
+    } catch (error) {
+      console.error('Error in ETLQuarantineService.getQuarantinedRows:', error);
+      throw new Error(`Failed to get quarantined rows: ${errorMessage(error)}`);
+    }
+  }
+
+  async getQuarantinedRowById(id: number): Promise<ETLQuarantineRow | null> {
+    try {
+      if (!id || id <= 0) {
+        throw new Error('Valid quarantine ID is required');
+      }
+      return await this.quarantineRepository.findById(id);
+    } catch (error) {
+      console.error('Error in ETLQuarantineService.getQuarantinedRowById:', error);
+      throw new Error(`Failed to get quarantined row: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Merge corrected fields into the raw payload of a pending row
+   * A null value removes the field from the payload
+   */
+  async patchRawPayload(id: number, fields: Record<string, any>): Promise<ETLQuarantineRow | null> {
+    try {
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields) || Object.keys(fields).length === 0) {
+        throw new Error('raw_payload must be a non-empty object of fields to update');
+      }
+
+      const row = await this.quarantineRepository.findById(id);
+      if (!row) return null;
+      this.assertPending(row);
+
+      const rawPayload: Record<string, any> = { ...row.raw_payload };
+      for (const [field, value] of Object.entries(fields)) {
+        if (value === null) {
+          delete rawPayload[field];
+        } else {
+          rawPayload[field] = value;
+        }
+      }
+
+      return await this.quarantineRepository.updateRawPayload(id, rawPayload);
+    } catch (error) {
+      console.error('Error in ETLQuarantineService.patchRawPayload:', error);
+      throw new Error(`Failed to update quarantined row: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Replay a pending row through the entity's transform and load path
+   */
+  async replay(id: number, mode: 'insert' | 'upsert' = 'insert'): Promise<QuarantineReplayResult | null> {
+    try {
+      const row = await this.quarantineRepository.findById(id);
+      if (!row) return null;
+      this.assertPending(row);
+
+      const repository = row.entity === 'caregivers' ? this.caregiverRepository : this.carelogsRepository;
+      const outcome = await repository.replayRecord(
+        { ...row.raw_payload, _rowIndex: row.row_index || undefined },
+        { parentRunId: row.etl_run_id, mode }
+      );
+
+      const updated = await this.quarantineRepository.recordReplay(id, outcome);
+
+      return {
+        success: outcome.success,
+        quarantine: updated!,
+        original_run_id: row.etl_run_id,
+        replay_run_id: outcome.runId,
+        error: outcome.error
+      };
+    } catch (error) {
+      console.error('Error in ETLQuarantineService.replay:', error);
+      throw new Error(`Failed to replay quarantined row: ${errorMessage(error)}`);
+    }
+  }
+
+  async discard(id: number): Promise<ETLQuarantineRow | null> {
+    try {
+      const row = await this.quarantineRepository.findById(id);
+      if (!row) return null;
+      this.assertPending(row);
+
+      return await this.quarantineRepository.discard(id);
+    } catch (error) {
+      console.error('Error in ETLQuarantineService.discard:', error);
+      throw new Error(`Failed to discard quarantined row: ${errorMessage(error)}`);
+    }
+  }
+
+  private assertPending(row: ETLQuarantineRow): void {
+    if (row.status !== QuarantineStatus.PENDING) {
+      throw new Error(`Quarantined row ${row.id} is already ${row.status}`);
+    }
+  }
+}
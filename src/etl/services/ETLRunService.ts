@@ -0,0 +1,104 @@
+import { ETLRunRepository } from '../repositories/ETLRunRepository';
+import { ETLRowError, ETLRun } from '../models/etlRun';
+import { DiffAction, ETLDiffEntry } from '../models/etlDiff';
+import { errorMessage } from '../../shared/utils/errors';
+
+interface RunListOptions {
+  limit?: number;
+  offset?: number;
+  entity?: string;
+  status?: string;
+}
+
+interface RowErrorListOptions {
+  limit?: number;
+  offset?: number;
+  phase?: string;
+  error_type?: string;
+}
+
+interface DiffListOptions {
+  /** Omit to return every entry (CSV export) */
+  limit?: number;
+  offset?: number;
+  action?: string;
+}
+
+export class ETLRunService {
+  constructor(private readonly etlRunRepository: ETLRunRepository) {}
+
+  async getRuns(options: RunListOptions = {}): Promise<ETLRun[]> {
+    try {
+      const { limit = 20, offset = 0 } = options;
+
+      if (limit <= 0 || limit > 100) {
+        throw new Error('Limit must be between 1 and 100');
+      }
+      if (offset < 0) {
+        throw new Error('Offset must be non-negative');
+      }
+
+      return await this.etlRunRepository.findAll({ ...options, limit, offset });
+    } catch (error) {
+      console.error('Error in ETLRunService.getRuns:', error);
+      throw new Error(`Failed to get ETL runs: ${errorMessage(error)}`);
+    }
+  }
+
+  async getRunById(id: number): Promise<ETLRun | null> {
+    try {
+      if (!id || id <= 0) {
+        throw new Error('Valid ETL run ID is required');
+      }
+      return await this.etlRunRepository.findById(id);
+    } catch (error) {
+      console.error('Error in ETLRunService.getRunById:', error);
+      throw new Error(`Failed to get ETL run: ${errorMessage(error)}`);
+    }
+  }
+
+  async getRunErrors(runId: number, options: RowErrorListOptions = {}): Promise<ETLRowError[]> {
+    try {
+      const { limit = 50, offset = 0 } = options;
+
+      if (!runId || runId <= 0) {
+        throw new Error('Valid ETL run ID is required');
+      }
+      if (limit <= 0 || limit > 500) {
+        throw new Error('Limit must be between 1 and 500');
+      }
+      if (offset < 0) {
+        throw new Error('Offset must be non-negative');
+      }
+
+      return await this.etlRunRepository.findRowErrors(runId, { ...options, limit, offset });
+    } catch (error) {
+      console.error('Error in ETLRunService.getRunErrors:', error);
+      throw new Error(`Failed to get ETL run errors: ${errorMessage(error)}`);
+    }
+  }
+
+  async getRunDiff(runId: number, options: DiffListOptions = {}): Promise<ETLDiffEntry[]> {
+    try {
+      const { limit, offset = 0, action } = options;
+
+      if (!runId || runId <= 0) {
+        throw new Error('Valid ETL run ID is required');
+      }
+      if (limit !== undefined && (limit <= 0 || limit > 1000)) {
+        throw new Error('Limit must be between 1 and 1000');
+      }
+      if (offset < 0) {
+        throw new Error('Offset must be non-negative');
+      }
+      if (action && !Object.values(DiffAction).includes(action as DiffAction)) {
+        throw new Error(`Action must be one of: ${Object.values(DiffAction).join(', ')}`);
+      }
+
+      return await this.etlRunRepository.findDiffEntries(runId, { limit, offset, action: action as DiffAction });
+    } catch (error) {
+      console.error('Error in ETLRunService.getRunDiff:', error);
+      throw new Error(`Failed to get ETL run diff: ${errorMessage(error)}`);
+    }
+  }
+}
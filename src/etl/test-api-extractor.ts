@@ -0,0 +1,268 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import assert from 'assert';
+import { extractAllAPIPages, parseNextLink, retryDelayMs } from './utils/apiExtractor';
+import { BearerTokenAuth, OAuth2ClientCredentialsAuth } from './utils/apiAuth';
+
+// Tests for paginated / authenticated API extraction against a local mock HTTP server
+// Run with: npm run test:etl-api
+
+type Handler = (req: http.IncomingMessage, url: URL, res: http.ServerResponse, body: string) => void;
+
+const records = Array.from({ length: 7 }, (_, i) => ({ id: i + 1, name: `caregiver ${i + 1}` }));
+
+function sendJson(res: http.ServerResponse, status: number, body: any, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function withServer(handler: Handler, run: (baseUrl: string) => Promise<void>) {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => handler(req, new URL(req.url || '/', 'http://localhost'), res, body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await run(`http://127.0.0.1:${port}`);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+async function testCursorPagination() {
+  const seenCursors: Array<string | null> = [];
+
+  await withServer((req, url, res) => {
+    const cursor = url.searchParams.get('cursor');
+    seenCursors.push(cursor);
+    const start = cursor ? Number(cursor) : 0;
+    const next = start + 3 < records.length ? String(start + 3) : null;
+    sendJson(res, 200, { items: records.slice(start, start + 3), meta: { next_cursor: next } });
+  }, async (baseUrl) => {
+    const result = await extractAllAPIPages(`${baseUrl}/caregivers`, {
+      pagination: { type: 'cursor', cursorParam: 'cursor', cursorPath: 'meta.next_cursor' },
+      recordsPath: 'items'
+    });
+
+    assert.deepStrictEqual(result.map(r => r.id), [1, 2, 3, 4, 5, 6, 7]);
+    assert.deepStrictEqual(seenCursors, [null, '3', '6']);
+  });
+}
+
+async function testPagePagination() {
+  const seenPages: string[] = [];
+
+  await withServer((req, url, res) => {
+    const page = Number(url.searchParams.get('page'));
+    const perPage = Number(url.searchParams.get('per_page'));
+    seenPages.push(`${page}/${perPage}/${url.searchParams.get('updated_since')}`);
+    sendJson(res, 200, { data: records.slice((page - 1) * perPage, page * perPage) });
+  }, async (baseUrl) => {
+    const result = await extractAllAPIPages(`${baseUrl}/caregivers`, {
+      params: { updated_since: '2024-01-01' },
+      pagination: { type: 'page', pageSize: 3 }
+    });
+
+    assert.strictEqual(result.length, 7);
+    // The third page is short, so no fourth request is made
+    assert.deepStrictEqual(seenPages, ['1/3/2024-01-01', '2/3/2024-01-01', '3/3/2024-01-01']);
+  });
+}
+
+async function testLinkHeaderPagination() {
+  const requestedUrls: string[] = [];
+
+  await withServer((req, url, res) => {
+    requestedUrls.push(url.pathname + url.search);
+    const page = Number(url.searchParams.get('page') || '1');
+    const headers: Record<string, string> = page < 3
+      ? { Link: `</caregivers?page=${page + 1}>; rel="next", </caregivers?page=3>; rel="last"` }
+      : { Link: '</caregivers?page=1>; rel="first"' };
+    sendJson(res, 200, records.slice((page - 1) * 3, page * 3), headers);
+  }, async (baseUrl) => {
+    const result = await extractAllAPIPages(`${baseUrl}/caregivers`, { pagination: { type: 'link' } });
+
+    assert.strictEqual(result.length, 7);
+    assert.deepStrictEqual(requestedUrls, ['/caregivers', '/caregivers?page=2', '/caregivers?page=3']);
+  });
+}
+
+async function testRetryAfterIsHonored() {
+  let calls = 0;
+
+  await withServer((req, url, res) => {
+    calls++;
+    if (calls === 1) {
+      sendJson(res, 429, { error: 'rate limited' }, { 'Retry-After': '1' });
+      return;
+    }
+    sendJson(res, 200, records);
+  }, async (baseUrl) => {
+    const started = Date.now();
+    const result = await extractAllAPIPages(`${baseUrl}/caregivers`, { retry: { baseDelayMs: 10 } });
+
+    assert.strictEqual(result.length, 7);
+    assert.strictEqual(calls, 2);
+    assert.ok(Date.now() - started >= 950, 'should wait for Retry-After rather than the 10ms backoff');
+  });
+}
+
+async function testBackoffOnServerErrors() {
+  let calls = 0;
+
+  await withServer((req, url, res) => {
+    calls++;
+    if (calls <= 2) {
+      sendJson(res, calls === 1 ? 503 : 500, { error: 'unavailable' });
+      return;
+    }
+    sendJson(res, 200, records);
+  }, async (baseUrl) => {
+    const result = await extractAllAPIPages(`${baseUrl}/caregivers`, { retry: { baseDelayMs: 10 } });
+    assert.strictEqual(result.length, 7);
+    assert.strictEqual(calls, 3);
+  });
+}
+
+async function testGivesUpAfterMaxRetries() {
+  let calls = 0;
+
+  await withServer((req, url, res) => {
+    calls++;
+    sendJson(res, 502, { error: 'bad gateway' });
+  }, async (baseUrl) => {
+    await assert.rejects(
+      extractAllAPIPages(`${baseUrl}/caregivers`, { retry: { maxRetries: 2, baseDelayMs: 5 } }),
+      /status 502/
+    );
+    assert.strictEqual(calls, 3);
+  });
+}
+
+async function testClientErrorsAreNotRetried() {
+  let calls = 0;
+
+  await withServer((req, url, res) => {
+    calls++;
+    sendJson(res, 404, { error: 'not found' });
+  }, async (baseUrl) => {
+    await assert.rejects(extractAllAPIPages(`${baseUrl}/missing`, { retry: { baseDelayMs: 5 } }), /status 404/);
+    assert.strictEqual(calls, 1);
+  });
+}
+
+async function testBearerAuth() {
+  await withServer((req, url, res) => {
+    if (req.headers.authorization !== 'Bearer static-token') {
+      sendJson(res, 401, { error: 'unauthorized' });
+      return;
+    }
+    sendJson(res, 200, { data: records });
+  }, async (baseUrl) => {
+    const result = await extractAllAPIPages(`${baseUrl}/caregivers`, { auth: new BearerTokenAuth('static-token') });
+    assert.strictEqual(result.length, 7);
+
+    await assert.rejects(
+      extractAllAPIPages(`${baseUrl}/caregivers`, { auth: { type: 'bearer', token: 'wrong-token' } }),
+      /status 401/
+    );
+  });
+}
+
+async function testOAuth2ClientCredentials() {
+  let tokenRequests = 0;
+  const tokenBodies: URLSearchParams[] = [];
+  let revoked = false;
+
+  await withServer((req, url, res, body) => {
+    if (url.pathname === '/oauth/token') {
+      tokenRequests++;
+      tokenBodies.push(new URLSearchParams(body));
+      sendJson(res, 200, { access_token: `token-${tokenRequests}`, token_type: 'bearer', expires_in: 3600 });
+      return;
+    }
+
+    // The first token is revoked after the second page to exercise the 401 refresh
+    const page = Number(url.searchParams.get('page'));
+    if (page === 3 && req.headers.authorization === 'Bearer token-1') {
+      revoked = true;
+    }
+    const valid = req.headers.authorization === 'Bearer token-2' || (req.headers.authorization === 'Bearer token-1' && !revoked);
+    if (!valid) {
+      sendJson(res, 401, { error: 'invalid_token' });
+      return;
+    }
+    sendJson(res, 200, { data: records.slice((page - 1) * 3, page * 3) });
+  }, async (baseUrl) => {
+    const auth = new OAuth2ClientCredentialsAuth({
+      tokenUrl: `${baseUrl}/oauth/token`,
+      clientId: 'zingage',
+      clientSecret: 's3cret',
+      scope: 'caregivers.read'
+    });
+
+    const result = await extractAllAPIPages(`${baseUrl}/caregivers`, {
+      auth,
+      pagination: { type: 'page', pageSize: 3 }
+    });
+
+    assert.strictEqual(result.length, 7);
+    // One token for pages 1-2, a refreshed one after the 401 on page 3
+    assert.strictEqual(tokenRequests, 2);
+    assert.strictEqual(tokenBodies[0].get('grant_type'), 'client_credentials');
+    assert.strictEqual(tokenBodies[0].get('client_id'), 'zingage');
+    assert.strictEqual(tokenBodies[0].get('client_secret'), 's3cret');
+    assert.strictEqual(tokenBodies[0].get('scope'), 'caregivers.read');
+  });
+}
+
+async function testHelpers() {
+  assert.strictEqual(parseNextLink('<https://api.example.com/x?page=2>; rel="next"'), 'https://api.example.com/x?page=2');
+  assert.strictEqual(parseNextLink('<a>; rel="prev", <b>; rel="next last"'), 'b');
+  assert.strictEqual(parseNextLink('<a>; rel="last"'), null);
+  assert.strictEqual(parseNextLink(undefined), null);
+
+  assert.strictEqual(retryDelayMs('2', 0), 2000);
+  assert.strictEqual(retryDelayMs(undefined, 0, { baseDelayMs: 100 }), 100);
+  assert.strictEqual(retryDelayMs(undefined, 3, { baseDelayMs: 100 }), 800);
+  assert.strictEqual(retryDelayMs(undefined, 20, { baseDelayMs: 100, maxDelayMs: 5000 }), 5000);
+  const dateDelay = retryDelayMs(new Date(Date.now() + 3000).toUTCString(), 0);
+  assert.ok(dateDelay > 1000 && dateDelay <= 3000, `HTTP-date Retry-After gave ${dateDelay}ms`);
+}
+
+// Main test function
+async function runTests() {
+  const tests: Array<[string, () => Promise<void>]> = [
+    ['cursor pagination', testCursorPagination],
+    ['page-number pagination', testPagePagination],
+    ['Link header pagination', testLinkHeaderPagination],
+    ['429 honors Retry-After', testRetryAfterIsHonored],
+    ['5xx retried with backoff', testBackoffOnServerErrors],
+    ['gives up after maxRetries', testGivesUpAfterMaxRetries],
+    ['4xx not retried', testClientErrorsAreNotRetried],
+    ['static bearer auth', testBearerAuth],
+    ['OAuth2 client credentials', testOAuth2ClientCredentials],
+    ['Link / Retry-After helpers', testHelpers]
+  ];
+
+  console.log('Testing API extraction...\n');
+  let failed = 0;
+
+  for (const [name, test] of tests) {
+    try {
+      await test();
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${name}:`, error);
+    }
+  }
+
+  console.log(`\n${tests.length - failed}/${tests.length} API extraction tests passed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+runTests();
@@ -0,0 +1,135 @@
+import axios from 'axios';
+import { errorMessage } from '../../shared/utils/errors';
+
+/**
+ * Pluggable authentication for API extraction
+ */
+export interface APIAuthStrategy {
+  /** Headers added to every request */
+  getHeaders(): Promise<Record<string, string>>;
+
+  /** Drop cached credentials after a 401 so the next request fetches fresh ones */
+  invalidate?(): void;
+}
+
+/**
+ * Plain-object auth settings, e.g. from a pipeline config file
+ */
+export type APIAuthConfig =
+  | { type: 'bearer'; token: string }
+  | ({ type: 'oauth2_client_credentials' } & OAuth2ClientCredentialsConfig);
+
+export interface OAuth2ClientCredentialsConfig {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  audience?: string;
+  /** Send the client credentials as HTTP Basic auth instead of form fields (default 'body') */
+  credentialsIn?: 'body' | 'basic';
+  /** Refresh this many seconds before the token expires (default 30) */
+  expirySkewSeconds?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Static bearer token
+ */
+export class BearerTokenAuth implements APIAuthStrategy {
+  constructor(private readonly token: string) {
+    if (!token) {
+      throw new Error('Bearer token is required');
+    }
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${this.token}` };
+  }
+}
+
+/**
+ * OAuth2 client-credentials grant; the access token is cached until shortly before it expires
+ */
+export class OAuth2ClientCredentialsAuth implements APIAuthStrategy {
+  private accessToken: string | null = null;
+  private expiresAt = 0;
+  private pendingToken: Promise<string> | null = null;
+
+  constructor(private readonly config: OAuth2ClientCredentialsConfig) {
+    if (!config.tokenUrl || !config.clientId || !config.clientSecret) {
+      throw new Error('OAuth2 client credentials require tokenUrl, clientId and clientSecret');
+    }
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${await this.getAccessToken()}` };
+  }
+
+  invalidate(): void {
+    this.accessToken = null;
+    this.expiresAt = 0;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.expiresAt) {
+      return this.accessToken;
+    }
+
+    // Concurrent callers share one token request
+    if (!this.pendingToken) {
+      this.pendingToken = this.requestToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    return this.pendingToken;
+  }
+
+  private async requestToken(): Promise<string> {
+    const { tokenUrl, clientId, clientSecret, scope, audience, credentialsIn = 'body', expirySkewSeconds = 30 } = this.config;
+
+    const form = new URLSearchParams({ grant_type: 'client_credentials' });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (credentialsIn === 'basic') {
+      headers.Authorization = `Basic ${Buffer.from(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`).toString('base64')}`;
+    } else {
+      form.set('client_id', clientId);
+      form.set('client_secret', clientSecret);
+    }
+    if (scope) form.set('scope', scope);
+    if (audience) form.set('audience', audience);
+
+    try {
+      const response = await axios.post(tokenUrl, form.toString(), { headers, timeout: this.config.timeoutMs ?? 30000 });
+      const { access_token, expires_in } = response.data || {};
+      if (!access_token) {
+        throw new Error('Token response did not include an access_token');
+      }
+
+      const lifetimeSeconds = Number(expires_in) || 3600;
+      this.accessToken = access_token;
+      this.expiresAt = Date.now() + Math.max(0, lifetimeSeconds - expirySkewSeconds) * 1000;
+      return access_token;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new Error(`OAuth2 token request failed${status ? ` with status ${status}` : ''}: ${errorMessage(error)}`);
+    }
+  }
+}
+
+/**
+ * Build an auth strategy from a plain config object (strategies are passed through)
+ */
+export function createAPIAuth(auth: APIAuthStrategy | APIAuthConfig): APIAuthStrategy {
+  if ('getHeaders' in auth) {
+    return auth;
+  }
+
+  switch (auth.type) {
+    case 'bearer':
+      return new BearerTokenAuth(auth.token);
+    case 'oauth2_client_credentials':
+      return new OAuth2ClientCredentialsAuth(auth);
+    default:
+      throw new Error(`Unsupported API auth type: ${(auth as any).type}`);
+  }
+}
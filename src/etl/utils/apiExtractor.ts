@@ -0,0 +1,208 @@
+import axios, { AxiosResponse } from 'axios';
+import { APIAuthConfig, APIAuthStrategy, createAPIAuth } from './apiAuth';
+import { errorMessage } from '../../shared/utils/errors';
+
+/**
+ * How an API feed is split across requests
+ * - none: a single response holds every record
+ * - cursor: the response carries the next cursor (at `cursorPath`), sent back as `cursorParam`
+ * - page: `pageParam` is incremented until a page comes back empty (or short of `pageSize`)
+ * - link: follow the rel="next" URL of the Link response header
+ */
+export type APIPagination =
+  | { type: 'none' }
+  | { type: 'cursor'; cursorParam?: string; cursorPath?: string }
+  | { type: 'page'; pageParam?: string; startPage?: number; pageSizeParam?: string; pageSize?: number }
+  | { type: 'link' };
+
+export interface APIRetryOptions {
+  /** Retries per request on 429, 5xx and network errors (default 3) */
+  maxRetries?: number;
+  /** First backoff delay, doubled on every retry (default 500 ms) */
+  baseDelayMs?: number;
+  /** Upper bound for backoff and Retry-After waits (default 60 s) */
+  maxDelayMs?: number;
+}
+
+export interface APIExtractOptions {
+  headers?: Record<string, string>;
+  /** Query parameters sent with the first request (and every page for cursor/page pagination) */
+  params?: Record<string, any>;
+  pagination?: APIPagination;
+  auth?: APIAuthStrategy | APIAuthConfig;
+  retry?: APIRetryOptions;
+  /** Dot path of the records array in the response body (default: the body itself, or its `data` field) */
+  recordsPath?: string;
+  /** Per-request timeout (default 30 s) */
+  timeoutMs?: number;
+  /** Safety limit on the number of pages followed (default 10000) */
+  maxPages?: number;
+}
+
+/**
+ * Fetch every page of an API feed, yielding the records of one page at a time
+ */
+export async function* fetchAPIPages(url: string, options: APIExtractOptions = {}): AsyncGenerator<any[]> {
+  const pagination = options.pagination || { type: 'none' };
+  const maxPages = options.maxPages ?? 10000;
+  const auth = options.auth ? createAPIAuth(options.auth) : undefined;
+
+  let nextUrl: string | null = url;
+  let params: Record<string, any> | undefined = { ...(options.params || {}) };
+  if (pagination.type === 'page') {
+    params[pagination.pageParam || 'page'] = pagination.startPage ?? 1;
+    if (pagination.pageSize) {
+      params[pagination.pageSizeParam || 'per_page'] = pagination.pageSize;
+    }
+  }
+
+  for (let pageCount = 1; nextUrl; pageCount++) {
+    if (pageCount > maxPages) {
+      throw new Error(`Stopped after ${maxPages} pages; raise maxPages if the feed is larger`);
+    }
+
+    const response = await requestWithRetry(nextUrl, params, options, auth);
+    const records = extractRecords(response.data, options.recordsPath);
+    yield records;
+
+    switch (pagination.type) {
+      case 'cursor': {
+        const cursorParam = pagination.cursorParam || 'cursor';
+        const cursor = getPath(response.data, pagination.cursorPath || 'next_cursor');
+        const done = cursor === null || cursor === undefined || cursor === '' || cursor === params?.[cursorParam] || records.length === 0;
+        if (done) {
+          nextUrl = null;
+        } else {
+          params = { ...params, [cursorParam]: cursor };
+        }
+        break;
+      }
+      case 'page': {
+        const pageParam = pagination.pageParam || 'page';
+        const done = records.length === 0 || (pagination.pageSize !== undefined && records.length < pagination.pageSize);
+        if (done) {
+          nextUrl = null;
+        } else {
+          params = { ...params, [pageParam]: Number(params?.[pageParam]) + 1 };
+        }
+        break;
+      }
+      case 'link': {
+        const next = parseNextLink(response.headers['link']);
+        // The next link carries its own query string
+        nextUrl = next ? new URL(next, nextUrl).toString() : null;
+        params = undefined;
+        break;
+      }
+      default:
+        nextUrl = null;
+    }
+  }
+}
+
+/**
+ * Fetch every page of an API feed and return all records
+ */
+export async function extractAllAPIPages(url: string, options: APIExtractOptions = {}): Promise<any[]> {
+  const records: any[] = [];
+  for await (const page of fetchAPIPages(url, options)) {
+    records.push(...page);
+  }
+  return records;
+}
+
+/**
+ * Return the rel="next" URL of a Link header, if any
+ */
+export function parseNextLink(header: string | undefined): string | null {
+  if (!header) return null;
+
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]*)>(.*)/);
+    if (!match) continue;
+
+    const rel = match[2].match(/rel\s*=\s*"?([^";]+)"?/i);
+    if (rel && rel[1].trim().split(/\s+/).includes('next')) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Milliseconds to wait before retry number `attempt` (0-based): Retry-After when the server sent one,
+ * exponential backoff otherwise
+ */
+export function retryDelayMs(retryAfter: string | undefined, attempt: number, retry: APIRetryOptions = {}): number {
+  const { baseDelayMs = 500, maxDelayMs = 60000 } = retry;
+
+  if (retryAfter !== undefined && retryAfter !== null && retryAfter !== '') {
+    const seconds = Number(retryAfter);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(retryAfter).getTime() - Date.now();
+    if (!isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), maxDelayMs);
+    }
+  }
+
+  return Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+}
+
+async function requestWithRetry(
+  url: string,
+  params: Record<string, any> | undefined,
+  options: APIExtractOptions,
+  auth?: APIAuthStrategy
+): Promise<AxiosResponse> {
+  const maxRetries = options.retry?.maxRetries ?? 3;
+  let attempt = 0;
+  let reauthenticated = false;
+
+  while (true) {
+    try {
+      const authHeaders = auth ? await auth.getHeaders() : {};
+      return await axios.get(url, {
+        headers: { ...(options.headers || {}), ...authHeaders },
+        params,
+        timeout: options.timeoutMs ?? 30000
+      });
+    } catch (error) {
+      const response = axios.isAxiosError(error) ? error.response : undefined;
+      const status = response?.status;
+
+      // An expired or revoked token gets one refresh before the 401 is reported
+      if (status === 401 && auth?.invalidate && !reauthenticated) {
+        auth.invalidate();
+        reauthenticated = true;
+        continue;
+      }
+
+      const retryable = status === 429 || (status !== undefined && status >= 500) || (axios.isAxiosError(error) && !response);
+      if (!retryable || attempt >= maxRetries) {
+        throw new Error(`GET ${url} failed${status ? ` with status ${status}` : ''}: ${errorMessage(error)}`);
+      }
+
+      const delay = retryDelayMs(response?.headers?.['retry-after'], attempt, options.retry);
+      attempt++;
+      console.warn(`⚠ GET ${url} failed${status ? ` with status ${status}` : ''}, retry ${attempt}/${maxRetries} in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+function extractRecords(body: any, recordsPath?: string): any[] {
+  const records = recordsPath
+    ? getPath(body, recordsPath)
+    : Array.isArray(body) ? body : body?.data;
+
+  if (records === undefined || records === null) {
+    return [];
+  }
+  if (!Array.isArray(records)) {
+    throw new Error(`Expected an array of records${recordsPath ? ` at '${recordsPath}'` : ''} in the API response`);
+  }
+  return records;
+}
+
+function getPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => (current === null || current === undefined ? undefined : current[key]), value);
+}
@@ -0,0 +1,352 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { ETLEntity } from '../models/etlRun';
+import { ColumnMappingConfig, MappedRecord } from '../models/columnMapping';
+import { isValidTimeZone } from '../../shared/utils/timeZone';
+import { errorMessage } from '../../shared/utils/errors';
+
+/**
+ * Fields the transform step reads, per entity
+ */
+const TARGET_FIELDS: Record<ETLEntity, string[]> = {
+  caregivers: [
+    'franchisor_id', 'agency_id', 'location_id', 'subdomain', 'first_name', 'last_name', 'email',
+    'phone_number', 'gender', 'birthday_date', 'onboarding_date', 'certification_level', 'hourly_rate',
+    'applicant', 'applicant_status', 'sstatus', 'status', 'external_id', 'system_name'
+  ],
+  carelogs: [
+    'franchisor_id', 'agency_id', 'external_id', 'caregiver_id', 'caregiver_external_id',
+    'caregiver_system_name', 'time_zone', 'parent_id', 'start_datetime',
+    'end_datetime', 'clock_in_actual_datetime', 'clock_out_actual_datetime', 'clock_in_method',
+    'clock_out_method', 'status', 'split', 'general_comment_char_count'
+  ]
+};
+
+/**
+ * Common spellings of clock methods mapped to ClockMethod values
+ * Numeric source codes differ between systems, so mappings supply them in valueMaps.clock_in_method / clock_out_method
+ */
+const CLOCK_METHOD_CODES: Record<string, string> = {
+  'mobile': 'mobile_app',
+  'mobile app': 'mobile_app',
+  'app': 'mobile_app',
+  'telephony': 'phone',
+  'ivr': 'phone',
+  'manual entry': 'manual',
+  'override': 'manual'
+};
+
+/**
+ * Common spellings of visit statuses mapped to CarelogStatus values
+ * Numeric source codes differ between systems, so mappings supply them in valueMaps.status
+ */
+const STATUS_CODES: Record<string, string> = {
+  'in progress': 'in_progress',
+  'in-progress': 'in_progress',
+  'started': 'in_progress',
+  'complete': 'completed',
+  'canceled': 'cancelled',
+  'no show': 'no_show',
+  'no-show': 'no_show',
+  'noshow': 'no_show',
+  'missed': 'no_show'
+};
+
+const DATE_FIELDS: Record<ETLEntity, string[]> = {
+  caregivers: ['birthday_date', 'onboarding_date'],
+  carelogs: ['start_datetime', 'end_datetime', 'clock_in_actual_datetime', 'clock_out_actual_datetime']
+};
+
+/**
+ * Built-in mappings: the column fallbacks of the legacy exports, and the fields every row needs
+ */
+const DEFAULT_MAPPINGS: Record<ETLEntity, ColumnMappingConfig> = {
+  caregivers: {
+    columns: {
+      location_id: ['locations_id', 'location_id'],
+      sstatus: ['status', 'sstatus'],
+      external_id: ['external_id', 'external_system_id']
+    },
+    required: ['first_name', 'last_name']
+  },
+  carelogs: {
+    // Legacy exports identify caregivers by their source-system ID, resolved through the external table
+    columns: {
+      external_id: ['id', 'external_id'],
+      caregiver_id: [],
+      caregiver_external_id: ['caregiver_id', 'caregiver_external_id']
+    },
+    defaults: {
+      caregiver_system_name: 'legacy_csv'
+    },
+    valueMaps: {
+      clock_in_method: CLOCK_METHOD_CODES,
+      clock_out_method: CLOCK_METHOD_CODES,
+      status: STATUS_CODES
+    },
+    required: ['start_datetime', 'end_datetime']
+  }
+};
+
+const CONFIG_KEYS = ['entity', 'description', 'columns', 'defaults', 'valueMaps', 'dateFormats', 'required'];
+const DATE_TOKENS = /YYYY|YY|SSS|MM|M|DD|D|HH|H|mm|ss/g;
+
+/**
+ * Read a mapping file (.json, .yaml or .yml) and validate it for `entity`
+ */
+export function loadColumnMapping(source: string | ColumnMappingConfig, entity: ETLEntity): ColumnMappingConfig {
+  let config: any = source;
+
+  if (typeof source === 'string') {
+    if (!fs.existsSync(source)) {
+      throw new Error(`Column mapping file not found: ${source}`);
+    }
+    const content = fs.readFileSync(source, 'utf8');
+    const extension = path.extname(source).toLowerCase();
+    try {
+      config = extension === '.yaml' || extension === '.yml' ? YAML.parse(content) : JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Column mapping file ${source} could not be parsed: ${errorMessage(error)}`);
+    }
+  }
+
+  const errors = validateColumnMapping(config, entity);
+  if (errors.length > 0) {
+    throw new Error(`Invalid column mapping${typeof source === 'string' ? ` ${source}` : ''}: ${errors.join('; ')}`);
+  }
+  return config;
+}
+
+/**
+ * Return every problem with a mapping config (empty when it is valid)
+ */
+export function validateColumnMapping(config: any, entity: ETLEntity): string[] {
+  const errors: string[] = [];
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['mapping must be an object'];
+  }
+
+  const targets = TARGET_FIELDS[entity];
+  const checkTarget = (section: string, field: string) => {
+    if (!targets.includes(field)) {
+      errors.push(`${section}.${field} is not a ${entity} field (expected one of: ${targets.join(', ')})`);
+    }
+  };
+  const isScalar = (value: any) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+  const isObject = (value: any) => value && typeof value === 'object' && !Array.isArray(value);
+
+  Object.keys(config)
+    .filter(key => !CONFIG_KEYS.includes(key))
+    .forEach(key => errors.push(`unknown key '${key}'`));
+
+  if (config.entity !== undefined && config.entity !== entity) {
+    errors.push(`mapping is for '${config.entity}' but the pipeline loads '${entity}'`);
+  }
+
+  if (config.columns !== undefined) {
+    if (!isObject(config.columns)) {
+      errors.push('columns must map target fields to source columns');
+    } else {
+      Object.entries(config.columns).forEach(([field, sources]) => {
+        checkTarget('columns', field);
+        const list = Array.isArray(sources) ? sources : [sources];
+        if (list.length === 0 || list.some(column => typeof column !== 'string' || column.trim() === '')) {
+          errors.push(`columns.${field} must be a column name or a non-empty list of column names`);
+        }
+      });
+    }
+  }
+
+  if (config.defaults !== undefined) {
+    if (!isObject(config.defaults)) {
+      errors.push('defaults must map target fields to values');
+    } else {
+      Object.entries(config.defaults).forEach(([field, value]) => {
+        checkTarget('defaults', field);
+        if (!isScalar(value)) errors.push(`defaults.${field} must be a string, number, boolean or null`);
+        if (field === 'time_zone' && typeof value === 'string' && !isValidTimeZone(value)) {
+          errors.push(`defaults.time_zone '${value}' is not an IANA time zone (e.g. America/Chicago)`);
+        }
+      });
+    }
+  }
+
+  if (config.valueMaps !== undefined) {
+    if (!isObject(config.valueMaps)) {
+      errors.push('valueMaps must map target fields to value maps');
+    } else {
+      Object.entries(config.valueMaps).forEach(([field, map]) => {
+        checkTarget('valueMaps', field);
+        if (!isObject(map) || Object.values(map as object).some(value => !isScalar(value))) {
+          errors.push(`valueMaps.${field} must map source values to strings, numbers, booleans or null`);
+        }
+      });
+    }
+  }
+
+  if (config.dateFormats !== undefined) {
+    if (!isObject(config.dateFormats)) {
+      errors.push('dateFormats must map date fields to formats');
+    } else {
+      Object.entries(config.dateFormats).forEach(([field, format]) => {
+        if (!DATE_FIELDS[entity].includes(field)) {
+          errors.push(`dateFormats.${field} is not a ${entity} date field (expected one of: ${DATE_FIELDS[entity].join(', ')})`);
+        }
+        if (typeof format !== 'string' || !/YY/.test(format) || !/M/.test(format) || !/D/.test(format)) {
+          errors.push(`dateFormats.${field} must be a format string with year, month and day tokens (e.g. MM/DD/YYYY)`);
+        }
+      });
+    }
+  }
+
+  if (config.required !== undefined) {
+    if (!Array.isArray(config.required)) {
+      errors.push('required must be a list of target fields');
+    } else {
+      config.required.forEach((field: any) => checkTarget('required', String(field)));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Merge a mapping over the entity's built-in defaults
+ * Column sources and per-field settings replace the defaults; required fields are combined
+ */
+export function resolveColumnMapping(entity: ETLEntity, config?: ColumnMappingConfig): ColumnMappingConfig {
+  const defaults = DEFAULT_MAPPINGS[entity];
+  return {
+    entity,
+    columns: { ...defaults.columns, ...(config?.columns || {}) },
+    defaults: { ...defaults.defaults, ...(config?.defaults || {}) },
+    valueMaps: { ...defaults.valueMaps, ...(config?.valueMaps || {}) },
+    dateFormats: { ...defaults.dateFormats, ...(config?.dateFormats || {}) },
+    required: Array.from(new Set([...(defaults.required || []), ...(config?.required || [])]))
+  };
+}
+
+/**
+ * Mapping for quarantined payloads, which hold mapped fields rather than source columns
+ * Target field names win over the legacy column names still accepted from older rows
+ */
+export function replayColumnMapping(entity: ETLEntity): ColumnMappingConfig {
+  const mapping = resolveColumnMapping(entity);
+  const columns: Record<string, string | string[]> = {};
+
+  for (const [field, sources] of Object.entries(mapping.columns || {})) {
+    const legacy = (Array.isArray(sources) ? sources : [sources]).filter(column => column !== field);
+    columns[field] = [field, ...legacy];
+  }
+
+  return { ...mapping, columns };
+}
+
+/**
+ * Map one source row onto the target fields of `entity`
+ * Unmapped target fields are read from the source column of the same name
+ */
+export function applyColumnMapping(row: Record<string, any>, mapping: ColumnMappingConfig, entity: ETLEntity): MappedRecord {
+  const record: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const field of TARGET_FIELDS[entity]) {
+    const sources = mapping.columns?.[field] ?? field;
+    const columns = Array.isArray(sources) ? sources : [sources];
+    let value = columns.map(column => row[column]).find(candidate => !isEmpty(candidate));
+
+    if (isEmpty(value) && mapping.defaults && field in mapping.defaults) {
+      value = mapping.defaults[field];
+    }
+
+    const valueMap = mapping.valueMaps?.[field];
+    if (valueMap && !isEmpty(value)) {
+      value = mapValue(value, valueMap);
+    }
+
+    const dateFormat = mapping.dateFormats?.[field];
+    if (dateFormat && !isEmpty(value)) {
+      const parsed = parseDateWithFormat(String(value), dateFormat);
+      if (parsed === null) {
+        errors.push(`${field} '${value}' does not match date format ${dateFormat}`);
+      } else {
+        value = parsed;
+      }
+    }
+
+    if (value !== undefined) {
+      record[field] = value;
+    }
+  }
+
+  const missing = (mapping.required || []).filter(field => isEmpty(record[field]));
+  if (missing.length > 0) {
+    errors.unshift(`Missing required fields: ${missing.join(', ')}`);
+  }
+
+  return { record, errors };
+}
+
+/**
+ * Parse `value` with a date format, returning an ISO-style local date (YYYY-MM-DD) or
+ * date-time (YYYY-MM-DDTHH:mm:ss.SSS) string, or null when it does not match
+ */
+export function parseDateWithFormat(value: string, format: string): string | null {
+  const tokens: string[] = [];
+  const pattern = format
+    .split(DATE_TOKENS)
+    .map(literal => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const tokenMatches = format.match(DATE_TOKENS) || [];
+
+  let source = pattern[0];
+  tokenMatches.forEach((token, index) => {
+    tokens.push(token);
+    const width = token === 'YYYY' ? '{4}' : token === 'SSS' ? '{3}' : token.length === 2 ? '{2}' : '{1,2}';
+    source += `(\\d${width})${pattern[index + 1]}`;
+  });
+
+  const match = value.trim().match(new RegExp(`^${source}$`));
+  if (!match) return null;
+
+  const parts: Record<string, number> = { year: 0, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  let hasTime = false;
+  tokens.forEach((token, index) => {
+    const number = Number(match[index + 1]);
+    switch (token) {
+      case 'YYYY': parts.year = number; break;
+      case 'YY': parts.year = number + (number < 70 ? 2000 : 1900); break;
+      case 'MM': case 'M': parts.month = number; break;
+      case 'DD': case 'D': parts.day = number; break;
+      case 'HH': case 'H': parts.hour = number; hasTime = true; break;
+      case 'mm': parts.minute = number; hasTime = true; break;
+      case 'ss': parts.second = number; hasTime = true; break;
+      case 'SSS': parts.millisecond = number; hasTime = true; break;
+    }
+  });
+
+  const daysInMonth = new Date(Date.UTC(parts.year, parts.month, 0)).getUTCDate();
+  if (parts.month < 1 || parts.month > 12 || parts.day < 1 || parts.day > daysInMonth ||
+    parts.hour > 23 || parts.minute > 59 || parts.second > 59) {
+    return null;
+  }
+
+  const pad = (n: number, width: number = 2) => String(n).padStart(width, '0');
+  const date = `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`;
+  return hasTime
+    ? `${date}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}.${pad(parts.millisecond, 3)}`
+    : date;
+}
+
+function mapValue(value: any, valueMap: Record<string, any>): any {
+  const key = String(value);
+  if (key in valueMap) return valueMap[key];
+
+  const normalized = key.trim().toLowerCase();
+  const match = Object.keys(valueMap).find(candidate => candidate.trim().toLowerCase() === normalized);
+  return match !== undefined ? valueMap[match] : value;
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ETLEntity } from '../models/etlRun';
+import { formatCSV } from '../../shared/utils/csv';
+import {
+  CreateETLDiffEntryData,
+  DiffAction,
+  DiffFieldChange,
+  DiffSummary,
+  ETLDryRunDiff
+} from '../models/etlDiff';
+
+const CSV_COLUMNS = ['row_index', 'action', 'match_key', 'existing_id', 'field', 'before', 'after', 'message'];
+
+export function emptyDiffSummary(): DiffSummary {
+  return {
+    [DiffAction.NEW]: 0,
+    [DiffAction.UPDATE]: 0,
+    [DiffAction.UNCHANGED]: 0,
+    [DiffAction.DUPLICATE]: 0,
+    [DiffAction.FK_FAILURE]: 0,
+    [DiffAction.INVALID]: 0
+  };
+}
+
+export function createDryRunDiff(entity: ETLEntity, mode: string): ETLDryRunDiff {
+  return { entity, mode, summary: emptyDiffSummary(), entries: [] };
+}
+
+/**
+ * Count a row in the diff summary; unchanged rows are not kept as entries
+ */
+export function addDiffEntry(diff: ETLDryRunDiff, entry: CreateETLDiffEntryData): void {
+  diff.summary[entry.action]++;
+  if (entry.action !== DiffAction.UNCHANGED) {
+    diff.entries.push(entry);
+  }
+}
+
+/**
+ * Pair each changed column with the value currently stored for it
+ * `table` qualifies the field names when one row spans several tables (e.g. profile.email)
+ */
+export function toFieldChanges(current: Record<string, any>, changes: Record<string, any>, table?: string): DiffFieldChange[] {
+  return Object.entries(changes).map(([field, after]) => ({
+    field: table ? `${table}.${field}` : field,
+    before: current[field] ?? null,
+    after: after ?? null
+  }));
+}
+
+/**
+ * Render diff entries as CSV, one line per changed field (one line for rows without field changes)
+ */
+export function formatDiffAsCSV(entries: CreateETLDiffEntryData[]): string {
+  const rows = entries.flatMap(entry => {
+    const changes: Array<DiffFieldChange | null> = entry.changes && entry.changes.length > 0 ? entry.changes : [null];
+    return changes.map(change => ({
+      row_index: entry.row_index,
+      action: entry.action,
+      match_key: entry.match_key,
+      existing_id: entry.existing_id,
+      field: change?.field,
+      before: change?.before,
+      after: change?.after,
+      message: entry.message
+    }));
+  });
+
+  return formatCSV(rows, CSV_COLUMNS);
+}
+
+/**
+ * Write a diff to `filePath` as JSON (.json) or CSV (any other extension)
+ */
+export function writeDiffReport(diff: ETLDryRunDiff, filePath: string): void {
+  const content = path.extname(filePath).toLowerCase() === '.json'
+    ? JSON.stringify(diff, null, 2)
+    : formatDiffAsCSV(diff.entries);
+  fs.writeFileSync(filePath, content);
+}
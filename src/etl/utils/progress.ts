@@ -0,0 +1,18 @@
+import { ETLProgress } from '../models/etlRun';
+import { errorMessage } from '../../shared/utils/errors';
+
+export type ETLProgressCallback = (progress: ETLProgress) => void | Promise<void>;
+
+/**
+ * Pass batch progress to a pipeline's `onProgress` callback
+ * A failing callback (e.g. a job queue that cannot write progress) is logged and never fails the run
+ */
+export async function reportProgress(onProgress: ETLProgressCallback | undefined, progress: ETLProgress): Promise<void> {
+  if (!onProgress) return;
+
+  try {
+    await onProgress(progress);
+  } catch (error) {
+    console.warn(`⚠ Progress callback failed: ${errorMessage(error)}`);
+  }
+}
@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import csv from 'csv-parser';
+import { pipeline } from 'stream';
+
+/**
+ * Stream the rows of a CSV file one at a time, tagged with their 1-based `_rowIndex`.
+ * The file is only read as fast as the consumer pulls rows (backpressure), so memory
+ * use does not depend on the size of the file.
+ */
+export async function* streamCSVRows(filePath: string): AsyncGenerator<Record<string, any>> {
+  const parser = csv();
+  // pipeline forwards read errors to the parser, which ends the for-await below with that error
+  pipeline(fs.createReadStream(filePath), parser, () => { });
+
+  let rowIndex = 0;
+  for await (const row of parser) {
+    rowIndex++;
+    yield { ...row, _rowIndex: rowIndex };
+  }
+}
+
+/**
+ * Group rows into batches of `batchSize`, pulling from the source only when the
+ * previous batch has been handled. Rows without a `_rowIndex` are numbered by position.
+ */
+export async function* batchRows<T extends Record<string, any>>(
+  rows: Iterable<T> | AsyncIterable<T>,
+  batchSize: number
+): AsyncGenerator<T[]> {
+  if (batchSize <= 0) {
+    throw new Error('Batch size must be greater than 0');
+  }
+
+  let batch: T[] = [];
+  let position = 0;
+
+  for await (const row of rows) {
+    position++;
+    batch.push(row._rowIndex ? row : { ...row, _rowIndex: position });
+
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
@@ -0,0 +1,43 @@
+import { ETLEntity } from '../models/etlRun';
+
+/**
+ * Entity-independent counts of a runETLPipeline result, as reported by the CLI, upload
+ * endpoints and background jobs
+ */
+export function summarizeETLRun(entity: ETLEntity, result: any): Record<string, any> {
+  const load = entity === 'caregivers' ? result.loadResult : result.loadResults;
+  const transformErrors = entity === 'caregivers'
+    ? result.transformErrors.length
+    : result.extractedCount - result.transformedCount;
+
+  return {
+    run_id: result.runId ?? null,
+    entity,
+    success: result.success,
+    extracted: result.extractedCount,
+    transformed: result.transformedCount,
+    loaded: load?.successCount ?? 0,
+    inserted: load?.insertedCount ?? 0,
+    updated: load?.updatedCount ?? 0,
+    unchanged: load?.unchangedCount ?? 0,
+    row_errors: transformErrors + (load?.errorCount ?? 0),
+    pipeline_errors: entity === 'caregivers'
+      ? result.errors.length
+      : (result.success ? 0 : 1),
+    ...(result.diff ? prefixKeys('diff_', result.diff.summary) : {}),
+    duration_ms: result.duration,
+    ...(result.success ? {} : { error: lastPipelineError(entity, result) })
+  };
+}
+
+/**
+ * Message of the last pipeline error of a result (caregiver errors are objects, carelog errors strings)
+ */
+export function lastPipelineError(entity: ETLEntity, result: any): string | undefined {
+  const last = result.errors[result.errors.length - 1];
+  return entity === 'caregivers' ? last?.error : last;
+}
+
+function prefixKeys(prefix: string, record: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [`${prefix}${key}`, value]));
+}
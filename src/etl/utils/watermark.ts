@@ -0,0 +1,42 @@
+import { WatermarkType } from '../models/etlWatermark';
+
+/**
+ * Value bound to `:watermark` in database queries before a source has been loaded once
+ */
+export function initialWatermark(type: WatermarkType): string | number {
+  return type === 'id' ? 0 : new Date(0).toISOString();
+}
+
+/**
+ * Highest watermark among `rows` and `current`, as stored text (ISO timestamp or integer).
+ * Rows without a usable value in `column` are ignored.
+ */
+export function highestWatermark(
+  rows: Array<Record<string, any>>,
+  column: string,
+  type: WatermarkType,
+  current: string | null
+): string | null {
+  let highest = current;
+
+  for (const row of rows) {
+    const value = row[column];
+    if (value === null || value === undefined || value === '') continue;
+
+    if (type === 'id') {
+      const id = Number(value);
+      if (!Number.isFinite(id)) continue;
+      if (highest === null || id > Number(highest)) {
+        highest = String(id);
+      }
+    } else {
+      const time = new Date(value).getTime();
+      if (isNaN(time)) continue;
+      if (highest === null || time > new Date(highest).getTime()) {
+        highest = new Date(time).toISOString();
+      }
+    }
+  }
+
+  return highest;
+}
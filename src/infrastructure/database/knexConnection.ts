@@ -1,14 +1,23 @@
 import knex, { Knex } from 'knex';
+import { PoolClient, types } from 'pg';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+// DATE columns are calendar dates; return them as YYYY-MM-DD rather than midnight in the server's zone
+const PG_DATE_OID = 1082;
+types.setTypeParser(PG_DATE_OID, (value: string) => value);
+
 const config: Knex.Config = {
   client: 'pg',
   connection: process.env.DATABASE_URL,
   pool: {
     min: 2,
-    max: 20
+    max: 20,
+    // Sessions run in UTC so timestamps without an offset, and ::date casts, do not depend on the server setting
+    afterCreate: (connection: PoolClient, done: (error: Error | null, connection: PoolClient) => void) => {
+      connection.query("SET TIME ZONE 'UTC'", (error: Error | null) => done(error, connection));
+    }
   }
 };
 
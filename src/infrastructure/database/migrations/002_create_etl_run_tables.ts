@@ -0,0 +1,58 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration to create the ETL audit tables
+ * etl_runs holds one record per runETLPipeline execution; etl_row_errors holds its failing rows
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('etl_runs', (table) => {
+    table.increments('id').primary();
+    table.enum('entity', ['caregivers', 'carelogs']).notNullable();
+    table.enum('source_type', ['csv', 'api', 'database']).notNullable();
+    table.text('source_path'); // File path, URL or query the data was extracted from
+    table.enum('status', ['running', 'succeeded', 'failed']).notNullable().defaultTo('running');
+    table.string('load_mode', 20); // insert, upsert (NULL for validate-only runs)
+    table.boolean('validate_only').defaultTo(false);
+
+    // Timing
+    table.timestamp('started_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('finished_at');
+
+    // Counts
+    table.integer('extracted_count').defaultTo(0);
+    table.integer('transformed_count').defaultTo(0);
+    table.integer('loaded_count').defaultTo(0);
+    table.integer('error_count').defaultTo(0);
+    table.jsonb('errors_by_type').defaultTo('{}');
+    table.jsonb('pipeline_errors').defaultTo('[]');
+
+    table.timestamps(true, true);
+
+    // Indexes
+    table.index(['entity', 'started_at']);
+    table.index('status');
+  });
+
+  await knex.schema.createTable('etl_row_errors', (table) => {
+    table.increments('id').primary();
+    table.integer('etl_run_id').notNullable().references('id').inTable('etl_runs').onDelete('CASCADE');
+    table.enum('phase', ['transform', 'load']).notNullable();
+    table.integer('row_index'); // 1-based position of the row in the source
+    table.string('error_type', 50);
+    table.text('error_message').notNullable();
+    table.jsonb('raw_payload'); // Source row as extracted, before transformation
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['etl_run_id', 'row_index']);
+    table.index('error_type');
+  });
+}
+
+/**
+ * Rollback migration - drops the ETL audit tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('etl_row_errors');
+  await knex.schema.dropTableIfExists('etl_runs');
+}
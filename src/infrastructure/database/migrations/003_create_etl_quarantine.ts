@@ -0,0 +1,54 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration to create the ETL quarantine table
+ * Rows rejected by the transform step are kept here so they can be corrected and replayed;
+ * replays are recorded as their own etl_runs linked through parent_run_id
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('etl_runs', (table) => {
+    table.integer('parent_run_id').references('id').inTable('etl_runs').onDelete('SET NULL');
+    table.index('parent_run_id');
+  });
+
+  // Allow the in-memory 'records' source used by replays
+  await knex.raw('ALTER TABLE etl_runs DROP CONSTRAINT IF EXISTS etl_runs_source_type_check');
+  await knex.raw(`ALTER TABLE etl_runs ADD CONSTRAINT etl_runs_source_type_check CHECK (source_type IN ('csv', 'api', 'database', 'records'))`);
+
+  await knex.schema.createTable('etl_quarantine', (table) => {
+    table.increments('id').primary();
+    table.integer('etl_run_id').references('id').inTable('etl_runs').onDelete('SET NULL');
+    table.enum('entity', ['caregivers', 'carelogs']).notNullable();
+    table.integer('row_index'); // 1-based position of the row in the original source
+    table.jsonb('raw_payload').notNullable(); // Source row, editable before replay
+    table.text('error_message').notNullable();
+    table.enum('status', ['pending', 'replayed', 'discarded']).notNullable().defaultTo('pending');
+
+    // Replay tracking
+    table.integer('replay_count').defaultTo(0);
+    table.integer('last_replay_run_id').references('id').inTable('etl_runs').onDelete('SET NULL');
+    table.text('last_replay_error');
+    table.timestamp('resolved_at');
+
+    table.timestamps(true, true);
+
+    // Indexes
+    table.index(['entity', 'status']);
+    table.index('etl_run_id');
+  });
+}
+
+/**
+ * Rollback migration - drops the quarantine table and the replay link on etl_runs
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('etl_quarantine');
+
+  await knex.raw('ALTER TABLE etl_runs DROP CONSTRAINT IF EXISTS etl_runs_source_type_check');
+  await knex.raw(`ALTER TABLE etl_runs ADD CONSTRAINT etl_runs_source_type_check CHECK (source_type IN ('csv', 'api', 'database'))`);
+
+  await knex.schema.alterTable('etl_runs', (table) => {
+    table.dropIndex('parent_run_id');
+    table.dropColumn('parent_run_id');
+  });
+}
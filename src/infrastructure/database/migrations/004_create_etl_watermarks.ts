@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration to create the ETL watermark table
+ * Incremental API and database sources store their highest loaded updated_at or id here
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('etl_watermarks', (table) => {
+    table.increments('id').primary();
+    table.enum('entity', ['caregivers', 'carelogs']).notNullable();
+    table.text('source_key').notNullable(); // API URL, SQL query or explicit key identifying the source
+    table.string('watermark_column', 100).notNullable();
+    table.enum('watermark_type', ['timestamp', 'id']).notNullable();
+    table.text('watermark_value').notNullable(); // Highest loaded value (ISO timestamp or integer)
+    table.integer('last_run_id').references('id').inTable('etl_runs').onDelete('SET NULL');
+
+    table.timestamps(true, true);
+
+    table.unique(['entity', 'source_key']);
+  });
+}
+
+/**
+ * Rollback migration - drops the ETL watermark table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('etl_watermarks');
+}
@@ -0,0 +1,39 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration to create the ETL dry-run diff table
+ * Validate-only runs record what each source row would change; etl_runs keeps the counts per action
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('etl_runs', (table) => {
+    table.jsonb('diff_summary'); // Row counts per diff action, for validate-only runs
+  });
+
+  await knex.schema.createTable('etl_run_diffs', (table) => {
+    table.increments('id').primary();
+    table.integer('etl_run_id').notNullable().references('id').inTable('etl_runs').onDelete('CASCADE');
+    table.integer('row_index'); // 1-based position of the row in the source
+    table.enum('action', ['new', 'update', 'unchanged', 'duplicate', 'fk_failure', 'invalid']).notNullable();
+    table.string('match_key', 255); // External ID or email the row was matched on
+    table.integer('existing_id'); // Row that would be updated or that the row duplicates
+    table.jsonb('changes'); // [{ field, before, after }] for updates
+    table.text('message'); // Reason for duplicates, FK failures and invalid rows
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['etl_run_id', 'row_index']);
+    table.index(['etl_run_id', 'action']);
+  });
+}
+
+/**
+ * Rollback migration - drops the diff table and the diff summary on etl_runs
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('etl_run_diffs');
+
+  await knex.schema.alterTable('etl_runs', (table) => {
+    table.dropColumn('diff_summary');
+  });
+}
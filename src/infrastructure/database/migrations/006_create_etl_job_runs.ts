@@ -0,0 +1,31 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration to create the scheduled job run table
+ * One row per cron firing of a job, including runs skipped for the lock or backoff
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('etl_job_runs', (table) => {
+    table.increments('id').primary();
+    table.string('job_name', 100).notNullable(); // Name from the jobs file
+    table.enum('status', ['succeeded', 'failed', 'skipped']).notNullable();
+    table.timestamp('scheduled_for').notNullable(); // Time the cron schedule fired for
+    table.timestamp('started_at').notNullable();
+    table.timestamp('finished_at');
+    table.integer('etl_run_id').references('id').inTable('etl_runs').onDelete('SET NULL');
+    table.integer('consecutive_failures').notNullable().defaultTo(0); // Failures in a row, 0 after a success
+    table.text('error_message'); // Pipeline error or reason the run was skipped
+
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['job_name', 'started_at']);
+  });
+}
+
+/**
+ * Rollback migration - drops the job run table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('etl_job_runs');
+}
@@ -0,0 +1,37 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration to create the background job queue
+ * Workers claim due jobs with SELECT ... FOR UPDATE SKIP LOCKED
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('background_jobs', (table) => {
+    table.increments('id').primary();
+    table.string('type', 50).notNullable(); // e.g. caregiver_bulk_upload, carelog_analytics_export
+    table.enum('status', ['queued', 'running', 'succeeded', 'failed']).notNullable().defaultTo('queued');
+    table.jsonb('payload').notNullable(); // Input of the job handler
+    table.jsonb('result'); // Output of the job handler once it succeeded
+    table.jsonb('progress'); // Latest progress reported by the running job
+    table.integer('attempts').notNullable().defaultTo(0);
+    table.integer('max_attempts').notNullable().defaultTo(3);
+    table.timestamp('run_at').notNullable().defaultTo(knex.fn.now()); // Earliest time a worker may claim the job
+    table.string('locked_by', 255); // Worker running the job
+    table.timestamp('locked_at'); // Heartbeat of the worker running the job
+    table.text('last_error'); // Error of the latest failed attempt
+    table.timestamp('started_at');
+    table.timestamp('finished_at');
+
+    table.timestamps(true, true);
+
+    // Indexes
+    table.index(['status', 'run_at']);
+    table.index(['type', 'created_at']);
+  });
+}
+
+/**
+ * Rollback migration - drops the background job queue
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('background_jobs');
+}
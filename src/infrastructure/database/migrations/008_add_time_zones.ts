@@ -0,0 +1,70 @@
+import { Knex } from 'knex';
+import { isValidTimeZone } from '../../../shared/utils/timeZone';
+
+const CARELOG_TIMESTAMPS = [
+  'start_datetime', 'end_datetime', 'clock_in_actual_datetime', 'clock_out_actual_datetime', 'created_at', 'updated_at'
+];
+
+/**
+ * Migration for time zone aware visits
+ * Adds an IANA time zone to agencies and locations, and converts carelog timestamps that were
+ * created as TIMESTAMP (schema.sql) to TIMESTAMPTZ. Existing values hold the wall-clock time of the
+ * process that loaded them; they are read in LEGACY_TIMESTAMP_TIME_ZONE (default: this machine's zone)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('agencies', (table) => {
+    table.string('time_zone', 64); // IANA zone of the agency, e.g. America/Chicago
+  });
+  await knex.schema.alterTable('locations', (table) => {
+    table.string('time_zone', 64); // IANA zone of the location; overrides the agency's zone
+  });
+
+  // Tables created by 001 already use timestamptz (knex's default); only schema.sql databases need converting
+  const columns: string[] = await knex('information_schema.columns')
+    .where({ table_name: 'carelogs', data_type: 'timestamp without time zone' })
+    .whereRaw('table_schema = current_schema()')
+    .whereIn('column_name', CARELOG_TIMESTAMPS)
+    .pluck('column_name');
+  if (columns.length === 0) {
+    return;
+  }
+
+  const legacyZone = process.env.LEGACY_TIMESTAMP_TIME_ZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!isValidTimeZone(legacyZone)) {
+    throw new Error(`Invalid LEGACY_TIMESTAMP_TIME_ZONE: ${legacyZone}`);
+  }
+  // DDL takes no bind parameters, so the zone goes into the statement as a quoted literal
+  const legacyZoneLiteral = `'${legacyZone.replace(/'/g, "''")}'`;
+
+  // Postgres cannot change the type of a column a view selects, so completed_visits is recreated as it was
+  const view = await knex.raw(`
+    SELECT pg_get_viewdef(to_regclass('completed_visits'), true) AS definition
+    WHERE to_regclass('completed_visits') IS NOT NULL
+  `);
+  const viewDefinition: string | undefined = view.rows[0]?.definition;
+  if (viewDefinition) {
+    await knex.raw('DROP VIEW completed_visits');
+  }
+
+  await knex.raw(
+    `ALTER TABLE carelogs ${columns.map(() => `ALTER COLUMN ?? TYPE TIMESTAMPTZ USING ?? AT TIME ZONE ${legacyZoneLiteral}`).join(', ')}`,
+    columns.flatMap(column => [column, column])
+  );
+
+  if (viewDefinition) {
+    await knex.raw(`CREATE VIEW completed_visits AS ${viewDefinition}`);
+  }
+}
+
+/**
+ * Rollback migration - drops the time zone columns
+ * Carelog timestamps stay TIMESTAMPTZ: converting back would drop the offsets again
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('locations', (table) => {
+    table.dropColumn('time_zone');
+  });
+  await knex.schema.alterTable('agencies', (table) => {
+    table.dropColumn('time_zone');
+  });
+}
@@ -0,0 +1,20 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration to record why a visit was cancelled
+ * Set by the cancel transition (POST /api/carelogs/:id/cancel)
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('carelogs', (table) => {
+    table.text('cancellation_reason'); // Reason given when the visit was cancelled
+  });
+}
+
+/**
+ * Rollback migration - drops the cancellation reason
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('carelogs', (table) => {
+    table.dropColumn('cancellation_reason');
+  });
+}
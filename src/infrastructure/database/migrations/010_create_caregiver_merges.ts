@@ -0,0 +1,43 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration for caregiver deduplication
+ * A merged duplicate keeps its row (and its external ID) and points at the surviving caregiver through
+ * merged_into_id; caregiver_merges is the audit trail, holding what each merge moved so it can be undone
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('caregivers', (table) => {
+    table.integer('merged_into_id').references('id').inTable('caregivers').onDelete('SET NULL'); // Surviving caregiver of a merged duplicate
+    table.index('merged_into_id');
+  });
+
+  await knex.schema.createTable('caregiver_merges', (table) => {
+    table.increments('id').primary();
+    table.integer('survivor_id').notNullable().references('id').inTable('caregivers').onDelete('CASCADE');
+    table.integer('duplicate_id').notNullable().references('id').inTable('caregivers').onDelete('CASCADE');
+    table.enum('status', ['merged', 'undone']).notNullable().defaultTo('merged');
+    table.decimal('score', 5, 4); // Duplicate score of the pair, when the merge came from a scan
+    table.text('reason'); // Why the caregivers were merged
+    table.string('previous_status', 50); // Status of the duplicate before the merge
+    table.jsonb('carelog_ids').notNullable().defaultTo('[]'); // Carelogs moved from the duplicate to the survivor
+    table.jsonb('parent_ids').notNullable().defaultTo('[]'); // Parent visits whose primary caregiver was moved
+    table.jsonb('redirected_caregiver_ids').notNullable().defaultTo('[]'); // Earlier duplicates of the duplicate, now pointing at the survivor
+    table.timestamp('merged_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('undone_at');
+
+    // Indexes
+    table.index(['survivor_id', 'merged_at']);
+    table.index(['duplicate_id', 'status']);
+  });
+}
+
+/**
+ * Rollback migration - drops the merge audit trail and the merge pointer
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('caregiver_merges');
+  await knex.schema.alterTable('caregivers', (table) => {
+    table.dropIndex('merged_into_id');
+    table.dropColumn('merged_into_id');
+  });
+}
@@ -0,0 +1,49 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration for data-quality profiling
+ * Each run stores its metrics, so a metric can be compared with the previous run and charted over time
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('data_quality_runs', (table) => {
+    table.increments('id').primary();
+    table.integer('etl_run_id').references('id').inTable('etl_runs').onDelete('SET NULL'); // ETL run that queued the profile
+    table.string('trigger', 20).notNullable().defaultTo('manual'); // manual or etl
+    table.enum('status', ['running', 'succeeded', 'failed']).notNullable().defaultTo('running');
+    table.integer('metric_count').notNullable().defaultTo(0);
+    table.integer('flagged_count').notNullable().defaultTo(0); // Metrics that broke a threshold
+    table.text('error_message');
+    table.timestamp('started_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('finished_at');
+
+    // Indexes
+    table.index('started_at');
+  });
+
+  await knex.schema.createTable('data_quality_metrics', (table) => {
+    table.increments('id').primary();
+    table.integer('run_id').notNullable().references('id').inTable('data_quality_runs').onDelete('CASCADE');
+    table.string('table_name', 100).notNullable();
+    table.string('column_name', 100); // NULL for table-level metrics such as row counts
+    table.string('category', 20).notNullable(); // volume, completeness, validity, integrity or visits
+    table.string('metric', 100).notNullable(); // e.g. null_rate, orphan_reference, missing_clock_out
+    table.integer('row_count').notNullable().defaultTo(0);
+    table.integer('failing_count').notNullable().defaultTo(0);
+    table.decimal('rate', 9, 6).notNullable().defaultTo(0); // failing_count / row_count
+    table.jsonb('details'); // Sample IDs of failing rows
+    table.boolean('flagged').notNullable().defaultTo(false);
+    table.jsonb('flag_reasons').notNullable().defaultTo('[]'); // Thresholds the metric broke
+
+    // Indexes
+    table.index('run_id');
+    table.index(['table_name', 'column_name', 'metric', 'run_id']);
+  });
+}
+
+/**
+ * Rollback migration - drops the data-quality tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('data_quality_metrics');
+  await knex.schema.dropTableIfExists('data_quality_runs');
+}
@@ -0,0 +1,20 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration for keyset pagination of the carelog list
+ * Cursor pages seek on (start_datetime, id) in either direction, which this index serves without sorting
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('carelogs', (table) => {
+    table.index(['start_datetime', 'id'], 'idx_carelogs_start_datetime_id');
+  });
+}
+
+/**
+ * Rollback migration - drops the keyset index
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('carelogs', (table) => {
+    table.dropIndex(['start_datetime', 'id'], 'idx_carelogs_start_datetime_id');
+  });
+}
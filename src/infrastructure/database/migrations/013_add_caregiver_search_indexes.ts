@@ -0,0 +1,39 @@
+import { Knex } from 'knex';
+
+/**
+ * Migration for the caregiver search
+ * Name matching uses trigram similarity and prefix full-text queries over first and last name together,
+ * email matching uses substring ILIKE; the expressions must stay in step with CaregiverRepository.applySearchFilters
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+
+  await knex.raw(`
+    CREATE INDEX IF NOT EXISTS idx_profile_full_name_trgm
+    ON profile USING GIN ((first_name || ' ' || last_name) gin_trgm_ops)
+  `);
+  await knex.raw(`
+    CREATE INDEX IF NOT EXISTS idx_profile_full_name_fts
+    ON profile USING GIN (to_tsvector('simple', first_name || ' ' || last_name))
+  `);
+  await knex.raw('CREATE INDEX IF NOT EXISTS idx_profile_email_trgm ON profile USING GIN (email gin_trgm_ops)');
+
+  await knex.schema.alterTable('profile', (table) => {
+    table.index(['certification_level'], 'idx_profile_certification_level');
+    table.index(['onboarding_date'], 'idx_profile_onboarding_date');
+  });
+}
+
+/**
+ * Rollback migration - drops the search indexes; pg_trgm stays installed
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('profile', (table) => {
+    table.dropIndex(['onboarding_date'], 'idx_profile_onboarding_date');
+    table.dropIndex(['certification_level'], 'idx_profile_certification_level');
+  });
+
+  await knex.raw('DROP INDEX IF EXISTS idx_profile_email_trgm');
+  await knex.raw('DROP INDEX IF EXISTS idx_profile_full_name_fts');
+  await knex.raw('DROP INDEX IF EXISTS idx_profile_full_name_trgm');
+}
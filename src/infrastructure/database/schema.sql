@@ -5,6 +5,9 @@
 -- including all tables, relationships, constraints, and indexes
 -- =============================================================================
 
+-- Trigram matching for the caregiver name and email search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- =============================================================================
 -- CORE ENTITY TABLES (Parent tables first for foreign key dependencies)
 -- =============================================================================
@@ -32,6 +35,7 @@ CREATE TABLE agencies (
     contact_phone VARCHAR(20),
     address TEXT,
     region VARCHAR(100),
+    time_zone VARCHAR(64), -- IANA zone of the agency, e.g. America/Chicago
     status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'inactive', 'suspended')),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -51,6 +55,7 @@ CREATE TABLE locations (
     country VARCHAR(50) DEFAULT 'USA',
     latitude DECIMAL(10, 8),
     longitude DECIMAL(11, 8),
+    time_zone VARCHAR(64), -- IANA zone of the location; overrides the agency's zone
     location_type VARCHAR(50) DEFAULT 'client_home' CHECK (location_type IN ('client_home', 'facility', 'office', 'community')),
     status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -130,6 +135,7 @@ CREATE TABLE caregivers (
     external_id INTEGER REFERENCES external(id) ON DELETE SET NULL,
     applicant_status VARCHAR(100), -- Hiring status (e.g., "New Applicant," "Not Hired")
     status VARCHAR(50) DEFAULT 'active' CHECK (status IN ('active', 'deactivated')), -- Employment status
+    merged_into_id INTEGER REFERENCES caregivers(id) ON DELETE SET NULL, -- Surviving caregiver of a merged duplicate
     
     -- Audit fields
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -185,20 +191,21 @@ CREATE TABLE carelogs (
     caregiver_id INTEGER NOT NULL REFERENCES caregivers(id) ON DELETE RESTRICT,
     parent_id INTEGER REFERENCES parent(id) ON DELETE SET NULL, -- Reference to parent for grouping
     
-    -- Scheduled times
-    start_datetime TIMESTAMP NOT NULL,
-    end_datetime TIMESTAMP NOT NULL,
+    -- Scheduled times (instants; source wall-clock times are converted from the visit's time zone)
+    start_datetime TIMESTAMPTZ NOT NULL,
+    end_datetime TIMESTAMPTZ NOT NULL,
     
     -- Actual clock-in/out times
-    clock_in_actual_datetime TIMESTAMP,
-    clock_out_actual_datetime TIMESTAMP,
+    clock_in_actual_datetime TIMESTAMPTZ,
+    clock_out_actual_datetime TIMESTAMPTZ,
     
-    -- Clock-in/out methods (stored as VARCHAR to match CSV numeric codes)
+    -- Clock-in/out methods: mobile_app, phone, manual, gps (source codes are mapped by the ETL transform)
     clock_in_method VARCHAR(20),
     clock_out_method VARCHAR(20),
     
     -- Visit details
-    status VARCHAR(20) NOT NULL DEFAULT 'scheduled', -- Numeric status code from CSV
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled', -- scheduled, in_progress, completed, cancelled, no_show, deleted (source codes are mapped by the ETL transform)
+    cancellation_reason TEXT, -- Reason given when the visit was cancelled
     
     -- Visit splitting
     split BOOLEAN DEFAULT false, -- Boolean indicating if shift was split
@@ -207,8 +214,8 @@ CREATE TABLE carelogs (
     general_comment_char_count INTEGER DEFAULT 0, -- Number of characters in caregiver comments
     
     -- Audit fields
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
     
     -- Constraints
     CONSTRAINT valid_datetime_range CHECK (end_datetime > start_datetime),
@@ -219,6 +226,189 @@ CREATE TABLE carelogs (
     )
 );
 
+-- =============================================================================
+-- ETL AUDIT TABLES
+-- =============================================================================
+
+-- ETL runs table - One record per runETLPipeline execution (No dependencies)
+CREATE TABLE etl_runs (
+    id SERIAL PRIMARY KEY,
+    entity VARCHAR(50) NOT NULL CHECK (entity IN ('caregivers', 'carelogs')),
+    source_type VARCHAR(20) NOT NULL CHECK (source_type IN ('csv', 'api', 'database', 'records')),
+    source_path TEXT, -- File path, URL or query the data was extracted from
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+    load_mode VARCHAR(20), -- insert, upsert (for validate-only runs, the mode the diff was computed for)
+    validate_only BOOLEAN DEFAULT false,
+    parent_run_id INTEGER REFERENCES etl_runs(id) ON DELETE SET NULL, -- Run a replayed row originally came from
+    
+    -- Timing
+    started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP,
+    
+    -- Counts
+    extracted_count INTEGER DEFAULT 0,
+    transformed_count INTEGER DEFAULT 0,
+    loaded_count INTEGER DEFAULT 0,
+    error_count INTEGER DEFAULT 0,
+    errors_by_type JSONB DEFAULT '{}', -- Row error counts keyed by category
+    pipeline_errors JSONB DEFAULT '[]', -- Phase-level failures (extract, pipeline)
+    diff_summary JSONB, -- Row counts per diff action, for validate-only runs
+    
+    -- Audit fields
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ETL row errors table - Per-row failures of a run (Depends on etl_runs)
+CREATE TABLE etl_row_errors (
+    id SERIAL PRIMARY KEY,
+    etl_run_id INTEGER NOT NULL REFERENCES etl_runs(id) ON DELETE CASCADE,
+    phase VARCHAR(20) NOT NULL CHECK (phase IN ('transform', 'load')),
+    row_index INTEGER, -- 1-based position of the row in the source
+    error_type VARCHAR(50), -- e.g. "Validation Error", "Foreign Key Error"
+    error_message TEXT NOT NULL,
+    raw_payload JSONB, -- Source row as extracted, before transformation
+    
+    -- Audit fields
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ETL run diffs table - What each row of a validate-only run would change (Depends on etl_runs)
+CREATE TABLE etl_run_diffs (
+    id SERIAL PRIMARY KEY,
+    etl_run_id INTEGER NOT NULL REFERENCES etl_runs(id) ON DELETE CASCADE,
+    row_index INTEGER, -- 1-based position of the row in the source
+    action VARCHAR(20) NOT NULL CHECK (action IN ('new', 'update', 'unchanged', 'duplicate', 'fk_failure', 'invalid')),
+    match_key VARCHAR(255), -- External ID or email the row was matched on
+    existing_id INTEGER, -- Row that would be updated or that the row duplicates
+    changes JSONB, -- [{ field, before, after }] for updates
+    message TEXT, -- Reason for duplicates, FK failures and invalid rows
+    
+    -- Audit fields
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ETL watermarks table - High-watermark per incremental source (Depends on etl_runs)
+CREATE TABLE etl_watermarks (
+    id SERIAL PRIMARY KEY,
+    entity VARCHAR(50) NOT NULL CHECK (entity IN ('caregivers', 'carelogs')),
+    source_key TEXT NOT NULL, -- API URL, SQL query or explicit key identifying the source
+    watermark_column VARCHAR(100) NOT NULL, -- e.g. updated_at, id
+    watermark_type VARCHAR(20) NOT NULL CHECK (watermark_type IN ('timestamp', 'id')),
+    watermark_value TEXT NOT NULL, -- Highest loaded value (ISO timestamp or integer)
+    last_run_id INTEGER REFERENCES etl_runs(id) ON DELETE SET NULL,
+    
+    -- Audit fields
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    UNIQUE (entity, source_key)
+);
+
+-- ETL job runs table - Outcome of every firing of a scheduled ETL job (Depends on etl_runs)
+CREATE TABLE etl_job_runs (
+    id SERIAL PRIMARY KEY,
+    job_name VARCHAR(100) NOT NULL, -- Name from the jobs file
+    status VARCHAR(20) NOT NULL CHECK (status IN ('succeeded', 'failed', 'skipped')),
+    scheduled_for TIMESTAMP NOT NULL, -- Time the cron schedule fired for
+    started_at TIMESTAMP NOT NULL,
+    finished_at TIMESTAMP,
+    etl_run_id INTEGER REFERENCES etl_runs(id) ON DELETE SET NULL,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0, -- Failures in a row, 0 after a success
+    error_message TEXT, -- Pipeline error or reason the run was skipped
+    
+    -- Audit fields
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Background jobs table - Durable queue for bulk uploads and exports, claimed with FOR UPDATE SKIP LOCKED
+CREATE TABLE background_jobs (
+    id SERIAL PRIMARY KEY,
+    type VARCHAR(50) NOT NULL, -- e.g. caregiver_bulk_upload, carelog_analytics_export
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    payload JSONB NOT NULL, -- Input of the job handler
+    result JSONB, -- Output of the job handler once it succeeded
+    progress JSONB, -- Latest progress reported by the running job
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP, -- Earliest time a worker may claim the job
+    locked_by VARCHAR(255), -- Worker running the job
+    locked_at TIMESTAMP, -- Heartbeat of the worker running the job
+    last_error TEXT, -- Error of the latest failed attempt
+    started_at TIMESTAMP,
+    finished_at TIMESTAMP,
+    
+    -- Audit fields
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ETL quarantine table - Rows rejected by the transform step, kept for correction and replay (Depends on etl_runs)
+CREATE TABLE etl_quarantine (
+    id SERIAL PRIMARY KEY,
+    etl_run_id INTEGER REFERENCES etl_runs(id) ON DELETE SET NULL,
+    entity VARCHAR(50) NOT NULL CHECK (entity IN ('caregivers', 'carelogs')),
+    row_index INTEGER, -- 1-based position of the row in the original source
+    raw_payload JSONB NOT NULL, -- Source row, editable before replay
+    error_message TEXT NOT NULL, -- Reason the row was rejected
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'replayed', 'discarded')),
+    
+    -- Replay tracking
+    replay_count INTEGER DEFAULT 0,
+    last_replay_run_id INTEGER REFERENCES etl_runs(id) ON DELETE SET NULL,
+    last_replay_error TEXT,
+    resolved_at TIMESTAMP,
+    
+    -- Audit fields
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Caregiver merges table - Audit trail of duplicate caregivers merged into a survivor, with what each merge moved (Depends on caregivers)
+CREATE TABLE caregiver_merges (
+    id SERIAL PRIMARY KEY,
+    survivor_id INTEGER NOT NULL REFERENCES caregivers(id) ON DELETE CASCADE,
+    duplicate_id INTEGER NOT NULL REFERENCES caregivers(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'merged' CHECK (status IN ('merged', 'undone')),
+    score DECIMAL(5, 4), -- Duplicate score of the pair, when the merge came from a scan
+    reason TEXT, -- Why the caregivers were merged
+    previous_status VARCHAR(50), -- Status of the duplicate before the merge
+    carelog_ids JSONB NOT NULL DEFAULT '[]', -- Carelogs moved from the duplicate to the survivor
+    parent_ids JSONB NOT NULL DEFAULT '[]', -- Parent visits whose primary caregiver was moved
+    redirected_caregiver_ids JSONB NOT NULL DEFAULT '[]', -- Earlier duplicates of the duplicate, now pointing at the survivor
+    merged_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    undone_at TIMESTAMPTZ
+);
+
+-- Data quality runs table - One profile of the loaded tables, queued after a successful ETL run or on demand (Depends on etl_runs)
+CREATE TABLE data_quality_runs (
+    id SERIAL PRIMARY KEY,
+    etl_run_id INTEGER REFERENCES etl_runs(id) ON DELETE SET NULL, -- ETL run that queued the profile
+    trigger VARCHAR(20) NOT NULL DEFAULT 'manual', -- manual or etl
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+    metric_count INTEGER NOT NULL DEFAULT 0,
+    flagged_count INTEGER NOT NULL DEFAULT 0, -- Metrics that broke a threshold
+    error_message TEXT,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMPTZ
+);
+
+-- Data quality metrics table - Measured metrics of a run, one row per table, column and check (Depends on data_quality_runs)
+CREATE TABLE data_quality_metrics (
+    id SERIAL PRIMARY KEY,
+    run_id INTEGER NOT NULL REFERENCES data_quality_runs(id) ON DELETE CASCADE,
+    table_name VARCHAR(100) NOT NULL,
+    column_name VARCHAR(100), -- NULL for table-level metrics such as row counts
+    category VARCHAR(20) NOT NULL, -- volume, completeness, validity, integrity or visits
+    metric VARCHAR(100) NOT NULL, -- e.g. null_rate, orphan_reference, missing_clock_out
+    row_count INTEGER NOT NULL DEFAULT 0,
+    failing_count INTEGER NOT NULL DEFAULT 0,
+    rate DECIMAL(9, 6) NOT NULL DEFAULT 0, -- failing_count / row_count
+    details JSONB, -- Sample IDs of failing rows
+    flagged BOOLEAN NOT NULL DEFAULT FALSE,
+    flag_reasons JSONB NOT NULL DEFAULT '[]' -- Thresholds the metric broke
+);
+
 -- =============================================================================
 -- INDEXES FOR PERFORMANCE
 -- =============================================================================
@@ -254,6 +444,12 @@ CREATE INDEX idx_profile_applicant ON profile(applicant);
 CREATE INDEX idx_profile_email ON profile(email);
 CREATE INDEX idx_profile_name ON profile(last_name, first_name);
 CREATE INDEX idx_profile_applicant_status ON profile(applicant_status);
+CREATE INDEX idx_profile_certification_level ON profile(certification_level);
+CREATE INDEX idx_profile_onboarding_date ON profile(onboarding_date);
+-- Caregiver search: trigram and prefix full-text matching on the full name, substring matching on email
+CREATE INDEX idx_profile_full_name_trgm ON profile USING GIN ((first_name || ' ' || last_name) gin_trgm_ops);
+CREATE INDEX idx_profile_full_name_fts ON profile USING GIN (to_tsvector('simple', first_name || ' ' || last_name));
+CREATE INDEX idx_profile_email_trgm ON profile USING GIN (email gin_trgm_ops);
 
 -- External indexes
 CREATE INDEX idx_external_external_id ON external(external_id);
@@ -266,6 +462,7 @@ CREATE INDEX idx_caregivers_profile_id ON caregivers(profile_id);
 CREATE INDEX idx_caregivers_external_id ON caregivers(external_id);
 CREATE INDEX idx_caregivers_status ON caregivers(status);
 CREATE INDEX idx_caregivers_applicant_status ON caregivers(applicant_status);
+CREATE INDEX idx_caregivers_merged_into_id ON caregivers(merged_into_id);
 
 -- Parent indexes
 CREATE INDEX idx_parent_franchisor_id ON parent(franchisor_id);
@@ -294,6 +491,34 @@ CREATE INDEX idx_carelogs_created_at ON carelogs(created_at);
 CREATE INDEX idx_carelogs_caregiver_date ON carelogs(caregiver_id, start_datetime);
 CREATE INDEX idx_carelogs_status_date ON carelogs(status, start_datetime);
 
+-- Keyset pagination of the carelog list
+CREATE INDEX idx_carelogs_start_datetime_id ON carelogs(start_datetime, id);
+
+-- ETL audit indexes
+CREATE INDEX idx_etl_runs_entity_started ON etl_runs(entity, started_at);
+CREATE INDEX idx_etl_runs_status ON etl_runs(status);
+CREATE INDEX idx_etl_row_errors_run_row ON etl_row_errors(etl_run_id, row_index);
+CREATE INDEX idx_etl_row_errors_error_type ON etl_row_errors(error_type);
+CREATE INDEX idx_etl_runs_parent_run_id ON etl_runs(parent_run_id);
+CREATE INDEX idx_etl_quarantine_entity_status ON etl_quarantine(entity, status);
+CREATE INDEX idx_etl_quarantine_etl_run_id ON etl_quarantine(etl_run_id);
+CREATE INDEX idx_etl_run_diffs_run_row ON etl_run_diffs(etl_run_id, row_index);
+CREATE INDEX idx_etl_run_diffs_run_action ON etl_run_diffs(etl_run_id, action);
+CREATE INDEX idx_etl_job_runs_job_started ON etl_job_runs(job_name, started_at);
+
+-- Job queue indexes
+CREATE INDEX idx_background_jobs_status_run_at ON background_jobs(status, run_at);
+CREATE INDEX idx_background_jobs_type_created ON background_jobs(type, created_at);
+
+-- Caregiver merge audit indexes
+CREATE INDEX idx_caregiver_merges_survivor ON caregiver_merges(survivor_id, merged_at);
+CREATE INDEX idx_caregiver_merges_duplicate ON caregiver_merges(duplicate_id, status);
+
+-- Data quality indexes
+CREATE INDEX idx_data_quality_runs_started_at ON data_quality_runs(started_at);
+CREATE INDEX idx_data_quality_metrics_run_id ON data_quality_metrics(run_id);
+CREATE INDEX idx_data_quality_metrics_trend ON data_quality_metrics(table_name, column_name, metric, run_id);
+
 -- =============================================================================
 -- TRIGGERS FOR AUTOMATIC UPDATES
 -- =============================================================================
@@ -317,6 +542,10 @@ CREATE TRIGGER update_external_updated_at BEFORE UPDATE ON external FOR EACH ROW
 CREATE TRIGGER update_caregivers_updated_at BEFORE UPDATE ON caregivers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_parent_updated_at BEFORE UPDATE ON parent FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_carelogs_updated_at BEFORE UPDATE ON carelogs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_etl_runs_updated_at BEFORE UPDATE ON etl_runs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_etl_watermarks_updated_at BEFORE UPDATE ON etl_watermarks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_background_jobs_updated_at BEFORE UPDATE ON background_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_etl_quarantine_updated_at BEFORE UPDATE ON etl_quarantine FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Note: general_comment_char_count is now populated from CSV data
 -- No automatic trigger needed as this comes directly from the source system
@@ -398,10 +627,22 @@ COMMENT ON TABLE external IS 'External system identifiers and references for car
 COMMENT ON TABLE caregivers IS 'Core caregiver records linking profile and external data';
 COMMENT ON TABLE parent IS 'Parent visit records for grouping related care visits and managing split shifts';
 COMMENT ON TABLE carelogs IS 'Individual care visit records tracking scheduled and actual visit times';
+COMMENT ON TABLE etl_runs IS 'History of ETL pipeline runs with extracted, transformed and loaded counts';
+COMMENT ON TABLE etl_row_errors IS 'Per-row transform and load failures of an ETL run, with the raw source row';
+COMMENT ON TABLE etl_watermarks IS 'High-watermark per incremental ETL source, advanced after each successful load';
+COMMENT ON TABLE etl_run_diffs IS 'Dry-run diff of a validate-only ETL run: new, updated, duplicate, FK-failing and invalid rows';
+COMMENT ON TABLE etl_job_runs IS 'Outcome of each scheduled ETL job firing, including runs skipped for the job lock or failure backoff';
+COMMENT ON TABLE background_jobs IS 'Durable background job queue for bulk uploads and analytics exports, with retries and progress';
+COMMENT ON TABLE caregiver_merges IS 'Duplicate caregivers merged into a surviving caregiver, with the carelogs and visits each merge moved so it can be undone';
+COMMENT ON TABLE data_quality_runs IS 'Data-quality profiles of the loaded tables, queued after each successful ETL run or on demand';
+COMMENT ON TABLE data_quality_metrics IS 'Null rates, out-of-range values, orphan references and visit checks measured by a data-quality run, flagged against the thresholds';
+COMMENT ON TABLE etl_quarantine IS 'Rows rejected during ETL transformation, held for correction and replay';
 
 COMMENT ON COLUMN carelogs.split IS 'Boolean indicating if shift was split into multiple shifts';
 COMMENT ON COLUMN carelogs.parent_id IS 'References parent table for visit grouping and split shift management';
 COMMENT ON COLUMN carelogs.external_id IS 'Unique visit log identifier from CSV';
+COMMENT ON COLUMN agencies.time_zone IS 'IANA time zone the agency schedules visits in; used for local weeks in analytics';
+COMMENT ON COLUMN locations.time_zone IS 'IANA time zone of the location; takes precedence over the agency time zone';
 COMMENT ON COLUMN carelogs.general_comment_char_count IS 'Number of characters caregiver provided as comments for the visit';
 COMMENT ON COLUMN profile.sstatus IS 'Caregiver status in the system';
 COMMENT ON COLUMN profile.applicant IS 'Boolean indicating if person is an applicant';
@@ -410,6 +651,7 @@ COMMENT ON COLUMN external.external_id IS 'External system identifier for the ca
 COMMENT ON COLUMN external.system_name IS 'Name of the external system providing the identifier';
 COMMENT ON COLUMN caregivers.profile_id IS 'References profile table for caregiver personal information';
 COMMENT ON COLUMN caregivers.external_id IS 'References external table for system identifiers';
+COMMENT ON COLUMN caregivers.merged_into_id IS 'Surviving caregiver this duplicate was merged into; external IDs of the duplicate resolve to the survivor';
 COMMENT ON COLUMN caregivers.applicant_status IS 'Current hiring status of the caregiver';
 COMMENT ON COLUMN parent.is_split IS 'Boolean indicating if this visit was split into multiple shifts';
 COMMENT ON COLUMN parent.split_reason IS 'Reason for splitting the visit (e.g., caregiver change, break requirements)';
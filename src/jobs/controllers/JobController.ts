@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { JobQueueService } from '../services/JobQueueService';
+import { JobStatus } from '../models/backgroundJob';
+import { formatCSV } from '../../shared/utils/csv';
+import { sendData, sendError, sendPage } from '../../shared/utils/apiResponse';
+import { errorMessage } from '../../shared/utils/errors';
+
+export class JobController {
+  constructor(private jobQueueService: JobQueueService) { }
+
+  async getJobs(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit = 20, offset = 0, type, status } = req.query;
+      const options = {
+        limit: parseInt(limit as string) || 20,
+        offset: parseInt(offset as string) || 0,
+        type: type as string,
+        status: status as string
+      };
+      const jobs = await this.jobQueueService.getJobs(options);
+      sendPage(res, jobs, options);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  /**
+   * Status and progress of a job; the result is only included once it succeeded
+   */
+  async getJobById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid job ID');
+        return;
+      }
+
+      const job = await this.jobQueueService.getJobById(id);
+      if (!job) {
+        sendError(res, 404, 'Job not found');
+        return;
+      }
+
+      // Export rows can be large; they are downloaded from /result instead
+      if (Array.isArray(job.result?.rows)) {
+        const { rows, ...summary } = job.result;
+        job.result = { ...summary, result_url: `/api/jobs/${job.id}/result` };
+      }
+
+      sendData(res, job);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  /**
+   * Result of a succeeded job; export rows can be downloaded as CSV with ?format=csv
+   */
+  async getJobResult(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid job ID');
+        return;
+      }
+
+      const { format = 'json' } = req.query;
+      if (format !== 'json' && format !== 'csv') {
+        sendError(res, 400, 'Format must be json or csv');
+        return;
+      }
+
+      const job = await this.jobQueueService.getJobById(id);
+      if (!job) {
+        sendError(res, 404, 'Job not found');
+        return;
+      }
+      if (job.status !== JobStatus.SUCCEEDED) {
+        sendError(res, 409, `Job is ${job.status}, result is not available`);
+        return;
+      }
+
+      if (format === 'csv') {
+        if (!Array.isArray(job.result?.rows)) {
+          sendError(res, 400, 'CSV is only available for export jobs');
+          return;
+        }
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="job-${id}-${job.result.query}.csv"`);
+        res.send(formatCSV(job.result.rows));
+        return;
+      }
+
+      sendData(res, job.result);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Enum for the kinds of work the background queue runs
+ */
+export enum JobType {
+  CAREGIVER_BULK_UPLOAD = 'caregiver_bulk_upload',
+  CARELOG_BULK_UPLOAD = 'carelog_bulk_upload',
+  CARELOG_ANALYTICS_EXPORT = 'carelog_analytics_export',
+  CAREGIVER_DUPLICATE_SCAN = 'caregiver_duplicate_scan',
+  DATA_QUALITY_PROFILE = 'data_quality_profile'
+}
+
+/**
+ * Enum for the lifecycle of a queued job
+ * A failed attempt with attempts left goes back to QUEUED with a later run_at
+ */
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed'
+}
+
+/**
+ * Progress reported by a running job; ETL jobs report their batch counts
+ */
+export interface JobProgress {
+  message?: string;
+  [key: string]: any;
+}
+
+/**
+ * Background job model (background_jobs table)
+ */
+export interface BackgroundJob {
+  /** Primary key - unique identifier for the job */
+  id: number;
+
+  type: JobType;
+  status: JobStatus;
+
+  /** Input of the job handler */
+  payload: Record<string, any>;
+
+  /** Output of the job handler once it succeeded */
+  result?: any;
+
+  progress?: JobProgress | null;
+
+  /** Attempts started so far, and the most allowed before the job fails */
+  attempts: number;
+  max_attempts: number;
+
+  /** Earliest time a worker may pick the job up (pushed back after a failed attempt) */
+  run_at: Date | string;
+
+  /** Worker holding the job while it runs; locked_at doubles as its heartbeat */
+  locked_by?: string | null;
+  locked_at?: Date | string | null;
+
+  /** Error of the latest failed attempt */
+  last_error?: string | null;
+
+  started_at?: Date | string | null;
+  finished_at?: Date | string | null;
+  created_at?: Date | string;
+  updated_at?: Date | string;
+}
+
+/**
+ * Interface for enqueuing a job (excludes generated and worker-managed fields)
+ */
+export interface CreateBackgroundJobData {
+  type: JobType;
+  payload: Record<string, any>;
+  max_attempts?: number;
+  run_at?: Date;
+}
@@ -0,0 +1,227 @@
+import { Knex } from 'knex';
+import { BackgroundJob, CreateBackgroundJobData, JobProgress, JobStatus } from '../models/backgroundJob';
+import { errorMessage } from '../../shared/utils/errors';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Repository for the Postgres-backed job queue (background_jobs)
+ * Workers claim jobs with SELECT ... FOR UPDATE SKIP LOCKED, so any number of worker
+ * processes can poll the same table without picking up the same job twice
+ */
+export class JobQueueRepository {
+  constructor(private readonly knex: Knex) { }
+
+  /**
+   * Add a job to the queue and return it
+   */
+  async enqueue(jobData: CreateBackgroundJobData): Promise<BackgroundJob> {
+    try {
+      const [job] = await this.knex('background_jobs')
+        .insert({
+          type: jobData.type,
+          status: JobStatus.QUEUED,
+          payload: JSON.stringify(jobData.payload),
+          attempts: 0,
+          max_attempts: jobData.max_attempts ?? DEFAULT_MAX_ATTEMPTS,
+          run_at: jobData.run_at ?? new Date(),
+          created_at: new Date(),
+          updated_at: new Date()
+        })
+        .returning('*');
+
+      return job;
+    } catch (error) {
+      console.error('Error in JobQueueRepository.enqueue:', error);
+      throw new Error(`Failed to enqueue job: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Claim the next due job of the given types for a worker, or null when there is none
+   * Jobs left RUNNING by a worker whose heartbeat is older than `staleAfterMs` are claimed
+   * again; when such a job has no attempts left it is failed instead
+   */
+  async claimNext(workerId: string, types: string[], staleAfterMs: number): Promise<BackgroundJob | null> {
+    try {
+      return await this.knex.transaction(async (trx) => {
+        const now = new Date();
+        const staleBefore = new Date(now.getTime() - staleAfterMs);
+
+        const job: BackgroundJob | undefined = await trx('background_jobs')
+          .whereIn('type', types)
+          .where(query => query
+            .where(due => due.where('status', JobStatus.QUEUED).where('run_at', '<=', now))
+            .orWhere(stale => stale.where('status', JobStatus.RUNNING).where('locked_at', '<', staleBefore)))
+          .orderBy('run_at', 'asc')
+          .orderBy('id', 'asc')
+          .forUpdate()
+          .skipLocked()
+          .first();
+
+        if (!job) {
+          return null;
+        }
+
+        if (job.status === JobStatus.RUNNING && job.attempts >= job.max_attempts) {
+          console.warn(`⚠ Job ${job.id} was abandoned by worker ${job.locked_by} on its last attempt, failing it`);
+          await trx('background_jobs')
+            .where('id', job.id)
+            .update({
+              status: JobStatus.FAILED,
+              last_error: `Worker ${job.locked_by} stopped responding`,
+              locked_by: null,
+              locked_at: null,
+              finished_at: now,
+              updated_at: now
+            });
+          return null;
+        }
+
+        const [claimed] = await trx('background_jobs')
+          .where('id', job.id)
+          .update({
+            status: JobStatus.RUNNING,
+            attempts: job.attempts + 1,
+            locked_by: workerId,
+            locked_at: now,
+            started_at: now,
+            progress: null,
+            updated_at: now
+          })
+          .returning('*');
+
+        return claimed;
+      });
+    } catch (error) {
+      console.error('Error in JobQueueRepository.claimNext:', error);
+      throw new Error(`Failed to claim job: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Store a running job's progress and refresh its heartbeat
+   * Returns false when the worker no longer holds the job
+   */
+  async updateProgress(id: number, workerId: string, progress: JobProgress): Promise<boolean> {
+    try {
+      const updated = await this.knex('background_jobs')
+        .where({ id, locked_by: workerId, status: JobStatus.RUNNING })
+        .update({ progress: JSON.stringify(progress), locked_at: new Date(), updated_at: new Date() });
+
+      return updated > 0;
+    } catch (error) {
+      console.error('Error in JobQueueRepository.updateProgress:', error);
+      throw new Error(`Failed to update job progress: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Refresh the heartbeat of a running job so it is not reclaimed as stale
+   */
+  async heartbeat(id: number, workerId: string): Promise<boolean> {
+    try {
+      const updated = await this.knex('background_jobs')
+        .where({ id, locked_by: workerId, status: JobStatus.RUNNING })
+        .update({ locked_at: new Date() });
+
+      return updated > 0;
+    } catch (error) {
+      console.error('Error in JobQueueRepository.heartbeat:', error);
+      throw new Error(`Failed to refresh job heartbeat: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Mark a running job as succeeded with its result
+   */
+  async complete(id: number, workerId: string, result: any): Promise<void> {
+    try {
+      await this.knex('background_jobs')
+        .where({ id, locked_by: workerId })
+        .update({
+          status: JobStatus.SUCCEEDED,
+          result: JSON.stringify(result ?? null),
+          last_error: null,
+          locked_by: null,
+          locked_at: null,
+          finished_at: new Date(),
+          updated_at: new Date()
+        });
+    } catch (error) {
+      console.error('Error in JobQueueRepository.complete:', error);
+      throw new Error(`Failed to complete job: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Record a failed attempt: requeue the job for `retryAt`, or fail it for good when retryAt is null
+   */
+  async fail(id: number, workerId: string, lastError: string, retryAt: Date | null): Promise<void> {
+    try {
+      await this.knex('background_jobs')
+        .where({ id, locked_by: workerId })
+        .update({
+          status: retryAt ? JobStatus.QUEUED : JobStatus.FAILED,
+          ...(retryAt ? { run_at: retryAt } : {}),
+          last_error: lastError,
+          locked_by: null,
+          locked_at: null,
+          finished_at: retryAt ? null : new Date(),
+          updated_at: new Date()
+        });
+    } catch (error) {
+      console.error('Error in JobQueueRepository.fail:', error);
+      throw new Error(`Failed to record job failure: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find a job by ID
+   */
+  async findById(id: number): Promise<BackgroundJob | null> {
+    try {
+      const job = await this.knex('background_jobs').where('id', id).first();
+      return job || null;
+    } catch (error) {
+      console.error('Error in JobQueueRepository.findById:', error);
+      throw new Error(`Failed to fetch job: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find jobs, most recent first; results are left out of listings
+   */
+  async findAll(options: {
+    limit?: number;
+    offset?: number;
+    type?: string;
+    status?: string;
+  } = {}): Promise<BackgroundJob[]> {
+    try {
+      const { limit = 20, offset = 0, type, status } = options;
+
+      let query = this.knex('background_jobs')
+        .select(
+          'id', 'type', 'status', 'payload', 'progress', 'attempts', 'max_attempts', 'run_at',
+          'locked_by', 'last_error', 'started_at', 'finished_at', 'created_at', 'updated_at'
+        )
+        .orderBy('created_at', 'desc')
+        .orderBy('id', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      if (type) {
+        query = query.where('type', type);
+      }
+      if (status) {
+        query = query.where('status', status);
+      }
+
+      return await query;
+    } catch (error) {
+      console.error('Error in JobQueueRepository.findAll:', error);
+      throw new Error(`Failed to fetch jobs: ${errorMessage(error)}`);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { JobController } from '../controllers/JobController';
+
+/**
+ * Background job status routes
+ */
+export function createJobRouter(controller: JobController): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => controller.getJobs(req, res));
+  router.get('/:id', (req, res) => controller.getJobById(req, res));
+  router.get('/:id/result', (req, res) => controller.getJobResult(req, res));
+
+  return router;
+}
@@ -0,0 +1,68 @@
+import { JobQueueRepository } from '../repositories/JobQueueRepository';
+import { BackgroundJob, JobStatus, JobType } from '../models/backgroundJob';
+import { errorMessage } from '../../shared/utils/errors';
+
+interface JobListOptions {
+  limit?: number;
+  offset?: number;
+  type?: string;
+  status?: string;
+}
+
+export class JobQueueService {
+  constructor(private readonly jobQueueRepository: JobQueueRepository) {}
+
+  async enqueue(type: JobType, payload: Record<string, any>, options: { maxAttempts?: number } = {}): Promise<BackgroundJob> {
+    try {
+      if (!Object.values(JobType).includes(type)) {
+        throw new Error(`Unknown job type: ${type}`);
+      }
+      if (options.maxAttempts !== undefined && (options.maxAttempts < 1 || options.maxAttempts > 10)) {
+        throw new Error('Max attempts must be between 1 and 10');
+      }
+
+      const job = await this.jobQueueRepository.enqueue({ type, payload, max_attempts: options.maxAttempts });
+      console.log(`📝 Queued job ${job.id} (${type})`);
+      return job;
+    } catch (error) {
+      console.error('Error in JobQueueService.enqueue:', error);
+      throw new Error(`Failed to queue ${type} job: ${errorMessage(error)}`);
+    }
+  }
+
+  async getJobs(options: JobListOptions = {}): Promise<BackgroundJob[]> {
+    try {
+      const { limit = 20, offset = 0, type, status } = options;
+
+      if (limit <= 0 || limit > 100) {
+        throw new Error('Limit must be between 1 and 100');
+      }
+      if (offset < 0) {
+        throw new Error('Offset must be non-negative');
+      }
+      if (type && !Object.values(JobType).includes(type as JobType)) {
+        throw new Error(`Type must be one of: ${Object.values(JobType).join(', ')}`);
+      }
+      if (status && !Object.values(JobStatus).includes(status as JobStatus)) {
+        throw new Error(`Status must be one of: ${Object.values(JobStatus).join(', ')}`);
+      }
+
+      return await this.jobQueueRepository.findAll({ ...options, limit, offset });
+    } catch (error) {
+      console.error('Error in JobQueueService.getJobs:', error);
+      throw new Error(`Failed to get jobs: ${errorMessage(error)}`);
+    }
+  }
+
+  async getJobById(id: number): Promise<BackgroundJob | null> {
+    try {
+      if (!id || id <= 0) {
+        throw new Error('Valid job ID is required');
+      }
+      return await this.jobQueueRepository.findById(id);
+    } catch (error) {
+      console.error('Error in JobQueueService.getJobById:', error);
+      throw new Error(`Failed to get job: ${errorMessage(error)}`);
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import * as os from 'os';
+import { JobQueueRepository } from '../repositories/JobQueueRepository';
+import { BackgroundJob, JobProgress, JobType } from '../models/backgroundJob';
+import { errorMessage } from '../../shared/utils/errors';
+
+/**
+ * Passed to a job handler so it can report progress while it runs
+ */
+export interface JobContext {
+  reportProgress(progress: JobProgress): Promise<void>;
+}
+
+/**
+ * Runs one job and returns its result; throwing fails the attempt
+ */
+export type JobHandler = (job: BackgroundJob, context: JobContext) => Promise<any>;
+
+/**
+ * Thrown by a handler when retrying cannot help (e.g. an invalid payload); the job fails at once
+ */
+export class PermanentJobError extends Error {}
+
+export interface JobWorkerOptions {
+  /** Identifies the worker in locked_by (default hostname:pid) */
+  workerId?: string;
+  /** Jobs run at the same time by this worker (default 1) */
+  concurrency?: number;
+  /** Wait between polls of an empty queue (default 2 seconds) */
+  pollIntervalMs?: number;
+  /** A running job whose heartbeat is older than this is reclaimed (default 10 minutes) */
+  staleAfterMs?: number;
+  /** Retry delay after the first failed attempt, doubled per attempt (default 30 seconds) */
+  retryBaseDelayMs?: number;
+  /** Upper bound of the retry delay (default 30 minutes) */
+  retryMaxDelayMs?: number;
+}
+
+/**
+ * Polls the job queue and runs claimed jobs with the handler registered for their type
+ * Several workers (in one or more processes) can share a queue: claims use SKIP LOCKED,
+ * and a heartbeat keeps long jobs from being reclaimed while they run
+ */
+export class JobWorker {
+  private readonly workerId: string;
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly staleAfterMs: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+  private readonly loops: Promise<void>[] = [];
+  private stopped = true;
+  private readonly sleepers = new Set<() => void>();
+
+  constructor(
+    private readonly repository: JobQueueRepository,
+    private readonly handlers: Partial<Record<JobType, JobHandler>>,
+    options: JobWorkerOptions = {}
+  ) {
+    this.workerId = options.workerId || `${os.hostname()}:${process.pid}`;
+    this.concurrency = options.concurrency ?? 1;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.staleAfterMs = options.staleAfterMs ?? 10 * 60 * 1000;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 30 * 1000;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 30 * 60 * 1000;
+  }
+
+  /**
+   * Start polling with `concurrency` loops
+   */
+  start(): void {
+    this.stopped = false;
+    console.log(`🚀 Job worker ${this.workerId} started (${this.concurrency} concurrent, types: ${Object.keys(this.handlers).join(', ')})`);
+    for (let i = 0; i < this.concurrency; i++) {
+      this.loops.push(this.pollLoop());
+    }
+  }
+
+  /**
+   * Stop polling and wait for the jobs in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.sleepers.forEach(wakeUp => wakeUp());
+    await Promise.allSettled(this.loops);
+  }
+
+  /**
+   * Claim and run one job; returns false when the queue had nothing due
+   */
+  async runNext(): Promise<boolean> {
+    const job = await this.repository.claimNext(this.workerId, Object.keys(this.handlers), this.staleAfterMs);
+    if (!job) {
+      return false;
+    }
+
+    await this.runJob(job);
+    return true;
+  }
+
+  private async pollLoop(): Promise<void> {
+    while (!this.stopped) {
+      let ranJob = false;
+      try {
+        ranJob = await this.runNext();
+      } catch (error) {
+        console.error(`✗ Job worker poll failed: ${errorMessage(error)}`);
+      }
+
+      if (!ranJob && !this.stopped) {
+        await new Promise<void>(resolve => {
+          const wakeUp = () => {
+            clearTimeout(timer);
+            this.sleepers.delete(wakeUp);
+            resolve();
+          };
+          const timer = setTimeout(wakeUp, this.pollIntervalMs);
+          this.sleepers.add(wakeUp);
+        });
+      }
+    }
+  }
+
+  private async runJob(job: BackgroundJob): Promise<void> {
+    const handler = this.handlers[job.type]!;
+    console.log(`📝 Job ${job.id} (${job.type}) attempt ${job.attempts}/${job.max_attempts}`);
+
+    const heartbeat = setInterval(() => {
+      this.repository.heartbeat(job.id, this.workerId)
+        .catch(error => console.warn(`⚠ Job ${job.id} heartbeat failed: ${error.message}`));
+    }, Math.max(this.staleAfterMs / 3, 1000));
+
+    const context: JobContext = {
+      reportProgress: async (progress) => {
+        const held = await this.repository.updateProgress(job.id, this.workerId, progress);
+        if (!held) {
+          console.warn(`⚠ Job ${job.id} is no longer held by ${this.workerId}`);
+        }
+      }
+    };
+
+    try {
+      const result = await handler(job, context);
+      await this.repository.complete(job.id, this.workerId, result);
+      console.log(`✅ Job ${job.id} (${job.type}) succeeded`);
+    } catch (error) {
+      const retryAt = this.retryAt(job, error);
+      console.error(`❌ Job ${job.id} (${job.type}) failed: ${errorMessage(error)}${retryAt ? `, retrying at ${retryAt.toISOString()}` : ''}`);
+      await this.repository.fail(job.id, this.workerId, errorMessage(error), retryAt);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Time of the next attempt (base * 2^(attempts - 1), capped), or null when the job is out of attempts
+   */
+  private retryAt(job: BackgroundJob, error: any): Date | null {
+    if (error instanceof PermanentJobError || job.attempts >= job.max_attempts) {
+      return null;
+    }
+
+    const delay = Math.min(this.retryBaseDelayMs * 2 ** (job.attempts - 1), this.retryMaxDelayMs);
+    return new Date(Date.now() + delay);
+  }
+}
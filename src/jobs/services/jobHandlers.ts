@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import { CaregiverRepository } from '../../caregiver/repositories/CaregiverRepository';
+import { CaregiverMergeService } from '../../caregiver/services/CaregiverMergeService';
+import { DataQualityService } from '../../quality/services/DataQualityService';
+import { CarelogsRepository } from '../../carelogs/repositories/CarelogsRepository';
+import { CarelogsService } from '../../carelogs/services/CarelogsService';
+import { ANALYTICS_QUERIES } from '../../carelogs/models/carelogs';
+import { ETLEntity, ETLProgress } from '../../etl/models/etlRun';
+import { summarizeETLRun } from '../../etl/utils/runSummary';
+import { BackgroundJob, JobType } from '../models/backgroundJob';
+import { JobContext, JobHandler, PermanentJobError } from './JobWorker';
+
+interface JobHandlerDependencies {
+  caregiverRepository: CaregiverRepository;
+  carelogsRepository: CarelogsRepository;
+  carelogsService: CarelogsService;
+  caregiverMergeService: CaregiverMergeService;
+  dataQualityService: DataQualityService;
+}
+
+/**
+ * Handlers for every job type, bound to the repositories and services they run
+ */
+export function createJobHandlers(deps: JobHandlerDependencies): Record<JobType, JobHandler> {
+  return {
+    [JobType.CAREGIVER_BULK_UPLOAD]: (job, context) => runCSVLoad('caregivers', deps, job, context),
+    [JobType.CARELOG_BULK_UPLOAD]: (job, context) => runCSVLoad('carelogs', deps, job, context),
+
+    [JobType.CARELOG_ANALYTICS_EXPORT]: async (job, context) => {
+      const { query, limit, minCharCount } = job.payload;
+      if (!ANALYTICS_QUERIES.includes(query)) {
+        throw new PermanentJobError(`Unknown analytics query: ${query}`);
+      }
+
+      await context.reportProgress({ message: `Running ${query}` });
+      const rows = await deps.carelogsService.exportAnalytics(query, { limit, minCharCount });
+
+      return { query, row_count: rows.length, rows };
+    },
+
+    [JobType.CAREGIVER_DUPLICATE_SCAN]: async (job, context) => {
+      const { minScore, agencyId, limit } = job.payload;
+
+      await context.reportProgress({ message: 'Scoring candidate pairs' });
+      const candidates = await deps.caregiverMergeService.scanForDuplicates({ minScore, agencyId, limit });
+
+      return { pair_count: candidates.length, candidates };
+    },
+
+    [JobType.DATA_QUALITY_PROFILE]: async (job, context) => {
+      const { etl_run_id, trigger } = job.payload;
+
+      await context.reportProgress({ message: 'Profiling loaded tables' });
+      const report = await deps.dataQualityService.profile({ etlRunId: etl_run_id, trigger });
+
+      return {
+        run_id: report.id,
+        metric_count: report.metric_count,
+        flagged_count: report.flagged_count,
+        flagged: report.metrics.filter(metric => metric.flagged)
+      };
+    }
+  };
+}
+
+/**
+ * Run the ETL pipeline of an entity over a CSV file and return the run summary
+ * Row errors stay in the run's error ledger; only a failed pipeline fails (and retries) the job.
+ * Uploaded files (`delete_after`) are removed once the job succeeds or runs out of attempts
+ */
+async function runCSVLoad(entity: ETLEntity, deps: JobHandlerDependencies, job: BackgroundJob, context: JobContext): Promise<Record<string, any>> {
+  const { path, mode, batchSize, loadStrategy, original_name, delete_after } = job.payload;
+  if (!path) {
+    throw new PermanentJobError('payload.path is required');
+  }
+
+  const onProgress = (progress: ETLProgress) => context.reportProgress({
+    message: `Batch ${progress.batchNumber}: ${progress.extractedCount} rows read`,
+    ...progress
+  });
+
+  let finished = false;
+  try {
+    if (!fs.existsSync(path)) {
+      throw new PermanentJobError(`CSV file not found: ${path}`);
+    }
+
+    const result = entity === 'caregivers'
+      ? await deps.caregiverRepository.runETLPipeline({ type: 'csv', path }, { mode, batchSize, continueOnError: true, onProgress })
+      : await deps.carelogsRepository.runETLPipeline({ type: 'csv', path }, { mode, batchSize, loadStrategy, onProgress });
+
+    const summary = summarizeETLRun(entity, result);
+    if (!summary.success) {
+      throw new Error(summary.error || 'ETL pipeline failed');
+    }
+
+    finished = true;
+    return original_name ? { file: original_name, ...summary } : summary;
+  } catch (error) {
+    finished = error instanceof PermanentJobError || job.attempts >= job.max_attempts;
+    throw error;
+  } finally {
+    if (delete_after && finished) {
+      fs.rmSync(path, { force: true });
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import dotenv from 'dotenv';
+import { knexInstance } from '../infrastructure/database/knexConnection';
+import { CaregiverRepository } from '../caregiver/repositories/CaregiverRepository';
+import { CaregiverMergeRepository } from '../caregiver/repositories/CaregiverMergeRepository';
+import { CaregiverMergeService } from '../caregiver/services/CaregiverMergeService';
+import { DataQualityRepository } from '../quality/repositories/DataQualityRepository';
+import { DataQualityService } from '../quality/services/DataQualityService';
+import { CarelogsRepository } from '../carelogs/repositories/CarelogsRepository';
+import { CarelogsService } from '../carelogs/services/CarelogsService';
+import { ETLRunRepository } from '../etl/repositories/ETLRunRepository';
+import { ETLQuarantineRepository } from '../etl/repositories/ETLQuarantineRepository';
+import { ETLWatermarkRepository } from '../etl/repositories/ETLWatermarkRepository';
+import { JobQueueRepository } from './repositories/JobQueueRepository';
+import { JobWorker } from './services/JobWorker';
+import { createJobHandlers } from './services/jobHandlers';
+import { errorMessage } from '../shared/utils/errors';
+
+dotenv.config();
+
+const SHUTDOWN_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Background job worker: npm run worker
+ * Run as many worker processes as needed; JOB_WORKER_CONCURRENCY sets the jobs per process
+ */
+const etlRunRepository = new ETLRunRepository(knexInstance);
+const quarantineRepository = new ETLQuarantineRepository(knexInstance);
+const watermarkRepository = new ETLWatermarkRepository(knexInstance);
+
+const carelogsRepository = new CarelogsRepository(knexInstance, etlRunRepository, quarantineRepository, watermarkRepository);
+
+const worker = new JobWorker(
+  new JobQueueRepository(knexInstance),
+  createJobHandlers({
+    caregiverRepository: new CaregiverRepository(knexInstance, etlRunRepository, quarantineRepository, watermarkRepository),
+    carelogsRepository,
+    carelogsService: new CarelogsService(carelogsRepository),
+    caregiverMergeService: new CaregiverMergeService(new CaregiverMergeRepository(knexInstance)),
+    dataQualityService: new DataQualityService(new DataQualityRepository(knexInstance))
+  }),
+  {
+    concurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY || '1', 10),
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10)
+  }
+);
+
+worker.start();
+
+let shuttingDown = false;
+
+/**
+ * Graceful shutdown: stop claiming jobs, let running jobs finish, then release the knex pool
+ */
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`\n${signal} received, waiting for running jobs...`);
+
+  const forceExit = setTimeout(() => {
+    console.error('✗ Shutdown timed out, forcing exit');
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS);
+  forceExit.unref();
+
+  try {
+    await worker.stop();
+    await knexInstance.destroy();
+    console.log('✓ Database pool closed');
+    process.exit(0);
+  } catch (error) {
+    console.error('✗ Error during shutdown:', errorMessage(error));
+    process.exit(1);
+  }
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { DataQualityService } from '../services/DataQualityService';
+import { sendAccepted, sendData, sendError, sendPage } from '../../shared/utils/apiResponse';
+import { errorMessage } from '../../shared/utils/errors';
+
+export class DataQualityController {
+  constructor(private dataQualityService: DataQualityService) { }
+
+  /**
+   * Queue a profile and return 202 with the job to poll at GET /api/jobs/:id
+   */
+  async queueProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await this.dataQualityService.enqueueProfile();
+      sendAccepted(res, job);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async getRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit = 20, offset = 0, status, etl_run_id } = req.query;
+      const options = {
+        limit: parseInt(limit as string) || 20,
+        offset: parseInt(offset as string) || 0,
+        status: status as string,
+        etl_run_id: etl_run_id ? parseInt(etl_run_id as string) : undefined
+      };
+      const runs = await this.dataQualityService.getRuns(options);
+      sendPage(res, runs, options);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  /**
+   * A run with its metrics; `?flagged=true` keeps only the metrics that broke a threshold
+   */
+  async getRunById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        sendError(res, 400, 'Invalid data quality run ID');
+        return;
+      }
+
+      const run = await this.dataQualityService.getRunById(id, { flaggedOnly: req.query.flagged === 'true' });
+      if (!run) {
+        sendError(res, 404, 'Data quality run not found');
+        return;
+      }
+
+      sendData(res, run);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  /**
+   * One metric across runs, e.g. `?table=carelogs&column=clock_out_actual_datetime&metric=null_rate`
+   */
+  async getTrend(req: Request, res: Response): Promise<void> {
+    try {
+      const { table, column, metric, limit } = req.query;
+      if (!table || !metric) {
+        sendError(res, 400, 'table and metric query parameters are required');
+        return;
+      }
+
+      const trend = await this.dataQualityService.getTrend({
+        table: table as string,
+        column: (column as string) || null,
+        metric: metric as string,
+        limit: parseInt(limit as string) || 30
+      });
+      sendData(res, trend);
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+
+  async getThresholds(req: Request, res: Response): Promise<void> {
+    try {
+      sendData(res, this.dataQualityService.getThresholds());
+    } catch (error) {
+      sendError(res, 500, errorMessage(error));
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Data-quality run model - one profile of the loaded tables (data_quality_runs table)
+ */
+export interface DataQualityRun {
+  /** Primary key - unique identifier for the run */
+  id: number;
+
+  /** Foreign key to etl_runs table - the ETL run that queued this profile, if any */
+  etl_run_id?: number | null;
+
+  /** What started the run */
+  trigger: DataQualityTrigger;
+
+  status: DataQualityRunStatus;
+
+  /** Number of metrics computed, and how many of them broke a threshold */
+  metric_count: number;
+  flagged_count: number;
+
+  /** Error of a failed run */
+  error_message?: string | null;
+
+  started_at: Date | string;
+  finished_at?: Date | string | null;
+}
+
+/**
+ * One measured metric of a run (data_quality_metrics table)
+ */
+export interface DataQualityMetric {
+  /** Primary key - unique identifier for the metric */
+  id: number;
+
+  /** Foreign key to data_quality_runs table */
+  run_id: number;
+
+  table_name: string;
+
+  /** Column the metric is about; null for table-level metrics such as row counts */
+  column_name?: string | null;
+
+  category: DataQualityCategory;
+
+  /** e.g. null_rate, orphan_reference, clock_out_before_start */
+  metric: string;
+
+  /** Rows checked, and rows (or groups) failing the check */
+  row_count: number;
+  failing_count: number;
+
+  /** failing_count / row_count, 0 when the table is empty */
+  rate: number;
+
+  /** Sample IDs of failing rows, and other context */
+  details?: Record<string, any> | null;
+
+  /** Whether a threshold was broken, and which */
+  flagged: boolean;
+  flag_reasons: string[];
+}
+
+export enum DataQualityRunStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed'
+}
+
+export type DataQualityTrigger = 'manual' | 'etl';
+
+export type DataQualityCategory = 'volume' | 'completeness' | 'validity' | 'integrity' | 'visits';
+
+/**
+ * A limit a metric must stay within
+ * `table`, `column`, `metric` and `category` select the metrics the rule applies to (omitted means any);
+ * `max_increase` compares the rate with the previous successful run, which is how regressions are flagged
+ */
+export interface DataQualityThreshold {
+  table?: string;
+  column?: string;
+  metric?: string;
+  category?: DataQualityCategory;
+  max_rate?: number;
+  max_count?: number;
+  max_increase?: number;
+}
+
+/**
+ * Interface for a metric computed by a profile, before thresholds are applied
+ */
+export interface MeasuredMetric {
+  table_name: string;
+  column_name?: string | null;
+  category: DataQualityCategory;
+  metric: string;
+  row_count: number;
+  failing_count: number;
+  details?: Record<string, any> | null;
+}
+
+/**
+ * A run with its metrics
+ */
+export interface DataQualityReport extends DataQualityRun {
+  metrics: DataQualityMetric[];
+}
+
+/**
+ * One point of a metric's trend
+ */
+export interface DataQualityTrendPoint {
+  run_id: number;
+  etl_run_id?: number | null;
+  started_at: Date | string;
+  table_name: string;
+  column_name?: string | null;
+  metric: string;
+  row_count: number;
+  failing_count: number;
+  rate: number;
+  flagged: boolean;
+}
@@ -0,0 +1,308 @@
+import { Knex } from 'knex';
+import {
+  DataQualityMetric, DataQualityRun, DataQualityRunStatus, DataQualityTrendPoint, DataQualityTrigger, MeasuredMetric
+} from '../models/dataQuality';
+import {
+  MIN_AGENCY_VISITS_FOR_COMMENTS, PROFILED_COLUMNS, REFERENCE_CHECKS, ROW_CHECKS, SAMPLE_SIZE
+} from '../utils/qualityChecks';
+import { errorMessage } from '../../shared/utils/errors';
+
+/**
+ * Repository for data-quality profiles: measures the loaded tables, and stores each run
+ * with its metrics (data_quality_runs, data_quality_metrics)
+ */
+export class DataQualityRepository {
+  constructor(private readonly knex: Knex) { }
+
+  /**
+   * Measure every profiled table: row counts, null rates, out-of-range values, visit checks,
+   * orphan references and agencies whose completed visits carry no comments
+   * Each table is counted in one scan; failing row IDs are sampled only for checks that fail
+   */
+  async measureMetrics(): Promise<MeasuredMetric[]> {
+    try {
+      const metrics: MeasuredMetric[] = [];
+
+      for (const [table, columns] of Object.entries(PROFILED_COLUMNS)) {
+        const checks = ROW_CHECKS.filter(check => check.table === table);
+        const selects = [
+          'COUNT(*) AS row_count',
+          ...columns.map((_, i) => `COUNT(*) FILTER (WHERE ?? IS NULL) AS null_${i}`),
+          ...checks.map((check, i) => `COUNT(*) FILTER (WHERE ${check.condition}) AS check_${i}`)
+        ];
+        const { rows: [counts] } = await this.knex.raw(`SELECT ${selects.join(', ')} FROM ??`, [...columns, table]);
+        const rowCount = Number(counts.row_count);
+
+        metrics.push({ table_name: table, column_name: null, category: 'volume', metric: 'row_count', row_count: rowCount, failing_count: 0 });
+
+        columns.forEach((column, i) => metrics.push({
+          table_name: table,
+          column_name: column,
+          category: 'completeness',
+          metric: 'null_rate',
+          row_count: rowCount,
+          failing_count: Number(counts[`null_${i}`])
+        }));
+
+        for (const [i, check] of checks.entries()) {
+          const failingCount = Number(counts[`check_${i}`]);
+          const sampleIds = failingCount > 0
+            ? await this.knex(table).whereRaw(check.condition).orderBy('id', 'asc').limit(SAMPLE_SIZE).pluck('id')
+            : [];
+          metrics.push({
+            table_name: table,
+            column_name: check.column,
+            category: check.category,
+            metric: check.metric,
+            row_count: rowCount,
+            failing_count: failingCount,
+            details: sampleIds.length > 0 ? { sample_ids: sampleIds } : null
+          });
+        }
+      }
+
+      for (const check of REFERENCE_CHECKS) {
+        const orphanQuery = () => this.knex({ t: check.table })
+          .leftJoin({ r: check.references }, 'r.id', `t.${check.column}`)
+          .whereNotNull(`t.${check.column}`)
+          .whereNull('r.id');
+
+        const [{ row_count }] = await this.knex(check.table).whereNotNull(check.column).count({ row_count: '*' });
+        const [{ failing_count }] = await orphanQuery().count({ failing_count: '*' });
+        const sampleIds = Number(failing_count) > 0
+          ? await orphanQuery().orderBy('t.id', 'asc').limit(SAMPLE_SIZE).pluck('t.id')
+          : [];
+
+        metrics.push({
+          table_name: check.table,
+          column_name: check.column,
+          category: 'integrity',
+          metric: 'orphan_reference',
+          row_count: Number(row_count),
+          failing_count: Number(failing_count),
+          details: { references: check.references, ...(sampleIds.length > 0 ? { sample_ids: sampleIds } : {}) }
+        });
+      }
+
+      metrics.push(await this.measureAgencyComments());
+      return metrics;
+    } catch (error) {
+      console.error('Error in DataQualityRepository.measureMetrics:', error);
+      throw new Error(`Failed to measure data quality: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Agencies with enough completed visits whose visits all have a zero (or missing) comment count
+   */
+  private async measureAgencyComments(): Promise<MeasuredMetric> {
+    const agencies = await this.knex('carelogs')
+      .where('status', 'completed')
+      .whereNotNull('agency_id')
+      .groupBy('agency_id')
+      .havingRaw('COUNT(*) >= ?', [MIN_AGENCY_VISITS_FOR_COMMENTS])
+      .select('agency_id', this.knex.raw('COALESCE(SUM(general_comment_char_count), 0) AS comment_chars'));
+
+    const failing = agencies.filter((agency: any) => Number(agency.comment_chars) === 0).map((agency: any) => agency.agency_id);
+    return {
+      table_name: 'carelogs',
+      column_name: 'general_comment_char_count',
+      category: 'completeness',
+      metric: 'agency_without_comments',
+      row_count: agencies.length,
+      failing_count: failing.length,
+      details: { min_visits: MIN_AGENCY_VISITS_FOR_COMMENTS, ...(failing.length > 0 ? { agency_ids: failing } : {}) }
+    };
+  }
+
+  /**
+   * Create a run record in 'running' state and return its ID
+   */
+  async startRun(data: { etl_run_id?: number | null; trigger: DataQualityTrigger }): Promise<number> {
+    try {
+      const [row] = await this.knex('data_quality_runs')
+        .insert({
+          etl_run_id: data.etl_run_id ?? null,
+          trigger: data.trigger,
+          status: DataQualityRunStatus.RUNNING,
+          metric_count: 0,
+          flagged_count: 0,
+          started_at: new Date()
+        })
+        .returning('id');
+
+      return typeof row === 'object' ? row.id : row;
+    } catch (error) {
+      console.error('Error in DataQualityRepository.startRun:', error);
+      throw new Error(`Failed to start data quality run: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Store the metrics of a run and mark it succeeded
+   */
+  async finishRun(id: number, metrics: Omit<DataQualityMetric, 'id' | 'run_id'>[]): Promise<void> {
+    try {
+      await this.knex.transaction(async (trx) => {
+        if (metrics.length > 0) {
+          await trx.batchInsert('data_quality_metrics', metrics.map(metric => ({
+            run_id: id,
+            table_name: metric.table_name,
+            column_name: metric.column_name ?? null,
+            category: metric.category,
+            metric: metric.metric,
+            row_count: metric.row_count,
+            failing_count: metric.failing_count,
+            rate: metric.rate,
+            details: metric.details ? JSON.stringify(metric.details) : null,
+            flagged: metric.flagged,
+            flag_reasons: JSON.stringify(metric.flag_reasons)
+          })), 500);
+        }
+
+        await trx('data_quality_runs')
+          .where('id', id)
+          .update({
+            status: DataQualityRunStatus.SUCCEEDED,
+            metric_count: metrics.length,
+            flagged_count: metrics.filter(metric => metric.flagged).length,
+            finished_at: new Date()
+          });
+      });
+    } catch (error) {
+      console.error('Error in DataQualityRepository.finishRun:', error);
+      throw new Error(`Failed to store data quality run: ${errorMessage(error)}`);
+    }
+  }
+
+  async failRun(id: number, message: string): Promise<void> {
+    try {
+      await this.knex('data_quality_runs')
+        .where('id', id)
+        .update({ status: DataQualityRunStatus.FAILED, error_message: message, finished_at: new Date() });
+    } catch (error) {
+      console.error('Error in DataQualityRepository.failRun:', error);
+      throw new Error(`Failed to record failed data quality run: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Metrics of the latest successful run before `runId`, which regressions are measured against
+   */
+  async findPreviousMetrics(runId: number): Promise<DataQualityMetric[]> {
+    try {
+      const previous = await this.knex('data_quality_runs')
+        .where('status', DataQualityRunStatus.SUCCEEDED)
+        .where('id', '<', runId)
+        .orderBy('id', 'desc')
+        .first('id');
+
+      return previous ? this.findMetrics(previous.id) : [];
+    } catch (error) {
+      console.error('Error in DataQualityRepository.findPreviousMetrics:', error);
+      throw new Error(`Failed to fetch previous data quality metrics: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Find runs, newest first
+   */
+  async findAll(options: {
+    limit?: number;
+    offset?: number;
+    status?: string;
+    etl_run_id?: number;
+  } = {}): Promise<DataQualityRun[]> {
+    try {
+      const { limit = 20, offset = 0, status, etl_run_id } = options;
+
+      let query = this.knex('data_quality_runs')
+        .select('*')
+        .orderBy('id', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      if (status) {
+        query = query.where('status', status);
+      }
+      if (etl_run_id) {
+        query = query.where('etl_run_id', etl_run_id);
+      }
+
+      return await query;
+    } catch (error) {
+      console.error('Error in DataQualityRepository.findAll:', error);
+      throw new Error(`Failed to fetch data quality runs: ${errorMessage(error)}`);
+    }
+  }
+
+  async findById(id: number): Promise<DataQualityRun | null> {
+    try {
+      const run = await this.knex('data_quality_runs').where('id', id).first();
+      return run || null;
+    } catch (error) {
+      console.error('Error in DataQualityRepository.findById:', error);
+      throw new Error(`Failed to fetch data quality run: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Metrics of a run, ordered by table, column and metric
+   */
+  async findMetrics(runId: number, options: { flaggedOnly?: boolean } = {}): Promise<DataQualityMetric[]> {
+    try {
+      let query = this.knex('data_quality_metrics')
+        .where('run_id', runId)
+        .orderBy(['table_name', 'column_name', 'metric']);
+
+      if (options.flaggedOnly) {
+        query = query.where('flagged', true);
+      }
+
+      const rows = await query;
+      return rows.map((row: any) => ({ ...row, rate: Number(row.rate) }));
+    } catch (error) {
+      console.error('Error in DataQualityRepository.findMetrics:', error);
+      throw new Error(`Failed to fetch data quality metrics: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * A metric across the latest successful runs, oldest first
+   */
+  async findTrend(filters: { table: string; column?: string | null; metric: string; limit?: number }): Promise<DataQualityTrendPoint[]> {
+    try {
+      const { table, column, metric, limit = 30 } = filters;
+
+      let query = this.knex('data_quality_metrics')
+        .innerJoin('data_quality_runs', 'data_quality_runs.id', 'data_quality_metrics.run_id')
+        .where('data_quality_runs.status', DataQualityRunStatus.SUCCEEDED)
+        .where('data_quality_metrics.table_name', table)
+        .where('data_quality_metrics.metric', metric)
+        .select(
+          'data_quality_runs.id as run_id',
+          'data_quality_runs.etl_run_id',
+          'data_quality_runs.started_at',
+          'data_quality_metrics.table_name',
+          'data_quality_metrics.column_name',
+          'data_quality_metrics.metric',
+          'data_quality_metrics.row_count',
+          'data_quality_metrics.failing_count',
+          'data_quality_metrics.rate',
+          'data_quality_metrics.flagged'
+        )
+        .orderBy('data_quality_runs.id', 'desc')
+        .limit(limit);
+
+      query = column
+        ? query.where('data_quality_metrics.column_name', column)
+        : query.whereNull('data_quality_metrics.column_name');
+
+      const rows = await query;
+      return rows.reverse().map((row: any) => ({ ...row, rate: Number(row.rate) }));
+    } catch (error) {
+      console.error('Error in DataQualityRepository.findTrend:', error);
+      throw new Error(`Failed to fetch data quality trend: ${errorMessage(error)}`);
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { DataQualityController } from '../controllers/DataQualityController';
+
+/**
+ * Data-quality routes
+ */
+export function createDataQualityRouter(controller: DataQualityController): Router {
+  const router = Router();
+
+  router.post('/runs', (req, res) => controller.queueProfile(req, res));
+  router.get('/runs', (req, res) => controller.getRuns(req, res));
+  router.get('/runs/:id', (req, res) => controller.getRunById(req, res));
+  router.get('/trends', (req, res) => controller.getTrend(req, res));
+  router.get('/thresholds', (req, res) => controller.getThresholds(req, res));
+
+  return router;
+}
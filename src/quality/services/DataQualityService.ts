@@ -0,0 +1,143 @@
+import { DataQualityRepository } from '../repositories/DataQualityRepository';
+import {
+  DataQualityMetric, DataQualityReport, DataQualityRun, DataQualityRunStatus, DataQualityThreshold,
+  DataQualityTrendPoint, DataQualityTrigger
+} from '../models/dataQuality';
+import { evaluateThresholds, loadConfiguredThresholds, metricKey } from '../utils/thresholds';
+import { JobQueueService } from '../../jobs/services/JobQueueService';
+import { BackgroundJob, JobType } from '../../jobs/models/backgroundJob';
+import { errorMessage } from '../../shared/utils/errors';
+
+interface RunListOptions {
+  limit?: number;
+  offset?: number;
+  status?: string;
+  etl_run_id?: number;
+}
+
+interface TrendOptions {
+  table: string;
+  column?: string | null;
+  metric: string;
+  limit?: number;
+}
+
+export class DataQualityService {
+  constructor(
+    private readonly dataQualityRepository: DataQualityRepository,
+    private readonly jobQueueService?: JobQueueService
+  ) {}
+
+  /**
+   * Queue a profile; the report is fetched from GET /api/data-quality/runs once the job succeeds
+   */
+  async enqueueProfile(): Promise<BackgroundJob> {
+    if (!this.jobQueueService) {
+      throw new Error('Job queue is not configured');
+    }
+    return this.jobQueueService.enqueue(JobType.DATA_QUALITY_PROFILE, { trigger: 'manual' });
+  }
+
+  /**
+   * Measure the loaded tables, flag metrics that break a threshold or regressed since the last run, and store the run
+   * Thresholds are read on every run, so changes to the thresholds file apply without a restart
+   */
+  async profile(options: { etlRunId?: number | null; trigger?: DataQualityTrigger } = {}): Promise<DataQualityReport> {
+    const thresholds = loadConfiguredThresholds();
+    const runId = await this.dataQualityRepository.startRun({ etl_run_id: options.etlRunId, trigger: options.trigger || 'manual' });
+
+    try {
+      const measured = await this.dataQualityRepository.measureMetrics();
+      const previous = new Map(
+        (await this.dataQualityRepository.findPreviousMetrics(runId)).map(metric => [metricKey(metric), metric])
+      );
+
+      const metrics = measured.map(metric => {
+        const rate = metric.row_count > 0 ? Math.round((metric.failing_count / metric.row_count) * 1e6) / 1e6 : 0;
+        const flagReasons = evaluateThresholds({ ...metric, rate }, previous.get(metricKey(metric)), thresholds);
+        return { ...metric, rate, flagged: flagReasons.length > 0, flag_reasons: flagReasons };
+      });
+      await this.dataQualityRepository.finishRun(runId, metrics);
+
+      const flagged = metrics.filter(metric => metric.flagged);
+      if (flagged.length > 0) {
+        console.warn(`⚠️  Data quality run ${runId}: ${flagged.length} metrics broke a threshold`);
+        flagged.forEach(metric => console.warn(`   ${metricKey(metric)}: ${metric.flag_reasons.join('; ')}`));
+      } else {
+        console.log(`✓ Data quality run ${runId}: ${metrics.length} metrics within thresholds`);
+      }
+
+      return (await this.getRunById(runId))!;
+    } catch (error) {
+      await this.dataQualityRepository.failRun(runId, errorMessage(error)).catch(() => undefined);
+      console.error('Error in DataQualityService.profile:', error);
+      throw new Error(`Failed to profile data quality: ${errorMessage(error)}`);
+    }
+  }
+
+  async getRuns(options: RunListOptions = {}): Promise<DataQualityRun[]> {
+    try {
+      const { limit = 20, offset = 0, status } = options;
+
+      if (limit <= 0 || limit > 100) {
+        throw new Error('Limit must be between 1 and 100');
+      }
+      if (offset < 0) {
+        throw new Error('Offset must be non-negative');
+      }
+      if (status && !Object.values(DataQualityRunStatus).includes(status as DataQualityRunStatus)) {
+        throw new Error(`Status must be one of: ${Object.values(DataQualityRunStatus).join(', ')}`);
+      }
+
+      return await this.dataQualityRepository.findAll({ ...options, limit, offset });
+    } catch (error) {
+      console.error('Error in DataQualityService.getRuns:', error);
+      throw new Error(`Failed to get data quality runs: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * A run with its metrics; `flaggedOnly` keeps only the metrics that broke a threshold
+   */
+  async getRunById(id: number, options: { flaggedOnly?: boolean } = {}): Promise<DataQualityReport | null> {
+    try {
+      if (!id || id <= 0) {
+        throw new Error('Valid data quality run ID is required');
+      }
+
+      const run = await this.dataQualityRepository.findById(id);
+      if (!run) return null;
+
+      const metrics: DataQualityMetric[] = await this.dataQualityRepository.findMetrics(id, options);
+      return { ...run, metrics };
+    } catch (error) {
+      console.error('Error in DataQualityService.getRunById:', error);
+      throw new Error(`Failed to get data quality run: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * One metric across the latest runs, oldest first
+   */
+  async getTrend(options: TrendOptions): Promise<DataQualityTrendPoint[]> {
+    try {
+      const { table, metric, limit = 30 } = options;
+
+      if (!table || !metric) {
+        throw new Error('table and metric are required');
+      }
+      if (limit <= 0 || limit > 365) {
+        throw new Error('Limit must be between 1 and 365');
+      }
+
+      return await this.dataQualityRepository.findTrend({ ...options, limit });
+    } catch (error) {
+      console.error('Error in DataQualityService.getTrend:', error);
+      throw new Error(`Failed to get data quality trend: ${errorMessage(error)}`);
+    }
+  }
+
+  getThresholds(): DataQualityThreshold[] {
+    return loadConfiguredThresholds();
+  }
+}
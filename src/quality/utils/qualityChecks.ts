@@ -0,0 +1,109 @@
+import { CarelogStatus, ClockMethod } from '../../carelogs/models/carelogs';
+import { DataQualityCategory } from '../models/dataQuality';
+
+/**
+ * A condition rows of a table should not meet; `condition` is a SQL predicate on the table's columns
+ */
+export interface RowCheck {
+  table: string;
+  column: string | null;
+  category: DataQualityCategory;
+  metric: string;
+  condition: string;
+}
+
+/**
+ * A foreign key column whose values must exist in the referenced table
+ * Most of these have a foreign key constraint in schema.sql, but databases loaded before a constraint
+ * existed, or restored without it, can still hold orphans
+ */
+export interface ReferenceCheck {
+  table: string;
+  column: string;
+  references: string;
+}
+
+const sqlList = (values: string[]) => values.map(value => `'${value}'`).join(', ');
+
+/** Tables profiled, with the columns whose null rate is measured */
+export const PROFILED_COLUMNS: Record<string, string[]> = {
+  caregivers: ['franchisor_id', 'agency_id', 'profile_id', 'external_id', 'status'],
+  profile: ['first_name', 'last_name', 'email', 'phone_number', 'birthday_date', 'onboarding_date', 'location_id'],
+  external: ['external_id', 'system_name'],
+  carelogs: [
+    'franchisor_id', 'agency_id', 'external_id', 'parent_id', 'clock_in_actual_datetime', 'clock_out_actual_datetime',
+    'clock_in_method', 'clock_out_method', 'general_comment_char_count'
+  ]
+};
+
+export const ROW_CHECKS: RowCheck[] = [
+  // Out-of-range values
+  {
+    table: 'carelogs', column: 'clock_out_actual_datetime', category: 'validity', metric: 'clock_out_before_start',
+    condition: 'clock_out_actual_datetime < start_datetime'
+  },
+  {
+    table: 'carelogs', column: 'clock_out_actual_datetime', category: 'validity', metric: 'clock_out_before_clock_in',
+    condition: 'clock_out_actual_datetime <= clock_in_actual_datetime'
+  },
+  {
+    table: 'carelogs', column: 'end_datetime', category: 'validity', metric: 'end_before_start',
+    condition: 'end_datetime <= start_datetime'
+  },
+  {
+    table: 'carelogs', column: 'general_comment_char_count', category: 'validity', metric: 'negative_value',
+    condition: 'general_comment_char_count < 0'
+  },
+  {
+    table: 'carelogs', column: 'status', category: 'validity', metric: 'unknown_value',
+    condition: `status NOT IN (${sqlList(Object.values(CarelogStatus))})`
+  },
+  {
+    table: 'carelogs', column: 'clock_in_method', category: 'validity', metric: 'unknown_value',
+    condition: `clock_in_method NOT IN (${sqlList(Object.values(ClockMethod))})`
+  },
+  {
+    table: 'carelogs', column: 'clock_out_method', category: 'validity', metric: 'unknown_value',
+    condition: `clock_out_method NOT IN (${sqlList(Object.values(ClockMethod))})`
+  },
+  {
+    table: 'profile', column: 'birthday_date', category: 'validity', metric: 'out_of_range',
+    condition: `birthday_date > CURRENT_DATE OR birthday_date < DATE '1900-01-01'`
+  },
+  {
+    table: 'profile', column: 'onboarding_date', category: 'validity', metric: 'out_of_range',
+    condition: 'onboarding_date > CURRENT_DATE + 365'
+  },
+  {
+    table: 'profile', column: 'email', category: 'validity', metric: 'invalid_format',
+    condition: `email !~ '^[^@[:space:]]+@[^@[:space:]]+[.][^@[:space:]]+$'`
+  },
+
+  // Visits: clocked in but never out (in-progress visits get 24 hours), and visits longer than a day
+  {
+    table: 'carelogs', column: 'clock_out_actual_datetime', category: 'visits', metric: 'missing_clock_out',
+    condition: `clock_in_actual_datetime IS NOT NULL AND clock_out_actual_datetime IS NULL
+      AND (status <> 'in_progress' OR clock_in_actual_datetime < NOW() - INTERVAL '24 hours')`
+  },
+  {
+    table: 'carelogs', column: null, category: 'visits', metric: 'over_24_hours',
+    condition: `clock_out_actual_datetime - clock_in_actual_datetime > INTERVAL '24 hours'`
+  }
+];
+
+export const REFERENCE_CHECKS: ReferenceCheck[] = [
+  { table: 'carelogs', column: 'caregiver_id', references: 'caregivers' },
+  { table: 'carelogs', column: 'parent_id', references: 'parent' },
+  { table: 'carelogs', column: 'agency_id', references: 'agencies' },
+  { table: 'carelogs', column: 'franchisor_id', references: 'franchisors' },
+  { table: 'caregivers', column: 'profile_id', references: 'profile' },
+  { table: 'caregivers', column: 'external_id', references: 'external' },
+  { table: 'caregivers', column: 'agency_id', references: 'agencies' },
+  { table: 'profile', column: 'location_id', references: 'locations' }
+];
+
+/** Agencies with fewer completed visits are not judged on their comments */
+export const MIN_AGENCY_VISITS_FOR_COMMENTS = 10;
+
+/** Failing row IDs kept on a metric, so the rows can be looked up */
+export const SAMPLE_SIZE = 10;
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { DataQualityMetric, DataQualityThreshold, MeasuredMetric } from '../models/dataQuality';
+import { errorMessage } from '../../shared/utils/errors';
+
+const THRESHOLD_KEYS = ['table', 'column', 'metric', 'category', 'max_rate', 'max_count', 'max_increase'];
+const CATEGORIES = ['volume', 'completeness', 'validity', 'integrity', 'visits'];
+
+/** Used when DATA_QUALITY_THRESHOLDS_FILE is not set and src/quality/thresholds.yaml does not exist */
+export const DEFAULT_THRESHOLDS_FILE = 'src/quality/thresholds.yaml';
+
+/**
+ * Built-in thresholds: no orphans or comment-less agencies, and no jump in failing or missing values since the last run
+ */
+export const DEFAULT_THRESHOLDS: DataQualityThreshold[] = [
+  { category: 'integrity', max_count: 0 },
+  { metric: 'agency_without_comments', max_count: 0 },
+  { category: 'validity', max_increase: 0.01 },
+  { category: 'visits', max_increase: 0.01 },
+  { category: 'completeness', max_increase: 0.05 }
+];
+
+/**
+ * Thresholds from DATA_QUALITY_THRESHOLDS_FILE, else src/quality/thresholds.yaml, else the built-in defaults
+ */
+export function loadConfiguredThresholds(): DataQualityThreshold[] {
+  const filePath = process.env.DATA_QUALITY_THRESHOLDS_FILE;
+  if (filePath) {
+    return loadThresholds(filePath);
+  }
+  return fs.existsSync(DEFAULT_THRESHOLDS_FILE) ? loadThresholds(DEFAULT_THRESHOLDS_FILE) : DEFAULT_THRESHOLDS;
+}
+
+/**
+ * Read and validate the thresholds of a .json, .yaml or .yml file
+ * The file holds a `thresholds` list; every problem is reported at once
+ */
+export function loadThresholds(filePath: string): DataQualityThreshold[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Thresholds file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  let parsed: any;
+  try {
+    parsed = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid thresholds file ${filePath}: ${errorMessage(error)}`);
+  }
+
+  const thresholds = Array.isArray(parsed) ? parsed : parsed?.thresholds;
+  if (!Array.isArray(thresholds)) {
+    throw new Error(`Invalid thresholds file ${filePath}: expected a 'thresholds' list`);
+  }
+
+  const errors: string[] = [];
+  thresholds.forEach((threshold, index) => {
+    validateThreshold(threshold).forEach(error => errors.push(`threshold #${index + 1}: ${error}`));
+  });
+  if (errors.length > 0) {
+    throw new Error(`Invalid thresholds file ${filePath}: ${errors.join('; ')}`);
+  }
+
+  return thresholds;
+}
+
+/**
+ * Check one threshold, returning a list of problems (empty when valid)
+ */
+export function validateThreshold(threshold: any): string[] {
+  if (!threshold || typeof threshold !== 'object' || Array.isArray(threshold)) {
+    return ['must be an object'];
+  }
+
+  const errors = Object.keys(threshold)
+    .filter(key => !THRESHOLD_KEYS.includes(key))
+    .map(key => `unknown key '${key}'`);
+
+  for (const key of ['table', 'column', 'metric']) {
+    if (threshold[key] !== undefined && typeof threshold[key] !== 'string') {
+      errors.push(`${key} must be a string`);
+    }
+  }
+  if (threshold.category !== undefined && !CATEGORIES.includes(threshold.category)) {
+    errors.push(`category must be one of: ${CATEGORIES.join(', ')}`);
+  }
+
+  const limits = ['max_rate', 'max_count', 'max_increase'].filter(key => threshold[key] !== undefined);
+  if (limits.length === 0) {
+    errors.push('set at least one of max_rate, max_count or max_increase');
+  }
+  limits.forEach(key => {
+    if (typeof threshold[key] !== 'number' || threshold[key] < 0) {
+      errors.push(`${key} must be a non-negative number`);
+    }
+  });
+  if (typeof threshold.max_rate === 'number' && threshold.max_rate > 1) {
+    errors.push('max_rate must be a rate between 0 and 1');
+  }
+
+  return errors;
+}
+
+/**
+ * Check a metric against every threshold that applies to it; returns the reasons it is flagged (empty when it is not)
+ * `previous` is the same metric in the last successful run, for max_increase
+ */
+export function evaluateThresholds(
+  metric: MeasuredMetric & { rate: number },
+  previous: Pick<DataQualityMetric, 'run_id' | 'rate'> | undefined,
+  thresholds: DataQualityThreshold[]
+): string[] {
+  const reasons: string[] = [];
+
+  thresholds.filter(threshold => appliesTo(threshold, metric)).forEach(threshold => {
+    if (threshold.max_rate !== undefined && metric.rate > threshold.max_rate) {
+      reasons.push(`rate ${formatRate(metric.rate)} is above max_rate ${threshold.max_rate}`);
+    }
+    if (threshold.max_count !== undefined && metric.failing_count > threshold.max_count) {
+      reasons.push(`${metric.failing_count} failing is above max_count ${threshold.max_count}`);
+    }
+    if (threshold.max_increase !== undefined && previous && metric.rate - Number(previous.rate) > threshold.max_increase) {
+      reasons.push(
+        `rate rose from ${formatRate(Number(previous.rate))} to ${formatRate(metric.rate)} since run ${previous.run_id} (max_increase ${threshold.max_increase})`
+      );
+    }
+  });
+
+  return Array.from(new Set(reasons));
+}
+
+/**
+ * Key identifying the same metric across runs
+ */
+export function metricKey(metric: Pick<MeasuredMetric, 'table_name' | 'column_name' | 'metric'>): string {
+  return `${metric.table_name}.${metric.column_name ?? '*'}.${metric.metric}`;
+}
+
+function appliesTo(threshold: DataQualityThreshold, metric: MeasuredMetric): boolean {
+  return (threshold.table === undefined || threshold.table === metric.table_name)
+    && (threshold.column === undefined || threshold.column === metric.column_name)
+    && (threshold.metric === undefined || threshold.metric === metric.metric)
+    && (threshold.category === undefined || threshold.category === metric.category);
+}
+
+function formatRate(rate: number): string {
+  return rate.toFixed(4);
+}
@@ -0,0 +1,51 @@
+import dotenv from 'dotenv';
+import { createApp } from './app';
+import { knexInstance } from './infrastructure/database/knexConnection';
+import { errorMessage } from './shared/utils/errors';
+
+dotenv.config();
+
+const PORT = parseInt(process.env.PORT || '3000', 10);
+const SHUTDOWN_TIMEOUT_MS = 10000;
+
+const app = createApp(knexInstance);
+
+const server = app.listen(PORT, () => {
+  console.log(`🚀 Zingage API listening on port ${PORT}`);
+});
+
+let shuttingDown = false;
+
+/**
+ * Graceful shutdown: stop accepting connections, let in-flight requests finish,
+ * then release the knex connection pool
+ */
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`\n${signal} received, shutting down...`);
+
+  const forceExit = setTimeout(() => {
+    console.error('✗ Shutdown timed out, forcing exit');
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS);
+  forceExit.unref();
+
+  server.close(async (error) => {
+    if (error) {
+      console.error('✗ Error closing HTTP server:', error.message);
+    }
+
+    try {
+      await knexInstance.destroy();
+      console.log('✓ Database pool closed');
+      process.exit(error ? 1 : 0);
+    } catch (destroyError) {
+      console.error('✗ Error closing database pool:', errorMessage(destroyError));
+      process.exit(1);
+    }
+  });
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
@@ -0,0 +1,254 @@
+/**
+ * Typed contract of the HTTP API
+ * Controllers answer through the helpers in shared/utils/apiResponse.ts, which build these envelopes;
+ * the front-end imports the same types
+ */
+import { CarelogStatus, ClockMethod } from '../../carelogs/models/carelogs';
+import { JobStatus } from '../../jobs/models/backgroundJob';
+
+/**
+ * Postgres returns COUNT (bigint) and numeric columns as strings, so they keep full precision;
+ * parse them with Number() where a float is good enough
+ */
+export type NumericString = string;
+
+/** Calendar date as `YYYY-MM-DD` */
+export type DateString = string;
+
+export const SORT_DIRECTIONS = ['asc', 'desc'] as const;
+
+export type SortDirection = typeof SORT_DIRECTIONS[number];
+
+/**
+ * Limit and offset of a list response, and how many items this page holds
+ * A page with fewer items than `limit` is the last one
+ */
+export interface PaginationMeta {
+  limit: number;
+  offset: number;
+  count: number;
+  /** Items matching the filters across all pages, on endpoints that were asked for it */
+  total?: number;
+}
+
+/**
+ * Pagination of a keyset list: opaque cursors to the next and previous pages, null at either end
+ */
+export interface CursorPaginationMeta {
+  limit: number;
+  count: number;
+  next_cursor: string | null;
+  prev_cursor: string | null;
+  total?: number;
+}
+
+export interface ApiSuccessResponse<T> {
+  success: true;
+  data: T;
+  /** Present on list endpoints */
+  pagination?: PaginationMeta | CursorPaginationMeta;
+}
+
+/**
+ * Answer of endpoints that only confirm an action, such as deletes
+ */
+export interface ApiMessageResponse {
+  success: true;
+  message: string;
+}
+
+export interface ApiErrorResponse {
+  success: false;
+  error: string;
+  code: ApiErrorCode;
+  /** Every field that failed validation, with code `validation_failed` */
+  details?: ApiFieldError[];
+  /** Partial result of a failed operation, e.g. the run summary of a failed upload */
+  data?: unknown;
+}
+
+export type RequestLocation = 'params' | 'query' | 'body';
+
+/**
+ * One invalid request field; `field` is empty for a problem with the body as a whole
+ */
+export interface ApiFieldError {
+  location: RequestLocation;
+  field: string;
+  message: string;
+}
+
+export type ApiResponse<T> = ApiSuccessResponse<T> | ApiErrorResponse;
+
+/**
+ * Machine-readable error, one per HTTP status the API answers with
+ */
+export enum ApiErrorCode {
+  BAD_REQUEST = 'bad_request',
+  /** 400 for a request that does not match the route's schema; see `details` */
+  VALIDATION_FAILED = 'validation_failed',
+  NOT_FOUND = 'not_found',
+  CONFLICT = 'conflict',
+  PAYLOAD_TOO_LARGE = 'payload_too_large',
+  UNSUPPORTED_MEDIA_TYPE = 'unsupported_media_type',
+  UNPROCESSABLE = 'unprocessable',
+  SERVICE_UNAVAILABLE = 'service_unavailable',
+  INTERNAL_ERROR = 'internal_error'
+}
+
+const ERROR_CODES_BY_STATUS: Record<number, ApiErrorCode> = {
+  400: ApiErrorCode.BAD_REQUEST,
+  404: ApiErrorCode.NOT_FOUND,
+  409: ApiErrorCode.CONFLICT,
+  413: ApiErrorCode.PAYLOAD_TOO_LARGE,
+  415: ApiErrorCode.UNSUPPORTED_MEDIA_TYPE,
+  422: ApiErrorCode.UNPROCESSABLE,
+  503: ApiErrorCode.SERVICE_UNAVAILABLE
+};
+
+/**
+ * Error code of an HTTP status; other 4xx statuses are bad requests, everything else an internal error
+ */
+export function errorCodeForStatus(status: number): ApiErrorCode {
+  return ERROR_CODES_BY_STATUS[status] || (status >= 400 && status < 500 ? ApiErrorCode.BAD_REQUEST : ApiErrorCode.INTERNAL_ERROR);
+}
+
+/**
+ * `202` answer of endpoints that queue a background job; poll `status_url` until it finishes
+ */
+export interface JobAccepted {
+  job_id: number;
+  status: JobStatus;
+  status_url: string;
+}
+
+export interface HealthStatus {
+  status: 'ok';
+}
+
+// Analytics results, one row type per query in ANALYTICS_QUERIES
+
+/**
+ * `top-caregivers`: active caregivers ranked by performance_score
+ * (0.4 per completed visit, 0.3 per hour worked, 0.3 per on-time clock-in)
+ */
+export interface TopCaregiverRank {
+  id: number;
+  caregiver_name: string;
+  email: string | null;
+  certification_level: string | null;
+  total_visits: NumericString;
+  avg_visit_minutes: NumericString;
+  total_visit_minutes: NumericString;
+  avg_clock_in_deviation_minutes: NumericString;
+  /** Clock-ins at most 5 minutes after the scheduled start */
+  on_time_count: NumericString;
+  on_time_percentage: NumericString;
+  performance_score: NumericString;
+}
+
+/**
+ * `low-reliability`: active caregivers with at least 5 visits, most reliability issues first
+ * (late arrivals and early departures count once, cancellations and no-shows twice)
+ */
+export interface LowReliabilityRank {
+  id: number;
+  caregiver_name: string;
+  email: string | null;
+  phone_number: string | null;
+  total_visits: NumericString;
+  /** Clock-ins more than 15 minutes after the scheduled start */
+  late_arrivals: NumericString;
+  /** Cancelled and no-show visits */
+  cancellations: NumericString;
+  /** Clock-outs more than 30 minutes before the scheduled end */
+  early_departures: NumericString;
+  late_arrival_percentage: NumericString;
+  cancellation_percentage: NumericString;
+  reliability_issues_count: NumericString;
+}
+
+/**
+ * `overtime`: active caregivers who clocked out after the scheduled end of completed visits, most overtime first
+ */
+export interface OvertimeCaregiverRank {
+  id: number;
+  caregiver_name: string;
+  email: string | null;
+  phone_number: string | null;
+  total_visits: NumericString;
+  total_overtime_minutes: NumericString;
+  overtime_visits: NumericString;
+  avg_overtime_minutes_per_visit: NumericString;
+  overtime_percentage: NumericString;
+}
+
+/**
+ * `weekly-hours`: hours of completed visits per caregiver and Monday-based week in the visit's time zone
+ */
+export interface WeeklyHoursRow {
+  id: number;
+  caregiver_name: string;
+  time_zone: string;
+  week_start: DateString;
+  total_visits: NumericString;
+  total_hours: NumericString;
+  /** Hours above 40 in the week */
+  overtime_hours: NumericString;
+}
+
+type ClockMethodCountColumn = `${'clock_in' | 'clock_out'}_${ClockMethod | 'unmapped'}`;
+
+/**
+ * `clock-methods`: visits per clock-in and clock-out method, for a caregiver or an agency
+ * (`caregiver_*` or `agency_*` is set depending on `groupBy`)
+ */
+export type ClockMethodBreakdown = {
+  caregiver_id?: number;
+  caregiver_name?: string;
+  agency_id?: number | null;
+  agency_name?: string | null;
+  total_visits: NumericString;
+  /** Visits clocked in or out manually */
+  manual_override_visits: NumericString;
+  manual_override_percentage: NumericString | null;
+} & Record<ClockMethodCountColumn, NumericString>;
+
+/**
+ * `franchise-performance`: visit completion, overtime and late arrivals per franchisor
+ */
+export interface FranchisePerformanceRow {
+  id: number;
+  name: string;
+  total_visits: NumericString;
+  completed_visits: NumericString;
+  /** null for a franchisor without visits */
+  completion_percentage: NumericString | null;
+  total_overtime_minutes: NumericString;
+  late_arrivals: NumericString;
+  late_arrival_percentage: NumericString | null;
+}
+
+/**
+ * `detailed-comments`: visits whose caregiver comments are at least `minCharCount` characters long
+ */
+export interface DetailedCommentRow {
+  id: number;
+  general_comment_char_count: number;
+  start_datetime: Date | string;
+  end_datetime: Date | string;
+  status: CarelogStatus;
+  caregiver_name: string;
+  franchisor_name: string | null;
+  agency_name: string | null;
+}
+
+/** Any analytics row, as returned by an export */
+export type AnalyticsRow =
+  | TopCaregiverRank
+  | LowReliabilityRank
+  | OvertimeCaregiverRank
+  | WeeklyHoursRow
+  | ClockMethodBreakdown
+  | FranchisePerformanceRow
+  | DetailedCommentRow;
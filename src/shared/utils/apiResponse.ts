@@ -0,0 +1,85 @@
+import { Response } from 'express';
+import {
+  ApiErrorCode, ApiErrorResponse, ApiFieldError, ApiMessageResponse, ApiSuccessResponse, CursorPaginationMeta, errorCodeForStatus,
+  JobAccepted, PaginationMeta
+} from '../types/api-types';
+import { BackgroundJob } from '../../jobs/models/backgroundJob';
+
+/**
+ * Answer with `{ success: true, data }`
+ */
+export function sendData<T>(res: Response, data: T, status: number = 200): void {
+  const body: ApiSuccessResponse<T> = { success: true, data };
+  res.status(status).json(body);
+}
+
+/**
+ * Answer a list endpoint with its items and the pagination it was asked for
+ */
+export function sendPage<T>(res: Response, items: T[], page: { limit: number; offset: number; total?: number }): void {
+  const pagination: PaginationMeta = { limit: page.limit, offset: page.offset, count: items.length };
+  if (page.total !== undefined) {
+    pagination.total = page.total;
+  }
+  const body: ApiSuccessResponse<T[]> = { success: true, data: items, pagination };
+  res.json(body);
+}
+
+/**
+ * Answer a keyset list endpoint with its items and the cursors to the neighbouring pages
+ */
+export function sendCursorPage<T>(res: Response, items: T[], page: Omit<CursorPaginationMeta, 'count'>): void {
+  const pagination: CursorPaginationMeta = {
+    limit: page.limit,
+    count: items.length,
+    next_cursor: page.next_cursor,
+    prev_cursor: page.prev_cursor
+  };
+  if (page.total !== undefined) {
+    pagination.total = page.total;
+  }
+  const body: ApiSuccessResponse<T[]> = { success: true, data: items, pagination };
+  res.json(body);
+}
+
+export function sendMessage(res: Response, message: string): void {
+  const body: ApiMessageResponse = { success: true, message };
+  res.json(body);
+}
+
+/**
+ * Answer with `{ success: false, error, code }`; the code follows from the status
+ */
+export function sendError(res: Response, status: number, error: string, data?: unknown): void {
+  const body: ApiErrorResponse = { success: false, error, code: errorCodeForStatus(status) };
+  if (data !== undefined) {
+    body.data = data;
+  }
+  res.status(status).json(body);
+}
+
+/**
+ * Answer 400 with every invalid field, e.g. `Invalid request: query.limit must be between 1 and 100`
+ */
+export function sendValidationError(res: Response, errors: ApiFieldError[]): void {
+  const fields = errors.map(error => `${[error.location, error.field].filter(Boolean).join('.')} ${error.message}`);
+  const body: ApiErrorResponse = {
+    success: false,
+    error: `Invalid request: ${fields.join('; ')}`,
+    code: ApiErrorCode.VALIDATION_FAILED,
+    details: errors
+  };
+  res.status(400).json(body);
+}
+
+/**
+ * Answer `202` for a queued job, with a Location header pointing at its status
+ */
+export function sendAccepted(res: Response, job: Pick<BackgroundJob, 'id' | 'status'>): void {
+  const statusUrl = `/api/jobs/${job.id}`;
+  const body: ApiSuccessResponse<JobAccepted> = {
+    success: true,
+    data: { job_id: job.id, status: job.status, status_url: statusUrl }
+  };
+  res.status(202).location(statusUrl).json(body);
+}
@@ -0,0 +1,20 @@
+/**
+ * Render one value as a CSV cell, quoting it when it contains a delimiter, quote or line break
+ * Dates are written as ISO strings and objects as JSON
+ */
+export function toCSVValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line; columns default to the keys of the first row
+ */
+export function formatCSV(rows: Array<Record<string, any>>, columns: string[] = rows[0] ? Object.keys(rows[0]) : []): string {
+  const lines = [columns.map(toCSVValue).join(',')];
+  rows.forEach(row => lines.push(columns.map(column => toCSVValue(row[column])).join(',')));
+  return lines.join('\n') + '\n';
+}
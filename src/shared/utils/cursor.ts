@@ -0,0 +1,29 @@
+/**
+ * Opaque pagination cursors
+ * A cursor is base64url-encoded JSON; clients pass it back unchanged and must not rely on its contents
+ */
+
+export class CursorError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+  }
+}
+
+export function encodeCursor(payload: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor back to its payload; throws a CursorError for anything that is not a cursor this API issued
+ */
+export function decodeCursor(cursor: string): Record<string, unknown> {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+      return payload;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new CursorError('Invalid cursor');
+}
@@ -0,0 +1,6 @@
+/**
+ * Message of a caught value: the Error's message, or the value itself as text for anything thrown that is not an Error
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,195 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ApiFieldError, RequestLocation } from '../types/api-types';
+import { sendValidationError } from './apiResponse';
+
+export type FieldType = 'string' | 'integer' | 'number' | 'boolean' | 'date' | 'datetime' | 'email' | 'object';
+
+/**
+ * Declarative description of one request field
+ * Path and query values arrive as strings and are checked for what they parse to; body values must have the JSON type
+ */
+export interface FieldSchema {
+  type: FieldType;
+  required?: boolean;
+  /** Allow JSON null (body fields only) */
+  nullable?: boolean;
+  /** Allowed values of a string field */
+  enum?: readonly string[];
+  /** Bounds of a number, or of a string's length */
+  min?: number;
+  max?: number;
+  description?: string;
+}
+
+export type FieldSchemas = Record<string, FieldSchema>;
+
+/**
+ * Schema of a route: its path parameters, query string and JSON body
+ * Fields not listed are rejected, so a body cannot set columns the route does not expose
+ */
+export interface RequestSchema {
+  params?: FieldSchemas;
+  query?: FieldSchemas;
+  body?: FieldSchemas;
+  /** The body must set at least one field (partial updates) */
+  nonEmptyBody?: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)$/i;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)$/;
+
+/** Reusable path parameter schema of `/:id` routes */
+export const ID_PARAMS: FieldSchemas = {
+  id: { type: 'integer', required: true, min: 1 }
+};
+
+/**
+ * Express middleware answering 400 with every field error when the request does not match the schema
+ * Valid requests reach the controller unchanged
+ */
+export function validateRequest(schema: RequestSchema): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const errors = validateRequestParts(schema, req);
+    if (errors.length > 0) {
+      sendValidationError(res, errors);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Check the params, query and body of a request against a schema; returns every problem found (empty when valid)
+ */
+export function validateRequestParts(
+  schema: RequestSchema,
+  req: Pick<Request, 'params' | 'query' | 'body'>
+): ApiFieldError[] {
+  const errors: ApiFieldError[] = [];
+
+  if (schema.params) {
+    errors.push(...validateFields('params', schema.params, req.params || {}));
+  }
+  errors.push(...validateFields('query', schema.query || {}, req.query || {}));
+
+  if (schema.body) {
+    const body = req.body === undefined ? {} : req.body;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      errors.push({ location: 'body', field: '', message: 'must be a JSON object' });
+    } else {
+      errors.push(...validateFields('body', schema.body, body));
+      if (schema.nonEmptyBody && Object.keys(body).length === 0) {
+        errors.push({ location: 'body', field: '', message: `must set at least one of: ${Object.keys(schema.body).join(', ')}` });
+      }
+    }
+  }
+
+  return errors;
+}
+
+function validateFields(location: RequestLocation, fields: FieldSchemas, values: Record<string, any>): ApiFieldError[] {
+  const errors: ApiFieldError[] = [];
+
+  Object.keys(values)
+    .filter(field => !(field in fields))
+    .forEach(field => errors.push({ location, field, message: 'is not a recognized field' }));
+
+  Object.entries(fields).forEach(([field, fieldSchema]) => {
+    const value = values[field];
+    if (value === undefined || (location !== 'body' && value === '')) {
+      if (fieldSchema.required) {
+        errors.push({ location, field, message: 'is required' });
+      }
+      return;
+    }
+
+    const message = location === 'body' ? checkJSONValue(value, fieldSchema) : checkStringValue(value, fieldSchema);
+    if (message) {
+      errors.push({ location, field, message });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Check a path or query value, which must be a single string parsing to the field's type
+ */
+function checkStringValue(value: any, schema: FieldSchema): string | null {
+  if (typeof value !== 'string') {
+    return 'must be a single value';
+  }
+
+  switch (schema.type) {
+    case 'integer':
+      return INTEGER_PATTERN.test(value) ? checkRange(Number(value), schema) : 'must be an integer';
+    case 'number':
+      return NUMBER_PATTERN.test(value) ? checkRange(Number(value), schema) : 'must be a number';
+    case 'boolean':
+      return value === 'true' || value === 'false' ? null : 'must be true or false';
+    case 'object':
+      return 'must be an object';
+    default:
+      return checkString(value, schema);
+  }
+}
+
+/**
+ * Check a JSON body value, which must already have the field's type
+ */
+function checkJSONValue(value: any, schema: FieldSchema): string | null {
+  if (value === null) {
+    return schema.nullable ? null : 'must not be null';
+  }
+
+  switch (schema.type) {
+    case 'integer':
+      return Number.isInteger(value) ? checkRange(value, schema) : 'must be an integer';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? checkRange(value, schema) : 'must be a number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value) ? null : 'must be an object';
+    default:
+      return typeof value === 'string' ? checkString(value, schema) : 'must be a string';
+  }
+}
+
+function checkString(value: string, schema: FieldSchema): string | null {
+  switch (schema.type) {
+    case 'date':
+      if (!DATE_PATTERN.test(value) || isNaN(Date.parse(value))) return 'must be a date (YYYY-MM-DD)';
+      break;
+    case 'datetime':
+      if (!DATE_TIME_PATTERN.test(value) || isNaN(Date.parse(value))) return 'must be an ISO 8601 date-time with an offset (Z or +hh:mm)';
+      break;
+    case 'email':
+      if (!EMAIL_PATTERN.test(value)) return 'must be an email address';
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `must be one of: ${schema.enum.join(', ')}`;
+  }
+  if (schema.min !== undefined && value.length < schema.min) {
+    return schema.min === 1 ? 'must not be empty' : `must be at least ${schema.min} characters`;
+  }
+  if (schema.max !== undefined && value.length > schema.max) {
+    return `must be at most ${schema.max} characters`;
+  }
+  return null;
+}
+
+function checkRange(value: number, schema: FieldSchema): string | null {
+  if (schema.min !== undefined && value < schema.min) {
+    return schema.max !== undefined ? `must be between ${schema.min} and ${schema.max}` : `must be at least ${schema.min}`;
+  }
+  if (schema.max !== undefined && value > schema.max) {
+    return schema.min !== undefined ? `must be between ${schema.min} and ${schema.max}` : `must be at most ${schema.max}`;
+  }
+  return null;
+}
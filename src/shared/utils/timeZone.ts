@@ -0,0 +1,155 @@
+/** Explicit UTC offset or zone designator at the end of a date-time string */
+const OFFSET_SUFFIX = /(?:Z|[+-]\d{2}(?::?\d{2})?|\b(?:UTC|GMT))$/i;
+/** ISO-style local date or date-time without an offset (also the output of column mapping date formats) */
+const ISO_LOCAL = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+/**
+ * Zone used when neither the row, its location nor its agency names one (DEFAULT_TIME_ZONE, or UTC)
+ */
+export function defaultTimeZone(): string {
+  return process.env.DEFAULT_TIME_ZONE || 'UTC';
+}
+
+/**
+ * Whether `timeZone` is an IANA zone name the runtime knows (e.g. America/Chicago)
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a source date-time as an instant
+ * Values with an offset (Z, +02:00, GMT) are taken as-is; values without one are wall-clock
+ * times in `timeZone`. Wall times skipped by a DST change move forward by the gap, and wall
+ * times repeated when clocks go back resolve to the first occurrence
+ */
+export function parseDateTimeInZone(value: any, timeZone: string): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (value === null || value === undefined) return null;
+
+  const text = String(value).trim();
+  if (text === '') return null;
+
+  const iso = ISO_LOCAL.exec(text);
+  if (iso) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0', millisecond = '0'] = iso;
+    return wallTimeToUtc({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second),
+      millisecond: Number(millisecond.padEnd(3, '0'))
+    }, timeZone);
+  }
+
+  const parsed = new Date(text);
+  if (isNaN(parsed.getTime())) return null;
+  if (OFFSET_SUFFIX.test(text)) return parsed;
+
+  // Other formats (e.g. 1/31/2024 8:00 AM) are parsed by the runtime in its own zone; keep the wall clock
+  return wallTimeToUtc({
+    year: parsed.getFullYear(),
+    month: parsed.getMonth() + 1,
+    day: parsed.getDate(),
+    hour: parsed.getHours(),
+    minute: parsed.getMinutes(),
+    second: parsed.getSeconds(),
+    millisecond: parsed.getMilliseconds()
+  }, timeZone);
+}
+
+/**
+ * Parse a calendar date (birthdays, onboarding dates) as YYYY-MM-DD, without shifting it through a zone
+ */
+export function parseCalendarDate(value: any): string | null {
+  if (value === null || value === undefined || String(value).trim() === '') return null;
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const iso = value instanceof Date ? null : /^(\d{4})-(\d{2})-(\d{2})(?:$|[T ])/.exec(String(value).trim());
+  if (iso) {
+    const [, year, month, day] = iso.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? `${iso[1]}-${iso[2]}-${iso[3]}` : null;
+  }
+
+  const parsed = value instanceof Date ? value : new Date(String(value).trim());
+  if (isNaN(parsed.getTime())) return null;
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/**
+ * Instant at which the clocks in `timeZone` show `wall`
+ */
+function wallTimeToUtc(wall: WallTime, timeZone: string): Date | null {
+  const { year, month, day, hour, minute, second, millisecond } = wall;
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  const check = new Date(wallAsUtc);
+  if (isNaN(wallAsUtc) || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  // A day either side, the zone is on the offsets in force before and after any DST change near the wall time
+  const offsetBefore = zoneOffsetMs(wallAsUtc - DAY_MS, timeZone);
+  const offsetAfter = zoneOffsetMs(wallAsUtc + DAY_MS, timeZone);
+  const matches = [offsetBefore, offsetAfter]
+    .map(offset => wallAsUtc - offset)
+    .filter(instant => zoneOffsetMs(instant, timeZone) === wallAsUtc - instant);
+  if (matches.length > 0) {
+    // Two matches when clocks went back: the first occurrence
+    return new Date(Math.min(...matches));
+  }
+
+  // In a DST gap neither offset maps back onto the wall time; the offset from before the gap lands after it
+  return new Date(wallAsUtc - offsetBefore);
+}
+
+/**
+ * Offset of `timeZone` from UTC at `instant`, in milliseconds
+ */
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = formatterFor(timeZone).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  const localAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return localAsUtc - (instant - (((instant % 1000) + 1000) % 1000));
+}
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
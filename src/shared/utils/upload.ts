@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { Request } from 'express';
+import busboy from 'busboy';
+import { errorMessage } from './errors';
+
+/** Default upload limit; override with UPLOAD_MAX_BYTES */
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+/** Bytes inspected before the file is accepted as CSV */
+const SNIFF_BYTES = 8 * 1024;
+
+/** Signatures of files that are commonly uploaded by mistake instead of a CSV export */
+const BINARY_SIGNATURES: Array<{ bytes: number[]; description: string }> = [
+  { bytes: [0x50, 0x4b, 0x03, 0x04], description: 'an Excel workbook (.xlsx) or ZIP archive' },
+  { bytes: [0xd0, 0xcf, 0x11, 0xe0], description: 'an Excel 97-2003 workbook (.xls)' },
+  { bytes: [0x25, 0x50, 0x44, 0x46], description: 'a PDF document' },
+  { bytes: [0x1f, 0x8b], description: 'a gzip archive' },
+  { bytes: [0x89, 0x50, 0x4e, 0x47], description: 'a PNG image' },
+  { bytes: [0xff, 0xd8, 0xff], description: 'a JPEG image' }
+];
+
+/**
+ * Rejected upload, with the HTTP status to answer with (400, 413 or 415)
+ */
+export class UploadError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+export interface ReceivedUpload {
+  /** Spooled file on disk; the caller removes it once processed */
+  path: string;
+  originalName: string;
+  size: number;
+  /** Text fields sent alongside the file */
+  fields: Record<string, string>;
+}
+
+export interface UploadOptions {
+  /** Name of the file field (default `file`) */
+  fieldName?: string;
+  maxBytes?: number;
+  /** Directory the file is spooled to (default UPLOAD_DIR, or a temp directory) */
+  uploadDir?: string;
+}
+
+/**
+ * Directory uploads are spooled to; workers running queued uploads must be able to read it
+ */
+export function uploadDirectory(): string {
+  return process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'zingage-uploads');
+}
+
+/**
+ * Receive one CSV file from a multipart/form-data request and spool it to disk
+ * The body is streamed: the size limit is enforced while reading, and the first bytes are
+ * sniffed so spreadsheets, archives and other binary files are rejected before they are stored
+ */
+export function receiveCSVUpload(req: Request, options: UploadOptions = {}): Promise<ReceivedUpload> {
+  const fieldName = options.fieldName || 'file';
+  const maxBytes = options.maxBytes ?? (parseInt(process.env.UPLOAD_MAX_BYTES || '', 10) || DEFAULT_MAX_BYTES);
+  const uploadDir = options.uploadDir || uploadDirectory();
+
+  return new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({ headers: req.headers, limits: { fileSize: maxBytes, files: 1, fields: 20 } });
+    } catch (error) {
+      reject(new UploadError(`Expected a multipart/form-data upload: ${errorMessage(error)}`, 400));
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    let failure: UploadError | null = null;
+    let upload: Promise<ReceivedUpload> | null = null;
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (name, file, info) => {
+      if (name !== fieldName || upload) {
+        file.resume();
+        return;
+      }
+
+      fs.mkdirSync(uploadDir, { recursive: true });
+      const filePath = path.join(uploadDir, `${randomUUID()}.csv`);
+      upload = spoolCSV(file, filePath, maxBytes).then(size => ({
+        path: filePath,
+        originalName: info.filename,
+        size,
+        fields
+      }));
+      upload.catch(error => {
+        failure = error;
+      });
+    });
+
+    parser.on('filesLimit', () => {
+      failure = failure || new UploadError('Only one file can be uploaded at a time', 400);
+    });
+
+    parser.on('error', (error: Error) => {
+      reject(new UploadError(`Malformed upload: ${error.message}`, 400));
+    });
+
+    parser.on('close', async () => {
+      if (!upload) {
+        reject(new UploadError(`No file uploaded; send the CSV in the '${fieldName}' field`, 400));
+        return;
+      }
+
+      try {
+        const received = await upload;
+        if (failure) {
+          fs.rmSync(received.path, { force: true });
+          reject(failure);
+          return;
+        }
+        resolve(received);
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    req.pipe(parser);
+  });
+}
+
+/**
+ * Write an uploaded file to disk once its first bytes pass the CSV sniff
+ * A rejected file is drained (so the request completes) and nothing is left on disk
+ */
+function spoolCSV(file: Readable, filePath: string, maxBytes: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let head = Buffer.alloc(0);
+    let out: fs.WriteStream | null = null;
+    let failure: UploadError | null = null;
+    let size = 0;
+
+    const fail = (error: UploadError) => {
+      if (failure) return;
+      failure = error;
+      if (out) {
+        out.destroy();
+        fs.rmSync(filePath, { force: true });
+      }
+      // Keep reading (and discarding) so the rest of the request is consumed
+      file.resume();
+    };
+
+    const open = (firstChunk: Buffer) => {
+      const problem = sniffCSV(firstChunk);
+      if (problem) {
+        fail(new UploadError(problem, firstChunk.length === 0 ? 400 : 415));
+        return;
+      }
+      out = fs.createWriteStream(filePath);
+      out.on('error', error => fail(new UploadError(`Could not store upload: ${error.message}`, 500)));
+      out.write(firstChunk);
+    };
+
+    file.on('data', (chunk: Buffer) => {
+      if (failure) return;
+      size += chunk.length;
+
+      if (!out) {
+        head = Buffer.concat([head, chunk]);
+        if (head.length >= SNIFF_BYTES) open(head);
+        return;
+      }
+      if (!out.write(chunk)) {
+        file.pause();
+        out.once('drain', () => file.resume());
+      }
+    });
+
+    file.on('limit', () => {
+      fail(new UploadError(`File is larger than the upload limit of ${formatBytes(maxBytes)}`, 413));
+    });
+
+    file.on('end', () => {
+      if (!failure && !out) {
+        open(head);
+      }
+      if (failure) {
+        reject(failure);
+        return;
+      }
+
+      const stream = out!;
+      stream.end(() => failure ? reject(failure) : resolve(size));
+    });
+  });
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(0)} MB` : `${(bytes / 1024).toFixed(0)} KB`;
+}
+
+/**
+ * Check that the first bytes of an upload look like a CSV file; returns the problem, or null
+ */
+export function sniffCSV(head: Buffer): string | null {
+  if (head.length === 0) {
+    return 'Uploaded file is empty';
+  }
+
+  const match = BINARY_SIGNATURES.find(({ bytes }) => bytes.every((byte, i) => head[i] === byte));
+  if (match) {
+    return `Uploaded file is ${match.description}, not a CSV file; export the data as CSV`;
+  }
+  if (head.includes(0)) {
+    return 'Uploaded file is binary, not a CSV file';
+  }
+
+  let text: string;
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of the sniffed bytes
+    text = new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+  } catch {
+    return 'Uploaded file is not UTF-8 text; save the CSV as UTF-8';
+  }
+
+  const headerLine = text.replace(/^\uFEFF/, '').split(/\r?\n/)[0];
+  if (!headerLine.includes(',')) {
+    return 'Uploaded file does not look like a CSV file: the first line must be a comma-separated header';
+  }
+
+  return null;
+}